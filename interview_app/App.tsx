@@ -1,8 +1,31 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { TranscriptionStatus } from './types';
-import { startLiveTranscription, isTextAQuestionAsync } from './services/geminiService';
-import { searchMemories, MemorySearchResult } from './services/vectorSearchService';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Phrase, Speaker, TranscriptionStatus } from './types';
+import { startLiveTranscription, createQuestionDetector, defaultTranscriptionProvider, dualSourceTranscriptionProvider } from './services/geminiService';
+import { LiveTranscriptionCallbacks, latestCallbacks } from './services/transcriptionProvider';
+import { DETECTION_KEYWORD_PACKS, DETECTORS, DetectionKeywords, DetectorName } from './services/questionDetection';
+import { LANGUAGES, LanguageCode } from './services/languages';
+import { searchMemoriesWithQuery, MemorySearchResult } from './services/vectorSearchService';
+import { ConversationContext, createConversationWindow } from './services/conversationContext';
+import { openLiveRetrievalChannel, LiveRetrievalChannel } from './services/liveRetrievalService';
+import { createReplayProvider, loadReplaySource, ReplaySource } from './services/replayProvider';
+import { loadActiveProfileId, loadSavedProfiles, saveProfiles, setActiveProfile, SavedProfile } from './services/profileService';
+import { buildSessionReport, saveSessionReport } from './services/sessionReport';
+import { JobPrep, loadJobPrep, saveJobPrep } from './services/jobPrepService';
+import { shortcutFor, ShortcutAction } from './services/keyboardShortcuts';
+import { AppSettings, applyServerDefaults, fetchServerConfig, getSettings, MAX_RESULTS_LIMIT, MIN_SIDEBAR_WIDTH, resetSettings, updateSettings } from './services/settingsService';
+import { createSessionRecord, exportSession, parseSessionJSON, EXPORT_FORMATS, ExportFormat } from './services/sessionExport';
 import StatusIndicator from './components/StatusIndicator';
+import VaultView from './components/VaultView';
+import StarDraftPanel from './components/StarDraftPanel';
+import DetectionSettings from './components/DetectionSettings';
+import SettingsPanel from './components/SettingsPanel';
+import MemoryCard from './components/MemoryCard';
+import ManualSearch from './components/ManualSearch';
+import ShortcutHelp from './components/ShortcutHelp';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ReportView from './components/ReportView';
+import PracticeView from './components/PracticeView';
+import JobPrepView from './components/JobPrepView';
 
 const MicIcon: React.FC<{className?: string}> = ({ className }) => (
   <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
@@ -19,30 +42,107 @@ const StopIcon: React.FC<{className?: string}> = ({ className }) => (
   </svg>
 );
 
-interface Phrase {
-  id: number;
-  text: string;
-  isFinal: boolean;
-  isQuestion: boolean;
-  questionGroupId?: number; // Links phrases that are part of the same question
-  searchResults?: MemorySearchResult[]; // Search results for this question
-}
+type AppView = 'transcript' | 'prep' | 'practice' | 'vault' | 'report';
+
+// 'mic' tags everything as the interviewer; 'dual' hears the interviewer through a shared tab
+type CaptureMode = 'mic' | 'dual';
+
+const SPEAKER_LABELS: Record<Speaker, string> = { interviewer: 'Interviewer', candidate: 'You' };
 
 function App() {
+  const [view, setView] = useState<AppView>('transcript');
   const [status, setStatus] = useState<TranscriptionStatus>(TranscriptionStatus.IDLE);
   const [phrases, setPhrases] = useState<Phrase[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [sidebarWidth, setSidebarWidth] = useState(384); // 384px = w-96
-  const [minThreshold, setMinThreshold] = useState(0.5); // Minimum match score (0-1)
-  const [maxResults, setMaxResults] = useState(3); // Number of results to show
+  // Persisted in this browser; the header controls and the settings panel both change them
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const { sidebarWidth, minThreshold, maxResults, detector: detectorName, language } = settings;
+  const [replaySource, setReplaySource] = useState<ReplaySource | null>(null); // Replaces the mic when set
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('mic');
+  const [detectionKeywords, setDetectionKeywords] = useState<DetectionKeywords>(() => DETECTION_KEYWORD_PACKS[getSettings().language]);
+  const [showDetectionSettings, setShowDetectionSettings] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Memories kept at the top of the sidebar until the next session starts
+  const [pinnedMemories, setPinnedMemories] = useState<MemorySearchResult[]>([]);
+  // Expanded memory cards, keyed by `${section}:${memoryId}`
+  const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+  // The question group selected with the keyboard
+  const [focusedGroupId, setFocusedGroupId] = useState<number | null>(null);
+  const [manualSearch, setManualSearch] = useState<{ query: string; results: MemorySearchResult[] } | null>(null);
+  const [inputLevels, setInputLevels] = useState<Partial<Record<Speaker, number>>>({});
+  const [profiles, setProfiles] = useState<SavedProfile[]>(loadSavedProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(loadActiveProfileId);
+  const [reportHistoryVersion, setReportHistoryVersion] = useState(0); // Bumped when a session report is saved
+  // The active profile's job description prep; memories matching its competencies are favoured in searches
+  const [jobPrep, setJobPrep] = useState<JobPrep | null>(() => loadJobPrep(loadActiveProfileId()));
+  const focusIds = jobPrep?.focusIds;
+
+  // Rebuilt when the mode or keywords change; a running session picks it up from the next sentence
+  // through `transcriptionCallbacksRef`
+  const detector = useMemo(
+    () => createQuestionDetector(detectorName, detectionKeywords, language, settings.detectionModel),
+    [detectorName, detectionKeywords, language, settings.detectionModel],
+  );
 
   const liveSessionRef = useRef<{ stop: () => void } | null>(null);
+  // Recent sentences and surfaced memories, sent with each search so follow-ups are searched in context
+  const conversationRef = useRef(createConversationWindow());
+  const retrievalChannelRef = useRef<LiveRetrievalChannel | null>(null);
+  // Pushed results arrive outside React's render cycle, so they read the current threshold from here
+  const minThresholdRef = useRef(minThreshold);
   const transcriptEndRef = useRef<HTMLDivElement>(null);
   const phraseIdCounter = useRef(0);
-  const currentQuestionGroup = useRef<number | null>(null);
+  // Each speaker's sentences are accumulated separately so interleaved speech doesn't merge
+  const currentQuestionGroup = useRef<Record<Speaker, number | null>>({ interviewer: null, candidate: null });
   const questionGroupCounter = useRef(0);
-  const accumulatedText = useRef<string>('');
+  const accumulatedText = useRef<Record<Speaker, string>>({ interviewer: '', candidate: '' });
   const isResizing = useRef(false);
+  const sidebarWidthRef = useRef(sidebarWidth);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const sessionStartedAt = useRef<Date>(new Date());
+  const sessionSource = useRef<string>(defaultTranscriptionProvider.name);
+
+  useEffect(() => {
+    minThresholdRef.current = minThreshold;
+  }, [minThreshold]);
+
+  // Saves a settings change; invalid values, like a half-typed number, are not applied
+  const changeSettings = useCallback((changes: Partial<AppSettings>) => {
+    try {
+      setSettings(updateSettings(changes));
+    } catch (err) {
+      console.warn('Ignoring invalid settings:', err instanceof Error ? err.message : err);
+    }
+  }, []);
+
+  // The backend's defaults apply to every setting the user hasn't changed themselves
+  useEffect(() => {
+    fetchServerConfig()
+      .then(config => setSettings(applyServerDefaults(config)))
+      .catch(err => console.warn('Could not load the backend configuration:', err));
+  }, []);
+
+  // A new interview language brings its own keyword pack, replacing any edited lists
+  useEffect(() => {
+    setDetectionKeywords(DETECTION_KEYWORD_PACKS[language]);
+  }, [language]);
+
+  // Keep the backend's detector, language, result count and job focus in step with the header controls and prep
+  useEffect(() => {
+    retrievalChannelRef.current?.configure({ detector: detectorName, language, keywords: detectionKeywords, limit: maxResults, focusIds: focusIds ?? [] });
+  }, [detectorName, language, detectionKeywords, maxResults, focusIds]);
+
+  useEffect(() => {
+    setJobPrep(loadJobPrep(activeProfileId));
+  }, [activeProfileId]);
+
+  const changeJobPrep = (prep: JobPrep | null) => {
+    if (activeProfileId) saveJobPrep(activeProfileId, prep);
+    setJobPrep(prep);
+  };
 
   const scrollToBottom = () => {
     transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -52,22 +152,112 @@ function App() {
     scrollToBottom();
   }, [phrases]);
 
-  const onTranscriptionUpdate = useCallback((text: string, isFinal: boolean) => {
+  // Mark all phrases in a question group and attach its search results (and the query it was searched as,
+  // when a follow-up was rewritten or the question translated)
+  const markQuestionGroup = useCallback((
+    groupId: number,
+    searchResults?: MemorySearchResult[],
+    searchQuery?: string,
+    translatedFrom?: LanguageCode,
+  ) => {
+    setPhrases((prevPhrases) => {
+      return prevPhrases.map(phrase => {
+        // Update phrases that are part of this question group
+        if (phrase.questionGroupId === groupId) {
+          return {
+            ...phrase,
+            isQuestion: true,
+            searchResults: searchResults ?? phrase.searchResults,
+            searchQuery: searchQuery ?? phrase.searchQuery,
+            translatedFrom: translatedFrom ?? phrase.translatedFrom,
+          };
+        }
+        return phrase;
+      });
+    });
+  }, []);
+
+  // Searches the vault for a question and attaches the results above the threshold to its group
+  const searchQuestion = useCallback(async (groupId: number, text: string, context: ConversationContext) => {
     // Capture current values to use in async callback
     const currentMaxResults = maxResults;
     const currentMinThreshold = minThreshold;
+
+    // Query the database for relevant memories
+    let searchResults: MemorySearchResult[] = [];
+    let searchQuery: string | undefined;
+    let translatedFrom: LanguageCode | undefined;
+    try {
+      console.log('🔍 Searching database for:', text, 'with limit:', currentMaxResults);
+      const response = await searchMemoriesWithQuery(text, currentMaxResults, { context, focusIds, language });
+      // Filter by minimum threshold
+      searchResults = response.results.filter(result => result.score >= currentMinThreshold);
+      if (response.rewritten || response.translatedFrom) {
+        searchQuery = response.query;
+        translatedFrom = response.translatedFrom;
+        console.log('↪️ Searched as:', searchQuery);
+      }
+      conversationRef.current.addMemories(searchResults.map(result => result.id));
+      console.log('✅ Found', searchResults.length, 'relevant memories (filtered by threshold)');
+    } catch (error) {
+      console.error('❌ Error searching memories:', error);
+    }
+
+    markQuestionGroup(groupId, searchResults, searchQuery, translatedFrom);
+  }, [maxResults, minThreshold, focusIds, language, markQuestionGroup]);
+
+  // Closes the speaker's current sentence: the interviewer's are checked for questions and searched
+  const endSentence = useCallback((speaker: Speaker) => {
+    const groupId = currentQuestionGroup.current[speaker];
+    const fullText = accumulatedText.current[speaker];
+    // Reset for next question/statement
+    accumulatedText.current[speaker] = '';
+    currentQuestionGroup.current[speaker] = null;
+    if (groupId === null || !fullText.trim()) return;
+
+    const channel = retrievalChannelRef.current;
+    // The conversation before this sentence; both speakers' sentences become context for later follow-ups
+    const context = conversationRef.current.snapshot();
+    conversationRef.current.addTurn(speaker, fullText);
+
+    // Only the interviewer asks questions; the candidate's own answers never trigger a search.
+    if (speaker === 'interviewer' && channel?.isOpen()) {
+      // The backend detects and searches, then pushes the verdict and results for this group
+      channel.sendSegment(groupId, fullText, context);
+    } else if (speaker === 'interviewer') {
+      // Fallback without the live channel: detect locally and search per request
+      detector.detect(fullText).then(({ isQuestion: isCurrentTextQuestion }) => {
+        if (isCurrentTextQuestion) {
+          searchQuestion(groupId, fullText, context);
+        }
+      });
+    }
+  }, [detector, searchQuestion]);
+
+  // Manual override for a sentence detection missed; searched like any detected question
+  const markAsQuestion = useCallback((groupId: number) => {
+    const group = phrases.filter(p => p.questionGroupId === groupId);
+    const text = group.map(p => p.text).join('').trim();
+    if (!text || group.some(p => p.isQuestion)) return;
+
+    console.log('✋ Marked as a question:', text);
+    markQuestionGroup(groupId);
+    searchQuestion(groupId, text, conversationRef.current.snapshot());
+  }, [phrases, markQuestionGroup, searchQuestion]);
+
+  const onTranscriptionUpdate = useCallback((text: string, isFinal: boolean, speaker: Speaker) => {
     // Check if this chunk contains sentence-ending punctuation
     const hasPunctuation = /[.?!]/.test(text);
 
     // Create or continue a question group for related phrases
-    if (currentQuestionGroup.current === null) {
-      currentQuestionGroup.current = questionGroupCounter.current++;
+    if (currentQuestionGroup.current[speaker] === null) {
+      currentQuestionGroup.current[speaker] = questionGroupCounter.current++;
     }
 
-    const groupId = currentQuestionGroup.current;
+    const groupId = currentQuestionGroup.current[speaker]!;
 
     // Accumulate text across updates within the same group (text already has spaces)
-    accumulatedText.current += text;
+    accumulatedText.current[speaker] += text;
 
     // Add this chunk to the display IMMEDIATELY (no await)
     setPhrases((prevPhrases) => {
@@ -78,6 +268,8 @@ function App() {
           text,
           isFinal,
           isQuestion: false,
+          timestamp: Date.now() - sessionStartedAt.current.getTime(),
+          speaker,
           questionGroupId: groupId,
         },
       ];
@@ -85,69 +277,119 @@ function App() {
 
     // When sentence ends (punctuation detected), check if accumulated text is a question
     if (hasPunctuation) {
-      const fullText = accumulatedText.current;
+      endSentence(speaker);
+    }
+  }, [endSentence]);
 
-      // Run question detection in background without blocking
-      isTextAQuestionAsync(fullText).then(async isCurrentTextQuestion => {
-        if (isCurrentTextQuestion) {
-          // Query the database for relevant memories
-          let searchResults: MemorySearchResult[] = [];
-          try {
-            console.log('🔍 Searching database for:', fullText, 'with limit:', currentMaxResults);
-            const allResults = await searchMemories(fullText, currentMaxResults);
-            // Filter by minimum threshold
-            searchResults = allResults.filter(result => result.score >= currentMinThreshold);
-            console.log('✅ Found', searchResults.length, 'relevant memories (filtered by threshold)');
-          } catch (error) {
-            console.error('❌ Error searching memories:', error);
-          }
+  // A reconnected session starts transcribing from scratch, so a sentence cut off by the drop
+  // is closed as-is rather than merged with whatever the new session hears first
+  const onReconnect = useCallback((speaker: Speaker) => {
+    console.warn(`🔌 Live session for the ${speaker} reconnected`);
+    endSentence(speaker);
+  }, [endSentence]);
 
-          // Mark all phrases in this question group and add search results
-          setPhrases((prevPhrases) => {
-            return prevPhrases.map(phrase => {
-              // Update phrases that are part of this question group
-              if (phrase.questionGroupId === groupId) {
-                return {
-                  ...phrase,
-                  isQuestion: true,
-                  searchResults,
-                };
-              }
-              return phrase;
-            });
-          });
-        }
-      });
+  // A session keeps the callbacks it was started with, so it is given ones that forward here;
+  // updating this on every render lets the latest detector and search settings apply mid-session
+  const transcriptionCallbacksRef = useRef<LiveTranscriptionCallbacks>(null!);
+  transcriptionCallbacksRef.current = {
+    onTranscriptionUpdate,
+    onReconnect,
+    onStatusUpdate: setStatus,
+    onInputLevel: (level, speaker) => setInputLevels(prev => ({ ...prev, [speaker]: level })),
+    onError: (e: Error) => {
+      console.error(e);
+      setError(`An error occurred: ${e.message}`);
+      setStatus(TranscriptionStatus.ERROR);
+    },
+  };
 
-      // Reset for next question/statement
-      accumulatedText.current = '';
-      currentQuestionGroup.current = null;
-    }
-  }, [maxResults, minThreshold]);
+  const selectProfile = (profile: SavedProfile | null) => {
+    setActiveProfile(profile);
+    setActiveProfileId(profile?.id ?? null);
+  };
+
+  const handleAddProfile = (profile: SavedProfile) => {
+    const updated = [...profiles.filter(p => p.id !== profile.id), profile];
+    saveProfiles(updated);
+    setProfiles(updated);
+    selectProfile(profile);
+  };
+
+  const handleRemoveProfile = (profileId: string) => {
+    const updated = profiles.filter(p => p.id !== profileId);
+    saveProfiles(updated);
+    setProfiles(updated);
+    saveJobPrep(profileId, null);
+    if (profileId === activeProfileId) selectProfile(updated[0] ?? null);
+  };
+
+  const resetSidebar = () => {
+    setPinnedMemories([]);
+    setExpandedCards(new Set());
+    setFocusedGroupId(null);
+    setManualSearch(null);
+  };
 
   const handleStart = async () => {
     setError(null);
     setPhrases([]);
+    setInputLevels({});
     phraseIdCounter.current = 0;
-    currentQuestionGroup.current = null;
+    currentQuestionGroup.current = { interviewer: null, candidate: null };
     questionGroupCounter.current = 0;
-    accumulatedText.current = '';
+    accumulatedText.current = { interviewer: '', candidate: '' };
+    conversationRef.current.reset();
+    resetSidebar();
+    sessionStartedAt.current = new Date();
 
     if (liveSessionRef.current) {
       liveSessionRef.current.stop();
       liveSessionRef.current = null;
     }
 
+    retrievalChannelRef.current?.close();
+    retrievalChannelRef.current = null;
     try {
-      const sessionControl = await startLiveTranscription({
-        onTranscriptionUpdate,
-        onStatusUpdate: setStatus,
-        onError: (e: Error) => {
-          console.error(e);
-          setError(`An error occurred: ${e.message}`);
-          setStatus(TranscriptionStatus.ERROR);
-        }
+      retrievalChannelRef.current = await openLiveRetrievalChannel({
+        onVerdict: (groupId, verdict) => {
+          if (verdict.isQuestion) {
+            console.log(`🎯 Question detected by the backend (${verdict.reason})`);
+            markQuestionGroup(groupId);
+          }
+        },
+        onRewrite: (groupId, query, reason) => {
+          console.log(`↪️ Follow-up (${reason}) searched as:`, query);
+          markQuestionGroup(groupId, undefined, query);
+        },
+        onTranslation: (groupId, query, from) => {
+          console.log(`🌐 Translated from ${LANGUAGES[from].label}, searched as:`, query);
+          markQuestionGroup(groupId, undefined, query, from);
+        },
+        onResults: (groupId, results, isFinal) => {
+          // Vector-only results arrive first; the fused set replaces them
+          const shown = results.filter(result => result.score >= minThresholdRef.current);
+          markQuestionGroup(groupId, shown);
+          if (isFinal) {
+            conversationRef.current.addMemories(shown.map(result => result.id));
+            console.log('✅ Found', results.length, 'relevant memories for group', groupId);
+          }
+        },
+        onClose: () => {
+          console.warn('Live retrieval channel closed; falling back to per-request search');
+          retrievalChannelRef.current = null;
+        },
       });
+      retrievalChannelRef.current.configure({ detector: detectorName, language, keywords: detectionKeywords, limit: maxResults, focusIds: focusIds ?? [] });
+    } catch (e) {
+      console.warn('Live retrieval channel unavailable; using per-request search', e);
+    }
+
+    try {
+      const provider = replaySource
+        ? createReplayProvider(replaySource)
+        : (captureMode === 'dual' ? dualSourceTranscriptionProvider : defaultTranscriptionProvider);
+      sessionSource.current = provider.name;
+      const sessionControl = await startLiveTranscription(latestCallbacks(transcriptionCallbacksRef), provider);
       liveSessionRef.current = sessionControl;
     } catch (e) {
       console.error("Failed to initialize transcription service", e);
@@ -156,11 +398,71 @@ function App() {
     }
   };
 
+  const currentSessionRecord = () => createSessionRecord(
+    phrases,
+    { minThreshold, maxResults },
+    sessionStartedAt.current,
+    sessionSource.current,
+  );
+
   const handleStop = () => {
+    retrievalChannelRef.current?.close();
+    retrievalChannelRef.current = null;
     if (liveSessionRef.current) {
       liveSessionRef.current.stop();
       liveSessionRef.current = null;
       setStatus(TranscriptionStatus.STOPPED);
+
+      // Keep the session's report for cross-session analytics
+      const report = buildSessionReport(currentSessionRecord());
+      if (report.questions.length > 0) {
+        saveSessionReport(report)
+          .then(() => setReportHistoryVersion(version => version + 1))
+          .catch(err => console.error('Failed to save the session report', err));
+      }
+    }
+  };
+
+  const handleReplayFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      setReplaySource(await loadReplaySource(file));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load replay file', err);
+      setError(`Failed to load replay file: ${(err as Error).message}`);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    exportSession(currentSessionRecord(), format);
+  };
+
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const record = parseSessionJSON(await file.text());
+      setPhrases(record.phrases);
+      changeSettings({ minThreshold: record.settings.minThreshold, maxResults: record.settings.maxResults });
+      sessionStartedAt.current = new Date(record.startedAt);
+      sessionSource.current = record.source;
+      phraseIdCounter.current = record.phrases.reduce((max, p) => Math.max(max, p.id + 1), 0);
+      questionGroupCounter.current = record.phrases.reduce((max, p) => Math.max(max, (p.questionGroupId ?? -1) + 1), 0);
+      currentQuestionGroup.current = { interviewer: null, candidate: null };
+      accumulatedText.current = { interviewer: '', candidate: '' };
+      conversationRef.current.reset();
+      resetSidebar();
+      setStatus(TranscriptionStatus.STOPPED);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to import session', err);
+      setError(`Failed to import session: ${(err as Error).message}`);
     }
   };
 
@@ -168,6 +470,7 @@ function App() {
     // Cleanup on unmount
     return () => {
       liveSessionRef.current?.stop();
+      retrievalChannelRef.current?.close();
     };
   }, []);
 
@@ -181,14 +484,18 @@ function App() {
     if (!isResizing.current) return;
 
     const newWidth = window.innerWidth - e.clientX - 16; // 16px for padding
-    if (newWidth >= 200) { // Only minimum constraint to keep it usable
-      setSidebarWidth(newWidth);
+    if (newWidth >= MIN_SIDEBAR_WIDTH) { // Only minimum constraint to keep it usable
+      sidebarWidthRef.current = newWidth;
+      setSettings(prev => ({ ...prev, sidebarWidth: newWidth }));
     }
   }, []);
 
   const handleMouseUp = () => {
+    if (!isResizing.current) return;
     isResizing.current = false;
     document.body.style.cursor = 'default';
+    // Saved once the drag ends rather than on every move
+    changeSettings({ sidebarWidth: sidebarWidthRef.current });
   };
 
   useEffect(() => {
@@ -201,7 +508,15 @@ function App() {
     };
   }, [handleMouseMove]);
 
-  const isListening = status === TranscriptionStatus.LISTENING || status === TranscriptionStatus.CONNECTING;
+  const isListening = [
+    TranscriptionStatus.LISTENING,
+    TranscriptionStatus.CONNECTING,
+    TranscriptionStatus.RECONNECTING,
+    TranscriptionStatus.DEGRADED,
+  ].includes(status);
+
+  // Speaker labels are only worth showing once the candidate has been heard
+  const hasCandidateSpeech = phrases.some(p => p.speaker === 'candidate');
 
   // Generate a consistent color for each question group
   const getQuestionColor = (groupId: number) => {
@@ -226,11 +541,131 @@ function App() {
       return acc;
     }, [] as Phrase[]);
 
+  const groupText = (groupId: number) => phrases.filter(p => p.questionGroupId === groupId).map(p => p.text).join('');
+
+  const isPinned = (result: MemorySearchResult) => pinnedMemories.some(m => m.id === result.id);
+
+  const togglePin = (result: MemorySearchResult) => {
+    setPinnedMemories(prev => prev.some(m => m.id === result.id)
+      ? prev.filter(m => m.id !== result.id)
+      : [...prev, result]);
+  };
+
+  // Expands the cards, or collapses them if they're all expanded already
+  const toggleExpanded = (keys: string[]) => {
+    setExpandedCards(prev => {
+      const next = new Set(prev);
+      const expand = keys.some(key => !prev.has(key));
+      keys.forEach(key => (expand ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
+
+  // Shortcuts act on the question group selected with J/K, or the latest one
+  const handleShortcut = (action: ShortcutAction): boolean => {
+    const dialogOpen = showSettings || showDetectionSettings || showShortcuts;
+    if (action === 'dismiss') {
+      if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+      setShowSettings(false);
+      setShowDetectionSettings(false);
+      setShowShortcuts(false);
+      setFocusedGroupId(null);
+      return true;
+    }
+    if (dialogOpen) return false;
+    if (action === 'showHelp') {
+      setShowShortcuts(true);
+      return true;
+    }
+    if (view !== 'transcript') return false;
+
+    const groupIds = questionsWithResults.map(p => p.questionGroupId!);
+    const focusedIndex = focusedGroupId === null ? -1 : groupIds.indexOf(focusedGroupId);
+    const target = questionsWithResults[focusedIndex] ?? questionsWithResults[questionsWithResults.length - 1];
+
+    switch (action) {
+      case 'toggleSession':
+        if (isListening) handleStop();
+        else handleStart();
+        return true;
+      case 'nextQuestion':
+        if (groupIds.length) setFocusedGroupId(groupIds[Math.min(focusedIndex + 1, groupIds.length - 1)]);
+        return true;
+      case 'previousQuestion':
+        if (groupIds.length) setFocusedGroupId(groupIds[focusedIndex === -1 ? groupIds.length - 1 : Math.max(focusedIndex - 1, 0)]);
+        return true;
+      case 'toggleExpand':
+        if (target) toggleExpanded(target.searchResults!.map(result => `${target.questionGroupId}:${result.id}`));
+        return true;
+      case 'togglePin':
+        if (target) togglePin(target.searchResults![0]);
+        return true;
+      case 'markQuestion': {
+        const latest = phrases.findLast(p => p.questionGroupId !== undefined);
+        if (latest) markAsQuestion(latest.questionGroupId!);
+        return true;
+      }
+      case 'focusSearch':
+        searchInputRef.current?.focus();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // The listener is registered once and always calls the latest handler
+  const shortcutHandlerRef = useRef(handleShortcut);
+  shortcutHandlerRef.current = handleShortcut;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = shortcutFor(e);
+      if (action && shortcutHandlerRef.current(action)) e.preventDefault();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (focusedGroupId !== null) {
+      document.getElementById(`context-${focusedGroupId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [focusedGroupId]);
+
   return (
     <div className="h-screen bg-gray-900 text-gray-100 flex flex-col p-4 font-sans overflow-hidden">
       {/* Top Bar */}
       <header className="flex items-center justify-between mb-4 px-4 py-3 bg-gray-800 rounded-lg border border-gray-700">
-        <h1 className="text-2xl font-bold text-white">OnCue</h1>
+        <div className="flex items-center space-x-6">
+          <h1 className="text-2xl font-bold text-white">OnCue</h1>
+          <nav className="flex space-x-1 bg-gray-900 rounded-lg p-1">
+            {([['transcript', 'Transcription'], ['prep', 'Job Prep'], ['practice', 'Practice'], ['vault', 'Vault'], ['report', 'Report']] as [AppView, string][]).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={`px-3 py-1 rounded text-sm font-medium ${view === id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </nav>
+          {/* Vault Profile Control; the live channel is bound to the profile it opened with */}
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            onSelect={(profileId) => selectProfile(profiles.find(p => p.id === profileId) ?? null)}
+            onAdd={handleAddProfile}
+            onRemove={handleRemoveProfile}
+            disabled={isListening}
+          />
+          <button
+            onClick={() => setShowSettings(true)}
+            className="text-sm text-gray-400 hover:text-gray-200"
+            title="Backend URL, detection, results and models; saved in this browser"
+          >
+            Settings
+          </button>
+        </div>
 
         <div className="flex items-center space-x-6">
           {/* Match Threshold Control */}
@@ -241,7 +676,7 @@ function App() {
               min="0"
               max="100"
               value={minThreshold * 100}
-              onChange={(e) => setMinThreshold(parseFloat(e.target.value) / 100)}
+              onChange={(e) => changeSettings({ minThreshold: parseFloat(e.target.value) / 100 })}
               className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
             />
             <span className="text-sm text-gray-300 w-10">{(minThreshold * 100).toFixed(0)}%</span>
@@ -253,14 +688,112 @@ function App() {
             <input
               type="number"
               min="1"
-              max="10"
+              max={MAX_RESULTS_LIMIT}
               value={maxResults}
-              onChange={(e) => setMaxResults(parseInt(e.target.value) || 1)}
+              onChange={(e) => changeSettings({ maxResults: parseInt(e.target.value) || 1 })}
               className="w-16 px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
             />
           </div>
 
-          <StatusIndicator status={status} />
+          {/* Question Detection Control */}
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-400">Detect:</label>
+            <select
+              value={detectorName}
+              onChange={(e) => changeSettings({ detector: e.target.value as DetectorName })}
+              className="px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
+              title={DETECTORS[detectorName].description}
+            >
+              {(Object.keys(DETECTORS) as DetectorName[]).map(name => (
+                <option key={name} value={name}>{DETECTORS[name].label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowDetectionSettings(true)}
+              className="text-sm text-gray-400 hover:text-gray-200"
+              title="Edit the phrases and topics the keyword detector looks for"
+            >
+              Keywords
+            </button>
+          </div>
+
+          {/* Capture Mode Control */}
+          <select
+            value={captureMode}
+            onChange={(e) => setCaptureMode(e.target.value as CaptureMode)}
+            disabled={isListening || replaySource !== null}
+            className="px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Dual capture transcribes the interviewer from a shared tab and you from the microphone"
+          >
+            <option value="mic">Mic only</option>
+            <option value="dual">Tab + Mic</option>
+          </select>
+
+          {/* Replay Source Control */}
+          <div className="flex items-center space-x-2">
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept=".wav,.json,.txt"
+              onChange={handleReplayFileChange}
+              className="hidden"
+            />
+            {replaySource ? (
+              <span className="flex items-center space-x-2 text-sm text-gray-300 bg-gray-700 px-2 py-1 rounded">
+                <span className="truncate max-w-[10rem]" title={replaySource.name}>Replay: {replaySource.name}</span>
+                <button
+                  onClick={() => setReplaySource(null)}
+                  disabled={isListening}
+                  className="text-gray-400 hover:text-white disabled:cursor-not-allowed"
+                  title="Use microphone"
+                >
+                  ×
+                </button>
+              </span>
+            ) : (
+              <button
+                onClick={() => replayInputRef.current?.click()}
+                disabled={isListening}
+                className="text-sm text-gray-400 hover:text-gray-200 disabled:cursor-not-allowed"
+                title="Replay a recorded WAV or a timestamped transcript script instead of the microphone"
+              >
+                Load Replay
+              </button>
+            )}
+          </div>
+
+          {/* Session Export / Import */}
+          <div className="flex items-center space-x-2">
+            <select
+              value=""
+              onChange={(e) => handleExport(e.target.value as ExportFormat)}
+              disabled={phrases.length === 0}
+              className="px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Export this session"
+            >
+              <option value="" disabled>Export…</option>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+              ))}
+            </select>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json"
+              onChange={handleImportFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={isListening}
+              className="text-sm text-gray-400 hover:text-gray-200 disabled:cursor-not-allowed"
+              title="Re-open a session exported as JSON"
+            >
+              Import
+            </button>
+          </div>
+
+          <StatusIndicator status={status} levels={inputLevels} />
           <button
             onClick={handleStart}
             disabled={isListening}
@@ -280,88 +813,215 @@ function App() {
         </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          onSave={changeSettings}
+          onReset={() => setSettings(resetSettings())}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+
+      {showDetectionSettings && (
+        <DetectionSettings
+          keywords={detectionKeywords}
+          language={language}
+          onSave={setDetectionKeywords}
+          onClose={() => setShowDetectionSettings(false)}
+        />
+      )}
+
       {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center mb-4">{error}</div>}
 
       {/* Main Content Area */}
-      <div className="flex-grow flex overflow-hidden">
-        {/* Transcription Panel */}
-        <main className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto font-mono text-lg leading-relaxed border border-gray-700">
-          {phrases.map((phrase) => (
-            <span
-              key={phrase.id}
-              className={phrase.isQuestion ? 'font-semibold rounded-md px-2 py-1' : (phrase.isFinal ? 'text-gray-200' : 'text-gray-400')}
-              style={phrase.isQuestion ? {
-                backgroundColor: getQuestionColor(phrase.questionGroupId!),
-                color: 'rgb(17, 24, 39)'
-              } : {}}
-            >
-              {phrase.text}{' '}
-            </span>
-          ))}
-          <div ref={transcriptEndRef} />
-        </main>
-
-        {/* Resize Handle */}
-        <div
-          className="w-1 bg-gray-700 hover:bg-blue-500 cursor-col-resize transition-colors flex-shrink-0"
-          onMouseDown={handleMouseDown}
-        />
+      {view === 'report' ? (
+        <div className="flex-grow flex overflow-hidden">
+          <ReportView
+            key={activeProfileId ?? ''}
+            report={phrases.length > 0 ? buildSessionReport(currentSessionRecord()) : null}
+            historyVersion={reportHistoryVersion}
+          />
+        </div>
+      ) : view === 'prep' ? (
+        <div className="flex-grow flex overflow-hidden">
+          <JobPrepView key={activeProfileId ?? ''} prep={jobPrep} onChange={changeJobPrep} minThreshold={minThreshold} maxResults={maxResults} />
+        </div>
+      ) : view === 'practice' ? (
+        <div className="flex-grow flex overflow-hidden">
+          <PracticeView key={activeProfileId ?? ''} minThreshold={minThreshold} maxResults={maxResults} disabled={isListening} />
+        </div>
+      ) : view === 'vault' ? (
+        <div className="flex-grow flex overflow-hidden">
+          <VaultView key={activeProfileId ?? ''} />
+        </div>
+      ) : (
+        <div className="flex-grow flex overflow-hidden">
+          {/* Transcription Panel */}
+          <main className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto font-mono text-lg leading-relaxed border border-gray-700">
+            {phrases.map((phrase, index) => {
+              const speakerChanged = hasCandidateSpeech && (index === 0 || phrases[index - 1].speaker !== phrase.speaker);
+              const isCandidate = phrase.speaker === 'candidate';
 
-        {/* Context Clues Side Panel */}
-        <aside
-          className="bg-gray-800 rounded-xl shadow-2xl p-4 overflow-y-auto border border-gray-700 flex-shrink-0"
-          style={{ width: `${sidebarWidth}px` }}
-        >
-          <h2 className="text-lg font-bold text-gray-200 mb-4">Context Clues</h2>
-          <div className="space-y-4">
-            {questionsWithResults.length === 0 ? (
-              <p className="text-gray-500 text-sm italic">No context clues yet. Ask a question to see relevant information.</p>
-            ) : (
-              questionsWithResults.map((phrase) => (
-                <div key={`context-${phrase.questionGroupId}`} className="space-y-2">
-                  {/* Question indicator */}
-                  <div
-                    className="text-xs font-semibold px-2 py-1 rounded inline-block"
-                    style={{
+              return (
+                <React.Fragment key={phrase.id}>
+                  {speakerChanged && (
+                    <div className={`${index === 0 ? '' : 'mt-4 '}mb-1 font-sans text-xs font-semibold uppercase ${isCandidate ? 'text-teal-400' : 'text-blue-400'}`}>
+                      {SPEAKER_LABELS[phrase.speaker]}
+                    </div>
+                  )}
+                  <span
+                    className={phrase.isQuestion
+                      ? 'font-semibold rounded-md px-2 py-1'
+                      : (isCandidate ? (phrase.isFinal ? 'text-teal-200' : 'text-teal-400') : (phrase.isFinal ? 'text-gray-200' : 'text-gray-400'))}
+                    style={phrase.isQuestion ? {
                       backgroundColor: getQuestionColor(phrase.questionGroupId!),
                       color: 'rgb(17, 24, 39)'
-                    }}
+                    } : {}}
+                    onDoubleClick={() => phrase.questionGroupId !== undefined && markAsQuestion(phrase.questionGroupId)}
                   >
-                    Q: {phrases.filter(p => p.questionGroupId === phrase.questionGroupId).map(p => p.text).join('')}
-                  </div>
+                    {phrase.text}{' '}
+                  </span>
+                </React.Fragment>
+              );
+            })}
+            <div ref={transcriptEndRef} />
+          </main>
 
-                  {/* Results */}
-                  {phrase.searchResults!.map((result, resultIdx) => {
-                    // Calculate brightness based on score (0-1 range, higher = brighter)
-                    const brightness = Math.min(result.score, 1);
-                    const borderWidth = Math.ceil(brightness * 4); // 1-4px based on score
-
-                    return (
-                      <div
-                        key={resultIdx}
-                        className="bg-gray-700 rounded p-3 text-sm transition-all hover:bg-gray-650"
-                        style={{
-                          borderLeft: `${borderWidth}px solid ${getQuestionColor(phrase.questionGroupId!)}`,
-                          opacity: 0.5 + (brightness * 0.5) // 50-100% opacity based on score
-                        }}
-                      >
-                        <div className="flex justify-between items-start mb-1">
-                          <span className="text-purple-300 font-semibold text-xs uppercase">{result.classification}</span>
-                          <span className="text-gray-400 text-xs">{(result.score * 100).toFixed(0)}%</span>
-                        </div>
-                        <p className="text-gray-100 mb-1 leading-tight">{result.description}</p>
-                        <div className="flex justify-between items-center text-xs text-gray-500 mt-2">
-                          <span className="truncate">{result.sourceFile}</span>
-                        </div>
-                      </div>
-                    );
-                  })}
+          {/* Resize Handle */}
+          <div
+            className="w-1 bg-gray-700 hover:bg-blue-500 cursor-col-resize transition-colors flex-shrink-0"
+            onMouseDown={handleMouseDown}
+          />
+
+          {/* Context Clues Side Panel */}
+          <aside
+            className="bg-gray-800 rounded-xl shadow-2xl p-4 overflow-y-auto border border-gray-700 flex-shrink-0"
+            style={{ width: `${sidebarWidth}px` }}
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-gray-200">Context Clues</h2>
+              <button
+                onClick={() => setShowShortcuts(true)}
+                className="text-xs text-gray-400 hover:text-gray-200"
+                title="Keyboard shortcuts ( ? )"
+              >
+                Shortcuts
+              </button>
+            </div>
+            <div className="space-y-4">
+              <ManualSearch
+                maxResults={maxResults}
+                focusIds={focusIds}
+                inputRef={searchInputRef}
+                onResults={(query, results) => setManualSearch({ query, results })}
+                onClear={() => setManualSearch(null)}
+              />
+
+              {/* Pinned memories stay on top while the rest scrolls */}
+              {pinnedMemories.length > 0 && (
+                <div className="sticky top-0 z-10 bg-gray-800 pb-2 space-y-2">
+                  <div className="text-xs font-semibold uppercase text-amber-300">Pinned</div>
+                  {pinnedMemories.map((result, resultIdx) => (
+                    <MemoryCard
+                      key={result.id}
+                      result={result}
+                      index={resultIdx + 1}
+                      accentColor="rgb(252, 211, 77)"
+                      expanded={expandedCards.has(`pinned:${result.id}`)}
+                      onToggleExpand={() => toggleExpanded([`pinned:${result.id}`])}
+                      pinned
+                      onTogglePin={() => togglePin(result)}
+                    />
+                  ))}
                 </div>
-              ))
-            )}
-          </div>
-        </aside>
-      </div>
+              )}
+
+              {manualSearch && (
+                <div className="space-y-2">
+                  <div className="text-xs font-semibold px-2 py-1 rounded inline-block bg-gray-600 text-gray-100">
+                    Search: {manualSearch.query}
+                  </div>
+                  {manualSearch.results.length === 0 ? (
+                    <p className="text-gray-500 text-sm italic">No matching memories.</p>
+                  ) : (
+                    <>
+                      {manualSearch.results.map((result, resultIdx) => (
+                        <MemoryCard
+                          key={result.id}
+                          result={result}
+                          index={resultIdx + 1}
+                          accentColor="rgb(156, 163, 175)"
+                          expanded={expandedCards.has(`search:${result.id}`)}
+                          onToggleExpand={() => toggleExpanded([`search:${result.id}`])}
+                          pinned={isPinned(result)}
+                          onTogglePin={() => togglePin(result)}
+                        />
+                      ))}
+                      <StarDraftPanel question={manualSearch.query} memories={manualSearch.results} accentColor="rgb(156, 163, 175)" />
+                    </>
+                  )}
+                </div>
+              )}
+
+              {questionsWithResults.length === 0 ? (
+                <p className="text-gray-500 text-sm italic">No context clues yet. Ask a question to see relevant information, or double-click a sentence to mark it as one.</p>
+              ) : (
+                questionsWithResults.map((phrase) => (
+                  <div
+                    key={`context-${phrase.questionGroupId}`}
+                    id={`context-${phrase.questionGroupId}`}
+                    className={`space-y-2 rounded ${phrase.questionGroupId === focusedGroupId ? 'ring-1 ring-blue-400 ring-offset-4 ring-offset-gray-800' : ''}`}
+                  >
+                    {/* Question indicator */}
+                    <div
+                      className="text-xs font-semibold px-2 py-1 rounded inline-block"
+                      style={{
+                        backgroundColor: getQuestionColor(phrase.questionGroupId!),
+                        color: 'rgb(17, 24, 39)'
+                      }}
+                    >
+                      Q: {groupText(phrase.questionGroupId!)}
+                    </div>
+                    {phrase.searchQuery && (phrase.translatedFrom ? (
+                      <p className="text-xs text-gray-400 italic" title="The question was translated into the vault's language before searching">
+                        <span className="not-italic px-1 mr-1 rounded bg-teal-900/60 text-teal-200">Translated</span>
+                        from {LANGUAGES[phrase.translatedFrom].label}: {phrase.searchQuery}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-400 italic" title="This follow-up was rewritten using the conversation so far">
+                        Searched as: {phrase.searchQuery}
+                      </p>
+                    ))}
+
+                    {/* Results */}
+                    {phrase.searchResults!.map((result, resultIdx) => (
+                      <MemoryCard
+                        key={result.id}
+                        result={result}
+                        index={resultIdx + 1}
+                        accentColor={getQuestionColor(phrase.questionGroupId!)}
+                        expanded={expandedCards.has(`${phrase.questionGroupId}:${result.id}`)}
+                        onToggleExpand={() => toggleExpanded([`${phrase.questionGroupId}:${result.id}`])}
+                        pinned={isPinned(result)}
+                        onTogglePin={() => togglePin(result)}
+                      />
+                    ))}
+
+                    {/* STAR talking points drafted from the results above */}
+                    <StarDraftPanel
+                      question={groupText(phrase.questionGroupId!).trim()}
+                      memories={phrase.searchResults!}
+                      accentColor={getQuestionColor(phrase.questionGroupId!)}
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          </aside>
+        </div>
+      )}
 
       <footer className="text-center mt-4 text-gray-500 text-xs">
         <p>Powered by Google Gemini</p>
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { LANGUAGES, LanguageCode } from '../services/languages';
+import { DETECTION_KEYWORD_PACKS, DetectionKeywords, parseKeywordList } from '../services/questionDetection';
+
+interface DetectionSettingsProps {
+  keywords: DetectionKeywords;
+  /** The interview language, whose keyword pack "Reset to defaults" restores */
+  language: LanguageCode;
+  onSave: (keywords: DetectionKeywords) => void;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for editing the keyword detector's phrase, topic and opener lists, one entry per line.
+ */
+const DetectionSettings: React.FC<DetectionSettingsProps> = ({ keywords, language, onSave, onClose }) => {
+  const pack = DETECTION_KEYWORD_PACKS[language];
+  const [phrases, setPhrases] = useState(keywords.phrases.join('\n'));
+  const [topics, setTopics] = useState(keywords.topics.join('\n'));
+  const [openers, setOpeners] = useState((keywords.openers ?? pack.openers).join('\n'));
+
+  const handleReset = () => {
+    setPhrases(pack.phrases.join('\n'));
+    setTopics(pack.topics.join('\n'));
+    setOpeners(pack.openers.join('\n'));
+  };
+
+  const handleSave = () => {
+    onSave({ phrases: parseKeywordList(phrases), topics: parseKeywordList(topics), openers: parseKeywordList(openers) });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl p-6 w-[52rem] max-w-full space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-bold text-gray-200">Question Detection Keywords ({LANGUAGES[language].label})</h2>
+        <div className="grid grid-cols-3 gap-4">
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Prompt phrases</span>
+            <textarea
+              value={phrases}
+              onChange={(e) => setPhrases(e.target.value)}
+              rows={14}
+              className="w-full px-2 py-1 bg-gray-700 text-gray-100 rounded border border-gray-600 text-sm font-mono"
+            />
+            <span className="block text-xs text-gray-500">Flag a sentence on their own, e.g. "tell me about".</span>
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Interview topics</span>
+            <textarea
+              value={topics}
+              onChange={(e) => setTopics(e.target.value)}
+              rows={14}
+              className="w-full px-2 py-1 bg-gray-700 text-gray-100 rounded border border-gray-600 text-sm font-mono"
+            />
+            <span className="block text-xs text-gray-500">Only count when the sentence opens like a question ("What ...", "Have you ...").</span>
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Question openers</span>
+            <textarea
+              value={openers}
+              onChange={(e) => setOpeners(e.target.value)}
+              rows={14}
+              className="w-full px-2 py-1 bg-gray-700 text-gray-100 rounded border border-gray-600 text-sm font-mono"
+            />
+            <span className="block text-xs text-gray-500">First words that make a sentence a question, e.g. "what" or "have".</span>
+          </label>
+        </div>
+        <div className="flex justify-between">
+          <button onClick={handleReset} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">Reset to {LANGUAGES[language].label} defaults</button>
+          <div className="space-x-2">
+            <button onClick={onClose} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">Cancel</button>
+            <button onClick={handleSave} className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DetectionSettings;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { DuplicateCluster, Memory, findDuplicates, mergeMemories } from '../services/memoryVaultService';
+
+interface DuplicatesPanelProps {
+  /** Called after a merge so the vault list can reload */
+  onMerged: () => void;
+  onClose: () => void;
+}
+
+const memorySources = (memory: Memory) => memory.sourceFiles?.length ? memory.sourceFiles : [memory.sourceFile];
+
+/**
+ * The vault's near-duplicate report. Each cluster can be merged into the memory picked to keep:
+ * descriptions are combined and every source file is kept.
+ */
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ onMerged, onClose }) => {
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  // Cluster index → id of the memory to keep
+  const [keepIds, setKeepIds] = useState<Record<number, string>>({});
+  const [mergingIndex, setMergingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setClusters(await findDuplicates());
+      setKeepIds({});
+      setError(null);
+    } catch (e) {
+      setError(`Failed to find duplicates: ${(e as Error).message}`);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleMerge = async (index: number, cluster: DuplicateCluster) => {
+    setMergingIndex(index);
+    try {
+      await mergeMemories(cluster.memories.map(memory => memory.id), { keepId: keepIds[index] });
+      onMerged();
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setMergingIndex(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-3 mb-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-semibold text-gray-300">
+          {clusters === null ? 'Looking for duplicates...' : `${clusters.length} groups of near-duplicates`}
+        </span>
+        <div className="space-x-3 text-sm">
+          <button onClick={load} disabled={mergingIndex !== null} className="text-gray-400 hover:text-gray-200">Refresh</button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200">Close</button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {clusters?.map((cluster, index) => (
+        <div key={cluster.memories.map(memory => memory.id).join()} className="bg-gray-800 rounded p-3 space-y-2">
+          <div className="flex justify-between items-center text-xs text-gray-400">
+            <span>{cluster.memories.length} memories · at least {(cluster.score * 100).toFixed(0)}% similar</span>
+            <button
+              onClick={() => handleMerge(index, cluster)}
+              disabled={mergingIndex !== null}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              {mergingIndex === index ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+          {cluster.memories.map(memory => (
+            <label key={memory.id} className="flex items-start space-x-3 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name={`keep-${index}`}
+                checked={keepIds[index] === memory.id}
+                onChange={() => setKeepIds(prev => ({ ...prev, [index]: memory.id }))}
+                className="mt-1 accent-blue-500"
+                title="Keep this memory's classification and date"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-100 leading-tight line-clamp-3">{memory.description}</p>
+                <span className="text-xs text-gray-500">
+                  <span className="text-purple-300 uppercase">{memory.classification}</span> · {memorySources(memory).join(', ')}
+                </span>
+              </div>
+            </label>
+          ))}
+        </div>
+      ))}
+
+      {clusters?.length === 0 && <p className="text-sm text-gray-500 italic">No near-duplicates found.</p>}
+    </div>
+  );
+};
+
+export default DuplicatesPanel;
@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { JobDescriptionInput, JobPrep, prepareForJob, readJobDescriptionFile } from '../services/jobPrepService';
+
+interface JobPrepViewProps {
+  prep: JobPrep | null;
+  /** Saves the prep (null clears it); its competencies then boost live searches */
+  onChange: (prep: JobPrep | null) => void;
+  minThreshold: number;
+  maxResults: number;
+}
+
+/**
+ * Pre-interview prep from a job description: paste or upload it, then work through the
+ * predicted questions as a checklist, with the memories that answer each one.
+ */
+const JobPrepView: React.FC<JobPrepViewProps> = ({ prep, onChange, minThreshold, maxResults }) => {
+  const [text, setText] = useState('');
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const prepare = async (input: JobDescriptionInput) => {
+    setIsPreparing(true);
+    setError(null);
+    try {
+      onChange(await prepareForJob(input, maxResults));
+      setExpanded(new Set());
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) prepare(await readJobDescriptionFile(file));
+  };
+
+  const toggleDone = (index: number) => {
+    if (!prep) return;
+    const done = prep.done.includes(index) ? prep.done.filter(i => i !== index) : [...prep.done, index];
+    onChange({ ...prep, done });
+  };
+
+  const toggleExpanded = (index: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  if (!prep) {
+    return (
+      <div className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto border border-gray-700 space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-200">Job Prep</h2>
+          <p className="text-sm text-gray-400">
+            Paste the job description. OnCue predicts the questions you'll be asked and finds your memories for each,
+            and memories matching the role's competencies rank higher during the interview.
+          </p>
+        </div>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={14}
+          placeholder="Paste the job description here..."
+          className="w-full px-2 py-1 bg-gray-700 text-gray-100 rounded border border-gray-600 text-sm"
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex justify-end space-x-2">
+          <input ref={fileInputRef} type="file" accept=".txt,.md,.markdown,.pdf" className="hidden" onChange={handleFile} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isPreparing}
+            className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200"
+          >
+            Upload file
+          </button>
+          <button
+            onClick={() => prepare({ text })}
+            disabled={isPreparing || !text.trim()}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            {isPreparing ? 'Preparing...' : 'Prepare'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto border border-gray-700 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-lg font-bold text-gray-200">{prep.title || 'Job Prep'}</h2>
+          <p className="text-xs text-gray-500">
+            {prep.done.length} of {prep.questions.length} questions prepared · {new Date(prep.createdAt).toLocaleDateString()}
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm('Discard this prep? Live searches stop favouring its competencies.')) onChange(null);
+          }}
+          className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200"
+        >
+          New job description
+        </button>
+      </div>
+
+      {/* Competencies */}
+      <div className="flex flex-wrap gap-2">
+        {prep.competencies.map(competency => (
+          <span
+            key={competency.name}
+            title={`${competency.keywords.join(', ')}\n${competency.memoryIds.length} matching memories are boosted in live searches`}
+            className={`px-2 py-1 rounded text-xs font-semibold ${competency.memoryIds.length ? 'bg-purple-900/60 text-purple-200' : 'bg-gray-700 text-gray-400'}`}
+          >
+            {competency.name} ({competency.memoryIds.length})
+          </span>
+        ))}
+      </div>
+
+      {/* Checklist */}
+      <div className="space-y-2">
+        {prep.questions.map((question, index) => {
+          const results = question.results.filter(result => result.score >= minThreshold);
+          const done = prep.done.includes(index);
+          return (
+            <div key={index} className="bg-gray-700 rounded p-3 text-sm">
+              <div className="flex items-start space-x-3">
+                <input type="checkbox" checked={done} onChange={() => toggleDone(index)} className="mt-1 accent-blue-500" />
+                <div className="flex-1 min-w-0 cursor-pointer" onClick={() => toggleExpanded(index)}>
+                  <div className="flex justify-between items-start">
+                    <span className={done ? 'text-gray-400 line-through' : 'text-gray-100'}>{question.text}</span>
+                    <span className="ml-3 shrink-0 text-xs text-gray-400">
+                      {results.length ? `${results.length} memories` : 'No memories'}
+                    </span>
+                  </div>
+                  <span className="text-purple-300 font-semibold text-xs uppercase">{question.competency}</span>
+                </div>
+              </div>
+              {expanded.has(index) && (
+                <div className="mt-2 ml-7 space-y-2">
+                  {results.length === 0 && (
+                    <p className="text-xs text-gray-500 italic">Nothing in the vault answers this yet; a gap worth filling before the interview.</p>
+                  )}
+                  {results.map(result => (
+                    <div key={result.id} className="bg-gray-800 rounded p-2">
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className="text-purple-300 font-semibold uppercase">{result.classification}</span>
+                        <span className="text-gray-400">{(result.score * 100).toFixed(0)}%</span>
+                      </div>
+                      <p className="text-gray-100 leading-tight">{result.description}</p>
+                      <span className="text-xs text-gray-500">{result.sourceFile}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default JobPrepView;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { MemorySearchResult, searchMemories } from '../services/vectorSearchService';
+
+interface ManualSearchProps {
+  maxResults: number;
+  /** Favoured in the ranking; see `MemorySearchOptions.focusIds` */
+  focusIds?: string[];
+  /** Focused by the "/" shortcut */
+  inputRef: React.RefObject<HTMLInputElement | null>;
+  onResults: (query: string, results: MemorySearchResult[]) => void;
+  onClear: () => void;
+}
+
+/**
+ * Search box for looking something up in the vault when question detection missed it.
+ */
+const ManualSearch: React.FC<ManualSearchProps> = ({ maxResults, focusIds, inputRef, onResults, onClear }) => {
+  const [query, setQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async () => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      onResults(trimmed, await searchMemories(trimmed, maxResults, { focusIds }));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    setError(null);
+    onClear();
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex space-x-2">
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSearch();
+            if (e.key === 'Escape') e.currentTarget.blur();
+          }}
+          placeholder="Search the vault  ( / )"
+          className="flex-1 px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
+        />
+        <button
+          onClick={handleSearch}
+          disabled={isSearching || !query.trim()}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+        {query && (
+          <button onClick={handleClear} className="text-sm text-gray-400 hover:text-gray-200">Clear</button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ManualSearch;
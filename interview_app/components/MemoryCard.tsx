@@ -0,0 +1,76 @@
+import React from 'react';
+import { MemorySearchResult } from '../services/vectorSearchService';
+
+interface MemoryCardProps {
+  result: MemorySearchResult;
+  /** 1-based position, cited by the STAR talking points */
+  index: number;
+  accentColor: string;
+  expanded: boolean;
+  onToggleExpand: () => void;
+  pinned: boolean;
+  onTogglePin: () => void;
+}
+
+function scoreTitle(result: MemorySearchResult): string | undefined {
+  const breakdown = result.scoreBreakdown;
+  if (!breakdown) return undefined;
+  return `Semantic ${(breakdown.semantic * 100).toFixed(0)}% · Keyword ${(breakdown.lexical * 100).toFixed(0)}%`
+    + (breakdown.thread ? ` · Thread +${(breakdown.thread * 100).toFixed(0)}%` : '')
+    + (breakdown.focus ? ` · Role +${(breakdown.focus * 100).toFixed(0)}%` : '');
+}
+
+/**
+ * A memory surfaced in the Context Clues sidebar. Collapsed cards show the first lines of the
+ * memory; expanded ones show all of it with its date.
+ */
+const MemoryCard: React.FC<MemoryCardProps> = ({ result, index, accentColor, expanded, onToggleExpand, pinned, onTogglePin }) => {
+  // Calculate brightness based on score (0-1 range, higher = brighter)
+  const brightness = Math.min(result.score, 1);
+  const borderWidth = Math.ceil(brightness * 4); // 1-4px based on score
+
+  return (
+    <div
+      className="bg-gray-700 rounded p-3 text-sm transition-all hover:bg-gray-650 cursor-pointer"
+      style={{
+        borderLeft: `${borderWidth}px solid ${accentColor}`,
+        opacity: 0.5 + (brightness * 0.5) // 50-100% opacity based on score
+      }}
+      onClick={onToggleExpand}
+    >
+      <div className="flex justify-between items-start mb-1">
+        <span className="text-purple-300 font-semibold text-xs uppercase">{result.classification}</span>
+        <div className="flex items-center space-x-2">
+          <span className="text-gray-400 text-xs" title={scoreTitle(result)}>
+            {(result.score * 100).toFixed(0)}%
+          </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onTogglePin();
+            }}
+            className={`text-xs ${pinned ? 'text-amber-300 hover:text-amber-200' : 'text-gray-500 hover:text-gray-300'}`}
+            title={pinned ? 'Unpin' : 'Pin to the top of the sidebar for the rest of the session'}
+          >
+            {pinned ? 'Pinned' : 'Pin'}
+          </button>
+        </div>
+      </div>
+      <p className={`text-gray-100 mb-1 leading-tight ${expanded ? 'whitespace-pre-wrap' : 'line-clamp-3'}`}>{result.description}</p>
+      <div className="flex justify-between items-center text-xs text-gray-500 mt-2">
+        <span className="truncate">
+          {result.sourceFile}
+          {result.duplicates?.length ? (
+            <span title={`Also in: ${result.duplicates.map(duplicate => duplicate.sourceFile).join(', ')}`}>
+              {' '}· +{result.duplicates.length} similar
+            </span>
+          ) : null}
+          {expanded && ` · ${new Date(result.createdAt).toLocaleDateString()}`}
+        </span>
+        <span>[{index}]</span>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryCard;
@@ -0,0 +1,355 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ai } from '../services/genaiClient';
+import {
+  generatePracticeQuestions,
+  parsePracticeScript,
+  pickBankQuestions,
+  PracticeQuestion,
+  QUESTION_KINDS,
+  QuestionKind,
+} from '../services/practiceQuestions';
+import {
+  createGeminiInterviewer,
+  createScriptedInterviewer,
+  PracticePhase,
+  PracticeResult,
+  PracticeSession,
+  startPracticeSession,
+} from '../services/practiceSession';
+import { searchMemories } from '../services/vectorSearchService';
+
+interface PracticeViewProps {
+  minThreshold: number;
+  maxResults: number;
+  /** Set while a live session is running; practice needs the microphone to itself */
+  disabled: boolean;
+}
+
+type QuestionSource = 'bank' | 'role' | 'file';
+type InterviewerMode = 'voice' | 'scripted';
+
+const PHASE_LABELS: Record<PracticePhase, string> = {
+  asking: 'Asking…',
+  answering: 'Your answer',
+  scoring: 'Scoring…',
+  done: 'Done',
+};
+
+const scoreColor = (score: number | null) =>
+  score === null ? 'text-gray-400' : score >= 0.7 ? 'text-green-400' : score >= 0.4 ? 'text-amber-400' : 'text-red-400';
+
+const formatScore = (score: number | null) => score === null ? '–' : `${(score * 100).toFixed(0)}%`;
+
+const ResultCard: React.FC<{ index: number; result: PracticeResult }> = ({ index, result }) => (
+  <div className="bg-gray-700 rounded p-3 text-sm space-y-2">
+    <div className="flex items-start justify-between space-x-3">
+      <span className="text-gray-100 font-semibold">{index + 1}. {result.question.text}</span>
+      <span className={`shrink-0 font-mono ${scoreColor(result.score.score)}`} title="Coverage of the surfaced memories">
+        {formatScore(result.score.score)}
+      </span>
+    </div>
+    <p className="text-gray-300 italic">{result.answer || 'No answer heard.'}</p>
+    {result.memories.length === 0 ? (
+      <p className="text-xs text-gray-500">Nothing in the vault matched this question.</p>
+    ) : (
+      <div className="space-y-1">
+        {result.score.coverage.map(({ memory, covered, missedTerms }) => (
+          <div key={memory.id} className="flex items-start space-x-2 text-xs">
+            <span className={covered ? 'text-green-400' : 'text-red-400'}>{covered ? '✓' : '✗'}</span>
+            <div>
+              <span className="text-purple-300 uppercase font-semibold mr-1">{memory.classification}</span>
+              <span className="text-gray-300">{memory.description}</span>
+              {!covered && missedTerms.length > 0 && (
+                <div className="text-gray-500">Try mentioning: {missedTerms.join(', ')}</div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Mock interview: asks questions aloud (or silently, with the scripted interviewer), listens to
+ * the answers and scores each one by how much of the relevant vault memories it used.
+ */
+const PracticeView: React.FC<PracticeViewProps> = ({ minThreshold, maxResults, disabled }) => {
+  const [source, setSource] = useState<QuestionSource>('bank');
+  const [kinds, setKinds] = useState<QuestionKind[]>(QUESTION_KINDS);
+  const [count, setCount] = useState(5);
+  const [role, setRole] = useState('');
+  const [interviewerMode, setInterviewerMode] = useState<InterviewerMode>('voice');
+  const [questions, setQuestions] = useState<PracticeQuestion[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [phase, setPhase] = useState<PracticePhase | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [results, setResults] = useState<PracticeResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<PracticeSession | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Stop asking and listening when leaving the tab
+    return () => sessionRef.current?.stop();
+  }, []);
+
+  const isRunning = phase !== null && phase !== 'done';
+  const hasScriptedAnswers = questions.some(question => question.answer !== undefined);
+
+  const toggleKind = (kind: QuestionKind) => {
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+  };
+
+  const handleDraw = () => {
+    setQuestions(pickBankQuestions(count, kinds));
+    setError(null);
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      setQuestions(await generatePracticeQuestions(ai, role, count, kinds));
+    } catch (err) {
+      console.error('Failed to generate practice questions', err);
+      setError(`Failed to generate questions: ${(err as Error).message}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const loaded = parsePracticeScript(await file.text());
+      setQuestions(loaded);
+      // Scripted answers only make sense with an interviewer that doesn't need the network
+      if (loaded.some(question => question.answer !== undefined)) setInterviewerMode('scripted');
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load practice questions', err);
+      setError(`Failed to load practice questions: ${(err as Error).message}`);
+    }
+  };
+
+  const handleStart = () => {
+    setResults([]);
+    setAnswer('');
+    setCurrentIndex(0);
+    setError(null);
+
+    sessionRef.current = startPracticeSession({
+      questions,
+      interviewer: interviewerMode === 'voice' ? createGeminiInterviewer() : createScriptedInterviewer(),
+      findMemories: async (question) => {
+        const found = await searchMemories(question, maxResults);
+        return found.filter(result => result.score >= minThreshold);
+      },
+    }, {
+      onPhase: (nextPhase, index) => {
+        setPhase(nextPhase);
+        setCurrentIndex(index);
+        if (nextPhase === 'asking') setAnswer('');
+      },
+      onAnswerUpdate: (_index, text) => setAnswer(text),
+      onResult: (_index, result) => setResults(prev => [...prev, result]),
+      onError: (err) => {
+        console.error('Practice session failed', err);
+        setError(`Practice session failed: ${err.message}`);
+        sessionRef.current?.stop();
+        sessionRef.current = null;
+        setPhase(null);
+      },
+    });
+  };
+
+  const handleEnd = () => {
+    sessionRef.current?.stop();
+    sessionRef.current = null;
+    setPhase(results.length > 0 ? 'done' : null);
+  };
+
+  const scores = results.flatMap(result => result.score.score === null ? [] : [result.score.score]);
+  const averageScore = scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+
+  return (
+    <div className="flex-1 flex space-x-4 overflow-hidden">
+      {/* Setup / Current Question */}
+      <section className="w-[28rem] shrink-0 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto border border-gray-700 space-y-4">
+        {isRunning ? (
+          <>
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-gray-200">Question {currentIndex + 1} of {questions.length}</h2>
+              <span className="text-xs text-gray-400 uppercase">{PHASE_LABELS[phase!]}</span>
+            </div>
+            <p className="text-xl text-yellow-200">{questions[currentIndex]?.text}</p>
+            <div className="bg-gray-700 rounded p-3 min-h-[6rem] text-teal-200">
+              {answer || <span className="text-gray-500 italic">{phase === 'answering' ? 'Listening…' : ''}</span>}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button onClick={handleEnd} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">End practice</button>
+              <button
+                onClick={() => sessionRef.current?.finishAnswer()}
+                disabled={phase !== 'answering'}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+              >
+                Done answering
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">The answer also ends after a few seconds of silence.</p>
+          </>
+        ) : (
+          <>
+            <h2 className="text-lg font-bold text-gray-200">Practice Interview</h2>
+
+            <div className="flex space-x-1 bg-gray-900 rounded-lg p-1">
+              {([['bank', 'Question bank'], ['role', 'From a role'], ['file', 'From a file']] as [QuestionSource, string][]).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setSource(id)}
+                  className={`flex-1 px-3 py-1 rounded text-sm font-medium ${source === id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {source !== 'file' && (
+              <div className="flex items-center space-x-4 text-sm text-gray-300">
+                {QUESTION_KINDS.map(kind => (
+                  <label key={kind} className="flex items-center space-x-1 capitalize">
+                    <input type="checkbox" checked={kinds.includes(kind)} onChange={() => toggleKind(kind)} />
+                    <span>{kind}</span>
+                  </label>
+                ))}
+                <label className="flex items-center space-x-2">
+                  <span className="text-gray-400">Questions:</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={count}
+                    onChange={(e) => setCount(Math.min(20, Math.max(1, parseInt(e.target.value) || 1)))}
+                    className="w-16 px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
+                  />
+                </label>
+              </div>
+            )}
+
+            {source === 'bank' && (
+              <button
+                onClick={handleDraw}
+                disabled={kinds.length === 0}
+                className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Draw questions
+              </button>
+            )}
+
+            {source === 'role' && (
+              <div className="space-y-2">
+                <textarea
+                  value={role}
+                  onChange={(e) => setRole(e.target.value)}
+                  rows={4}
+                  placeholder="Job title or pasted job description..."
+                  className="w-full px-2 py-1 bg-gray-700 text-gray-100 rounded border border-gray-600 text-sm"
+                />
+                <button
+                  onClick={handleGenerate}
+                  disabled={isGenerating || !role.trim() || kinds.length === 0}
+                  className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isGenerating ? 'Generating...' : 'Generate questions'}
+                </button>
+              </div>
+            )}
+
+            {source === 'file' && (
+              <div className="space-y-1">
+                <input ref={fileInputRef} type="file" accept=".json,.txt" onChange={handleFileChange} className="hidden" />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-3 py-1 text-sm bg-gray-700 text-gray-200 rounded hover:bg-gray-600"
+                >
+                  Load questions…
+                </button>
+                <p className="text-xs text-gray-500">One question per line, or a JSON practice script with scripted answers.</p>
+              </div>
+            )}
+
+            {questions.length > 0 && (
+              <ol className="space-y-1 text-sm">
+                {questions.map((question, index) => (
+                  <li key={index} className="flex items-start justify-between space-x-2 bg-gray-700 rounded px-2 py-1">
+                    <span className="text-gray-200">
+                      {index + 1}. {question.text}
+                      {question.answer !== undefined && <span className="ml-1 text-xs text-teal-400">(scripted answer)</span>}
+                    </span>
+                    <button
+                      onClick={() => setQuestions(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-white"
+                      title="Remove question"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex items-center justify-between">
+              <select
+                value={interviewerMode}
+                onChange={(e) => setInterviewerMode(e.target.value as InterviewerMode)}
+                className="px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
+                title="The scripted interviewer shows questions without speaking them and works offline"
+              >
+                <option value="voice">Spoken (Gemini voice)</option>
+                <option value="scripted">Scripted (offline)</option>
+              </select>
+              <button
+                onClick={handleStart}
+                disabled={disabled || questions.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+              >
+                Start practice
+              </button>
+            </div>
+            {disabled && <p className="text-xs text-gray-500">Stop the live session to practice.</p>}
+            {!hasScriptedAnswers && questions.length > 0 && (
+              <p className="text-xs text-gray-500">Answers are heard through the microphone.</p>
+            )}
+          </>
+        )}
+        {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center">{error}</div>}
+      </section>
+
+      {/* Feedback */}
+      <section className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto border border-gray-700 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-200">Feedback</h2>
+          {averageScore !== null && (
+            <span className="text-sm text-gray-400">
+              Average coverage <span className={`font-mono ${scoreColor(averageScore)}`}>{formatScore(averageScore)}</span>
+            </span>
+          )}
+        </div>
+        {results.length === 0 ? (
+          <p className="text-gray-500 text-sm italic">
+            Each answer is scored by how much of the memories surfaced for its question it mentioned.
+          </p>
+        ) : (
+          results.map((result, index) => <ResultCard key={index} index={index} result={result} />)
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default PracticeView;
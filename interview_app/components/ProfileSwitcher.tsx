@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { SavedProfile } from '../services/profileService';
+import { getProfileForToken } from '../services/memoryVaultService';
+
+interface ProfileSwitcherProps {
+  profiles: SavedProfile[];
+  activeProfileId: string | null;
+  onSelect: (profileId: string) => void;
+  onAdd: (profile: SavedProfile) => void;
+  /** Forgets a profile's token on this device; the vault itself is untouched */
+  onRemove: (profileId: string) => void;
+  disabled?: boolean;
+}
+
+const ADD_PROFILE = '__add__';
+
+/**
+ * Header control for switching between vault profiles, plus a dialog for adding one by its API token.
+ */
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfileId, onSelect, onAdd, onRemove, disabled }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const closeDialog = () => {
+    setIsAdding(false);
+    setToken('');
+    setError(null);
+  };
+
+  const handleAdd = async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      const profile = await getProfileForToken(token.trim());
+      onAdd({ ...profile, token: token.trim() });
+      closeDialog();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <label className="text-sm text-gray-400">Profile:</label>
+      {profiles.length === 0 ? (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="px-2 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          Add profile
+        </button>
+      ) : (
+        <>
+          <select
+            value={activeProfileId ?? ''}
+            onChange={(e) => e.target.value === ADD_PROFILE ? setIsAdding(true) : onSelect(e.target.value)}
+            disabled={disabled}
+            className="px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Each profile has its own vault of memories"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+            <option value={ADD_PROFILE}>Add profile…</option>
+          </select>
+          {activeProfileId && (
+            <button
+              onClick={() => onRemove(activeProfileId)}
+              disabled={disabled}
+              className="text-gray-400 hover:text-white disabled:cursor-not-allowed"
+              title="Forget this profile's token on this device"
+            >
+              ×
+            </button>
+          )}
+        </>
+      )}
+
+      {isAdding && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={closeDialog}>
+          <div
+            className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl p-6 w-[28rem] max-w-full space-y-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 className="text-lg font-bold text-gray-200">Add Profile</h2>
+            <label className="block space-y-1">
+              <span className="text-sm text-gray-400">API token</span>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && token.trim() && handleAdd()}
+                placeholder="oncue_..."
+                autoFocus
+                className="w-full px-2 py-1 bg-gray-700 text-gray-100 rounded border border-gray-600 text-sm font-mono"
+              />
+              <span className="block text-xs text-gray-500">
+                Issue one on the backend with <code>npm run admin -- token issue &lt;profile&gt;</code>.
+              </span>
+            </label>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex justify-end space-x-2">
+              <button onClick={closeDialog} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">Cancel</button>
+              <button
+                onClick={handleAdd}
+                disabled={!token.trim() || isChecking}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+              >
+                {isChecking ? 'Checking…' : 'Add'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Speaker } from '../types';
+import { getSessionAnalytics, SessionAnalytics, SessionReport } from '../services/sessionReport';
+
+interface ReportViewProps {
+  /** The current (or last imported) session, or null before any session */
+  report: SessionReport | null;
+  /** Changes whenever a session is saved, so the cross-session numbers reload */
+  historyVersion: number;
+}
+
+const SPEAKER_NAMES: Record<Speaker, string> = { interviewer: 'Interviewer', candidate: 'You' };
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-gray-700 rounded p-3">
+    <div className="text-2xl font-bold text-gray-100">{value}</div>
+    <div className="text-xs text-gray-400 uppercase">{label}</div>
+  </div>
+);
+
+/**
+ * Stacked bar of how long each speaker talked.
+ */
+const TalkTimeBar: React.FC<{ talkTimeMs: Record<Speaker, number> }> = ({ talkTimeMs }) => {
+  const total = talkTimeMs.interviewer + talkTimeMs.candidate;
+  if (total === 0) return <p className="text-gray-500 text-sm italic">No speech recorded.</p>;
+  const candidateShare = talkTimeMs.candidate / total;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-3 rounded overflow-hidden bg-gray-700">
+        <div className="bg-blue-500" style={{ width: `${(1 - candidateShare) * 100}%` }} />
+        <div className="bg-teal-400" style={{ width: `${candidateShare * 100}%` }} />
+      </div>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{SPEAKER_NAMES.interviewer} {formatDuration(talkTimeMs.interviewer)} ({((1 - candidateShare) * 100).toFixed(0)}%)</span>
+        <span>{SPEAKER_NAMES.candidate} {formatDuration(talkTimeMs.candidate)} ({(candidateShare * 100).toFixed(0)}%)</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Post-interview report: this session's questions, matches and gaps, and trends across
+ * the active profile's saved sessions.
+ */
+const ReportView: React.FC<ReportViewProps> = ({ report, historyVersion }) => {
+  const [analytics, setAnalytics] = useState<SessionAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSessionAnalytics()
+      .then((result) => {
+        setAnalytics(result);
+        setError(null);
+      })
+      .catch((err: Error) => setError(`Could not load session history: ${err.message}`));
+  }, [historyVersion]);
+
+  const gaps = report?.questions.filter(question => question.isGap) ?? [];
+  const matchedScores = report?.questions.flatMap(question => question.topScore === null ? [] : [question.topScore]) ?? [];
+  const averageTopScore = matchedScores.length ? matchedScores.reduce((sum, score) => sum + score, 0) / matchedScores.length : null;
+
+  return (
+    <div className="flex-1 flex space-x-4 overflow-hidden">
+      {/* This Session */}
+      <section className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto border border-gray-700 space-y-6">
+        <h2 className="text-lg font-bold text-gray-200">This Session</h2>
+        {!report || report.questions.length === 0 ? (
+          <p className="text-gray-500 text-sm italic">Run or import a session to see which questions came up and how well the vault covered them.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-3">
+              <Stat label="Questions" value={String(report.questions.length)} />
+              <Stat label="Gaps" value={String(gaps.length)} />
+              <Stat label="Avg top match" value={averageTopScore === null ? '–' : `${(averageTopScore * 100).toFixed(0)}%`} />
+              <Stat label="Duration" value={formatDuration(report.durationMs)} />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-400 uppercase">Talk Time</h3>
+              <TalkTimeBar talkTimeMs={report.talkTimeMs} />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-400 uppercase">Questions</h3>
+              {report.questions.map((question, index) => (
+                <div key={index} className="bg-gray-700 rounded p-3 text-sm space-y-1">
+                  <div className="flex items-start justify-between space-x-3">
+                    <span className="text-gray-100">{question.text}</span>
+                    <span className={`shrink-0 font-mono ${question.isGap ? 'text-red-400' : 'text-green-400'}`}>
+                      {question.topScore === null ? 'no match' : `${(question.topScore * 100).toFixed(0)}%`}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2 text-xs">
+                    <span className="text-gray-500 font-mono">{formatDuration(question.startMs)}</span>
+                    {question.categories.map(category => (
+                      <span key={category} className="px-1.5 py-0.5 rounded bg-gray-800 text-purple-300 uppercase font-semibold">{category}</span>
+                    ))}
+                    {question.isGap && <span className="px-1.5 py-0.5 rounded bg-red-900/60 text-red-300 font-semibold">GAP</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {gaps.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase">Stories to Write</h3>
+                <p className="text-xs text-gray-500">Nothing in the vault reached {(report.minThreshold * 100).toFixed(0)}% for these questions.</p>
+                <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+                  {gaps.map((question, index) => <li key={index}>{question.text}</li>)}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+
+      {/* Across Sessions */}
+      <section className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto border border-gray-700 space-y-6">
+        <h2 className="text-lg font-bold text-gray-200">Across Sessions</h2>
+        {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center">{error}</div>}
+        {analytics && analytics.sessionCount === 0 && (
+          <p className="text-gray-500 text-sm italic">No saved sessions yet. Sessions are saved when you press Stop.</p>
+        )}
+        {analytics && analytics.sessionCount > 0 && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <Stat label="Sessions" value={String(analytics.sessionCount)} />
+              <Stat label="Questions" value={String(analytics.questionCount)} />
+              <Stat
+                label="Gap rate"
+                value={analytics.questionCount ? `${((analytics.gapCount / analytics.questionCount) * 100).toFixed(0)}%` : '–'}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-400 uppercase">Talk Time</h3>
+              <TalkTimeBar talkTimeMs={analytics.talkTimeMs} />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-400 uppercase">Most Surfaced Memories</h3>
+              {analytics.topMemories.map(memory => (
+                <div key={memory.id} className="bg-gray-700 rounded p-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-purple-300 uppercase font-semibold">{memory.classification}</span>
+                    <span className="text-gray-400">{memory.timesSurfaced}× in {memory.sessions} session{memory.sessions === 1 ? '' : 's'}, best {(memory.bestScore * 100).toFixed(0)}%</span>
+                  </div>
+                  <p className="text-gray-200">{memory.description}</p>
+                  <p className="text-xs text-gray-500">{memory.sourceFile}</p>
+                </div>
+              ))}
+            </div>
+
+            {analytics.recurringGaps.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase">Unanswered Questions</h3>
+                {analytics.recurringGaps.map((gap, index) => (
+                  <div key={index} className="flex items-start justify-between space-x-3 text-sm">
+                    <span className="text-gray-300">{gap.text}</span>
+                    <span className="shrink-0 text-xs text-gray-500">{gap.count > 1 ? `${gap.count}× · ` : ''}{new Date(gap.lastAskedAt).toLocaleDateString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-400 uppercase">Question Categories</h3>
+              <div className="flex flex-wrap gap-2">
+                {(Object.entries(analytics.categoryCounts) as [string, number][])
+                  .sort(([, a], [, b]) => b - a)
+                  .map(([category, count]) => (
+                    <span key={category} className="px-2 py-1 rounded bg-gray-700 text-xs">
+                      <span className="text-purple-300 uppercase font-semibold">{category}</span> <span className="text-gray-400">{count}</span>
+                    </span>
+                  ))}
+              </div>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ReportView;
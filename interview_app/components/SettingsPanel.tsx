@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { LANGUAGES, LanguageCode } from '../services/languages';
+import { DETECTORS, DetectorName } from '../services/questionDetection';
+import {
+  AppSettings,
+  fetchServerConfig,
+  MAX_RESULTS_LIMIT,
+  ServerConfig,
+  validateSettings,
+} from '../services/settingsService';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  /** Forgets the user's changes */
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm';
+
+/**
+ * Dialog for the settings kept in this browser, with the backend's own configuration alongside.
+ */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onReset, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [serverConfig, setServerConfig] = useState<ServerConfig | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const checkBackend = async (backendUrl: string) => {
+    setChecking(true);
+    setServerError(null);
+    try {
+      setServerConfig(await fetchServerConfig(backendUrl));
+    } catch (err) {
+      setServerConfig(null);
+      setServerError(err instanceof Error ? err.message : 'Could not reach the backend');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    checkBackend(settings.backendUrl);
+  }, [settings.backendUrl]);
+
+  const change = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    const problems = validateSettings(draft);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    onSave(draft);
+    onClose();
+  };
+
+  const handleReset = () => {
+    onReset();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl p-6 w-[40rem] max-w-full space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-bold text-gray-200">Settings</h2>
+
+        <div className="space-y-1">
+          <span className="text-sm text-gray-400">Backend URL</span>
+          <div className="flex space-x-2">
+            <input
+              type="url"
+              value={draft.backendUrl}
+              onChange={(e) => change('backendUrl', e.target.value)}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => checkBackend(draft.backendUrl)}
+              disabled={checking}
+              className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200 whitespace-nowrap disabled:opacity-50"
+            >
+              {checking ? 'Checking…' : 'Test'}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-4">
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Interview language</span>
+            <select
+              value={draft.language}
+              onChange={(e) => change('language', e.target.value as LanguageCode)}
+              className={inputClassName}
+              title="Transcribes in this language and detects questions with its keywords"
+            >
+              {(Object.keys(LANGUAGES) as LanguageCode[]).map(code => (
+                <option key={code} value={code}>{LANGUAGES[code].label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Detection mode</span>
+            <select
+              value={draft.detector}
+              onChange={(e) => change('detector', e.target.value as DetectorName)}
+              className={inputClassName}
+              title={DETECTORS[draft.detector].description}
+            >
+              {(Object.keys(DETECTORS) as DetectorName[]).map(name => (
+                <option key={name} value={name}>{DETECTORS[name].label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Min match (%)</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={Math.round(draft.minThreshold * 100)}
+              onChange={(e) => change('minThreshold', parseFloat(e.target.value) / 100)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Results per question</span>
+            <input
+              type="number"
+              min="1"
+              max={MAX_RESULTS_LIMIT}
+              value={draft.maxResults}
+              onChange={(e) => change('maxResults', parseInt(e.target.value, 10))}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Live transcription model</span>
+            <input value={draft.liveModel} onChange={(e) => change('liveModel', e.target.value)} className={`${inputClassName} font-mono`} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-sm text-gray-400">Detection model</span>
+            <input value={draft.detectionModel} onChange={(e) => change('detectionModel', e.target.value)} className={`${inputClassName} font-mono`} />
+            <span className="block text-xs text-gray-500">Used by the LLM and Combined modes when detecting in the browser.</span>
+          </label>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-400 list-disc list-inside">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+
+        {/* The backend's own configuration, set in its environment or config file */}
+        <div className="bg-gray-900 rounded-lg p-3 text-xs text-gray-400 space-y-1">
+          <div className="font-semibold text-gray-300">Backend</div>
+          {serverError ? (
+            <div className="text-red-400">{serverError}</div>
+          ) : !serverConfig ? (
+            <div>Loading…</div>
+          ) : (
+            <>
+              <div>Storage: {serverConfig.storage.driver} · Embeddings: <span className="font-mono">{serverConfig.embeddings.model}</span>
+                {' '}· Near-duplicates at {Math.round(serverConfig.embeddings.duplicateThreshold * 100)}% similarity</div>
+              <div>
+                Privacy: redaction {serverConfig.privacy.redaction} · Encryption at rest: {serverConfig.privacy.encryption}
+              </div>
+              <div>
+                Models: classifier <span className="font-mono">{serverConfig.models.classifier}</span>,
+                detection <span className="font-mono">{serverConfig.models.detection}</span>,
+                drafts <span className="font-mono">{serverConfig.models.draft}</span>,
+                rewrites <span className="font-mono">{serverConfig.models.rewrite}</span>,
+                job prep <span className="font-mono">{serverConfig.models.jobAnalysis}</span>,
+                translation <span className="font-mono">{serverConfig.models.translation}</span>
+              </div>
+              <div>
+                Answer drafter: {serverConfig.answerDrafter} · Query rewriter: {serverConfig.queryRewriter} · Job analyzer: {serverConfig.jobAnalyzer}
+                {' '}· Query translator: {serverConfig.queryTranslator} · Vault language: {LANGUAGES[serverConfig.vaultLanguage].label}
+              </div>
+              <div>
+                Defaults: {LANGUAGES[serverConfig.client.language].label}, {DETECTORS[serverConfig.client.detector].label} detection, {Math.round(serverConfig.client.minThreshold * 100)}% min match,
+                {' '}{serverConfig.client.maxResults} results
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-between">
+          <button onClick={handleReset} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">Reset to defaults</button>
+          <div className="space-x-2">
+            <button onClick={onClose} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">Cancel</button>
+            <button onClick={handleSave} className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { SHORTCUTS } from '../services/keyboardShortcuts';
+
+/**
+ * Dialog listing the keyboard shortcuts.
+ */
+const ShortcutHelp: React.FC<{ onClose: () => void }> = ({ onClose }) => (
+  <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+    <div
+      className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl p-6 w-[28rem] max-w-full space-y-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h2 className="text-lg font-bold text-gray-200">Keyboard Shortcuts</h2>
+      <table className="w-full text-sm">
+        <tbody>
+          {SHORTCUTS.map(shortcut => (
+            <tr key={shortcut.action}>
+              <td className="py-1 pr-4 whitespace-nowrap">
+                <kbd className="px-2 py-0.5 bg-gray-700 text-gray-200 rounded border border-gray-600 font-mono text-xs">{shortcut.label}</kbd>
+              </td>
+              <td className="py-1 text-gray-300">{shortcut.description}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500">Double-click any sentence in the transcript to mark it as a question.</p>
+      <div className="flex justify-end">
+        <button onClick={onClose} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">Close</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ShortcutHelp;
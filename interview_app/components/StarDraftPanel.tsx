@@ -0,0 +1,92 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MemorySearchResult } from '../services/vectorSearchService';
+import { streamAnswerDraft, DraftBullet, STAR_SECTIONS } from '../services/answerDraftService';
+
+interface StarDraftPanelProps {
+  question: string;
+  memories: MemorySearchResult[];
+  accentColor: string;
+}
+
+/**
+ * On-demand STAR outline for one question, citing the memory cards it was drafted from.
+ */
+const StarDraftPanel: React.FC<StarDraftPanelProps> = ({ question, memories, accentColor }) => {
+  const [bullets, setBullets] = useState<DraftBullet[]>([]);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Cancel any in-flight draft on unmount
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleDraft = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setBullets([]);
+    setError(null);
+    setIsDrafting(true);
+    try {
+      await streamAnswerDraft(question, memories, (bullet) => {
+        setBullets(prev => [...prev, bullet]);
+      }, controller.signal);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error('Error drafting answer:', e);
+        setError((e as Error).message);
+      }
+    } finally {
+      if (abortRef.current === controller) setIsDrafting(false);
+    }
+  };
+
+  // Citations are shown as the 1-based position of the memory card above
+  const citation = (memoryId: string) => memories.findIndex(m => m.id === memoryId) + 1;
+
+  return (
+    <div className="bg-gray-900/60 rounded p-3 text-sm" style={{ borderLeft: `2px solid ${accentColor}` }}>
+      <div className="flex justify-between items-center">
+        <span className="text-gray-300 font-semibold text-xs uppercase">Talking Points</span>
+        <button
+          onClick={handleDraft}
+          disabled={isDrafting}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-500"
+        >
+          {isDrafting ? 'Drafting...' : bullets.length ? 'Redraft' : 'Draft STAR answer'}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+
+      {bullets.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {STAR_SECTIONS.map(section => {
+            const sectionBullets = bullets.filter(b => b.section === section);
+            if (sectionBullets.length === 0) return null;
+            return (
+              <div key={section}>
+                <div className="text-gray-500 text-xs uppercase">{section}</div>
+                <ul className="list-disc list-inside text-gray-100">
+                  {sectionBullets.map((bullet, index) => (
+                    <li key={index} className="leading-tight">
+                      {bullet.text}
+                      {bullet.memoryIds.map(id => citation(id)).filter(n => n > 0).map(n => (
+                        <sup key={n} className="ml-1 text-purple-300" title={memories[n - 1].description}>[{n}]</sup>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StarDraftPanel;
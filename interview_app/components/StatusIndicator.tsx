@@ -1,18 +1,24 @@
 
 import React from 'react';
-import { TranscriptionStatus } from '../types';
+import { Speaker, TranscriptionStatus } from '../types';
 
 interface StatusIndicatorProps {
   status: TranscriptionStatus;
+  /** Input level in [0, 1] per captured speaker, shown as a meter while listening */
+  levels?: Partial<Record<Speaker, number>>;
 }
 
-const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status }) => {
+const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, levels = {} }) => {
   const getStatusInfo = () => {
     switch (status) {
       case TranscriptionStatus.LISTENING:
         return { color: 'bg-green-500 animate-pulse', text: 'Listening...' };
       case TranscriptionStatus.CONNECTING:
         return { color: 'bg-yellow-500 animate-pulse', text: 'Connecting...' };
+      case TranscriptionStatus.RECONNECTING:
+        return { color: 'bg-orange-500 animate-pulse', text: 'Reconnecting...' };
+      case TranscriptionStatus.DEGRADED:
+        return { color: 'bg-amber-400', text: 'Degraded' };
       case TranscriptionStatus.STOPPED:
         return { color: 'bg-gray-500', text: 'Stopped' };
       case TranscriptionStatus.ERROR:
@@ -24,11 +30,23 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status }) => {
   };
 
   const { color, text } = getStatusInfo();
+  const meters = status === TranscriptionStatus.LISTENING || status === TranscriptionStatus.DEGRADED ? Object.entries(levels) as [Speaker, number][] : [];
 
   return (
-    <div className="flex items-center space-x-3 bg-gray-800 px-4 py-2 rounded-full">
+    <div
+      className="flex items-center space-x-3 bg-gray-800 px-4 py-2 rounded-full"
+      title={status === TranscriptionStatus.DEGRADED ? 'Reconnected, but some audio from the connection gap was lost' : undefined}
+    >
       <div className={`w-3 h-3 rounded-full ${color}`}></div>
       <span className="text-sm font-medium text-gray-300">{text}</span>
+      {meters.map(([speaker, level]) => (
+        <div key={speaker} className="w-16 h-2 bg-gray-700 rounded-full overflow-hidden" title={`${speaker} input level`}>
+          <div
+            className={`h-full transition-[width] duration-100 ${level > 0.9 ? 'bg-red-500' : 'bg-green-500'}`}
+            style={{ width: `${Math.round(level * 100)}%` }}
+          />
+        </div>
+      ))}
     </div>
   );
 };
@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Memory,
+  SourceFileSummary,
+  listMemories,
+  listSourceFiles,
+  getCategories,
+  createMemory,
+  updateMemory,
+  reembedMemory,
+  deleteMemory,
+  deleteMemories,
+  deleteMemoriesBySource,
+} from '../services/memoryVaultService';
+import DuplicatesPanel from './DuplicatesPanel';
+
+const PAGE_SIZE = 20;
+
+interface MemoryDraft {
+  classification: string;
+  description: string;
+  sourceFile: string;
+}
+
+const EMPTY_DRAFT: MemoryDraft = { classification: 'experience', description: '', sourceFile: 'manual' };
+
+interface MemoryEditorProps {
+  draft: MemoryDraft;
+  categories: string[];
+  busy: boolean;
+  submitLabel: string;
+  onChange: (draft: MemoryDraft) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+const MemoryEditor: React.FC<MemoryEditorProps> = ({ draft, categories, busy, submitLabel, onChange, onSubmit, onCancel }) => (
+  <div className="space-y-2">
+    <div className="flex space-x-2">
+      <select
+        value={draft.classification}
+        onChange={(e) => onChange({ ...draft, classification: e.target.value })}
+        className="px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
+      >
+        {categories.map(category => <option key={category} value={category}>{category}</option>)}
+      </select>
+      <input
+        value={draft.sourceFile}
+        onChange={(e) => onChange({ ...draft, sourceFile: e.target.value })}
+        placeholder="Source file"
+        className="flex-1 px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
+      />
+    </div>
+    <textarea
+      value={draft.description}
+      onChange={(e) => onChange({ ...draft, description: e.target.value })}
+      rows={3}
+      placeholder="Describe the memory..."
+      className="w-full px-2 py-1 bg-gray-700 text-gray-100 rounded border border-gray-600 text-sm"
+    />
+    <div className="flex justify-end space-x-2">
+      <button onClick={onCancel} disabled={busy} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">Cancel</button>
+      <button
+        onClick={onSubmit}
+        disabled={busy || !draft.description.trim() || !draft.sourceFile.trim()}
+        className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+      >
+        {busy ? 'Saving...' : submitLabel}
+      </button>
+    </div>
+  </div>
+);
+
+/**
+ * Lists, filters and edits stored memories.
+ */
+const VaultView: React.FC = () => {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [sources, setSources] = useState<SourceFileSummary[]>([]);
+  const [classificationFilter, setClassificationFilter] = useState<string[]>([]);
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<MemoryDraft>(EMPTY_DRAFT);
+  const [isCreating, setIsCreating] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [result, sourceList] = await Promise.all([
+        listMemories({ classification: classificationFilter, sourceFile: sourceFilter || undefined, page, pageSize: PAGE_SIZE }),
+        listSourceFiles(),
+      ]);
+      setMemories(result.memories);
+      setTotal(result.total);
+      setSources(sourceList);
+      setSelectedIds(new Set());
+      setError(null);
+    } catch (e) {
+      console.error('Failed to load memories', e);
+      setError(`Failed to load memories: ${(e as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [classificationFilter, sourceFilter, page]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    getCategories()
+      .then(result => setCategories(Object.keys(result)))
+      .catch(e => console.error('Failed to load categories', e));
+  }, []);
+
+  // Run a mutation, surface failures, then reload the current page
+  const mutate = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+      await refresh();
+    } catch (e) {
+      console.error('Vault update failed', e);
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleClassification = (category: string) => {
+    setPage(1);
+    setClassificationFilter(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const startEditing = (memory: Memory) => {
+    setIsCreating(false);
+    setEditingId(memory.id);
+    setDraft({ classification: memory.classification, description: memory.description, sourceFile: memory.sourceFile });
+  };
+
+  const handleSaveEdit = (memory: Memory) => mutate(async () => {
+    const update: Partial<MemoryDraft> = {};
+    (Object.keys(draft) as (keyof MemoryDraft)[]).forEach(field => {
+      if (draft[field] !== memory[field]) update[field] = draft[field];
+    });
+    if (Object.keys(update).length) await updateMemory(memory.id, update);
+    setEditingId(null);
+  });
+
+  const handleCreate = () => mutate(async () => {
+    const { inserted, duplicate } = await createMemory(draft);
+    if (!inserted && duplicate) {
+      const similar = `${(duplicate.score * 100).toFixed(0)}% similar to a memory from "${duplicate.sourceFile}":\n\n${duplicate.description}`;
+      if (!window.confirm(`${similar}\n\nThe source file was added to that memory instead. Save a separate copy anyway?`)) {
+        setIsCreating(false);
+        return;
+      }
+      await createMemory(draft, { allowDuplicate: true });
+    }
+    setIsCreating(false);
+  });
+
+  const handleDeleteSelected = () => {
+    if (!window.confirm(`Delete ${selectedIds.size} selected memories?`)) return;
+    mutate(() => deleteMemories([...selectedIds]));
+  };
+
+  const handleDeleteSource = () => {
+    if (!sourceFilter || !window.confirm(`Delete every memory from "${sourceFilter}"?`)) return;
+    mutate(async () => {
+      await deleteMemoriesBySource(sourceFilter);
+      setSourceFilter('');
+      setPage(1);
+    });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="flex-1 bg-gray-800 rounded-xl shadow-2xl p-6 overflow-y-auto border border-gray-700">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {categories.map(category => (
+          <button
+            key={category}
+            onClick={() => toggleClassification(category)}
+            className={`px-2 py-1 rounded text-xs uppercase font-semibold ${classificationFilter.includes(category) ? 'bg-purple-500 text-gray-900' : 'bg-gray-700 text-purple-300 hover:bg-gray-600'}`}
+          >
+            {category}
+          </button>
+        ))}
+        <select
+          value={sourceFilter}
+          onChange={(e) => { setSourceFilter(e.target.value); setPage(1); }}
+          className="px-2 py-1 bg-gray-700 text-gray-200 rounded border border-gray-600 text-sm"
+        >
+          <option value="">All sources</option>
+          {sources.map(source => (
+            <option key={source.sourceFile} value={source.sourceFile}>{source.sourceFile} ({source.count})</option>
+          ))}
+        </select>
+        {sourceFilter && (
+          <button onClick={handleDeleteSource} disabled={busy} className="text-sm text-red-400 hover:text-red-300">
+            Delete source
+          </button>
+        )}
+        <div className="flex-1" />
+        {selectedIds.size > 0 && (
+          <button onClick={handleDeleteSelected} disabled={busy} className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700">
+            Delete {selectedIds.size} selected
+          </button>
+        )}
+        <button onClick={() => setShowDuplicates(prev => !prev)} className="px-3 py-1 text-sm text-gray-400 hover:text-gray-200">
+          Find duplicates
+        </button>
+        <button
+          onClick={() => { setEditingId(null); setDraft(EMPTY_DRAFT); setIsCreating(true); }}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          New memory
+        </button>
+      </div>
+
+      {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-lg text-center mb-4">{error}</div>}
+
+      {showDuplicates && <DuplicatesPanel onMerged={refresh} onClose={() => setShowDuplicates(false)} />}
+
+      {isCreating && (
+        <div className="bg-gray-700/50 rounded p-3 mb-4">
+          <MemoryEditor
+            draft={draft}
+            categories={categories}
+            busy={busy}
+            submitLabel="Create"
+            onChange={setDraft}
+            onSubmit={handleCreate}
+            onCancel={() => setIsCreating(false)}
+          />
+        </div>
+      )}
+
+      {/* Memory list */}
+      <div className="space-y-2">
+        {!loading && memories.length === 0 && (
+          <p className="text-gray-500 text-sm italic">No memories match these filters.</p>
+        )}
+        {memories.map(memory => (
+          <div key={memory.id} className="bg-gray-700 rounded p-3 text-sm">
+            {editingId === memory.id ? (
+              <MemoryEditor
+                draft={draft}
+                categories={categories}
+                busy={busy}
+                submitLabel="Save"
+                onChange={setDraft}
+                onSubmit={() => handleSaveEdit(memory)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(memory.id)}
+                  onChange={() => toggleSelected(memory.id)}
+                  className="mt-1 accent-blue-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between items-start mb-1">
+                    <span className="text-purple-300 font-semibold text-xs uppercase">{memory.classification}</span>
+                    <div className="flex space-x-3 text-xs">
+                      <button onClick={() => startEditing(memory)} className="text-gray-400 hover:text-white">Edit</button>
+                      <button onClick={() => mutate(() => reembedMemory(memory.id))} disabled={busy} className="text-gray-400 hover:text-white">Re-embed</button>
+                      <button onClick={() => mutate(() => deleteMemory(memory.id))} disabled={busy} className="text-red-400 hover:text-red-300">Delete</button>
+                    </div>
+                  </div>
+                  <p className="text-gray-100 mb-1 leading-tight">{memory.description}</p>
+                  <div className="flex justify-between items-center text-xs text-gray-500 mt-2">
+                    <span className="truncate" title={memory.mergedFrom?.length ? `Merged from ${memory.mergedFrom.length} other memories` : undefined}>
+                      {memory.sourceFiles?.length ? memory.sourceFiles.join(', ') : memory.sourceFile}
+                    </span>
+                    <span>{new Date(memory.updatedAt ?? memory.createdAt).toLocaleString()}</span>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Pagination */}
+      <div className="flex justify-between items-center mt-4 text-sm text-gray-400">
+        <span>{loading ? 'Loading...' : `${total} memories`}</span>
+        <div className="flex items-center space-x-3">
+          <button onClick={() => setPage(p => p - 1)} disabled={page <= 1 || loading} className="hover:text-white disabled:opacity-40">Previous</button>
+          <span>Page {page} of {pageCount}</span>
+          <button onClick={() => setPage(p => p + 1)} disabled={page >= pageCount || loading} className="hover:text-white disabled:opacity-40">Next</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultView;
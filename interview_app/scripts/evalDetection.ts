@@ -0,0 +1,101 @@
+/**
+ * Runs question detectors over a labeled corpus and reports precision, recall and latency.
+ *
+ * Usage: npm run eval:detection -- [--detector=keyword|llm|combined|all] [--corpus=samples/question-corpus.json]
+ *   [--language=en|es|de|fr] [--verbose]
+ * The language selects the keyword pack, e.g. --language=es --corpus=samples/question-corpus.es.json.
+ * The LLM-backed detectors read the API key from GEMINI_API_KEY.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { GoogleGenAI } from '@google/genai';
+import { LANGUAGES, LanguageCode } from '../services/languages';
+import { createDetector, createGeminiClassifier, DETECTION_KEYWORD_PACKS, DETECTORS, DetectorName } from '../services/questionDetection';
+
+interface LabeledUtterance {
+  text: string;
+  isQuestion: boolean;
+}
+
+const { values } = parseArgs({
+  options: {
+    detector: { type: 'string', default: 'keyword' },
+    corpus: { type: 'string', default: 'samples/question-corpus.json' },
+    language: { type: 'string', default: 'en' },
+    verbose: { type: 'boolean', default: false },
+  },
+});
+
+const detectorNames = values.detector === 'all'
+  ? Object.keys(DETECTORS) as DetectorName[]
+  : [values.detector as DetectorName];
+
+const unknown = detectorNames.find(name => !(name in DETECTORS));
+if (unknown) {
+  console.error(`Unknown detector "${unknown}". Expected one of: ${Object.keys(DETECTORS).join(', ')}, all`);
+  process.exit(1);
+}
+
+if (!(values.language! in LANGUAGES)) {
+  console.error(`Unknown language "${values.language}". Expected one of: ${Object.keys(LANGUAGES).join(', ')}`);
+  process.exit(1);
+}
+const keywords = DETECTION_KEYWORD_PACKS[values.language as LanguageCode];
+
+const corpus: LabeledUtterance[] = JSON.parse(await readFile(values.corpus!, 'utf8'));
+const apiKey = process.env.GEMINI_API_KEY ?? process.env.API_KEY;
+const ai = apiKey ? new GoogleGenAI({ apiKey }) : undefined;
+
+const percent = (value: number) => Number.isNaN(value) ? '  n/a' : `${(value * 100).toFixed(1).padStart(5)}%`;
+
+console.log(`Corpus: ${values.corpus} (${LANGUAGES[values.language as LanguageCode].label}, ${corpus.length} utterances, ${corpus.filter(u => u.isQuestion).length} questions)\n`);
+console.log('Detector   Precision  Recall     F1      TP  FP  FN  TN   Mean ms  p95 ms');
+
+for (const name of detectorNames) {
+  if (name !== 'keyword' && !ai) {
+    console.log(`${DETECTORS[name].label.padEnd(10)} skipped: set GEMINI_API_KEY to evaluate`);
+    continue;
+  }
+
+  const detector = createDetector(name, { classifier: ai && createGeminiClassifier(ai), keywords });
+  const latencies: number[] = [];
+  const mistakes: string[] = [];
+  let tp = 0, fp = 0, fn = 0, tn = 0;
+
+  // Sequential, so latencies reflect one sentence at a time as in a live session
+  for (const utterance of corpus) {
+    const started = performance.now();
+    const result = await detector.detect(utterance.text);
+    latencies.push(performance.now() - started);
+
+    if (result.isQuestion && utterance.isQuestion) tp++;
+    else if (result.isQuestion) fp++;
+    else if (utterance.isQuestion) fn++;
+    else tn++;
+
+    if (result.isQuestion !== utterance.isQuestion) {
+      mistakes.push(`  ${result.isQuestion ? 'FP' : 'FN'} "${utterance.text}" (${result.reason})`);
+    }
+  }
+
+  const precision = tp / (tp + fp);
+  const recall = tp / (tp + fn);
+  const f1 = (2 * precision * recall) / (precision + recall);
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const mean = latencies.reduce((sum, value) => sum + value, 0) / latencies.length;
+  const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+
+  console.log([
+    DETECTORS[name].label.padEnd(10),
+    percent(precision).padEnd(10),
+    percent(recall).padEnd(10),
+    percent(f1).padEnd(7),
+    String(tp).padStart(3), String(fp).padStart(3), String(fn).padStart(3), String(tn).padStart(3),
+    mean.toFixed(1).padStart(9), p95.toFixed(1).padStart(7),
+  ].join(' '));
+
+  if (values.verbose && mistakes.length) {
+    console.log(mistakes.join('\n'));
+  }
+}
@@ -0,0 +1,57 @@
+import { api } from './backendApi';
+import type { DraftAnswerEvent, DraftBullet as DraftBulletEvent } from './apiClient';
+import { MemorySearchResult } from './vectorSearchService';
+
+export type StarSection = DraftBulletEvent['section'];
+
+export const STAR_SECTIONS: StarSection[] = ['situation', 'task', 'action', 'result'];
+
+export type DraftBullet = Omit<DraftBulletEvent, 'type'>;
+
+/**
+ * Streams a STAR talking-points outline for a question from the backend.
+ * @param question The detected interview question
+ * @param memories The memories surfaced for it; bullets cite these by id
+ * @param onBullet Called for each talking point as soon as it arrives
+ * @param signal Aborts the request (and generation on the backend)
+ */
+export async function streamAnswerDraft(
+  question: string,
+  memories: MemorySearchResult[],
+  onBullet: (bullet: DraftBullet) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const response = await api.draftAnswer({
+    question,
+    memories: memories.map(({ id, classification, description, sourceFile }) => ({ id, classification, description, sourceFile })),
+  }, { signal });
+
+  if (!response.body) {
+    throw new Error('The answer draft response has no body');
+  }
+
+  // The body is newline-delimited JSON; parse each complete line as it arrives
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as DraftAnswerEvent;
+    if (event.type === 'bullet') {
+      onBullet({ section: event.section, text: event.text, memoryIds: event.memoryIds });
+    } else if (event.type === 'error') {
+      throw new Error(event.error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+}
@@ -0,0 +1,90 @@
+import { MemorySearchResult } from './vectorSearchService';
+
+// A memory counts as covered once the answer mentions this share of its key terms
+const COVERED_TERM_SHARE = 0.3;
+// Missed terms listed per memory, as hints for the next attempt
+const MAX_MISSED_TERMS = 6;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'was', 'were', 'are', 'but', 'not', 'you', 'your', 'our',
+  'from', 'they', 'them', 'their', 'have', 'has', 'had', 'its', 'into', 'about', 'over', 'than', 'then',
+  'which', 'who', 'what', 'when', 'where', 'how', 'why', 'all', 'any', 'can', 'could', 'would', 'should',
+  'will', 'also', 'been', 'being', 'more', 'most', 'some', 'such', 'only', 'other', 'very', 'just', 'each',
+  'after', 'before', 'while', 'during', 'across', 'through', 'there', 'here', 'these', 'those', 'because',
+  'did', 'does', 'doing', 'done', 'one', 'two', 'out', 'off', 'per', 'via', 'his', 'her', 'she', 'him',
+  'myself', 'team', 'work', 'worked', 'working',
+]);
+
+export interface MemoryCoverage {
+  memory: MemorySearchResult;
+  covered: boolean;
+  /** Share of the memory's key terms the answer mentioned, 0-1 */
+  share: number;
+  matchedTerms: string[];
+  /** Key terms the answer left out, most distinctive first */
+  missedTerms: string[];
+}
+
+export interface AnswerScore {
+  /** How well the answer covered the surfaced memories, 0-1, weighted by each memory's match; null when nothing was surfaced */
+  score: number | null;
+  coverage: MemoryCoverage[];
+  wordCount: number;
+}
+
+// Crude suffix stripping, so "migrated" in an answer matches "migration" in a memory
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(ions?|ing|ed|es|s|ly|e)$/, '') : word;
+}
+
+function keyTerms(text: string): Map<string, string> {
+  const terms = new Map<string, string>(); // stem -> first surface form
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}%'-]*/gu) ?? []) {
+    const cleaned = word.replace(/'s$/, '');
+    if (cleaned.length < 3 || STOPWORDS.has(cleaned)) continue;
+    const key = stem(cleaned);
+    if (!terms.has(key)) terms.set(key, cleaned);
+  }
+  return terms;
+}
+
+/**
+ * Scores a spoken answer by how much of the memories surfaced for its question it used.
+ * Purely lexical, so it works offline and gives the same result every time.
+ * @param answer The transcribed answer
+ * @param memories The memories surfaced for the question
+ * @returns The overall score and per-memory coverage, best covered first
+ */
+export function scoreAnswer(answer: string, memories: MemorySearchResult[]): AnswerScore {
+  const answerTerms = keyTerms(answer);
+  const wordCount = answer.trim() ? answer.trim().split(/\s+/).length : 0;
+
+  const coverage = memories.map((memory): MemoryCoverage => {
+    const terms = [...keyTerms(memory.description)];
+    const matched = terms.filter(([key]) => answerTerms.has(key));
+    const share = terms.length ? matched.length / terms.length : 0;
+    return {
+      memory,
+      covered: share >= COVERED_TERM_SHARE,
+      share,
+      matchedTerms: matched.map(([, word]) => word),
+      missedTerms: terms
+        .filter(([key]) => !answerTerms.has(key))
+        .map(([, word]) => word)
+        .sort((a, b) => b.length - a.length)
+        .slice(0, MAX_MISSED_TERMS),
+    };
+  });
+
+  // Partial credit up to the covered threshold; better matches weigh more
+  const totalWeight = memories.reduce((sum, memory) => sum + memory.score, 0);
+  const score = totalWeight > 0
+    ? coverage.reduce((sum, entry) => sum + entry.memory.score * Math.min(1, entry.share / COVERED_TERM_SHARE), 0) / totalWeight
+    : null;
+
+  return {
+    score,
+    coverage: coverage.sort((a, b) => b.share - a.share),
+    wordCount,
+  };
+}
@@ -0,0 +1,667 @@
+// Generated from mongodb_backend/apiContract.mjs by `npm run contract:generate`; do not edit.
+// `npm run contract:check` (in mongodb_backend) fails when this file is out of date.
+
+// --- SHARED TYPES ---
+
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+export interface Memory {
+  id: string;
+  /** One of the categories from GET /api/memories/categories */
+  classification: string;
+  description: string;
+  /** The file it was first saved from */
+  sourceFile: string;
+  /** Every file it was saved from, once it has been saved again as a duplicate or merged */
+  sourceFiles?: string[];
+  /** Ids of memories merged into this one */
+  mergedFrom?: string[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/** A memory with its similarity to another */
+export interface ScoredMemory {
+  id: string;
+  /** One of the categories from GET /api/memories/categories */
+  classification: string;
+  description: string;
+  /** The file it was first saved from */
+  sourceFile: string;
+  /** Every file it was saved from, once it has been saved again as a duplicate or merged */
+  sourceFiles?: string[];
+  /** Ids of memories merged into this one */
+  mergedFrom?: string[];
+  createdAt: string;
+  updatedAt?: string;
+  /** Similarity to the memory being saved, 0-1 */
+  score: number;
+}
+
+export interface ScoreBreakdown {
+  /** Vector similarity, 0-1 */
+  semantic: number;
+  /** Keyword match relative to the best keyword hit, 0-1 */
+  lexical: number;
+  /** Boost for memories already surfaced earlier in the conversation */
+  thread?: number;
+  /** Boost for memories matching the job description's competencies */
+  focus?: number;
+}
+
+export interface MemorySearchResult {
+  id: string;
+  /** One of the categories from GET /api/memories/categories */
+  classification: string;
+  description: string;
+  /** The file it was first saved from */
+  sourceFile: string;
+  /** Every file it was saved from, once it has been saved again as a duplicate or merged */
+  sourceFiles?: string[];
+  /** Ids of memories merged into this one */
+  mergedFrom?: string[];
+  createdAt: string;
+  updatedAt?: string;
+  /** Combined score, 0-1 */
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+  /** Near-duplicates that ranked lower and were folded into this result */
+  duplicates?: {
+    id: string;
+    sourceFile: string;
+  }[];
+}
+
+/** Metadata filters */
+export interface SearchFilters {
+  /** Only these classifications */
+  classification?: string | string[];
+  /** Only memories from this source file */
+  sourceFile?: string;
+  /** ISO date, inclusive */
+  createdAfter?: string;
+  /** ISO date, inclusive */
+  createdBefore?: string;
+}
+
+/** The conversation so far; follow-up questions are rewritten into self-contained queries */
+export interface ConversationContext {
+  /** Recent turns, oldest first */
+  turns?: ({
+    speaker: 'interviewer' | 'candidate';
+    text: string;
+  })[];
+  /** Memories surfaced earlier in the conversation, most recent first */
+  memoryIds?: string[];
+}
+
+/** ISO 639-1 code of an interview language */
+export type Language = 'en' | 'es' | 'de' | 'fr';
+
+export interface SourceFileSummary {
+  sourceFile: string;
+  count: number;
+}
+
+export interface DuplicateCluster {
+  memories: Memory[];
+  /** The weakest similarity within the cluster, 0-1 */
+  score: number;
+}
+
+export interface IngestedMemory {
+  classification: string;
+  description: string;
+  contentHash: string;
+}
+
+export interface JobCompetency {
+  name: string;
+  keywords: string[];
+  /** Memories that match it; they get a ranking boost in live searches */
+  memoryIds: string[];
+}
+
+export interface PredictedQuestion {
+  text: string;
+  competency: string;
+  results: MemorySearchResult[];
+}
+
+export interface DraftMemory {
+  id: string;
+  classification: string;
+  description: string;
+  sourceFile?: string;
+}
+
+export interface DraftBullet {
+  type: 'bullet';
+  section: 'situation' | 'task' | 'action' | 'result';
+  text: string;
+  /** Memories this talking point came from */
+  memoryIds: string[];
+}
+
+/** One line of the answer draft stream */
+export type DraftAnswerEvent = DraftBullet | {
+  type: 'done';
+  drafter: string;
+} | {
+  type: 'error';
+  error: string;
+};
+
+/** Milliseconds of speech per speaker */
+export interface TalkTime {
+  interviewer: number;
+  candidate: number;
+}
+
+export interface SessionQuestion {
+  text: string;
+  startMs: number;
+  /** Classifications of the surfaced memories, best match first */
+  categories: string[];
+  /** Best memory score, or null when nothing was surfaced */
+  topScore: number | null;
+  memoryIds: string[];
+  /** Nothing in the vault cleared the session's minimum match */
+  isGap: boolean;
+}
+
+export interface SurfacedMemory {
+  id: string;
+  classification: string;
+  description: string;
+  sourceFile: string;
+  timesSurfaced: number;
+  bestScore: number;
+}
+
+/** What a session asked and what the vault had for it */
+export interface SessionReport {
+  /** ISO timestamp */
+  startedAt: string;
+  source: string;
+  minThreshold: number;
+  durationMs: number;
+  questions: SessionQuestion[];
+  /** Most surfaced first */
+  surfacedMemories: SurfacedMemory[];
+  talkTimeMs: TalkTime;
+}
+
+export interface SessionSummary {
+  id: string;
+  startedAt: string;
+  source: string;
+  durationMs: number;
+  questionCount: number;
+  gapCount: number;
+}
+
+/** Aggregates across a profile's saved sessions */
+export interface SessionAnalytics {
+  sessionCount: number;
+  questionCount: number;
+  gapCount: number;
+  topMemories: {
+    id: string;
+    classification: string;
+    description: string;
+    sourceFile: string;
+    timesSurfaced: number;
+    bestScore: number;
+    sessions: number;
+  }[];
+  recurringGaps: {
+    text: string;
+    count: number;
+    lastAskedAt: string;
+  }[];
+  categoryCounts: Record<string, number>;
+  talkTimeMs: TalkTime;
+}
+
+/** The backend's non-secret configuration */
+export interface ServerConfig {
+  /** Port the API and live channel listen on */
+  port: number;
+  storage: {
+    /** Memory and session store */
+    driver: 'atlas' | 'local';
+  };
+  privacy: {
+    /** Replaces emails, phone numbers, person names and deny-listed terms with placeholders in everything sent to Gemini. Embeddings are computed from the redacted text, so vector search cannot tell one person (or deny-listed term) from another; keyword search still can */
+    redaction: 'on' | 'off';
+    /** Encrypts memory descriptions at rest with the local key */
+    encryption: 'off' | 'aes-256-gcm';
+  };
+  embeddings: {
+    /** Embedding model */
+    model: string;
+    /** Similarity above which memories count as near-duplicates, on save and in search results */
+    duplicateThreshold: number;
+  };
+  models: {
+    /** Model classifying ingested chunks */
+    classifier: string;
+    /** Model behind the "llm" and "combined" detectors */
+    detection: string;
+    /** Model drafting answer outlines */
+    draft: string;
+    /** Model rewriting follow-up questions */
+    rewrite: string;
+    /** Model extracting competencies and questions from job descriptions */
+    jobAnalysis: string;
+    /** Model translating questions into the vault's language */
+    translation: string;
+  };
+  /** "stub" drafts deterministically without Gemini */
+  answerDrafter: 'gemini' | 'stub';
+  /** "heuristic" rewrites follow-ups without Gemini, "off" disables rewriting */
+  queryRewriter: 'gemini' | 'heuristic' | 'off';
+  /** "heuristic" analyzes job descriptions without Gemini */
+  jobAnalyzer: 'gemini' | 'heuristic';
+  /** "off" searches questions in their own language, e.g. with a multilingual embedding model */
+  queryTranslator: 'gemini' | 'off';
+  /** Language the memories are written in; questions in other languages are translated into it */
+  vaultLanguage: 'en' | 'es' | 'de' | 'fr';
+  client: {
+    /** Default detection mode */
+    detector: 'keyword' | 'llm' | 'combined';
+    /** Default interview language */
+    language: 'en' | 'es' | 'de' | 'fr';
+    /** Default minimum match score */
+    minThreshold: number;
+    /** Default results per question */
+    maxResults: number;
+  };
+}
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: string;
+}
+
+// --- REQUESTS AND RESPONSES ---
+
+export interface GetConfigResponse {
+  success: true;
+  config: ServerConfig;
+}
+
+export interface GetProfileResponse {
+  success: true;
+  profile: Profile;
+}
+
+export interface SaveMemoryBody {
+  memory: {
+    classification: string;
+    description: string;
+  };
+  sourceFile: string;
+  /** Save even if a near-duplicate exists */
+  allowDuplicate?: boolean;
+}
+
+export interface SaveMemoryResponse {
+  success: true;
+  /** The new memory, or the near-duplicate when nothing was saved */
+  id: string;
+  /** False when a near-duplicate was already in the vault */
+  inserted: boolean;
+  duplicate?: ScoredMemory;
+}
+
+export interface SearchMemoryBody {
+  /** The question or keywords to search for */
+  query: string;
+  /** Number of results to return, 1-20 (default: 5) */
+  limit?: number;
+  filters?: SearchFilters;
+  /** Weight of exact keyword matching vs. semantic similarity, 0-1 (default: 0.3) */
+  lexicalWeight?: number;
+  /** Vector search candidates (default: 50) */
+  numCandidates?: number;
+  context?: ConversationContext;
+  /** Fold near-duplicates into one result (default: true) */
+  diversify?: boolean;
+  /** Memories to favour in the ranking, e.g. those matching the job description */
+  focusIds?: string[];
+  /** The language the question was asked in; it is translated if the vault is in another one */
+  language?: Language;
+}
+
+export interface SearchMemoryResponse {
+  success: true;
+  results: MemorySearchResult[];
+  /** The query that was actually searched */
+  query: string;
+  /** A follow-up was rewritten using the conversation context */
+  rewritten: boolean;
+  /** The question was translated into the vault's language */
+  translated: boolean;
+  /** The language the question was translated from */
+  language?: Language;
+}
+
+export interface ListMemoriesQuery {
+  page?: number;
+  /** Clamped to the maximum page size */
+  pageSize?: number;
+  /** Comma-separated classifications */
+  classification?: string;
+  sourceFile?: string;
+}
+
+export interface ListMemoriesResponse {
+  success: true;
+  memories: Memory[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ListSourcesResponse {
+  success: true;
+  sources: SourceFileSummary[];
+}
+
+export interface GetCategoriesResponse {
+  success: true;
+  /** Category name → description */
+  categories: Record<string, string>;
+}
+
+export interface FindDuplicatesQuery {
+  /** Similarity, 0.5-1; lower finds looser matches (default: the configured duplicate threshold) */
+  threshold?: number;
+}
+
+export interface FindDuplicatesResponse {
+  success: true;
+  clusters: DuplicateCluster[];
+  threshold: number;
+}
+
+export interface MergeMemoriesBody {
+  /** At least two memory ids */
+  ids: string[];
+  /** The memory to keep (default: the longest) */
+  keepId?: string;
+  /** Replaces the combined description */
+  description?: string;
+  classification?: string;
+}
+
+export interface MergeMemoriesResponse {
+  success: true;
+  memory: Memory;
+  deletedIds: string[];
+}
+
+export interface GetMemoryResponse {
+  success: true;
+  memory: Memory;
+}
+
+export interface UpdateMemoryBody {
+  classification?: string;
+  description?: string;
+  sourceFile?: string;
+}
+
+export interface UpdateMemoryResponse {
+  success: true;
+  memory: Memory;
+  reembedded: boolean;
+}
+
+export interface DeleteMemoryResponse {
+  success: true;
+  deletedCount: number;
+}
+
+export interface BulkDeleteMemoriesBody {
+  ids: string[];
+}
+
+export interface BulkDeleteMemoriesResponse {
+  success: true;
+  deletedCount: number;
+}
+
+export interface DeleteMemoriesBySourceQuery {
+  sourceFile: string;
+}
+
+export interface DeleteMemoriesBySourceResponse {
+  success: true;
+  deletedCount: number;
+}
+
+export interface ReembedMemoryResponse {
+  success: true;
+}
+
+export type SaveSessionBody = SessionReport;
+
+export interface SaveSessionResponse {
+  success: true;
+  id: string;
+}
+
+export interface ListSessionsResponse {
+  success: true;
+  sessions: SessionSummary[];
+}
+
+export interface GetSessionAnalyticsQuery {
+  /** How many of the most recent sessions to aggregate (default: 50) */
+  sessions?: number;
+}
+
+export interface GetSessionAnalyticsResponse {
+  success: true;
+  analytics: SessionAnalytics;
+}
+
+export interface IngestBody {
+  /** Stored as the memories' source file */
+  fileName: string;
+  /** UTF-8 text, or base64 when `encoding` is "base64" (e.g. PDFs) */
+  content: string;
+  encoding?: 'utf8' | 'base64';
+  /** Classify and report without writing or embedding */
+  dryRun?: boolean;
+  classifier?: 'gemini' | 'heuristic';
+}
+
+export interface IngestResponse {
+  success: true;
+  sourceFile: string;
+  dryRun: boolean;
+  /** The document matches what is stored; nothing was written */
+  unchanged: boolean;
+  removed: number;
+  inserted: number;
+  memories: IngestedMemory[];
+}
+
+export interface JobPrepBody {
+  /** The job description; or send a file as `fileName` and `content` */
+  text?: string;
+  /** Stored as the memories' source file */
+  fileName?: string;
+  /** UTF-8 text, or base64 when `encoding` is "base64" (e.g. PDFs) */
+  content?: string;
+  encoding?: 'utf8' | 'base64';
+  /** Memories per question (default: 3) */
+  limit?: number;
+  analyzer?: 'gemini' | 'heuristic';
+}
+
+export interface JobPrepResponse {
+  success: true;
+  title: string;
+  analyzer: string;
+  competencies: JobCompetency[];
+  questions: PredictedQuestion[];
+  /** Every competency's memories, to send with searches as `focusIds` */
+  focusIds: string[];
+}
+
+export interface DetectQuestionBody {
+  /** One transcript sentence */
+  text: string;
+  /** Selects the keyword pack used if Gemini is unavailable (default: en) */
+  language?: Language;
+  /** Gemini model to ask (default: the server's `models.detection`) */
+  model?: string;
+}
+
+export interface DetectQuestionResponse {
+  success: true;
+  isQuestion: boolean;
+  /** Why, e.g. "LLM" or the keyword matched when Gemini was unavailable */
+  reason: string;
+}
+
+export interface DraftAnswerBody {
+  question: string;
+  /** The memories surfaced for it; bullets cite these by id */
+  memories: DraftMemory[];
+  drafter?: 'gemini' | 'stub';
+}
+
+// --- CLIENT ---
+
+export interface ApiClientOptions {
+  /** Read before every request, so a changed backend URL applies immediately */
+  baseUrl: () => string;
+  /** Sent with every request, e.g. the profile's Authorization header */
+  headers?: () => Record<string, string>;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Added to (and override) the client's headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A client for every backend endpoint. Rejects with the backend's error message when a
+ * request fails; JSON responses resolve with the whole `{ success, ... }` envelope.
+ */
+export function createApiClient({ baseUrl, headers = () => ({}) }: ApiClientOptions) {
+  const send = async (method: string, path: string, query: object | undefined, body: unknown, options: RequestOptions = {}): Promise<Response> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const search = params.toString();
+
+    const response = await fetch(`${baseUrl().replace(/\/+$/, '')}${path}${search ? `?${search}` : ''}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers(),
+        ...options.headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `API request failed: ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const request = async <T>(method: string, path: string, query: object | undefined, body: unknown, options?: RequestOptions): Promise<T> => {
+    const response = await send(method, path, query, body, options);
+    const data = await response.json().catch(() => null);
+    if (!data?.success) {
+      throw new Error(data?.error || `API request failed: ${response.statusText}`);
+    }
+    return data as T;
+  };
+
+  return {
+    /** Non-secret settings and the app's default settings (GET /api/config) */
+    getConfig: (options?: RequestOptions): Promise<GetConfigResponse> =>
+      request<GetConfigResponse>('GET', '/api/config', undefined, undefined, options),
+    /** The profile the token belongs to (GET /api/profile) */
+    getProfile: (options?: RequestOptions): Promise<GetProfileResponse> =>
+      request<GetProfileResponse>('GET', '/api/profile', undefined, undefined, options),
+    /** Save a memory, unless a near-duplicate is already in the vault (POST /api/save-memory) */
+    saveMemory: (body: SaveMemoryBody, options?: RequestOptions): Promise<SaveMemoryResponse> =>
+      request<SaveMemoryResponse>('POST', '/api/save-memory', undefined, body, options),
+    /** Hybrid vector + keyword search, with follow-up rewriting and translation (POST /api/search-memory) */
+    searchMemory: (body: SearchMemoryBody, options?: RequestOptions): Promise<SearchMemoryResponse> =>
+      request<SearchMemoryResponse>('POST', '/api/search-memory', undefined, body, options),
+    /** Paginated listing, newest first (GET /api/memories) */
+    listMemories: (query?: ListMemoriesQuery, options?: RequestOptions): Promise<ListMemoriesResponse> =>
+      request<ListMemoriesResponse>('GET', '/api/memories', query, undefined, options),
+    /** Distinct source files with memory counts (GET /api/memories/sources) */
+    listSources: (options?: RequestOptions): Promise<ListSourcesResponse> =>
+      request<ListSourcesResponse>('GET', '/api/memories/sources', undefined, undefined, options),
+    /** The classification taxonomy from primitives.json (GET /api/memories/categories) */
+    getCategories: (options?: RequestOptions): Promise<GetCategoriesResponse> =>
+      request<GetCategoriesResponse>('GET', '/api/memories/categories', undefined, undefined, options),
+    /** Clusters of near-duplicate memories, largest first (GET /api/memories/duplicates) */
+    findDuplicates: (query?: FindDuplicatesQuery, options?: RequestOptions): Promise<FindDuplicatesResponse> =>
+      request<FindDuplicatesResponse>('GET', '/api/memories/duplicates', query, undefined, options),
+    /** Merge memories into one, keeping every source file, and re-embed it (POST /api/memories/merge) */
+    mergeMemories: (body: MergeMemoriesBody, options?: RequestOptions): Promise<MergeMemoriesResponse> =>
+      request<MergeMemoriesResponse>('POST', '/api/memories/merge', undefined, body, options),
+    /** One memory (GET /api/memories/{id}) */
+    getMemory: (params: { id: string }, options?: RequestOptions): Promise<GetMemoryResponse> =>
+      request<GetMemoryResponse>('GET', `/api/memories/${encodeURIComponent(params.id)}`, undefined, undefined, options),
+    /** Partial update; re-embeds when the embedded text changes (PATCH /api/memories/{id}) */
+    updateMemory: (params: { id: string }, body: UpdateMemoryBody, options?: RequestOptions): Promise<UpdateMemoryResponse> =>
+      request<UpdateMemoryResponse>('PATCH', `/api/memories/${encodeURIComponent(params.id)}`, undefined, body, options),
+    /** Delete a memory (DELETE /api/memories/{id}) */
+    deleteMemory: (params: { id: string }, options?: RequestOptions): Promise<DeleteMemoryResponse> =>
+      request<DeleteMemoryResponse>('DELETE', `/api/memories/${encodeURIComponent(params.id)}`, undefined, undefined, options),
+    /** Delete memories by id (POST /api/memories/bulk-delete) */
+    bulkDeleteMemories: (body: BulkDeleteMemoriesBody, options?: RequestOptions): Promise<BulkDeleteMemoriesResponse> =>
+      request<BulkDeleteMemoriesResponse>('POST', '/api/memories/bulk-delete', undefined, body, options),
+    /** Delete everything that came from one source file (DELETE /api/memories) */
+    deleteMemoriesBySource: (query: DeleteMemoriesBySourceQuery, options?: RequestOptions): Promise<DeleteMemoriesBySourceResponse> =>
+      request<DeleteMemoriesBySourceResponse>('DELETE', '/api/memories', query, undefined, options),
+    /** Force a re-embed, e.g. after editing documents directly in Atlas (POST /api/memories/{id}/re-embed) */
+    reembedMemory: (params: { id: string }, options?: RequestOptions): Promise<ReembedMemoryResponse> =>
+      request<ReembedMemoryResponse>('POST', `/api/memories/${encodeURIComponent(params.id)}/re-embed`, undefined, undefined, options),
+    /** Store the report the app builds when a session ends (POST /api/sessions) */
+    saveSession: (body: SaveSessionBody, options?: RequestOptions): Promise<SaveSessionResponse> =>
+      request<SaveSessionResponse>('POST', '/api/sessions', undefined, body, options),
+    /** The profile's saved sessions, newest first (GET /api/sessions) */
+    listSessions: (options?: RequestOptions): Promise<ListSessionsResponse> =>
+      request<ListSessionsResponse>('GET', '/api/sessions', undefined, undefined, options),
+    /** Aggregates across the most recent sessions (GET /api/sessions/analytics) */
+    getSessionAnalytics: (query?: GetSessionAnalyticsQuery, options?: RequestOptions): Promise<GetSessionAnalyticsResponse> =>
+      request<GetSessionAnalyticsResponse>('GET', '/api/sessions/analytics', query, undefined, options),
+    /** Split a document into classified memories, replacing those from an earlier version (POST /api/ingest) */
+    ingest: (body: IngestBody, options?: RequestOptions): Promise<IngestResponse> =>
+      request<IngestResponse>('POST', '/api/ingest', undefined, body, options),
+    /** Competencies, likely questions and the memories that answer them, from a job description (POST /api/job-prep) */
+    jobPrep: (body: JobPrepBody, options?: RequestOptions): Promise<JobPrepResponse> =>
+      request<JobPrepResponse>('POST', '/api/job-prep', undefined, body, options),
+    /** Ask the LLM detector whether a transcript sentence is an interview question (POST /api/detect-question) */
+    detectQuestion: (body: DetectQuestionBody, options?: RequestOptions): Promise<DetectQuestionResponse> =>
+      request<DetectQuestionResponse>('POST', '/api/detect-question', undefined, body, options),
+    /** Stream a STAR talking-points outline for a question. Resolves with the open response; its body is newline-delimited DraftAnswerEvent JSON. (POST /api/draft-answer) */
+    draftAnswer: (body: DraftAnswerBody, options?: RequestOptions): Promise<Response> =>
+      send('POST', '/api/draft-answer', undefined, body, options),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
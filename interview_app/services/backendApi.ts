@@ -0,0 +1,8 @@
+import { createApiClient } from './apiClient';
+import { authHeaders } from './profileService';
+import { getBackendUrl } from './settingsService';
+
+/**
+ * The backend client used throughout the app: the configured backend, as the active profile.
+ */
+export const api = createApiClient({ baseUrl: getBackendUrl, headers: authHeaders });
@@ -0,0 +1,58 @@
+import { Speaker } from '../types';
+
+// Sentences kept for resolving follow-ups
+const DEFAULT_MAX_TURNS = 8;
+// Memories surfaced earlier in the thread that follow-ups boost
+const DEFAULT_MAX_MEMORIES = 10;
+
+export interface ConversationTurn {
+  speaker: Speaker;
+  text: string;
+}
+
+/**
+ * What the backend needs to rewrite a follow-up question into a self-contained query.
+ */
+export interface ConversationContext {
+  /** Oldest first */
+  turns: ConversationTurn[];
+  /** Most recently surfaced first */
+  memoryIds: string[];
+}
+
+export interface ConversationWindow {
+  /** Records a finished sentence */
+  addTurn: (speaker: Speaker, text: string) => void;
+  /** Records the memories surfaced for a question */
+  addMemories: (memoryIds: string[]) => void;
+  /** The context to send with the next search */
+  snapshot: () => ConversationContext;
+  reset: () => void;
+}
+
+/**
+ * Keeps the last few sentences of the conversation and the memories already surfaced, so
+ * follow-ups like "what was the hardest part of that?" can be searched in context.
+ */
+export function createConversationWindow(
+  maxTurns = DEFAULT_MAX_TURNS,
+  maxMemories = DEFAULT_MAX_MEMORIES,
+): ConversationWindow {
+  let turns: ConversationTurn[] = [];
+  let memoryIds: string[] = [];
+
+  return {
+    addTurn: (speaker, text) => {
+      if (!text.trim()) return;
+      turns = [...turns, { speaker, text: text.trim() }].slice(-maxTurns);
+    },
+    addMemories: (ids) => {
+      memoryIds = [...new Set([...ids, ...memoryIds])].slice(0, maxMemories);
+    },
+    snapshot: () => ({ turns: [...turns], memoryIds: [...memoryIds] }),
+    reset: () => {
+      turns = [];
+      memoryIds = [];
+    },
+  };
+}
@@ -0,0 +1,361 @@
+import { Session, Modality, Blob as MediaBlob, LiveServerMessage } from '@google/genai';
+import { Speaker, TranscriptionStatus } from '../types';
+import {
+  detectVoiceActivity,
+  encode,
+  float32ToInt16,
+  frameRms,
+  INITIAL_RESAMPLER_STATE,
+  INITIAL_VAD_STATE,
+  resampleChunk,
+  ResamplerState,
+  rmsToLevel,
+  VadState,
+} from '../utils/audioUtils';
+import { ai } from './genaiClient';
+import { LANGUAGES } from './languages';
+import { ConnectFn, createSessionSupervisor } from './sessionSupervisor';
+import { getSettings } from './settingsService';
+import { LiveTranscriptionCallbacks, TranscriptionProvider, TranscriptionSession } from './transcriptionProvider';
+
+export const INPUT_SAMPLE_RATE = 16000;
+
+// The worklet posts frames of this many samples (at the device rate) to the main thread
+const WORKLET_FRAME_SIZE = 1024;
+// Voiced audio is sent to the live session in chunks of ~100ms
+const SEND_CHUNK_SAMPLES = INPUT_SAMPLE_RATE / 10;
+// Audio kept while silent and sent when speech starts, so word onsets aren't clipped
+const PRE_ROLL_MS = 200;
+const LEVEL_INTERVAL_MS = 100;
+
+/**
+ * Receives what an audio source produces.
+ */
+export interface AudioSink {
+  /** 16 kHz mono PCM */
+  onChunk: (pcm: Int16Array) => void;
+  /** The source ran out (e.g. end of file, or the user stopped sharing) */
+  onEnded: () => void;
+  /** Input level in [0, 1], published a few times per second */
+  onLevel?: (level: number) => void;
+  /** Speech stopped; no chunks follow until it resumes */
+  onPause?: () => void;
+}
+
+/**
+ * Produces 16 kHz mono PCM for the live session.
+ */
+export interface AudioSource {
+  /** Acquires the underlying device or file; called before the session connects */
+  prepare: () => Promise<void>;
+  /** Starts delivering audio to the sink */
+  start: (sink: AudioSink) => void;
+  stop: () => void;
+}
+
+// Runs on the audio rendering thread; only batches raw samples, all processing happens in
+// plain functions on the main thread (see utils/audioUtils.ts)
+const CAPTURE_WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.frame = new Float32Array(${WORKLET_FRAME_SIZE});
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.frame[this.length++] = channel[i];
+        if (this.length === this.frame.length) {
+          this.port.postMessage(this.frame, [this.frame.buffer]);
+          this.frame = new Float32Array(${WORKLET_FRAME_SIZE});
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('oncue-capture', CaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+function captureWorkletUrl(): string {
+  workletUrl ??= URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+  return workletUrl;
+}
+
+/**
+ * Turns device-rate frames into voiced 16 kHz PCM chunks: resamples, gates silence with the
+ * VAD (keeping a short pre-roll), batches, and publishes the input level.
+ */
+function createFrameProcessor(deviceRate: number, sink: AudioSink) {
+  const frameMs = (WORKLET_FRAME_SIZE / deviceRate) * 1000;
+  const preRollFrames = Math.ceil(PRE_ROLL_MS / frameMs);
+
+  let resampler: ResamplerState = INITIAL_RESAMPLER_STATE;
+  let vad: VadState = INITIAL_VAD_STATE;
+  let preRoll: Float32Array[] = [];
+  let pending: Float32Array[] = [];
+  let pendingLength = 0;
+  let peakRms = 0;
+  let sinceLevelMs = 0;
+
+  const flush = () => {
+    if (pendingLength === 0) return;
+    const chunk = new Float32Array(pendingLength);
+    let offset = 0;
+    for (const part of pending) {
+      chunk.set(part, offset);
+      offset += part.length;
+    }
+    pending = [];
+    pendingLength = 0;
+    sink.onChunk(float32ToInt16(chunk));
+  };
+
+  return (frame: Float32Array) => {
+    const rms = frameRms(frame);
+
+    peakRms = Math.max(peakRms, rms);
+    sinceLevelMs += frameMs;
+    if (sinceLevelMs >= LEVEL_INTERVAL_MS) {
+      sink.onLevel?.(rmsToLevel(peakRms));
+      peakRms = 0;
+      sinceLevelMs = 0;
+    }
+
+    const resampled = resampleChunk(frame, deviceRate, INPUT_SAMPLE_RATE, resampler);
+    resampler = resampled.state;
+
+    const wasSpeaking = vad.speaking;
+    vad = detectVoiceActivity(vad, rms, frameMs);
+
+    if (!vad.speaking) {
+      if (wasSpeaking) {
+        flush();
+        sink.onPause?.();
+      }
+      preRoll = [...preRoll, resampled.output].slice(-preRollFrames);
+      return;
+    }
+
+    if (!wasSpeaking) {
+      pending = preRoll;
+      pendingLength = preRoll.reduce((sum, part) => sum + part.length, 0);
+      preRoll = [];
+    }
+    pending.push(resampled.output);
+    pendingLength += resampled.output.length;
+    if (pendingLength >= SEND_CHUNK_SAMPLES) flush();
+  };
+}
+
+/**
+ * Captures a MediaStream's audio with an AudioWorklet at the device's native rate.
+ * @param acquire Obtains the stream; called from `prepare` so permission prompts happen before connecting.
+ */
+function createStreamCaptureSource(acquire: () => Promise<MediaStream>): AudioSource {
+  let audioContext: AudioContext | null = null;
+  let mediaStream: MediaStream | null = null;
+  let workletNode: AudioWorkletNode | null = null;
+  let mediaStreamSource: MediaStreamAudioSourceNode | null = null;
+
+  return {
+    prepare: async () => {
+      mediaStream = await acquire();
+      // Browsers may ignore a requested sample rate, so capture natively and resample ourselves
+      audioContext = new AudioContext();
+      await audioContext.audioWorklet.addModule(captureWorkletUrl());
+    },
+    start: (sink) => {
+      // e.g. the user clicks "Stop sharing" on a captured tab
+      mediaStream!.getAudioTracks()[0]?.addEventListener('ended', sink.onEnded);
+
+      const processFrame = createFrameProcessor(audioContext!.sampleRate, sink);
+      mediaStreamSource = audioContext!.createMediaStreamSource(mediaStream!);
+      workletNode = new AudioWorkletNode(audioContext!, 'oncue-capture', { numberOfInputs: 1, numberOfOutputs: 0 });
+      workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => processFrame(event.data);
+
+      mediaStreamSource.connect(workletNode);
+    },
+    stop: () => {
+      if (mediaStream) {
+        mediaStream.getTracks().forEach(track => track.stop());
+        mediaStream = null;
+      }
+
+      if (workletNode) {
+        workletNode.port.onmessage = null;
+        workletNode.disconnect();
+        workletNode = null;
+      }
+
+      if (mediaStreamSource) {
+        mediaStreamSource.disconnect();
+        mediaStreamSource = null;
+      }
+
+      if (audioContext && audioContext.state !== 'closed') {
+        audioContext.close();
+        audioContext = null;
+      }
+    },
+  };
+}
+
+/**
+ * Captures the default microphone.
+ */
+export function createMicrophoneSource(): AudioSource {
+  return createStreamCaptureSource(() => navigator.mediaDevices.getUserMedia({ audio: true }));
+}
+
+/**
+ * Captures a shared tab's or the system's audio, e.g. the interviewer on a video call.
+ * The browser asks the user what to share; "Share audio" must be ticked.
+ */
+export function createTabAudioSource(): AudioSource {
+  return createStreamCaptureSource(async () => {
+    // Browsers only offer tab/system audio alongside video, so request both and drop the video
+    const stream = await navigator.mediaDevices.getDisplayMedia({ audio: true, video: true });
+    stream.getVideoTracks().forEach(track => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('No audio was shared. Share a tab or screen and enable "Share audio".');
+    }
+    return stream;
+  });
+}
+
+interface GeminiLiveProviderOptions {
+  /** Defaults to the microphone */
+  createAudioSource?: () => AudioSource;
+  /** How long to keep the session open after the audio source ends, so trailing transcription arrives */
+  drainMs?: number;
+  name?: string;
+  /** Who is heard on this source; every update is tagged with it */
+  speaker?: Speaker;
+}
+
+/**
+ * Streams audio to the Gemini Live API and reports its input transcription. Dropped sessions
+ * are reconnected by a supervisor (see sessionSupervisor.ts) while capture keeps running.
+ */
+export function createGeminiLiveProvider(options: GeminiLiveProviderOptions = {}): TranscriptionProvider {
+  const {
+    createAudioSource = createMicrophoneSource,
+    drainMs = 3000,
+    name = 'Gemini Live (microphone)',
+    speaker = 'interviewer',
+  } = options;
+
+  return {
+    name,
+    start: async (callbacks: LiveTranscriptionCallbacks): Promise<TranscriptionSession> => {
+      callbacks.onStatusUpdate(TranscriptionStatus.CONNECTING);
+
+      const audioSource = createAudioSource();
+      let drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+      // Opens one Gemini Live session; the supervisor replaces it if it drops
+      const connect: ConnectFn = async (handlers) => {
+        const session: Session = await ai.live.connect({
+          model: getSettings().liveModel,
+          callbacks: {
+            onmessage: (message: LiveServerMessage) => {
+              const transcription = message.serverContent?.inputTranscription;
+              if (transcription?.text) {
+                handlers.onTranscription(transcription.text, transcription.finished ?? false);
+              }
+            },
+            onerror: (e: ErrorEvent) => handlers.onError(new Error(e.message)),
+            // Also called when the supervisor closes the session itself; it ignores those
+            onclose: () => handlers.onClose(),
+          },
+          config: {
+            responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
+            // Transcribes in the interview's language instead of guessing it from the audio
+            speechConfig: { languageCode: LANGUAGES[getSettings().language].locale },
+          },
+        });
+
+        return {
+          sendAudio: (pcm) => {
+            const pcmBlob: MediaBlob = {
+              data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+              mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`,
+            };
+            try {
+              session.sendRealtimeInput({ media: pcmBlob });
+            } catch (error) {
+              console.error('Error sending audio data:', error);
+            }
+          },
+          // Tells the session the audio paused, so it flushes and transcribes what it has buffered
+          sendPause: () => {
+            try {
+              session.sendRealtimeInput({ audioStreamEnd: true });
+            } catch (error) {
+              console.error('Error signalling end of speech:', error);
+            }
+          },
+          close: () => session.close(),
+        };
+      };
+
+      const stop = () => {
+        if (drainTimer) {
+          clearTimeout(drainTimer);
+          drainTimer = null;
+        }
+        supervisor.stop();
+        audioSource.stop();
+      };
+
+      const supervisor = createSessionSupervisor({
+        connect,
+        sampleRate: INPUT_SAMPLE_RATE,
+        onStatus: callbacks.onStatusUpdate,
+        onTranscription: (text, isFinal) => callbacks.onTranscriptionUpdate(text, isFinal, speaker),
+        onReconnect: () => callbacks.onReconnect?.(speaker),
+        onFailed: (error) => {
+          audioSource.stop();
+          callbacks.onError(error);
+        },
+      });
+
+      const handleSourceEnded = () => {
+        drainTimer = setTimeout(() => {
+          stop();
+          callbacks.onStatusUpdate(TranscriptionStatus.STOPPED);
+        }, drainMs);
+      };
+
+      try {
+        await audioSource.prepare();
+        await supervisor.start();
+
+        audioSource.start({
+          onChunk: supervisor.sendAudio,
+          onEnded: handleSourceEnded,
+          onLevel: (level) => callbacks.onInputLevel?.(level, speaker),
+          onPause: supervisor.sendPause,
+        });
+
+        return { stop };
+      } catch (error) {
+        callbacks.onError(error as Error);
+        callbacks.onStatusUpdate(TranscriptionStatus.ERROR);
+        stop(); // Cleanup any partial setup
+        throw error;
+      }
+    },
+  };
+}
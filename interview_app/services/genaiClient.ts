@@ -0,0 +1,4 @@
+import { GoogleGenAI } from '@google/genai';
+
+// Shared client so every service talks to Gemini with the same credentials
+export const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -0,0 +1,73 @@
+import { api } from './backendApi';
+import type { JobCompetency, PredictedQuestion } from './apiClient';
+
+export type { JobCompetency, PredictedQuestion };
+
+export interface JobPrep {
+  title: string;
+  /** "gemini" or "heuristic" */
+  analyzer: string;
+  competencies: JobCompetency[];
+  questions: PredictedQuestion[];
+  /** Every competency's memories, sent with searches as `focusIds` */
+  focusIds: string[];
+  createdAt: string;
+  /** Indexes of the questions ticked off in the checklist */
+  done: number[];
+}
+
+/**
+ * A pasted description, or an uploaded file (PDFs are sent as base64).
+ */
+export type JobDescriptionInput =
+  | { text: string }
+  | { fileName: string; content: string; encoding: 'utf8' | 'base64' };
+
+const storageKey = (profileId: string) => `oncue.jobPrep.${profileId}`;
+
+/**
+ * Reads an uploaded job description; PDFs are extracted by the backend.
+ */
+export async function readJobDescriptionFile(file: File): Promise<JobDescriptionInput> {
+  if (!file.name.toLowerCase().endsWith('.pdf')) {
+    return { fileName: file.name, content: await file.text(), encoding: 'utf8' };
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return { fileName: file.name, content: btoa(binary), encoding: 'base64' };
+}
+
+/**
+ * Has the backend extract the role's competencies and likely questions from a job description,
+ * and search the active profile's vault for each question.
+ * @param input The description
+ * @param limit Memories per question
+ */
+export async function prepareForJob(input: JobDescriptionInput, limit: number = 3): Promise<JobPrep> {
+  const { title, analyzer, competencies, questions, focusIds } = await api.jobPrep({ ...input, limit });
+  return { title, analyzer, competencies, questions, focusIds, createdAt: new Date().toISOString(), done: [] };
+}
+
+/**
+ * The prep saved for a profile in this browser, if any.
+ */
+export function loadJobPrep(profileId: string | null): JobPrep | null {
+  if (!profileId) return null;
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(profileId)) ?? 'null') as JobPrep | null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves a profile's prep, or forgets it when `prep` is null.
+ */
+export function saveJobPrep(profileId: string, prep: JobPrep | null): void {
+  if (prep) {
+    localStorage.setItem(storageKey(profileId), JSON.stringify(prep));
+  } else {
+    localStorage.removeItem(storageKey(profileId));
+  }
+}
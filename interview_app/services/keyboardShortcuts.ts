@@ -0,0 +1,49 @@
+export type ShortcutAction =
+  | 'toggleSession'
+  | 'nextQuestion'
+  | 'previousQuestion'
+  | 'toggleExpand'
+  | 'togglePin'
+  | 'markQuestion'
+  | 'focusSearch'
+  | 'showHelp'
+  | 'dismiss';
+
+export interface Shortcut {
+  /** `KeyboardEvent.key` values that trigger it */
+  keys: string[];
+  /** How the key is shown in the help dialog */
+  label: string;
+  action: ShortcutAction;
+  description: string;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { keys: ['s'], label: 'S', action: 'toggleSession', description: 'Start or stop the session' },
+  { keys: ['j', 'ArrowDown'], label: 'J / ↓', action: 'nextQuestion', description: 'Next question in the sidebar' },
+  { keys: ['k', 'ArrowUp'], label: 'K / ↑', action: 'previousQuestion', description: 'Previous question in the sidebar' },
+  { keys: ['e', 'Enter'], label: 'E / Enter', action: 'toggleExpand', description: "Expand or collapse the selected question's memory cards" },
+  { keys: ['p'], label: 'P', action: 'togglePin', description: "Pin or unpin the selected question's best memory" },
+  { keys: ['q'], label: 'Q', action: 'markQuestion', description: 'Mark the latest sentence as a question and search for it' },
+  { keys: ['/'], label: '/', action: 'focusSearch', description: 'Search the vault' },
+  { keys: ['?'], label: '?', action: 'showHelp', description: 'Show these shortcuts' },
+  { keys: ['Escape'], label: 'Esc', action: 'dismiss', description: 'Leave the search box, close dialogs or clear the selection' },
+];
+
+function isTyping(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * The shortcut a key press triggers, or null. Keys typed into form fields are left alone,
+ * except Escape, and so are presses with Ctrl, Alt or Meta so browser shortcuts keep working.
+ */
+export function shortcutFor(event: KeyboardEvent): ShortcutAction | null {
+  if (event.ctrlKey || event.altKey || event.metaKey || event.repeat) return null;
+  if (isTyping(event.target) && event.key !== 'Escape') return null;
+  // Enter on a focused button or link activates it instead
+  if (event.key === 'Enter' && event.target instanceof HTMLElement && ['BUTTON', 'A'].includes(event.target.tagName)) return null;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return SHORTCUTS.find(shortcut => shortcut.keys.includes(key))?.action ?? null;
+}
@@ -0,0 +1,13 @@
+import type { Language } from './apiClient';
+
+/**
+ * Interview languages, by ISO 639-1 code; the API contract lists them (LANGUAGES in the backend's queryTranslation.mjs).
+ */
+export type LanguageCode = Language;
+
+export const LANGUAGES: Record<LanguageCode, { label: string; /** BCP-47 code sent to the Live API */ locale: string }> = {
+  en: { label: 'English', locale: 'en-US' },
+  es: { label: 'Spanish', locale: 'es-ES' },
+  de: { label: 'German', locale: 'de-DE' },
+  fr: { label: 'French', locale: 'fr-FR' },
+};
@@ -0,0 +1,114 @@
+import { MemorySearchFilters, MemorySearchResult } from './vectorSearchService';
+import { DetectionKeywords, DetectionResult, DetectorName } from './questionDetection';
+import { getActiveToken } from './profileService';
+import { getBackendUrl } from './settingsService';
+import { ConversationContext } from './conversationContext';
+import { LanguageCode } from './languages';
+
+export interface LiveRetrievalConfig {
+  detector: DetectorName;
+  /** Questions in another language than the vault's are translated before searching */
+  language?: LanguageCode;
+  keywords: DetectionKeywords;
+  limit: number;
+  filters?: MemorySearchFilters;
+  lexicalWeight?: number;
+  /** Memories to favour in the ranking */
+  focusIds?: string[];
+}
+
+type LiveRetrievalEvent =
+  | ({ type: 'verdict'; groupId: number } & DetectionResult)
+  | { type: 'rewrite'; groupId: number; query: string; reason: string }
+  | { type: 'translation'; groupId: number; query: string; language: LanguageCode }
+  | { type: 'results'; groupId: number; results: MemorySearchResult[]; final: boolean }
+  | { type: 'cancelled'; groupId: number }
+  | { type: 'error'; groupId?: number; error: string };
+
+export interface LiveRetrievalCallbacks {
+  onVerdict: (groupId: number, verdict: DetectionResult) => void;
+  /** A follow-up question will be searched as this self-contained query */
+  onRewrite?: (groupId: number, query: string, reason: string) => void;
+  /** The question was translated from `language` and will be searched as this query */
+  onTranslation?: (groupId: number, query: string, language: LanguageCode) => void;
+  /** Called first with vector-only results (`isFinal` false), then with the fused hybrid results */
+  onResults: (groupId: number, results: MemorySearchResult[], isFinal: boolean) => void;
+  /** A newer question superseded this one on the server; no more results will arrive for it */
+  onCancelled?: (groupId: number) => void;
+  /** The connection dropped; callers should fall back to per-request search */
+  onClose?: () => void;
+}
+
+export interface LiveRetrievalChannel {
+  isOpen: () => boolean;
+  configure: (config: LiveRetrievalConfig) => void;
+  /** Sends one finished interviewer sentence for detection and, if it is a question, search */
+  sendSegment: (groupId: number, text: string, context?: ConversationContext) => void;
+  close: () => void;
+}
+
+/**
+ * Opens the backend's push-based retrieval channel. The server detects questions in the
+ * segments it is sent and pushes verdicts and search results tagged with each group id,
+ * cancelling searches for questions the conversation has moved past. Searches use the active
+ * profile's vault.
+ * @param callbacks Receives verdicts and results as they are pushed.
+ * @returns The channel, once connected. Rejects if the backend can't be reached.
+ */
+export function openLiveRetrievalChannel(callbacks: LiveRetrievalCallbacks): Promise<LiveRetrievalChannel> {
+  return new Promise((resolve, reject) => {
+    const url = `${getBackendUrl().replace(/^http/, 'ws')}/api/live`;
+    // WebSockets can't carry an Authorization header from the browser, so the token goes in the URL
+    const socket = new WebSocket(`${url}?token=${encodeURIComponent(getActiveToken() ?? '')}`);
+    let opened = false;
+
+    const send = (message: object) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as LiveRetrievalEvent;
+      switch (message.type) {
+        case 'verdict':
+          callbacks.onVerdict(message.groupId, { isQuestion: message.isQuestion, reason: message.reason });
+          break;
+        case 'rewrite':
+          callbacks.onRewrite?.(message.groupId, message.query, message.reason);
+          break;
+        case 'translation':
+          callbacks.onTranslation?.(message.groupId, message.query, message.language);
+          break;
+        case 'results':
+          callbacks.onResults(message.groupId, message.results, message.final);
+          break;
+        case 'cancelled':
+          callbacks.onCancelled?.(message.groupId);
+          break;
+        case 'error':
+          console.error('Live retrieval error:', message.error, message.groupId !== undefined ? `(group ${message.groupId})` : '');
+          break;
+      }
+    };
+
+    socket.onopen = () => {
+      opened = true;
+      resolve({
+        isOpen: () => socket.readyState === WebSocket.OPEN,
+        configure: (config) => send({ type: 'configure', ...config }),
+        sendSegment: (groupId, text, context) => send({ type: 'segment', groupId, text, context }),
+        close: () => {
+          socket.onclose = null;
+          socket.close();
+        },
+      });
+    };
+
+    socket.onclose = () => {
+      if (opened) {
+        callbacks.onClose?.();
+      } else {
+        reject(new Error(`Could not connect to ${url}`));
+      }
+    };
+  });
+}
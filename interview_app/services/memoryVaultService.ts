@@ -0,0 +1,130 @@
+import { api } from './backendApi';
+import type {
+  DuplicateCluster,
+  MergeMemoriesBody,
+  Memory,
+  Profile,
+  SaveMemoryResponse,
+  SourceFileSummary,
+  UpdateMemoryBody,
+} from './apiClient';
+
+export type { DuplicateCluster, Memory, SourceFileSummary };
+
+export interface MemoryListFilters {
+  classification?: string[];
+  sourceFile?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface MemoryPage {
+  memories: Memory[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type SaveMemoryResult = Omit<SaveMemoryResponse, 'success'>;
+
+export type MergeOptions = Omit<MergeMemoriesBody, 'ids'>;
+
+export type MemoryUpdate = UpdateMemoryBody;
+
+/**
+ * Looks up the profile a token belongs to, e.g. before saving it in the profile switcher.
+ * @param token An API token issued with `npm run admin -- token issue <profile>`
+ * @returns The profile's id and display name; rejects if the token is invalid.
+ */
+export async function getProfileForToken(token: string): Promise<Profile> {
+  const { profile } = await api.getProfile({ headers: { Authorization: `Bearer ${token}` } });
+  return profile;
+}
+
+export async function listMemories(filters: MemoryListFilters = {}): Promise<MemoryPage> {
+  const { memories, total, page, pageSize } = await api.listMemories({
+    classification: filters.classification?.length ? filters.classification.join(',') : undefined,
+    sourceFile: filters.sourceFile || undefined,
+    page: filters.page || undefined,
+    pageSize: filters.pageSize || undefined,
+  });
+  return { memories, total, page, pageSize };
+}
+
+export async function listSourceFiles(): Promise<SourceFileSummary[]> {
+  const { sources } = await api.listSources();
+  return sources;
+}
+
+/**
+ * @returns Category name → description, as defined in primitives.json
+ */
+export async function getCategories(): Promise<Record<string, string>> {
+  const { categories } = await api.getCategories();
+  return categories;
+}
+
+export async function getMemory(id: string): Promise<Memory> {
+  const { memory } = await api.getMemory({ id });
+  return memory;
+}
+
+/**
+ * Saves a memory. If the vault already has a near-duplicate, nothing is saved unless
+ * `allowDuplicate` is set; check `inserted`.
+ */
+export async function createMemory(
+  memory: Pick<Memory, 'classification' | 'description' | 'sourceFile'>,
+  { allowDuplicate = false }: { allowDuplicate?: boolean } = {},
+): Promise<SaveMemoryResult> {
+  const { id, inserted, duplicate } = await api.saveMemory({
+    memory: { classification: memory.classification, description: memory.description },
+    sourceFile: memory.sourceFile,
+    allowDuplicate,
+  });
+  return { id, inserted, duplicate };
+}
+
+/**
+ * Updates a memory. The backend re-embeds automatically when description or classification change.
+ */
+export async function updateMemory(id: string, update: MemoryUpdate): Promise<Memory> {
+  const { memory } = await api.updateMemory({ id }, update);
+  return memory;
+}
+
+export async function reembedMemory(id: string): Promise<void> {
+  await api.reembedMemory({ id });
+}
+
+export async function deleteMemory(id: string): Promise<void> {
+  await api.deleteMemory({ id });
+}
+
+export async function deleteMemories(ids: string[]): Promise<number> {
+  const { deletedCount } = await api.bulkDeleteMemories({ ids });
+  return deletedCount;
+}
+
+export async function deleteMemoriesBySource(sourceFile: string): Promise<number> {
+  const { deletedCount } = await api.deleteMemoriesBySource({ sourceFile });
+  return deletedCount;
+}
+
+/**
+ * Clusters of near-duplicate memories in the vault, largest first.
+ * @param threshold Similarity (0.5-1); defaults to the backend's configured threshold
+ */
+export async function findDuplicates(threshold?: number): Promise<DuplicateCluster[]> {
+  const { clusters } = await api.findDuplicates({ threshold });
+  return clusters;
+}
+
+/**
+ * Merges memories into one, keeping every source file; the others are deleted.
+ * @returns The merged memory
+ */
+export async function mergeMemories(ids: string[], options: MergeOptions = {}): Promise<Memory> {
+  const { memory } = await api.mergeMemories({ ids, ...options });
+  return memory;
+}
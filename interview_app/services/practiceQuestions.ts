@@ -0,0 +1,143 @@
+import { GoogleGenAI, Type } from '@google/genai';
+
+const GENERATION_MODEL = 'gemini-2.0-flash-exp';
+
+export type QuestionKind = 'behavioral' | 'technical';
+
+export const QUESTION_KINDS: QuestionKind[] = ['behavioral', 'technical'];
+
+export interface PracticeQuestion {
+  text: string;
+  kind: QuestionKind;
+  /** A scripted answer; when set, the practice session plays it instead of listening to the microphone */
+  answer?: string;
+}
+
+/**
+ * Built-in questions for practice sessions; available offline.
+ */
+export const QUESTION_BANK: PracticeQuestion[] = [
+  { kind: 'behavioral', text: 'Tell me about a challenging project you led.' },
+  { kind: 'behavioral', text: 'Describe a time you disagreed with a teammate. How did you resolve it?' },
+  { kind: 'behavioral', text: 'Tell me about a time you failed and what you learned from it.' },
+  { kind: 'behavioral', text: 'Give me an example of a decision you made without all the information.' },
+  { kind: 'behavioral', text: 'Tell me about a time you had to deliver under a tight deadline.' },
+  { kind: 'behavioral', text: 'Describe a time you mentored someone or helped a colleague grow.' },
+  { kind: 'behavioral', text: 'Tell me about a time you received critical feedback. What did you do with it?' },
+  { kind: 'behavioral', text: 'Walk me through a project you are most proud of.' },
+  { kind: 'behavioral', text: 'Describe a time you had to convince stakeholders to change direction.' },
+  { kind: 'behavioral', text: 'Tell me about a time you improved a process for your team.' },
+  { kind: 'behavioral', text: 'What are your greatest strengths?' },
+  { kind: 'behavioral', text: 'Why are you interested in this role?' },
+  { kind: 'technical', text: 'Walk me through how you would design a rate limiter.' },
+  { kind: 'technical', text: 'How would you debug a service whose latency suddenly doubled?' },
+  { kind: 'technical', text: 'Explain how you would design a URL shortener that handles millions of requests a day.' },
+  { kind: 'technical', text: 'How do you decide between a relational database and a document store?' },
+  { kind: 'technical', text: 'Describe how you would roll out a risky change to production safely.' },
+  { kind: 'technical', text: 'How would you design a system to process events exactly once?' },
+  { kind: 'technical', text: 'What is your approach to testing a large legacy codebase?' },
+  { kind: 'technical', text: 'Explain how you would cache data for a read-heavy API.' },
+  { kind: 'technical', text: 'How would you migrate a monolith to services without downtime?' },
+  { kind: 'technical', text: 'Tell me about the most difficult bug you have tracked down.' },
+];
+
+/**
+ * Picks questions from the built-in bank in random order.
+ * @param count How many questions to ask
+ * @param kinds Which kinds of question to draw from
+ */
+export function pickBankQuestions(count: number, kinds: QuestionKind[] = QUESTION_KINDS): PracticeQuestion[] {
+  const pool = QUESTION_BANK.filter(question => kinds.includes(question.kind));
+  // Fisher-Yates shuffle
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+/**
+ * Parses a question file or practice script. Two formats are accepted:
+ * - JSON: an array of question strings or `{ text, kind?, answer? }` objects; entries with an
+ *   `answer` make a scripted interview that runs without a microphone
+ * - Text: one question per line
+ * @param content The file contents.
+ * @returns The questions in file order.
+ */
+export function parsePracticeScript(content: string): PracticeQuestion[] {
+  const trimmed = content.trim();
+
+  if (!trimmed.startsWith('[')) {
+    return trimmed.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(text => ({ text, kind: 'behavioral' as QuestionKind }));
+  }
+
+  const parsed = JSON.parse(trimmed);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Practice script JSON must be an array of questions');
+  }
+  return parsed.map((entry, index): PracticeQuestion => {
+    if (typeof entry === 'string') {
+      return { text: entry, kind: 'behavioral' };
+    }
+    if (typeof entry?.text !== 'string' || !entry.text.trim()) {
+      throw new Error(`Invalid practice question at index ${index}: expected a string or { text: string }`);
+    }
+    if (entry.kind !== undefined && !QUESTION_KINDS.includes(entry.kind)) {
+      throw new Error(`Invalid kind at index ${index}: expected one of ${QUESTION_KINDS.join(', ')}`);
+    }
+    if (entry.answer !== undefined && typeof entry.answer !== 'string') {
+      throw new Error(`Invalid answer at index ${index}: expected a string`);
+    }
+    return { text: entry.text.trim(), kind: entry.kind ?? 'behavioral', answer: entry.answer };
+  });
+}
+
+/**
+ * Asks Gemini for interview questions tailored to a role description.
+ * @param ai The Gemini client
+ * @param role The job title or a pasted job description
+ * @param count How many questions to generate
+ * @param kinds Which kinds of question to include
+ */
+export async function generatePracticeQuestions(
+  ai: GoogleGenAI,
+  role: string,
+  count: number,
+  kinds: QuestionKind[] = QUESTION_KINDS,
+): Promise<PracticeQuestion[]> {
+  const prompt = `You are preparing a candidate for a job interview. Write ${count} interview questions for this role:
+
+${role.trim()}
+
+Include only ${kinds.join(' and ')} questions. Each question should be one or two sentences, phrased the way an interviewer would say it aloud, and specific to the role where possible.`;
+
+  const result = await ai.models.generateContent({
+    model: GENERATION_MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            kind: { type: Type.STRING, enum: kinds },
+          },
+          required: ['text', 'kind'],
+        },
+      },
+    },
+  });
+
+  const questions = parsePracticeScript(result.text ?? '[]')
+    .filter(question => kinds.includes(question.kind))
+    .map(({ text, kind }) => ({ text, kind }));
+  if (questions.length === 0) {
+    throw new Error('Gemini did not return any questions');
+  }
+  return questions.slice(0, count);
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { PracticeQuestion } from './practiceQuestions';
+import { InterviewerVoice, PracticeCallbacks, PracticePhase, createScriptedInterviewer, startPracticeSession } from './practiceSession';
+import { TranscriptionProvider } from './transcriptionProvider';
+
+const QUESTIONS = [{ text: 'Tell me about a project you led.' }, { text: 'What is your biggest weakness?' }] as PracticeQuestion[];
+
+/** 'settled' once `promise` settles, or 'pending' if it hasn't within 20 ms. */
+const settledOrPending = (promise: Promise<unknown>) => Promise.race([
+  promise.then(() => 'settled', () => 'settled'),
+  new Promise(resolve => setTimeout(() => resolve('pending'), 20)),
+]);
+
+/** An interviewer that asks instantly. */
+const instantInterviewer: InterviewerVoice = { name: 'instant', ask: async () => {}, stop: () => {} };
+
+/** A microphone that hears nothing until stopped. */
+function createSilentProvider() {
+  const provider = {
+    name: 'silent',
+    stopped: false,
+    start: async () => ({ stop: () => { provider.stopped = true; } }),
+  };
+  return provider satisfies TranscriptionProvider;
+}
+
+describe('startPracticeSession', () => {
+  let phases: PracticePhase[];
+  let callbacks: PracticeCallbacks;
+
+  beforeEach(() => {
+    phases = [];
+    callbacks = {
+      onPhase: (phase) => phases.push(phase),
+      onAnswerUpdate: () => {},
+      onResult: () => {},
+      onError: (error) => assert.fail(error),
+    };
+    // The scripted interviewer logs each question; keep the test output readable
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it('ends when stopped while listening to an answer', async () => {
+    const provider = createSilentProvider();
+    const session = startPracticeSession({
+      questions: QUESTIONS,
+      interviewer: instantInterviewer,
+      findMemories: async () => [],
+      answerProvider: () => provider,
+    }, callbacks);
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(phases.at(-1), 'answering');
+
+    session.stop();
+
+    assert.equal(await settledOrPending(session.finished), 'settled');
+    assert.equal(provider.stopped, true);
+    assert.deepEqual(phases, ['asking', 'answering']);
+  });
+
+  it('ends when stopped while a question is being asked', async () => {
+    const session = startPracticeSession({
+      questions: QUESTIONS,
+      interviewer: createScriptedInterviewer(60000),
+      findMemories: async () => [],
+      answerProvider: () => createSilentProvider(),
+    }, callbacks);
+
+    session.stop();
+
+    assert.equal(await settledOrPending(session.finished), 'settled');
+    assert.deepEqual(phases, ['asking']);
+  });
+});
+
+describe('createScriptedInterviewer', () => {
+  it('settles a question being asked when stopped', async () => {
+    mock.method(console, 'log', () => {});
+    const interviewer = createScriptedInterviewer(60000);
+    const asked = interviewer.ask('Tell me about yourself.');
+
+    interviewer.stop();
+
+    assert.equal(await settledOrPending(asked), 'settled');
+    mock.restoreAll();
+  });
+});
@@ -0,0 +1,314 @@
+import { LiveServerMessage, Modality, Session } from '@google/genai';
+import { TranscriptionStatus } from '../types';
+import { decode, pcm16ToFloat32 } from '../utils/audioUtils';
+import { AnswerScore, scoreAnswer } from './answerScoring';
+import { ai } from './genaiClient';
+import { createGeminiLiveProvider } from './geminiLiveProvider';
+import { PracticeQuestion } from './practiceQuestions';
+import { createReplayProvider } from './replayProvider';
+import { getSettings } from './settingsService';
+import { TranscriptionProvider, TranscriptionSession } from './transcriptionProvider';
+import { MemorySearchResult, searchMemories } from './vectorSearchService';
+
+// The Live API speaks 16-bit mono PCM at this rate
+const OUTPUT_SAMPLE_RATE = 24000;
+// An answer ends after this long without new speech
+const DEFAULT_SILENCE_MS = 6000;
+// Transcription trails speech; keep listening this long after the answer is ended
+const ANSWER_DRAIN_MS = 1500;
+// Spacing of the sentences in a scripted answer
+const SCRIPTED_SENTENCE_MS = 1200;
+
+const INTERVIEWER_INSTRUCTION = `You are a friendly but professional job interviewer running a mock interview.
+Each message gives you the next question. Ask it aloud exactly as written, without any preamble, commentary or follow-up, then stop talking.`;
+
+/**
+ * Who asks the questions in a practice session.
+ */
+export interface InterviewerVoice {
+  readonly name: string;
+  /** Asks the question; resolves once it has been asked, or straight away when stopped */
+  ask: (question: string) => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Speaks each question aloud with a Gemini Live native-audio session and plays the
+ * model's audio output through the speakers.
+ */
+export function createGeminiInterviewer(): InterviewerVoice {
+  let session: Session | null = null;
+  let audioContext: AudioContext | null = null;
+  let playhead = 0; // AudioContext time at which the queued audio finishes
+  let pendingTurn: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  const settleTurn = (error?: Error) => {
+    const turn = pendingTurn;
+    pendingTurn = null;
+    if (error) turn?.reject(error);
+    else turn?.resolve();
+  };
+
+  const play = (base64: string) => {
+    const samples = pcm16ToFloat32(decode(base64));
+    const buffer = audioContext!.createBuffer(1, samples.length, OUTPUT_SAMPLE_RATE);
+    buffer.getChannelData(0).set(samples);
+
+    const node = audioContext!.createBufferSource();
+    node.buffer = buffer;
+    node.connect(audioContext!.destination);
+    playhead = Math.max(playhead, audioContext!.currentTime);
+    node.start(playhead);
+    playhead += buffer.duration;
+  };
+
+  const connect = async () => {
+    audioContext = new AudioContext();
+    session = await ai.live.connect({
+      model: getSettings().liveModel,
+      callbacks: {
+        onmessage: (message: LiveServerMessage) => {
+          const audio = message.data;
+          if (audio) play(audio);
+
+          // The turn is complete once the model has sent everything; resolve when it has been heard
+          if (message.serverContent?.turnComplete) {
+            const remainingMs = Math.max(0, (playhead - audioContext!.currentTime) * 1000);
+            setTimeout(() => settleTurn(), remainingMs);
+          }
+        },
+        onerror: (e: ErrorEvent) => settleTurn(new Error(e.message)),
+        onclose: () => {
+          session = null;
+          settleTurn(new Error('The interviewer session closed'));
+        },
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: INTERVIEWER_INSTRUCTION,
+      },
+    });
+  };
+
+  return {
+    name: 'Gemini voice',
+    ask: async (question) => {
+      if (!session) await connect();
+      await new Promise<void>((resolve, reject) => {
+        pendingTurn = { resolve, reject };
+        session!.sendClientContent({ turns: `Next question: ${question}`, turnComplete: true });
+      });
+    },
+    stop: () => {
+      // Settle first, so closing the session doesn't reject the question being asked
+      settleTurn();
+      session?.close();
+      session = null;
+      if (audioContext && audioContext.state !== 'closed') {
+        audioContext.close();
+      }
+      audioContext = null;
+      playhead = 0;
+    },
+  };
+}
+
+/**
+ * Shows each question without speaking it and moves on after a pause. Needs neither
+ * speakers nor a network connection, so practice sessions can be run offline.
+ * @param pauseMs How long "asking" a question takes
+ */
+export function createScriptedInterviewer(pauseMs = 1500): InterviewerVoice {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let asked: (() => void) | null = null;
+
+  return {
+    name: 'Scripted',
+    ask: (question) => new Promise((resolve) => {
+      console.log('🗣️ [Scripted interviewer]', question);
+      asked = resolve;
+      timer = setTimeout(resolve, pauseMs);
+    }),
+    stop: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      asked?.();
+      asked = null;
+    },
+  };
+}
+
+/**
+ * Plays a scripted answer through the transcription callbacks, one sentence at a time,
+ * as the candidate.
+ */
+export function createScriptedAnswerProvider(answer: string): TranscriptionProvider {
+  const sentences = answer.match(/[^.!?]+[.!?]*/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? [];
+
+  return createReplayProvider({
+    kind: 'script',
+    name: 'scripted answer',
+    entries: sentences.map((text, index) => ({
+      at: (index + 1) * SCRIPTED_SENTENCE_MS,
+      text: index > 0 ? ` ${text}` : text,
+      isFinal: true,
+      speaker: 'candidate',
+    })),
+  });
+}
+
+const microphoneAnswerProvider = createGeminiLiveProvider({ name: 'Gemini Live (microphone)', speaker: 'candidate' });
+
+/**
+ * Scripted answers are played back; everything else is heard through the microphone.
+ */
+export function defaultAnswerProvider(question: PracticeQuestion): TranscriptionProvider {
+  return question.answer !== undefined ? createScriptedAnswerProvider(question.answer) : microphoneAnswerProvider;
+}
+
+export type PracticePhase = 'asking' | 'answering' | 'scoring' | 'done';
+
+export interface PracticeResult {
+  question: PracticeQuestion;
+  answer: string;
+  /** The memories the answer should have drawn on */
+  memories: MemorySearchResult[];
+  score: AnswerScore;
+}
+
+export interface PracticeCallbacks {
+  /** `index` is the current question; `questions.length` once done */
+  onPhase: (phase: PracticePhase, index: number) => void;
+  /** The answer so far */
+  onAnswerUpdate: (index: number, answer: string) => void;
+  onResult: (index: number, result: PracticeResult) => void;
+  onError: (error: Error) => void;
+}
+
+export interface PracticeSessionOptions {
+  questions: PracticeQuestion[];
+  interviewer: InterviewerVoice;
+  /** Finds the memories an answer should use; defaults to a vault search */
+  findMemories?: (question: string) => Promise<MemorySearchResult[]>;
+  /** Listens to the answer to a question; defaults to `defaultAnswerProvider` */
+  answerProvider?: (question: PracticeQuestion) => TranscriptionProvider;
+  silenceMs?: number;
+}
+
+export interface PracticeSession {
+  /** Ends the current answer and scores it */
+  finishAnswer: () => void;
+  stop: () => void;
+  /** Resolves once the session has ended: every question done, failed or stopped */
+  finished: Promise<void>;
+}
+
+/**
+ * Runs a mock interview: asks each question, listens to the answer until it goes quiet (or
+ * `finishAnswer` is called), then scores it against the memories surfaced for the question.
+ */
+export function startPracticeSession(options: PracticeSessionOptions, callbacks: PracticeCallbacks): PracticeSession {
+  const {
+    questions,
+    interviewer,
+    findMemories = (question) => searchMemories(question),
+    answerProvider = defaultAnswerProvider,
+    silenceMs = DEFAULT_SILENCE_MS,
+  } = options;
+
+  let stopped = false;
+  let endAnswer: (() => void) | null = null;
+  // Settles the answer being listened to at once; `stop` uses it so `listen` never hangs
+  let finishAnswerNow: (() => void) | null = null;
+  let transcription: TranscriptionSession | null = null;
+
+  const listen = (question: PracticeQuestion, index: number) => new Promise<string>((resolve, reject) => {
+    let answer = '';
+    let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+    let drainTimer: ReturnType<typeof setTimeout> | null = null;
+    let ending = false;
+
+    const finish = () => {
+      if (silenceTimer) clearTimeout(silenceTimer);
+      if (drainTimer) clearTimeout(drainTimer);
+      transcription?.stop();
+      transcription = null;
+      endAnswer = null;
+      finishAnswerNow = null;
+      resolve(answer.trim());
+    };
+    finishAnswerNow = finish;
+
+    endAnswer = () => {
+      if (ending) return;
+      ending = true;
+      if (silenceTimer) clearTimeout(silenceTimer);
+      drainTimer = setTimeout(finish, ANSWER_DRAIN_MS);
+    };
+
+    answerProvider(question).start({
+      onTranscriptionUpdate: (text) => {
+        answer += text;
+        callbacks.onAnswerUpdate(index, answer.trim());
+        if (ending) return;
+        // Only counts silence once the candidate has started answering
+        if (silenceTimer) clearTimeout(silenceTimer);
+        silenceTimer = setTimeout(() => endAnswer?.(), silenceMs);
+      },
+      onStatusUpdate: (status) => {
+        if (status === TranscriptionStatus.STOPPED) endAnswer?.();
+      },
+      onError: reject,
+    }).then((session) => {
+      if (stopped) session.stop();
+      else transcription = session;
+    }, reject);
+  });
+
+  const run = async () => {
+    for (const [index, question] of questions.entries()) {
+      if (stopped) return;
+      callbacks.onPhase('asking', index);
+      // Search while the question is being asked
+      const memories = findMemories(question.text).catch((error) => {
+        console.error('Error finding memories for practice question:', error);
+        return [] as MemorySearchResult[];
+      });
+      await interviewer.ask(question.text);
+
+      if (stopped) return;
+      callbacks.onPhase('answering', index);
+      const answer = await listen(question, index);
+
+      if (stopped) return;
+      callbacks.onPhase('scoring', index);
+      const surfaced = await memories;
+      callbacks.onResult(index, { question, answer, memories: surfaced, score: scoreAnswer(answer, surfaced) });
+    }
+    callbacks.onPhase('done', questions.length);
+  };
+
+  const stop = () => {
+    stopped = true;
+    // Settle whatever the session is waiting on, so it sees `stopped` and ends
+    finishAnswerNow?.();
+    transcription?.stop();
+    transcription = null;
+    endAnswer = null;
+    interviewer.stop();
+  };
+
+  const finished = run()
+    .catch((error: Error) => {
+      if (!stopped) callbacks.onError(error);
+    })
+    .finally(() => {
+      if (!stopped) interviewer.stop();
+    });
+
+  return {
+    finishAnswer: () => endAnswer?.(),
+    stop,
+    finished,
+  };
+}
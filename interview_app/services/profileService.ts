@@ -0,0 +1,54 @@
+/**
+ * A vault profile this browser holds a token for.
+ */
+export interface SavedProfile {
+  id: string;
+  name: string;
+  token: string;
+}
+
+const PROFILES_KEY = 'oncue.profiles';
+const ACTIVE_PROFILE_KEY = 'oncue.activeProfile';
+
+export function loadSavedProfiles(): SavedProfile[] {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]') as SavedProfile[];
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: SavedProfile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string | null {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY);
+}
+
+// Read by every backend request, so kept outside React state
+let activeToken: string | null = loadSavedProfiles().find(p => p.id === loadActiveProfileId())?.token ?? null;
+
+/**
+ * Makes a profile the one every backend request acts on, and remembers the choice.
+ * @param profile The profile to use, or null to sign out of all vaults.
+ */
+export function setActiveProfile(profile: SavedProfile | null): void {
+  activeToken = profile?.token ?? null;
+  if (profile) {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  } else {
+    localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+}
+
+export function getActiveToken(): string | null {
+  return activeToken;
+}
+
+/**
+ * The Authorization header for the active profile, or none when no profile is selected.
+ */
+export function authHeaders(): Record<string, string> {
+  return activeToken ? { Authorization: `Bearer ${activeToken}` } : {};
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+// The backend's copy, used by the live retrieval channel; the two must give the same verdicts
+import * as backend from '../../mongodb_backend/questionDetection.mjs';
+import { LanguageCode } from './languages';
+import { createDetector, DETECTION_KEYWORD_PACKS, DetectorName } from './questionDetection';
+
+type BackendAi = Parameters<typeof backend.createDetector>[1]['ai'];
+
+interface LabeledUtterance {
+  text: string;
+  isQuestion: boolean;
+}
+
+const corpus = (file: string): string[] =>
+  (JSON.parse(readFileSync(new URL(`../samples/${file}`, import.meta.url), 'utf8')) as LabeledUtterance[]).map(u => u.text);
+
+// The evaluation corpora, plus French, which has none yet
+const FIXTURES: Record<LanguageCode, string[]> = {
+  en: corpus('question-corpus.json'),
+  es: corpus('question-corpus.es.json'),
+  de: corpus('question-corpus.de.json'),
+  fr: [
+    'Parlez-moi de votre dernier projet.',
+    'Quelle est votre plus grande réussite',
+    'Notre équipe travaille en mode agile.',
+    'Avez-vous déjà dirigé une équipe',
+    'Nous avons des bureaux à Lyon.',
+  ],
+};
+
+describe('question detection drift between the app and the backend', () => {
+  it('has the same keyword packs', () => {
+    assert.deepEqual(backend.DETECTION_KEYWORD_PACKS, DETECTION_KEYWORD_PACKS);
+  });
+
+  for (const name of ['keyword', 'combined'] as DetectorName[]) {
+    it(`gives the same ${name} verdicts and reasons on the shared fixtures`, async () => {
+      for (const [language, texts] of Object.entries(FIXTURES) as Array<[LanguageCode, string[]]>) {
+        const keywords = DETECTION_KEYWORD_PACKS[language];
+        // The LLM confirms everything, so combined verdicts differ only if the keyword gates do
+        const app = createDetector(name, { keywords, classifier: async () => true });
+        const server = backend.createDetector(name, {
+          keywords: backend.DETECTION_KEYWORD_PACKS[language],
+          ai: { models: { generateContent: async () => ({ text: 'yes' }) } } as unknown as BackendAi,
+        });
+
+        for (const text of texts) {
+          assert.deepEqual(await server.detect(text), await app.detect(text), `${language}: "${text}"`);
+        }
+      }
+    });
+  }
+});
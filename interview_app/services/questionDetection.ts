@@ -0,0 +1,296 @@
+import type { GoogleGenAI } from '@google/genai';
+import type { LanguageCode } from './languages';
+
+export const DEFAULT_DETECTION_MODEL = 'gemini-2.0-flash-exp';
+const LLM_CACHE_SIZE = 100;
+
+export type DetectorName = 'keyword' | 'llm' | 'combined';
+
+export interface DetectionResult {
+  isQuestion: boolean;
+  /** Short explanation, e.g. which keyword matched; shown in logs and evaluation reports */
+  reason: string;
+}
+
+export interface QuestionDetector {
+  readonly name: DetectorName;
+  detect: (text: string) => Promise<DetectionResult>;
+}
+
+/**
+ * Asks a model whether a sentence is something the candidate would want help with; backs the
+ * LLM and combined detectors. Rejects when the model can't be reached.
+ */
+export type QuestionClassifier = (text: string) => Promise<boolean>;
+
+/**
+ * Editable word lists for the keyword detector.
+ */
+export interface DetectionKeywords {
+  /** Prompts that make a sentence a question on their own, e.g. "tell me about" */
+  phrases: string[];
+  /** Interview topics; they only count in sentences phrased as a question, so "our team shipped it" is ignored */
+  topics: string[];
+  /** Words that open a question, e.g. "what" or "have"; the English ones when missing */
+  openers?: string[];
+}
+
+/**
+ * Keyword lists for each interview language; the settings' language selects one.
+ */
+export const DETECTION_KEYWORD_PACKS: Record<LanguageCode, Required<DetectionKeywords>> = {
+  en: {
+    phrases: [
+      'tell me about', 'tell us about', 'walk me through', 'walk us through', 'describe a time', 'describe how',
+      'describe your', 'explain how', 'explain why', 'give me an example', 'how would you', 'what would you',
+      'why did you', 'have you ever', 'can you', 'could you', 'would you', 'do you have', 'what is your',
+      "what's your", 'why should we', 'talk me through',
+    ],
+    topics: [
+      'experience', 'skill', 'skills', 'background', 'qualification', 'qualifications', 'strengths', 'weaknesses',
+      'challenge', 'project', 'team', 'leadership', 'conflict', 'situation', 'example', 'achievement',
+    ],
+    openers: [
+      'what', 'why', 'how', 'when', 'where', 'which', 'who', 'whom', 'whose', 'do', 'does', 'did', 'have', 'has',
+      'had', 'are', 'is', 'was', 'were', 'can', 'could', 'would', 'will', 'should', 'may',
+    ],
+  },
+  es: {
+    phrases: [
+      'háblame de', 'hábleme de', 'cuéntame', 'cuénteme', 'descríbeme', 'describa', 'explícame', 'explíqueme',
+      'dame un ejemplo', 'deme un ejemplo', 'qué harías', 'qué haría', 'cómo harías', 'cómo haría', 'por qué decidiste',
+      'alguna vez', 'puedes', 'podrías', 'puede usted', 'podría usted', 'tienes experiencia', 'tiene experiencia',
+      'cuál es tu', 'cuál es su', 'por qué deberíamos',
+    ],
+    topics: [
+      'experiencia', 'habilidad', 'habilidades', 'formación', 'trayectoria', 'fortalezas', 'debilidades', 'reto',
+      'desafío', 'proyecto', 'equipo', 'liderazgo', 'conflicto', 'situación', 'ejemplo', 'logro',
+    ],
+    openers: [
+      'qué', 'por qué', 'cómo', 'cuándo', 'dónde', 'cuál', 'cuáles', 'quién', 'quiénes', 'has', 'ha', 'habéis',
+      'tienes', 'tiene', 'puedes', 'puede', 'podrías', 'podría', 'sabes', 'sabe',
+    ],
+  },
+  de: {
+    phrases: [
+      'erzählen sie mir', 'erzählen sie uns', 'erzähl mir', 'erzähl uns', 'beschreiben sie', 'beschreib mal',
+      'erklären sie', 'erklär mir', 'geben sie mir ein beispiel', 'nennen sie ein beispiel', 'wie würden sie',
+      'was würden sie', 'warum haben sie', 'haben sie schon einmal', 'hast du schon einmal', 'können sie',
+      'könnten sie', 'kannst du', 'haben sie erfahrung', 'was ist ihre', 'was sind ihre', 'warum sollten wir',
+      'führen sie mich durch',
+    ],
+    topics: [
+      'erfahrung', 'fähigkeit', 'fähigkeiten', 'hintergrund', 'qualifikation', 'qualifikationen', 'stärken',
+      'schwächen', 'herausforderung', 'projekt', 'team', 'führung', 'konflikt', 'situation', 'beispiel', 'erfolg',
+    ],
+    openers: [
+      'was', 'warum', 'wieso', 'weshalb', 'wie', 'wann', 'wo', 'welche', 'welcher', 'welches', 'wer', 'haben',
+      'hatten', 'hast', 'sind', 'waren', 'bist', 'können', 'könnten', 'kannst', 'würden', 'würdest', 'sollten',
+    ],
+  },
+  fr: {
+    phrases: [
+      'parlez-moi de', 'parle-moi de', 'racontez-moi', 'raconte-moi', 'décrivez', 'expliquez', 'explique-moi',
+      'donnez-moi un exemple', 'comment feriez-vous', 'que feriez-vous', 'pourquoi avez-vous', 'avez-vous déjà',
+      'pouvez-vous', 'pourriez-vous', 'peux-tu', 'avez-vous de l\'expérience', 'quel est votre', 'quelle est votre',
+      'quels sont vos', 'pourquoi devrions-nous',
+    ],
+    topics: [
+      'expérience', 'compétence', 'compétences', 'parcours', 'qualification', 'qualifications', 'forces',
+      'faiblesses', 'défi', 'projet', 'équipe', 'leadership', 'conflit', 'situation', 'exemple', 'réussite',
+    ],
+    openers: [
+      'que', 'qu\'est-ce', 'pourquoi', 'comment', 'quand', 'où', 'quel', 'quelle', 'quels', 'quelles', 'qui',
+      'est-ce', 'avez-vous', 'êtes-vous', 'pouvez-vous', 'as-tu', 'es-tu',
+    ],
+  },
+};
+
+export const DEFAULT_DETECTION_KEYWORDS: DetectionKeywords = DETECTION_KEYWORD_PACKS.en;
+
+export const DETECTORS: Record<DetectorName, { label: string; description: string }> = {
+  keyword: { label: 'Keyword', description: 'Question marks and prompt phrases; instant, no API calls' },
+  llm: { label: 'LLM', description: 'Gemini judges every sentence; handles nuance but adds latency' },
+  combined: { label: 'Combined', description: 'Keywords gate the LLM: only sentences with a question cue are sent to Gemini' },
+};
+
+interface DetectorOptions {
+  keywords?: DetectionKeywords;
+  /** Required by the LLM and combined detectors */
+  classifier?: QuestionClassifier;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Lowercased without accents, so "cuentame" still matches "cuéntame"
+function normalize(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').trim();
+}
+
+// Whole-word matching, so "team" doesn't match "steam"; \b only knows ASCII letters, so
+// word boundaries are checked against any letter or digit
+function findTerm(text: string, terms: string[], { atStart = false } = {}): string | undefined {
+  return terms.find(term => normalize(term)
+    && new RegExp(`${atStart ? '^' : '(?<![\\p{L}\\p{N}])'}${escapeRegExp(normalize(term))}(?![\\p{L}\\p{N}])`, 'u').test(text));
+}
+
+// Spanish questions open with "¿"
+function hasQuestionMark(text: string): boolean {
+  return /[?¿]/.test(text);
+}
+
+// Sentences opening with one of the openers are phrased as questions
+function opensLikeQuestion(text: string, keywords: DetectionKeywords): boolean {
+  return findTerm(text, keywords.openers ?? DETECTION_KEYWORD_PACKS.en.openers, { atStart: true }) !== undefined;
+}
+
+function keywordMatch(text: string, keywords: DetectionKeywords): DetectionResult {
+  const lowerText = normalize(text);
+
+  if (hasQuestionMark(lowerText)) {
+    return { isQuestion: true, reason: 'question mark' };
+  }
+
+  const phrase = findTerm(lowerText, keywords.phrases);
+  if (phrase) {
+    return { isQuestion: true, reason: `phrase "${phrase}"` };
+  }
+
+  const topic = findTerm(lowerText, keywords.topics);
+  if (topic && opensLikeQuestion(lowerText, keywords)) {
+    return { isQuestion: true, reason: `topic "${topic}" in a question` };
+  }
+
+  return { isQuestion: false, reason: topic ? `topic "${topic}" in a statement` : 'no question cue' };
+}
+
+/**
+ * Keyword detector: a question mark, a prompt phrase, or an interview topic in a sentence
+ * that opens like a question.
+ */
+export function createKeywordDetector(keywords: DetectionKeywords = DEFAULT_DETECTION_KEYWORDS): QuestionDetector {
+  return {
+    name: 'keyword',
+    detect: async (text) => keywordMatch(text, keywords),
+  };
+}
+
+/**
+ * Asks Gemini directly. The app goes through the backend instead, which redacts the transcript
+ * first (see geminiService.ts); this is for tools such as the detector evaluation.
+ */
+export function createGeminiClassifier(ai: GoogleGenAI, model: string = DEFAULT_DETECTION_MODEL): QuestionClassifier {
+  return async (text) => {
+    const prompt = `Analyze this text and determine if it's an interview question or important conversation point that an interviewee would want help with.
+
+Text: "${text}"
+
+Consider it a "yes" if it:
+- Is a direct question
+- Asks about experience, skills, or qualifications
+- Requests examples or explanations
+- Discusses challenges, projects, or achievements
+- Is a behavioral interview question
+- Is a technical question
+- Asks "tell me about" or similar prompts
+
+Consider it a "no" if it is the interviewer talking about themselves, the company or the schedule without asking anything.
+
+Respond with ONLY "yes" or "no".`;
+
+    const result = await ai.models.generateContent({ model, contents: prompt });
+    return (result.text ?? '').toLowerCase().trim().includes('yes');
+  };
+}
+
+/**
+ * LLM detector: asks the classifier whether the sentence is something the candidate would want
+ * help with. Results are cached per sentence; when the classifier fails it falls back to keyword matching.
+ */
+export function createLLMDetector(
+  classifier: QuestionClassifier,
+  keywords: DetectionKeywords = DEFAULT_DETECTION_KEYWORDS,
+): QuestionDetector {
+  const cache = new Map<string, boolean>();
+
+  return {
+    name: 'llm',
+    detect: async (text) => {
+      const cached = cache.get(text);
+      if (cached !== undefined) {
+        return { isQuestion: cached, reason: 'LLM (cached)' };
+      }
+
+      try {
+        const isQuestion = await classifier(text);
+
+        cache.set(text, isQuestion);
+        // Limit cache size to prevent memory issues
+        if (cache.size > LLM_CACHE_SIZE) {
+          const firstKey = cache.keys().next().value;
+          if (firstKey !== undefined) cache.delete(firstKey);
+        }
+
+        return { isQuestion, reason: 'LLM' };
+      } catch (error) {
+        console.error('LLM question detection failed, falling back to keywords:', error);
+        const fallback = keywordMatch(text, keywords);
+        return { ...fallback, reason: `${fallback.reason} (LLM unavailable)` };
+      }
+    },
+  };
+}
+
+/**
+ * Combined detector: sentences without any question cue (question mark, prompt phrase, topic or
+ * interrogative opener) are rejected locally; the rest are confirmed by the LLM.
+ */
+export function createCombinedDetector(
+  classifier: QuestionClassifier,
+  keywords: DetectionKeywords = DEFAULT_DETECTION_KEYWORDS,
+): QuestionDetector {
+  const llm = createLLMDetector(classifier, keywords);
+
+  return {
+    name: 'combined',
+    detect: async (text) => {
+      const lowerText = normalize(text);
+      const hasCue = hasQuestionMark(lowerText)
+        || opensLikeQuestion(lowerText, keywords)
+        || findTerm(lowerText, keywords.phrases) !== undefined
+        || findTerm(lowerText, keywords.topics) !== undefined;
+
+      if (!hasCue) {
+        return { isQuestion: false, reason: 'no question cue (LLM skipped)' };
+      }
+      return llm.detect(text);
+    },
+  };
+}
+
+/**
+ * Creates a detector by name.
+ * @param name One of the keys of `DETECTORS`.
+ * @param options Keyword lists, and the classifier for the LLM-backed detectors.
+ * @returns The detector.
+ */
+export function createDetector(name: DetectorName, options: DetectorOptions = {}): QuestionDetector {
+  const { keywords = DEFAULT_DETECTION_KEYWORDS, classifier } = options;
+
+  if (name === 'keyword') {
+    return createKeywordDetector(keywords);
+  }
+  if (!classifier) {
+    throw new Error(`The "${name}" detector needs a classifier`);
+  }
+  return name === 'llm' ? createLLMDetector(classifier, keywords) : createCombinedDetector(classifier, keywords);
+}
+
+/**
+ * Parses a newline-separated keyword list as typed into the settings panel.
+ */
+export function parseKeywordList(text: string): string[] {
+  return [...new Set(text.split('\n').map(line => line.trim().toLowerCase()).filter(Boolean))];
+}
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTranscriptScript } from './replayProvider';
+
+describe('parseTranscriptScript', () => {
+  it('parses JSON entries in time order', () => {
+    const entries = parseTranscriptScript('[{ "at": 4000, "text": "Why us?" }, { "at": 500, "text": "Hi.", "speaker": "candidate" }]');
+
+    assert.deepEqual(entries, [
+      { at: 500, text: 'Hi.', isFinal: undefined, speaker: 'candidate' },
+      { at: 4000, text: ' Why us?', isFinal: undefined, speaker: undefined },
+    ]);
+  });
+
+  it('parses timestamped text lines', () => {
+    const entries = parseTranscriptScript('[00:01.5] Interviewer: Tell me about yourself.\n\n[75] I led the migration.');
+
+    assert.deepEqual(entries.map(({ at, text, speaker }) => ({ at, text, speaker })), [
+      { at: 1500, text: 'Tell me about yourself.', speaker: 'interviewer' },
+      { at: 75000, text: ' I led the migration.', speaker: undefined },
+    ]);
+  });
+
+  it('accepts an empty JSON script', () => {
+    assert.deepEqual(parseTranscriptScript(' [ ] \n'), []);
+  });
+
+  it('rejects lines without a timestamp', () => {
+    assert.throws(() => parseTranscriptScript('[00:01] Hello\nno timestamp'), /line 2/);
+  });
+});
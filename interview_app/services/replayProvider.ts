@@ -0,0 +1,191 @@
+import { Speaker, TranscriptionStatus } from '../types';
+import { decodeWav, float32ToInt16, resampleLinear } from '../utils/audioUtils';
+import { AudioSource, createGeminiLiveProvider, INPUT_SAMPLE_RATE } from './geminiLiveProvider';
+import { LiveTranscriptionCallbacks, TranscriptionProvider, TranscriptionSession } from './transcriptionProvider';
+
+// Audio is replayed in chunks of this many samples (~256ms at 16 kHz)
+const REPLAY_CHUNK_SIZE = 4096;
+
+const SPEAKERS: Speaker[] = ['interviewer', 'candidate'];
+
+export interface TranscriptScriptEntry {
+  /** Offset from the start of the replay, in milliseconds */
+  at: number;
+  text: string;
+  isFinal?: boolean;
+  speaker?: Speaker; // Defaults to the interviewer
+}
+
+export type ReplaySource =
+  | { kind: 'script'; name: string; entries: TranscriptScriptEntry[] }
+  | { kind: 'wav'; name: string; data: ArrayBuffer };
+
+interface ReplayOptions {
+  /** Playback speed multiplier; 2 replays twice as fast */
+  speed?: number;
+}
+
+/**
+ * Parses a transcript script. Two formats are accepted:
+ * - JSON: an array of `{ at, text, isFinal?, speaker? }` entries (`at` in milliseconds)
+ * - Text: one entry per line, prefixed with a `[mm:ss.s]` or `[ss.s]` timestamp and
+ *   optionally a speaker, e.g. `[00:04.5] Candidate: I led the migration.`
+ * @param content The file contents.
+ * @returns The entries sorted by time.
+ */
+export function parseTranscriptScript(content: string): TranscriptScriptEntry[] {
+  const trimmed = content.trim();
+  let entries: TranscriptScriptEntry[];
+
+  // A JSON array opens with "[{" (or is "[]"); a text script opens with a "[mm:ss]" timestamp
+  if (/^\[\s*(?:\{|\]$)/.test(trimmed)) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Transcript script JSON must be an array of entries');
+    }
+    entries = parsed.map((entry, index) => {
+      if (typeof entry?.at !== 'number' || typeof entry?.text !== 'string') {
+        throw new Error(`Invalid transcript script entry at index ${index}: expected { at: number, text: string }`);
+      }
+      if (entry.speaker !== undefined && !SPEAKERS.includes(entry.speaker)) {
+        throw new Error(`Invalid speaker at index ${index}: expected one of ${SPEAKERS.join(', ')}`);
+      }
+      return { at: entry.at, text: entry.text, isFinal: entry.isFinal, speaker: entry.speaker };
+    });
+  } else {
+    entries = [];
+    const linePattern = /^\[(?:(\d+):)?(\d+(?:\.\d+)?)\]\s*(?:(interviewer|candidate):\s*)?(.*)$/i;
+    trimmed.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      const match = line.trim().match(linePattern);
+      if (!match) {
+        throw new Error(`Invalid transcript script line ${index + 1}: expected "[mm:ss] text"`);
+      }
+      const [, minutes, seconds, speaker, text] = match;
+      entries.push({
+        at: Math.round(((minutes ? parseInt(minutes, 10) * 60 : 0) + parseFloat(seconds)) * 1000),
+        text,
+        isFinal: true,
+        speaker: speaker ? speaker.toLowerCase() as Speaker : undefined,
+      });
+    });
+  }
+
+  // Live transcription chunks carry their own leading whitespace; match that so the
+  // app can concatenate replayed chunks exactly like live ones.
+  return entries
+    .sort((a, b) => a.at - b.at)
+    .map((entry, index) => ({
+      ...entry,
+      text: index > 0 && !/^\s/.test(entry.text) ? ` ${entry.text}` : entry.text,
+    }));
+}
+
+/**
+ * Reads a user-selected file into a replay source. `.wav` files are replayed as audio,
+ * anything else is parsed as a transcript script.
+ */
+export async function loadReplaySource(file: File): Promise<ReplaySource> {
+  if (/\.wav$/i.test(file.name) || file.type === 'audio/wav' || file.type === 'audio/x-wav') {
+    return { kind: 'wav', name: file.name, data: await file.arrayBuffer() };
+  }
+  return { kind: 'script', name: file.name, entries: parseTranscriptScript(await file.text()) };
+}
+
+/**
+ * Audio source that plays back a WAV file in real time instead of the microphone.
+ */
+export function createWavAudioSource(data: ArrayBuffer, options: ReplayOptions = {}): AudioSource {
+  const { speed = 1 } = options;
+  let pcm: Int16Array | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  return {
+    prepare: async () => {
+      const { sampleRate, samples } = decodeWav(data);
+      pcm = float32ToInt16(resampleLinear(samples, sampleRate, INPUT_SAMPLE_RATE));
+    },
+    start: ({ onChunk, onEnded }) => {
+      let position = 0;
+      const intervalMs = (REPLAY_CHUNK_SIZE / INPUT_SAMPLE_RATE) * 1000 / speed;
+
+      timer = setInterval(() => {
+        if (!pcm || position >= pcm.length) {
+          clearInterval(timer!);
+          timer = null;
+          onEnded();
+          return;
+        }
+        onChunk(pcm.slice(position, position + REPLAY_CHUNK_SIZE));
+        position += REPLAY_CHUNK_SIZE;
+      }, intervalMs);
+    },
+    stop: () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      pcm = null;
+    },
+  };
+}
+
+/**
+ * Replays a timestamped transcript through the transcription callbacks. Needs neither
+ * a microphone nor a network connection.
+ */
+function startScriptReplay(
+  entries: TranscriptScriptEntry[],
+  callbacks: LiveTranscriptionCallbacks,
+  speed: number,
+): TranscriptionSession {
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  let stopped = false;
+
+  const stop = () => {
+    stopped = true;
+    timers.forEach(clearTimeout);
+    timers.length = 0;
+  };
+
+  callbacks.onStatusUpdate(TranscriptionStatus.CONNECTING);
+  callbacks.onStatusUpdate(TranscriptionStatus.LISTENING);
+
+  entries.forEach((entry, index) => {
+    timers.push(setTimeout(() => {
+      if (stopped) return;
+      callbacks.onTranscriptionUpdate(entry.text, entry.isFinal ?? true, entry.speaker ?? 'interviewer');
+
+      if (index === entries.length - 1) {
+        stop();
+        callbacks.onStatusUpdate(TranscriptionStatus.STOPPED);
+      }
+    }, entry.at / speed));
+  });
+
+  if (entries.length === 0) {
+    callbacks.onStatusUpdate(TranscriptionStatus.STOPPED);
+  }
+
+  return { stop };
+}
+
+/**
+ * Creates a provider that replays a recorded session. Scripts are replayed locally; WAV
+ * recordings are streamed to Gemini Live in place of the microphone.
+ */
+export function createReplayProvider(source: ReplaySource, options: ReplayOptions = {}): TranscriptionProvider {
+  const { speed = 1 } = options;
+
+  if (source.kind === 'wav') {
+    return createGeminiLiveProvider({
+      name: `Replay: ${source.name}`,
+      createAudioSource: () => createWavAudioSource(source.data, options),
+    });
+  }
+
+  return {
+    name: `Replay: ${source.name}`,
+    start: async (callbacks) => startScriptReplay(source.entries, callbacks, speed),
+  };
+}
@@ -0,0 +1,251 @@
+import { Phrase, Speaker } from '../types';
+import { MemorySearchResult } from './vectorSearchService';
+
+const SESSION_FORMAT_VERSION = 1;
+
+// Caption cues for the last group stay on screen this long
+const TRAILING_CUE_MS = 3000;
+
+export interface SessionSettings {
+  minThreshold: number;
+  maxResults: number;
+}
+
+/**
+ * Everything needed to review or re-import a session.
+ */
+export interface SessionRecord {
+  version: number;
+  startedAt: string; // ISO timestamp
+  exportedAt: string; // ISO timestamp
+  source: string; // Transcription provider name
+  settings: SessionSettings;
+  phrases: Phrase[];
+}
+
+/**
+ * Phrases that share a question group, i.e. one sentence from one speaker.
+ */
+export interface SessionSegment {
+  groupId: number;
+  speaker: Speaker;
+  text: string;
+  startMs: number;
+  endMs: number;
+  isQuestion: boolean;
+  searchResults: MemorySearchResult[];
+  searchQuery?: string;
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  srt: { label: 'SRT captions', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+export function createSessionRecord(
+  phrases: Phrase[],
+  settings: SessionSettings,
+  startedAt: Date,
+  source: string,
+): SessionRecord {
+  return {
+    version: SESSION_FORMAT_VERSION,
+    startedAt: startedAt.toISOString(),
+    exportedAt: new Date().toISOString(),
+    source,
+    settings,
+    phrases,
+  };
+}
+
+/**
+ * Collapses phrases into one segment per question group, ordered by when each group started.
+ * With two speakers a group's phrases can be interleaved with the other speaker's.
+ */
+export function groupSegments(phrases: Phrase[]): SessionSegment[] {
+  const segments: SessionSegment[] = [];
+  const byGroup = new Map<number, SessionSegment>();
+
+  phrases.forEach((phrase) => {
+    const existing = phrase.questionGroupId !== undefined ? byGroup.get(phrase.questionGroupId) : undefined;
+    if (existing) {
+      existing.text += phrase.text;
+      existing.isQuestion = existing.isQuestion || phrase.isQuestion;
+      if (phrase.searchResults) existing.searchResults = phrase.searchResults;
+      existing.searchQuery = phrase.searchQuery ?? existing.searchQuery;
+      return;
+    }
+    const segment: SessionSegment = {
+      groupId: phrase.questionGroupId ?? -1,
+      speaker: phrase.speaker ?? 'interviewer',
+      text: phrase.text,
+      startMs: phrase.timestamp,
+      endMs: phrase.timestamp,
+      isQuestion: phrase.isQuestion,
+      searchResults: phrase.searchResults ?? [],
+      searchQuery: phrase.searchQuery,
+    };
+    segments.push(segment);
+    if (phrase.questionGroupId !== undefined) byGroup.set(phrase.questionGroupId, segment);
+  });
+
+  // A segment lasts until the next one starts
+  segments.forEach((segment, index) => {
+    const next = segments[index + 1];
+    segment.text = segment.text.trim();
+    segment.endMs = next ? Math.max(next.startMs, segment.startMs + 1) : segment.startMs + TRAILING_CUE_MS;
+  });
+
+  return segments;
+}
+
+const SPEAKER_NAMES: Record<Speaker, string> = { interviewer: 'Interviewer', candidate: 'Candidate' };
+
+// Speaker names are only added once the candidate was transcribed too
+function hasMultipleSpeakers(segments: SessionSegment[]): boolean {
+  return segments.some(segment => segment.speaker === 'candidate');
+}
+
+function formatClock(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, width = 2) => value.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+export function toMarkdown(record: SessionRecord): string {
+  const segments = groupSegments(record.phrases);
+  const questions = segments.filter(s => s.isQuestion);
+  const lines: string[] = [
+    `# Interview Session — ${new Date(record.startedAt).toLocaleString()}`,
+    '',
+    `- **Source:** ${record.source}`,
+    `- **Min match:** ${(record.settings.minThreshold * 100).toFixed(0)}%`,
+    `- **Results per question:** ${record.settings.maxResults}`,
+    `- **Questions detected:** ${questions.length}`,
+    '',
+    '## Questions',
+    '',
+  ];
+
+  if (questions.length === 0) {
+    lines.push('_No questions detected._', '');
+  }
+
+  questions.forEach((question, index) => {
+    lines.push(`### ${index + 1}. ${question.text}`, '', `_At ${formatClock(question.startMs, '.')}_`, '');
+    if (question.searchQuery) {
+      lines.push(`_Searched as: ${question.searchQuery}_`, '');
+    }
+    if (question.searchResults.length === 0) {
+      lines.push('_No memories cleared the threshold._', '');
+      return;
+    }
+    question.searchResults.forEach((result) => {
+      lines.push(`- **${result.classification}** (${(result.score * 100).toFixed(0)}%) — ${result.description} _(${result.sourceFile})_`);
+    });
+    lines.push('');
+  });
+
+  lines.push('## Transcript', '');
+  const showSpeakers = hasMultipleSpeakers(segments);
+  segments.forEach((segment) => {
+    const text = segment.isQuestion ? `**${segment.text}**` : segment.text;
+    const speaker = showSpeakers ? `${SPEAKER_NAMES[segment.speaker]}: ` : '';
+    lines.push(`\`${formatClock(segment.startMs, '.')}\` ${speaker}${text}`, '');
+  });
+
+  return lines.join('\n');
+}
+
+export function toJSON(record: SessionRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+export function toSRT(record: SessionRecord): string {
+  const segments = groupSegments(record.phrases);
+  const showSpeakers = hasMultipleSpeakers(segments);
+  return segments
+    .map((segment, index) => [
+      `${index + 1}`,
+      `${formatClock(segment.startMs, ',')} --> ${formatClock(segment.endMs, ',')}`,
+      showSpeakers ? `${SPEAKER_NAMES[segment.speaker]}: ${segment.text}` : segment.text,
+      '',
+    ].join('\n'))
+    .join('\n');
+}
+
+/** Cue text is markup in WebVTT, so "R&D" or "a < b" must be escaped to survive. */
+function escapeVTT(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toVTT(record: SessionRecord): string {
+  const segments = groupSegments(record.phrases);
+  const showSpeakers = hasMultipleSpeakers(segments);
+  const cues = segments.map((segment) => {
+    const escaped = escapeVTT(segment.text);
+    const text = segment.isQuestion ? `<b>${escaped}</b>` : escaped;
+    return [
+      `${formatClock(segment.startMs, '.')} --> ${formatClock(segment.endMs, '.')}`,
+      // WebVTT voice spans let players style or label each speaker
+      showSpeakers ? `<v ${SPEAKER_NAMES[segment.speaker]}>${text}` : text,
+      '',
+    ].join('\n');
+  });
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+export function serializeSession(record: SessionRecord, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown': return toMarkdown(record);
+    case 'json': return toJSON(record);
+    case 'srt': return toSRT(record);
+    case 'vtt': return toVTT(record);
+  }
+}
+
+/**
+ * Parses a session previously exported as JSON.
+ * @param content The JSON file contents.
+ * @returns The session record.
+ */
+export function parseSessionJSON(content: string): SessionRecord {
+  const data = JSON.parse(content);
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.phrases) || !data.settings) {
+    throw new Error('Not an OnCue session export');
+  }
+  if (data.version !== SESSION_FORMAT_VERSION) {
+    throw new Error(`Unsupported session format version: ${data.version}`);
+  }
+
+  // Sessions exported before speaker separation only contain the interviewer
+  const phrases = (data.phrases as Phrase[]).map(phrase => ({ ...phrase, speaker: phrase.speaker ?? 'interviewer' }));
+  return { ...data, phrases } as SessionRecord;
+}
+
+/**
+ * Triggers a browser download of the given content.
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportSession(record: SessionRecord, format: ExportFormat): void {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const stamp = record.startedAt.replace(/[:.]/g, '-');
+  downloadFile(`oncue-session-${stamp}.${extension}`, serializeSession(record, format), mimeType);
+}
@@ -0,0 +1,89 @@
+import { Speaker } from '../types';
+import { api } from './backendApi';
+import type { SessionAnalytics, SessionQuestion, SessionReport, SurfacedMemory } from './apiClient';
+import { groupSegments, SessionRecord } from './sessionExport';
+
+export type { SessionAnalytics, SessionReport, SurfacedMemory };
+export type ReportQuestion = SessionQuestion;
+
+// Transcription arrives in chunks; count this long after a sentence's last chunk as speech
+const SPEECH_TAIL_MS = 1000;
+
+/**
+ * Builds the post-interview report for a session.
+ * @param record The session, as it would be exported
+ * @returns Every detected question with its best match, the gaps, memory usage and talk time
+ */
+export function buildSessionReport(record: SessionRecord): SessionReport {
+  const { minThreshold } = record.settings;
+  const segments = groupSegments(record.phrases);
+
+  const lastPhraseAt = new Map<number, number>();
+  record.phrases.forEach((phrase) => {
+    if (phrase.questionGroupId !== undefined) {
+      lastPhraseAt.set(phrase.questionGroupId, Math.max(lastPhraseAt.get(phrase.questionGroupId) ?? 0, phrase.timestamp));
+    }
+  });
+
+  const talkTimeMs: Record<Speaker, number> = { interviewer: 0, candidate: 0 };
+  segments.forEach((segment) => {
+    const spokenUntil = (lastPhraseAt.get(segment.groupId) ?? segment.startMs) + SPEECH_TAIL_MS;
+    talkTimeMs[segment.speaker] += Math.min(segment.endMs, spokenUntil) - segment.startMs;
+  });
+
+  const memories = new Map<string, SurfacedMemory>();
+  const questions = segments
+    .filter(segment => segment.isQuestion)
+    .map((segment): ReportQuestion => {
+      const results = [...segment.searchResults].sort((a, b) => b.score - a.score);
+      results.forEach((result) => {
+        const entry = memories.get(result.id);
+        if (entry) {
+          entry.timesSurfaced++;
+          entry.bestScore = Math.max(entry.bestScore, result.score);
+        } else {
+          const { id, classification, description, sourceFile, score } = result;
+          memories.set(id, { id, classification, description, sourceFile, timesSurfaced: 1, bestScore: score });
+        }
+      });
+
+      const topScore = results[0]?.score ?? null;
+      return {
+        text: segment.text,
+        startMs: segment.startMs,
+        categories: [...new Set(results.map(result => result.classification))],
+        topScore,
+        memoryIds: results.map(result => result.id),
+        isGap: topScore === null || topScore < minThreshold,
+      };
+    });
+
+  const lastSegment = segments[segments.length - 1];
+
+  return {
+    startedAt: record.startedAt,
+    source: record.source,
+    minThreshold,
+    durationMs: lastSegment ? lastSegment.endMs : 0,
+    questions,
+    surfacedMemories: [...memories.values()].sort((a, b) => b.timesSurfaced - a.timesSurfaced || b.bestScore - a.bestScore),
+    talkTimeMs,
+  };
+}
+
+/**
+ * Saves a report to the active profile's session history.
+ * @returns The stored session's id
+ */
+export async function saveSessionReport(report: SessionReport): Promise<string> {
+  const { id } = await api.saveSession(report);
+  return id;
+}
+
+/**
+ * @param sessions How many of the most recent sessions to aggregate
+ */
+export async function getSessionAnalytics(sessions?: number): Promise<SessionAnalytics> {
+  const { analytics } = await api.getSessionAnalytics({ sessions: sessions || undefined });
+  return analytics;
+}
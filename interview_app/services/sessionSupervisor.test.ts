@@ -0,0 +1,221 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { TranscriptionStatus } from '../types';
+import { ConnectionHandlers, SessionSupervisorOptions, SupervisedConnection, createSessionSupervisor } from './sessionSupervisor';
+
+/** A live session that records what it was sent, and can be made to drop. */
+interface FakeConnection extends SupervisedConnection {
+  handlers: ConnectionHandlers;
+  sent: Int16Array[];
+  closed: boolean;
+}
+
+const chunk = (value: number, length = 10) => new Int16Array(length).fill(value);
+
+/** Lets the supervisor's async timer callbacks run to completion. */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createSessionSupervisor', () => {
+  let connections: FakeConnection[];
+  let failuresLeft: number;
+  let timers: Array<{ callback: () => void; ms: number }>;
+  let statuses: TranscriptionStatus[];
+  let failed: Error | null;
+  let reconnects: number;
+
+  beforeEach(() => {
+    connections = [];
+    failuresLeft = 0;
+    timers = [];
+    statuses = [];
+    failed = null;
+    reconnects = 0;
+    // Failed attempts are logged; keep the test output readable
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  const createSupervisor = (options: Partial<SessionSupervisorOptions> = {}) => createSessionSupervisor({
+    connect: async (handlers) => {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new Error('connection refused');
+      }
+      const connection: FakeConnection = {
+        handlers,
+        sent: [],
+        closed: false,
+        sendAudio: (pcm) => connection.sent.push(pcm),
+        sendPause: () => {},
+        close: () => { connection.closed = true; },
+      };
+      connections.push(connection);
+      return connection;
+    },
+    onStatus: (status) => statuses.push(status),
+    onTranscription: () => {},
+    onReconnect: () => reconnects++,
+    onFailed: (error) => { failed = error; },
+    sampleRate: 1000,
+    setTimer: (callback, ms) => {
+      const timer = { callback, ms };
+      timers.push(timer);
+      return timer;
+    },
+    clearTimer: (timer) => { timers = timers.filter(t => t !== timer); },
+    ...options,
+  });
+
+  const runNextTimer = async () => {
+    const timer = timers.shift();
+    assert.ok(timer, 'expected a pending timer');
+    timer.callback();
+    await settle();
+    return timer.ms;
+  };
+
+  const drop = (connection: FakeConnection) => connection.handlers.onClose();
+
+  it('reconnects with exponential backoff capped at the maximum delay', async () => {
+    const supervisor = createSupervisor({ maxReconnectAttempts: 6, baseDelayMs: 500, maxDelayMs: 8000 });
+    await supervisor.start();
+
+    failuresLeft = 5;
+    drop(connections[0]);
+    const delays = [];
+    while (connections.length < 2) delays.push(await runNextTimer());
+
+    assert.deepEqual(delays, [500, 1000, 2000, 4000, 8000, 8000]);
+    assert.equal(connections.length, 2);
+    assert.equal(reconnects, 1);
+    assert.deepEqual(statuses, [TranscriptionStatus.LISTENING, TranscriptionStatus.RECONNECTING, TranscriptionStatus.LISTENING]);
+  });
+
+  it('starts the backoff over once a reconnected connection has been stable', async () => {
+    const supervisor = createSupervisor({ stableMs: 5000 });
+    await supervisor.start();
+
+    failuresLeft = 1;
+    drop(connections[0]);
+    await runNextTimer();
+    await runNextTimer();
+    assert.equal(await runNextTimer(), 5000);
+    drop(connections[1]);
+
+    assert.equal(timers[0].ms, 500);
+  });
+
+  it('keeps backing off when reconnected connections drop straight away', async () => {
+    const supervisor = createSupervisor({ maxReconnectAttempts: 4, stableMs: 5000 });
+    await supervisor.start();
+
+    const delays = [];
+    for (let attempt = 0; attempt < 4; attempt++) {
+      drop(connections.at(-1)!);
+      delays.push(await runNextTimer());
+    }
+    drop(connections.at(-1)!);
+
+    assert.deepEqual(delays, [500, 1000, 2000, 4000]);
+    assert.equal(statuses.at(-1), TranscriptionStatus.ERROR);
+    assert.match(failed?.message ?? '', /after 4 attempts/);
+    assert.equal(timers.length, 0);
+  });
+
+  it('replays audio buffered while reconnecting, oldest first', async () => {
+    const supervisor = createSupervisor();
+    await supervisor.start();
+    supervisor.sendAudio(chunk(1));
+
+    drop(connections[0]);
+    supervisor.sendAudio(chunk(2));
+    supervisor.sendAudio(chunk(3));
+    assert.deepEqual(connections[0].sent, [chunk(1)]);
+    assert.equal(connections[0].closed, true);
+
+    await runNextTimer();
+    assert.deepEqual(connections[1].sent, [chunk(2), chunk(3)]);
+    assert.equal(statuses.at(-1), TranscriptionStatus.LISTENING);
+
+    supervisor.sendAudio(chunk(4));
+    assert.deepEqual(connections[1].sent.at(-1), chunk(4));
+  });
+
+  it('ignores a dropped connection once it has been replaced', async () => {
+    const supervisor = createSupervisor();
+    await supervisor.start();
+    const old = connections[0];
+
+    drop(old);
+    await runNextTimer();
+    drop(old);
+
+    // Only the new connection's stability timer is pending, no reconnect
+    assert.deepEqual(timers.map(timer => timer.ms), [5000]);
+    assert.equal(statuses.at(-1), TranscriptionStatus.LISTENING);
+  });
+
+  it('is DEGRADED after a reconnect that dropped audio, until the connection has been stable', async () => {
+    // 1000 Hz for 25 ms keeps 25 samples: only the newest two chunks of 10
+    const supervisor = createSupervisor({ maxBufferMs: 25, recoveryMs: 10000 });
+    await supervisor.start();
+
+    drop(connections[0]);
+    [1, 2, 3, 4].forEach(value => supervisor.sendAudio(chunk(value)));
+    await runNextTimer();
+
+    assert.deepEqual(connections[1].sent, [chunk(3), chunk(4)]);
+    assert.equal(statuses.at(-1), TranscriptionStatus.DEGRADED);
+
+    assert.equal(await runNextTimer(), 10000);
+    assert.equal(statuses.at(-1), TranscriptionStatus.LISTENING);
+  });
+
+  it('gives up with ERROR after the maximum number of attempts', async () => {
+    const supervisor = createSupervisor({ maxReconnectAttempts: 3 });
+    await supervisor.start();
+
+    failuresLeft = Infinity;
+    drop(connections[0]);
+    supervisor.sendAudio(chunk(1));
+    for (let attempt = 0; attempt < 3; attempt++) await runNextTimer();
+
+    assert.equal(statuses.at(-1), TranscriptionStatus.ERROR);
+    assert.match(failed?.message ?? '', /after 3 attempts/);
+    assert.equal(timers.length, 0);
+
+    // Stopped for good: later audio goes nowhere
+    supervisor.sendAudio(chunk(2));
+    assert.equal(connections.length, 1);
+  });
+
+  it('cancels a pending reconnect when stopped', async () => {
+    const supervisor = createSupervisor();
+    await supervisor.start();
+
+    drop(connections[0]);
+    supervisor.sendAudio(chunk(1));
+    supervisor.stop();
+
+    assert.equal(timers.length, 0);
+    assert.equal(connections.length, 1);
+    assert.equal(failed, null);
+    assert.notEqual(statuses.at(-1), TranscriptionStatus.ERROR);
+  });
+
+  it('closes a connection that opens after it was stopped', async () => {
+    let resolveConnect: (connection: SupervisedConnection) => void = () => {};
+    const late = { sendAudio: () => {}, sendPause: () => {}, close: () => { late.closed = true; }, closed: false };
+    const supervisor = createSupervisor({
+      connect: () => new Promise(resolve => { resolveConnect = resolve; }),
+    });
+
+    const started = supervisor.start();
+    supervisor.stop();
+    resolveConnect(late);
+    await started;
+
+    assert.equal(late.closed, true);
+  });
+});
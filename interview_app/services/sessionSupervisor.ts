@@ -0,0 +1,260 @@
+import { TranscriptionStatus } from '../types';
+
+/**
+ * One underlying live connection, as seen by the supervisor.
+ */
+export interface SupervisedConnection {
+  sendAudio: (pcm: Int16Array) => void;
+  /** Tells the server the audio paused */
+  sendPause: () => void;
+  close: () => void;
+}
+
+export interface ConnectionHandlers {
+  onTranscription: (text: string, isFinal: boolean) => void;
+  /** The connection closed; the supervisor ignores this after it closed the connection itself */
+  onClose: () => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * Opens a connection; resolves once it is ready to receive audio. Injected so the supervisor
+ * can be driven by a fake session.
+ */
+export type ConnectFn = (handlers: ConnectionHandlers) => Promise<SupervisedConnection>;
+
+export interface SessionSupervisorOptions {
+  connect: ConnectFn;
+  onStatus: (status: TranscriptionStatus) => void;
+  onTranscription: (text: string, isFinal: boolean) => void;
+  /** A new connection replaced a dropped one; speech in progress on the old one won't be continued */
+  onReconnect?: () => void;
+  /** Reconnecting failed for good; the supervisor has stopped */
+  onFailed: (error: Error) => void;
+  /** Sample rate of the PCM passed to `sendAudio`, used to size the gap buffer */
+  sampleRate: number;
+  maxReconnectAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Audio captured while disconnected is kept up to this long and replayed on reconnect */
+  maxBufferMs?: number;
+  /** After a reconnect that lost audio, stay DEGRADED until the connection has been stable this long */
+  recoveryMs?: number;
+  /**
+   * The backoff starts over once a reconnected connection has stayed up this long, so one that
+   * opens and drops straight away keeps backing off and eventually gives up
+   */
+  stableMs?: number;
+  /** Timer functions; injectable so backoff can be driven without real time */
+  setTimer?: (callback: () => void, ms: number) => unknown;
+  clearTimer?: (timer: unknown) => void;
+}
+
+export interface SessionSupervisor {
+  /** Opens the first connection; rejects if it can't be established */
+  start: () => Promise<void>;
+  /** Sends audio, or buffers it while reconnecting */
+  sendAudio: (pcm: Int16Array) => void;
+  sendPause: () => void;
+  stop: () => void;
+}
+
+/**
+ * Keeps a live transcription session up: when the connection drops or errors it reconnects
+ * with exponential backoff, buffers audio captured during the gap and replays it once the new
+ * connection is open.
+ *
+ * Status: LISTENING while healthy, RECONNECTING during a gap, DEGRADED after a reconnect that
+ * had to drop buffered audio (until `recoveryMs` of stable connection), ERROR when it gives up.
+ */
+export function createSessionSupervisor(options: SessionSupervisorOptions): SessionSupervisor {
+  const {
+    connect,
+    onStatus,
+    onTranscription,
+    onReconnect,
+    onFailed,
+    sampleRate,
+    maxReconnectAttempts = 6,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    maxBufferMs = 30000,
+    recoveryMs = 10000,
+    stableMs = 5000,
+    setTimer = (callback, ms) => setTimeout(callback, ms),
+    clearTimer = (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+  } = options;
+
+  const maxBufferSamples = (sampleRate * maxBufferMs) / 1000;
+
+  let connection: SupervisedConnection | null = null;
+  // Incremented per connection, so late callbacks from a replaced connection are ignored
+  let generation = 0;
+  let stopped = false;
+  let reconnecting = false;
+  let attempts = 0;
+  let retryTimer: unknown = null;
+  let recoveryTimer: unknown = null;
+  let stableTimer: unknown = null;
+
+  let buffer: Int16Array[] = [];
+  let bufferedSamples = 0;
+  let droppedAudio = false;
+
+  const clearTimers = () => {
+    if (retryTimer !== null) clearTimer(retryTimer);
+    if (recoveryTimer !== null) clearTimer(recoveryTimer);
+    if (stableTimer !== null) clearTimer(stableTimer);
+    retryTimer = null;
+    recoveryTimer = null;
+    stableTimer = null;
+  };
+
+  const bufferAudio = (pcm: Int16Array) => {
+    buffer.push(pcm);
+    bufferedSamples += pcm.length;
+    // Keep the most recent audio; older audio is lost for good
+    while (bufferedSamples > maxBufferSamples && buffer.length > 1) {
+      bufferedSamples -= buffer.shift()!.length;
+      droppedAudio = true;
+    }
+  };
+
+  const open = async () => {
+    const current = ++generation;
+    const isCurrent = () => current === generation && !stopped;
+    let ready = false;
+    let failedWhileConnecting: Error | null = null;
+
+    const fail = (error: Error) => {
+      if (!isCurrent()) return;
+      if (ready) {
+        handleDrop();
+      } else {
+        failedWhileConnecting ??= error;
+      }
+    };
+
+    const opened = await connect({
+      onTranscription: (text, isFinal) => {
+        if (isCurrent()) onTranscription(text, isFinal);
+      },
+      onClose: () => fail(new Error('The live session closed while connecting')),
+      onError: (error) => {
+        console.error('Live session error:', error);
+        fail(error);
+      },
+    });
+
+    if (!isCurrent()) {
+      // Stopped (or superseded) while connecting
+      opened.close();
+      return;
+    }
+    if (failedWhileConnecting) {
+      opened.close();
+      throw failedWhileConnecting;
+    }
+    ready = true;
+    connection = opened;
+  };
+
+  const handleDrop = () => {
+    if (stopped || reconnecting) return;
+    reconnecting = true;
+
+    const dropped = connection;
+    connection = null;
+    generation++; // Ignore anything more from the dropped connection
+    dropped?.close();
+
+    if (recoveryTimer !== null) {
+      clearTimer(recoveryTimer);
+      recoveryTimer = null;
+    }
+    // Dropped before it proved stable: the next attempt keeps backing off
+    if (stableTimer !== null) {
+      clearTimer(stableTimer);
+      stableTimer = null;
+    }
+    onStatus(TranscriptionStatus.RECONNECTING);
+    scheduleReconnect();
+  };
+
+  const scheduleReconnect = () => {
+    if (attempts >= maxReconnectAttempts) {
+      const error = new Error(`Lost the live transcription session and could not reconnect after ${attempts} attempts`);
+      stop();
+      onStatus(TranscriptionStatus.ERROR);
+      onFailed(error);
+      return;
+    }
+
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempts);
+    attempts++;
+    retryTimer = setTimer(async () => {
+      retryTimer = null;
+      try {
+        await open();
+      } catch (error) {
+        console.error(`Reconnect attempt ${attempts} failed:`, error);
+        if (!stopped) scheduleReconnect();
+        return;
+      }
+      if (!connection) return;
+
+      reconnecting = false;
+      onReconnect?.();
+
+      // Replay what was said during the gap, oldest first
+      const pending = buffer;
+      buffer = [];
+      bufferedSamples = 0;
+      pending.forEach(pcm => connection!.sendAudio(pcm));
+
+      if (droppedAudio) {
+        droppedAudio = false;
+        onStatus(TranscriptionStatus.DEGRADED);
+        recoveryTimer = setTimer(() => {
+          recoveryTimer = null;
+          if (connection && !reconnecting) onStatus(TranscriptionStatus.LISTENING);
+        }, recoveryMs);
+      } else {
+        onStatus(TranscriptionStatus.LISTENING);
+      }
+
+      stableTimer = setTimer(() => {
+        stableTimer = null;
+        attempts = 0;
+      }, stableMs);
+    }, delay);
+  };
+
+  const stop = () => {
+    stopped = true;
+    clearTimers();
+    connection?.close();
+    connection = null;
+    buffer = [];
+    bufferedSamples = 0;
+  };
+
+  return {
+    start: async () => {
+      await open();
+      onStatus(TranscriptionStatus.LISTENING);
+    },
+    sendAudio: (pcm) => {
+      if (stopped) return;
+      if (connection && !reconnecting) {
+        connection.sendAudio(pcm);
+      } else {
+        bufferAudio(pcm);
+      }
+    },
+    sendPause: () => {
+      if (connection && !reconnecting) connection.sendPause();
+    },
+    stop,
+  };
+}
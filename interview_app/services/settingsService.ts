@@ -0,0 +1,164 @@
+import { createApiClient, ServerConfig } from './apiClient';
+import { LANGUAGES, LanguageCode } from './languages';
+import { DEFAULT_DETECTION_MODEL, DETECTORS, DetectorName } from './questionDetection';
+
+const SETTINGS_KEY = 'oncue.settings';
+// The backend's defaults from GET /api/config, cached so they apply before it answers
+const SERVER_DEFAULTS_KEY = 'oncue.serverDefaults';
+
+export const DEFAULT_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const MAX_RESULTS_LIMIT = 20;
+export const MIN_SIDEBAR_WIDTH = 200;
+
+/**
+ * Everything the user can change in the settings panel or the header, persisted in this browser.
+ */
+export interface AppSettings {
+  backendUrl: string;
+  detector: DetectorName;
+  /** Language the interview is held in; selects the transcription language and keyword pack */
+  language: LanguageCode;
+  /** Minimum match score (0-1) for a memory to be shown */
+  minThreshold: number;
+  /** Results shown per question */
+  maxResults: number;
+  /** Transcribes the microphone and tab audio */
+  liveModel: string;
+  /** Used by the LLM and combined detectors */
+  detectionModel: string;
+  sidebarWidth: number;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  backendUrl: 'http://localhost:5001',
+  detector: 'keyword',
+  language: 'en',
+  minThreshold: 0.5,
+  maxResults: 3,
+  liveModel: DEFAULT_LIVE_MODEL,
+  detectionModel: DEFAULT_DETECTION_MODEL,
+  sidebarWidth: 384, // 384px = w-96
+};
+
+// The backend's non-secret configuration, as served by GET /api/config
+export type { ServerConfig };
+
+function readJSON(key: string): Partial<AppSettings> {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) ?? '{}');
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Problems with a set of settings, one message per invalid field; empty when they're all valid.
+ */
+export function validateSettings(settings: Partial<AppSettings>): string[] {
+  const errors: string[] = [];
+  const { backendUrl, detector, language, minThreshold, maxResults, liveModel, detectionModel, sidebarWidth } = settings;
+
+  if (backendUrl !== undefined) {
+    let protocol = '';
+    try {
+      protocol = new URL(backendUrl).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') errors.push('Backend URL must be an http(s) URL');
+  }
+  if (detector !== undefined && !Object.hasOwn(DETECTORS, detector)) {
+    errors.push(`Detection mode must be one of: ${Object.keys(DETECTORS).join(', ')}`);
+  }
+  if (language !== undefined && !Object.hasOwn(LANGUAGES, language)) {
+    errors.push(`Language must be one of: ${Object.keys(LANGUAGES).join(', ')}`);
+  }
+  if (minThreshold !== undefined && !(typeof minThreshold === 'number' && minThreshold >= 0 && minThreshold <= 1)) {
+    errors.push('Minimum match must be between 0% and 100%');
+  }
+  if (maxResults !== undefined && !(Number.isInteger(maxResults) && maxResults >= 1 && maxResults <= MAX_RESULTS_LIMIT)) {
+    errors.push(`Results per question must be a whole number between 1 and ${MAX_RESULTS_LIMIT}`);
+  }
+  if (liveModel !== undefined && !(typeof liveModel === 'string' && liveModel.trim())) {
+    errors.push('Live model is required');
+  }
+  if (detectionModel !== undefined && !(typeof detectionModel === 'string' && detectionModel.trim())) {
+    errors.push('Detection model is required');
+  }
+  if (sidebarWidth !== undefined && !(typeof sidebarWidth === 'number' && sidebarWidth >= MIN_SIDEBAR_WIDTH)) {
+    errors.push(`Sidebar width must be at least ${MIN_SIDEBAR_WIDTH}px`);
+  }
+  return errors;
+}
+
+// Drops stored values that are no longer valid (e.g. a detector that was removed) instead of failing
+function validEntries(stored: Partial<AppSettings>): Partial<AppSettings> {
+  return Object.fromEntries(
+    Object.entries(stored).filter(([key, value]) =>
+      key in DEFAULT_SETTINGS && validateSettings({ [key]: value }).length === 0),
+  );
+}
+
+function resolveSettings(): AppSettings {
+  return { ...DEFAULT_SETTINGS, ...validEntries(readJSON(SERVER_DEFAULTS_KEY)), ...validEntries(readJSON(SETTINGS_KEY)) };
+}
+
+// Read by every backend request, so kept outside React state
+let current: AppSettings = resolveSettings();
+
+/**
+ * The effective settings: the user's own, over the backend's defaults, over the built-in ones.
+ */
+export function getSettings(): AppSettings {
+  return current;
+}
+
+export function getBackendUrl(): string {
+  return current.backendUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Validates and remembers the user's changes.
+ * @throws If any changed value is invalid; nothing is saved then.
+ * @returns The new effective settings.
+ */
+export function updateSettings(changes: Partial<AppSettings>): AppSettings {
+  const errors = validateSettings(changes);
+  if (errors.length > 0) {
+    throw new Error(errors.join('. '));
+  }
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...readJSON(SETTINGS_KEY), ...changes }));
+  current = resolveSettings();
+  return current;
+}
+
+/**
+ * Forgets the user's changes, going back to the backend's defaults.
+ * @returns The new effective settings.
+ */
+export function resetSettings(): AppSettings {
+  localStorage.removeItem(SETTINGS_KEY);
+  current = resolveSettings();
+  return current;
+}
+
+/**
+ * Adopts the backend's defaults for the settings the user hasn't changed.
+ * @returns The new effective settings.
+ */
+export function applyServerDefaults(config: ServerConfig): AppSettings {
+  const defaults: Partial<AppSettings> = { ...config.client, detectionModel: config.models.detection };
+  localStorage.setItem(SERVER_DEFAULTS_KEY, JSON.stringify(validEntries(defaults)));
+  current = resolveSettings();
+  return current;
+}
+
+/**
+ * Fetches the backend's public configuration. Needs no profile token.
+ * @param backendUrl Defaults to the configured backend; pass another to test it before saving.
+ */
+export async function fetchServerConfig(backendUrl: string = getBackendUrl()): Promise<ServerConfig> {
+  const { config } = await createApiClient({ baseUrl: () => backendUrl }).getConfig();
+  return config;
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TranscriptionStatus } from '../types';
+import { createDetector, QuestionDetector } from './questionDetection';
+import { LiveTranscriptionCallbacks, TranscriptionProvider, latestCallbacks } from './transcriptionProvider';
+
+/** A provider that hands its callbacks to the test, so it can speak for the interviewer. */
+function createFakeProvider() {
+  let started: LiveTranscriptionCallbacks | null = null;
+  const provider: TranscriptionProvider = {
+    name: 'fake',
+    start: async (callbacks) => {
+      started = callbacks;
+      callbacks.onStatusUpdate(TranscriptionStatus.LISTENING);
+      return { stop: () => {} };
+    },
+  };
+  const say = (text: string) => started!.onTranscriptionUpdate(text, true, 'interviewer');
+  return { provider, say };
+}
+
+const classifierDetector = (verdict: boolean) => createDetector('llm', { classifier: async () => verdict });
+
+describe('latestCallbacks', () => {
+  it('applies a detector changed mid-session from the next sentence', async () => {
+    const detected: Array<{ text: string; isQuestion: boolean }> = [];
+    // What the app rebuilds on every render: handlers that close over the current detector
+    const handlersFor = (detector: QuestionDetector): LiveTranscriptionCallbacks => ({
+      onTranscriptionUpdate: (text) => {
+        detector.detect(text).then(({ isQuestion }) => detected.push({ text, isQuestion }));
+      },
+      onStatusUpdate: () => {},
+      onError: () => {},
+    });
+    const ref = { current: handlersFor(classifierDetector(false)) };
+    const { provider, say } = createFakeProvider();
+    await provider.start(latestCallbacks(ref));
+
+    say('Tell me about the billing migration.');
+    ref.current = handlersFor(classifierDetector(true));
+    say('Walk me through the rollout.');
+    await new Promise(resolve => setImmediate(resolve));
+
+    assert.deepEqual(detected, [
+      { text: 'Tell me about the billing migration.', isQuestion: false },
+      { text: 'Walk me through the rollout.', isQuestion: true },
+    ]);
+  });
+
+  it('forwards every callback, including the optional ones', async () => {
+    const calls: string[] = [];
+    const ref = {
+      current: {
+        onTranscriptionUpdate: () => calls.push('transcription'),
+        onStatusUpdate: (status: TranscriptionStatus) => calls.push(`status:${status}`),
+        onError: (error: Error) => calls.push(`error:${error.message}`),
+      } as LiveTranscriptionCallbacks,
+    };
+    const callbacks = latestCallbacks(ref);
+
+    callbacks.onReconnect?.('interviewer');
+    ref.current = { ...ref.current, onReconnect: (speaker) => calls.push(`reconnect:${speaker}`) };
+    callbacks.onReconnect?.('interviewer');
+    callbacks.onError(new Error('dropped'));
+
+    assert.deepEqual(calls, ['reconnect:interviewer', 'error:dropped']);
+  });
+});
@@ -0,0 +1,95 @@
+import { Speaker, TranscriptionStatus } from '../types';
+
+export interface LiveTranscriptionCallbacks {
+  onTranscriptionUpdate: (text: string, isFinal: boolean, speaker: Speaker) => void;
+  onStatusUpdate: (status: TranscriptionStatus) => void;
+  onError: (error: Error) => void;
+  /** Input level in [0, 1] for a mic meter; only sources that capture live audio report it */
+  onInputLevel?: (level: number, speaker: Speaker) => void;
+  /** The speaker's live session was replaced after a drop; a sentence in progress won't be continued */
+  onReconnect?: (speaker: Speaker) => void;
+}
+
+/**
+ * Callbacks that forward to whatever `ref.current` holds when they are called. A provider keeps
+ * the callbacks it was started with for the whole session, so the app starts it with these and
+ * updates the ref on every render: a detector or search setting changed mid-session then applies
+ * from the next sentence.
+ */
+export function latestCallbacks(ref: { readonly current: LiveTranscriptionCallbacks }): LiveTranscriptionCallbacks {
+  return {
+    onTranscriptionUpdate: (text, isFinal, speaker) => ref.current.onTranscriptionUpdate(text, isFinal, speaker),
+    onStatusUpdate: (status) => ref.current.onStatusUpdate(status),
+    onError: (error) => ref.current.onError(error),
+    onInputLevel: (level, speaker) => ref.current.onInputLevel?.(level, speaker),
+    onReconnect: (speaker) => ref.current.onReconnect?.(speaker),
+  };
+}
+
+/**
+ * Handle returned by a provider once transcription has started.
+ */
+export interface TranscriptionSession {
+  stop: () => void;
+}
+
+/**
+ * A source of transcription updates. The Gemini Live client is one implementation;
+ * the replay provider feeds recorded audio or transcript scripts through the same callbacks.
+ */
+export interface TranscriptionProvider {
+  /** Short human-readable name, shown in the UI and logs */
+  readonly name: string;
+  start: (callbacks: LiveTranscriptionCallbacks) => Promise<TranscriptionSession>;
+}
+
+/**
+ * Runs one provider per speaker and merges them into a single session. The combined status is
+ * ERROR if any channel errors, the worst of CONNECTING/RECONNECTING/DEGRADED while any channel is
+ * in one, LISTENING once every channel listens, and STOPPED once all have stopped.
+ */
+export function createMultiChannelProvider(name: string, providers: TranscriptionProvider[]): TranscriptionProvider {
+  return {
+    name,
+    start: async (callbacks: LiveTranscriptionCallbacks): Promise<TranscriptionSession> => {
+      const statuses: TranscriptionStatus[] = providers.map(() => TranscriptionStatus.CONNECTING);
+      let lastReported: TranscriptionStatus | null = null;
+
+      const report = () => {
+        let combined: TranscriptionStatus;
+        if (statuses.includes(TranscriptionStatus.ERROR)) combined = TranscriptionStatus.ERROR;
+        else if (statuses.every(status => status === TranscriptionStatus.STOPPED)) combined = TranscriptionStatus.STOPPED;
+        else if (statuses.includes(TranscriptionStatus.CONNECTING)) combined = TranscriptionStatus.CONNECTING;
+        else if (statuses.includes(TranscriptionStatus.RECONNECTING)) combined = TranscriptionStatus.RECONNECTING;
+        else if (statuses.includes(TranscriptionStatus.DEGRADED)) combined = TranscriptionStatus.DEGRADED;
+        else combined = TranscriptionStatus.LISTENING;
+
+        if (combined !== lastReported) {
+          lastReported = combined;
+          callbacks.onStatusUpdate(combined);
+        }
+      };
+
+      const sessions: TranscriptionSession[] = [];
+      const stop = () => sessions.forEach(session => session.stop());
+
+      try {
+        // Start sequentially so each channel's permission prompt appears on its own
+        for (const [index, provider] of providers.entries()) {
+          sessions.push(await provider.start({
+            ...callbacks,
+            onStatusUpdate: (status) => {
+              statuses[index] = status;
+              report();
+            },
+          }));
+        }
+      } catch (error) {
+        stop();
+        throw error;
+      }
+
+      return { stop };
+    },
+  };
+}
@@ -1,43 +1,66 @@
-// Backend API configuration
-const BACKEND_URL = 'http://localhost:5001';
+import { api } from './backendApi';
+import type { MemorySearchResult, SearchFilters, SearchMemoryBody } from './apiClient';
+import type { LanguageCode } from './languages';
 
-export interface MemorySearchResult {
-  classification: string;
-  description: string;
-  sourceFile: string;
-  createdAt: string;
-  score: number;
+export type { MemorySearchResult };
+export type MemorySearchFilters = SearchFilters;
+
+/**
+ * Everything a search accepts besides the query and limit: filters, the keyword-vs-semantic
+ * weighting, the conversation context, memories to favour and the question's language.
+ */
+export type MemorySearchOptions = Omit<SearchMemoryBody, 'query' | 'limit'>;
+
+export interface MemorySearchResponse {
+  results: MemorySearchResult[];
+  /** The query that was actually searched */
+  query: string;
+  /** True when a follow-up was rewritten using the conversation context */
+  rewritten: boolean;
+  /** Set when the question was translated before searching: the language it was asked in */
+  translatedFrom?: LanguageCode;
 }
 
 /**
- * Searches stored memories using vector similarity via backend API
+ * Like `searchMemories`, but also reports the query the backend searched with, which differs
+ * when a follow-up question was rewritten using `options.context` or translated from `options.language`
  * @param query The search query to find relevant memories
  * @param limit Maximum number of results to return
- * @returns Most relevant memories with similarity scores
+ * @param options Metadata filters, the keyword-vs-semantic weighting and the conversation context
+ * @returns The results and the query the backend searched with
  */
-export async function searchMemories(query: string, limit: number = 3): Promise<MemorySearchResult[]> {
+export async function searchMemoriesWithQuery(
+  query: string,
+  limit: number = 3,
+  options: MemorySearchOptions = {},
+): Promise<MemorySearchResponse> {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/search-memory`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query, limit }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
-    if (!data.success) {
-      throw new Error(data.error || 'Search failed');
-    }
+    const data = await api.searchMemory({ query, limit, ...options });
 
-    return data.results as MemorySearchResult[];
+    return {
+      results: data.results,
+      query: data.query,
+      rewritten: data.rewritten,
+      translatedFrom: data.translated ? data.language : undefined,
+    };
   } catch (error) {
     console.error('Error searching memories:', error);
     throw error;
   }
 }
+
+/**
+ * Searches the active profile's memories using hybrid vector + keyword search via backend API
+ * @param query The search query to find relevant memories
+ * @param limit Maximum number of results to return
+ * @param options Metadata filters and the keyword-vs-semantic weighting
+ * @returns Most relevant memories with similarity scores
+ */
+export async function searchMemories(
+  query: string,
+  limit: number = 3,
+  options: MemorySearchOptions = {},
+): Promise<MemorySearchResult[]> {
+  const { results } = await searchMemoriesWithQuery(query, limit, options);
+  return results;
+}
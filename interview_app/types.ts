@@ -1,8 +1,30 @@
+import type { LanguageCode } from './services/languages';
+import type { MemorySearchResult } from './services/vectorSearchService';
 
 export enum TranscriptionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   LISTENING = 'LISTENING',
+  RECONNECTING = 'RECONNECTING', // The live session dropped; audio is buffered until it is back
+  DEGRADED = 'DEGRADED', // Reconnected, but some audio from the gap was lost
   STOPPED = 'STOPPED',
   ERROR = 'ERROR',
 }
+
+/**
+ * Who said a phrase. Single-source (microphone-only) sessions tag everything as the interviewer.
+ */
+export type Speaker = 'interviewer' | 'candidate';
+
+export interface Phrase {
+  id: number;
+  text: string;
+  isFinal: boolean;
+  isQuestion: boolean;
+  timestamp: number; // Milliseconds since the session started
+  speaker: Speaker;
+  questionGroupId?: number; // Links phrases that are part of the same question
+  searchResults?: MemorySearchResult[]; // Search results for this question
+  searchQuery?: string; // The self-contained query a follow-up question was searched as
+  translatedFrom?: LanguageCode; // Set when searchQuery is a translation of the question
+}
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_VAD_OPTIONS,
+  INITIAL_RESAMPLER_STATE,
+  INITIAL_VAD_STATE,
+  ResamplerState,
+  VadState,
+  detectVoiceActivity,
+  frameRms,
+  resampleChunk,
+} from './audioUtils';
+
+const sine = (frequency: number, rate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / rate));
+
+/** Estimates a tone's frequency from its rising zero crossings. */
+function estimateFrequency(samples: Float32Array, rate: number): number {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+  }
+  return (crossings * rate) / samples.length;
+}
+
+/** Deterministic white noise, so failures reproduce. */
+function noise(length: number, amplitude: number, seed = 1): Float32Array {
+  let state = seed;
+  return Float32Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return amplitude * ((state / 2 ** 31) * 2 - 1);
+  });
+}
+
+function resampleInChunks(samples: Float32Array, sizes: number[]): Float32Array {
+  const outputs: Float32Array[] = [];
+  let state: ResamplerState = INITIAL_RESAMPLER_STATE;
+  for (let start = 0, i = 0; start < samples.length; start += sizes[i % sizes.length], i++) {
+    const result = resampleChunk(samples.subarray(start, start + sizes[i % sizes.length]), 48000, 16000, state);
+    outputs.push(result.output);
+    state = result.state;
+  }
+  const joined = new Float32Array(outputs.reduce((sum, output) => sum + output.length, 0));
+  outputs.reduce((offset, output) => (joined.set(output, offset), offset + output.length), 0);
+  return joined;
+}
+
+describe('resampleChunk', () => {
+  it('downsamples one second of 48 kHz audio to 16 kHz', () => {
+    const { output } = resampleChunk(sine(440, 48000, 48000), 48000, 16000);
+    assert.equal(output.length, 16000);
+  });
+
+  it('keeps the tone at its frequency', () => {
+    const { output } = resampleChunk(sine(440, 48000, 48000), 48000, 16000);
+    assert.ok(Math.abs(estimateFrequency(output, 16000) - 440) <= 1);
+  });
+
+  it('joins chunks as if the stream were resampled in one piece', () => {
+    const input = sine(440, 48000, 48000);
+    const whole = resampleChunk(input, 48000, 16000).output;
+    // Chunk sizes that are not multiples of the 3:1 ratio exercise the carried offset
+    const chunked = resampleInChunks(input, [4096, 1000, 127, 2048, 1]);
+
+    assert.equal(chunked.length, whole.length);
+    chunked.forEach((sample, i) => assert.ok(Math.abs(sample - whole[i]) < 1e-6, `sample ${i} differs`));
+  });
+
+  it('has no discontinuities at chunk boundaries', () => {
+    const chunked = resampleInChunks(sine(440, 48000, 48000), [333, 4097]);
+    // A 440 Hz sine at amplitude 0.5 moves at most this much between 16 kHz samples
+    const maxStep = (0.5 * 2 * Math.PI * 440) / 16000 + 1e-6;
+    for (let i = 1; i < chunked.length; i++) {
+      assert.ok(Math.abs(chunked[i] - chunked[i - 1]) <= maxStep, `jump at sample ${i}`);
+    }
+  });
+
+  it('passes audio through when the rates match', () => {
+    const input = sine(440, 16000, 160);
+    const { output, state } = resampleChunk(input, 16000, 16000);
+    assert.equal(output, input);
+    assert.equal(state.previous, input[input.length - 1]);
+  });
+});
+
+describe('detectVoiceActivity', () => {
+  const FRAME_MS = 20;
+  const FRAME_SAMPLES = 320;
+
+  /** Runs frames through the detector and returns whether each one counts as speech. */
+  const run = (frames: Float32Array[], state: VadState = INITIAL_VAD_STATE) =>
+    frames.map(frame => (state = detectVoiceActivity(state, frameRms(frame), FRAME_MS)).speaking);
+
+  const silence = (count: number) => Array.from({ length: count }, () => new Float32Array(FRAME_SAMPLES));
+
+  it('never reports speech in silence', () => {
+    assert.ok(run(silence(50)).every(speaking => !speaking));
+  });
+
+  it('reports a steady tone as speech', () => {
+    const tone = Array.from({ length: 10 }, () => sine(220, 16000, FRAME_SAMPLES, 0.2));
+    assert.ok(run(tone).every(Boolean));
+  });
+
+  it('bridges gaps shorter than the hangover between noise bursts', () => {
+    const burst = [noise(FRAME_SAMPLES, 0.3, 1), noise(FRAME_SAMPLES, 0.3, 2)];
+    const speaking = run([...burst, ...silence(5), ...burst]);
+    assert.ok(speaking.every(Boolean));
+  });
+
+  it('stops reporting speech once the hangover has passed', () => {
+    const hangoverFrames = DEFAULT_VAD_OPTIONS.hangoverMs / FRAME_MS;
+    const speaking = run([noise(FRAME_SAMPLES, 0.3), ...silence(hangoverFrames + 5)]);
+
+    assert.ok(speaking.slice(0, hangoverFrames).every(Boolean));
+    assert.ok(speaking.slice(hangoverFrames).every(value => !value));
+  });
+
+  it('counts frames at the threshold as speech and quieter ones as silence', () => {
+    const atThreshold = 10 ** (DEFAULT_VAD_OPTIONS.thresholdDb / 20);
+    assert.equal(detectVoiceActivity(INITIAL_VAD_STATE, atThreshold, FRAME_MS).speaking, true);
+    assert.equal(detectVoiceActivity(INITIAL_VAD_STATE, atThreshold * 0.9, FRAME_MS).speaking, false);
+  });
+
+  it('does not start speech on quiet background noise', () => {
+    // White noise at amplitude 0.005 is about -55 dBFS, under the default -45 dBFS threshold
+    const hiss = Array.from({ length: 20 }, (_, i) => noise(FRAME_SAMPLES, 0.005, i + 1));
+    assert.ok(run(hiss).every(speaking => !speaking));
+  });
+});
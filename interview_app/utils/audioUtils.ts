@@ -13,3 +13,270 @@ export function encode(bytes: Uint8Array): string {
   }
   return btoa(binary);
 }
+
+/**
+ * Decodes a Base64 string into raw bytes; the inverse of `encode`.
+ * @param base64 The Base64 encoded string.
+ * @returns The decoded bytes.
+ */
+export function decode(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Converts little-endian 16-bit PCM bytes to Float32 samples in [-1, 1].
+ * @param bytes The raw PCM bytes, e.g. decoded audio from the Gemini Live API.
+ * @returns The Float32 samples.
+ */
+export function pcm16ToFloat32(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 0x8000;
+  }
+  return samples;
+}
+
+/**
+ * Converts Float32 samples to 16-bit PCM, clamping anything outside [-1, 1] so full-scale
+ * input doesn't wrap around.
+ * @param samples The Float32 samples to convert.
+ * @returns The Int16 PCM samples.
+ */
+export function float32ToInt16(samples: Float32Array): Int16Array {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return int16;
+}
+
+export interface DecodedWav {
+  sampleRate: number;
+  /** Mono samples in [-1, 1]; multi-channel files are downmixed */
+  samples: Float32Array;
+}
+
+/**
+ * Decodes a RIFF/WAVE file containing integer (8/16/24/32-bit) or 32-bit float PCM.
+ * @param buffer The raw bytes of the .wav file.
+ * @returns The sample rate and mono samples.
+ */
+export function decodeWav(buffer: ArrayBuffer): DecodedWav {
+  const view = new DataView(buffer);
+  const readTag = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+  if (buffer.byteLength < 12 || readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file (missing RIFF/WAVE header)');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunk list looking for "fmt " and "data"
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const tag = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+      if (format === 0xfffe && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (tag === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, buffer.byteLength - body);
+      break;
+    }
+    offset = body + size + (size % 2); // chunks are word-aligned
+  }
+
+  if (dataOffset < 0 || channels === 0 || sampleRate === 0) {
+    throw new Error('Malformed WAV file (missing fmt or data chunk)');
+  }
+  if (format !== 1 && format !== 3) {
+    throw new Error(`Unsupported WAV encoding (format ${format}); use PCM or 32-bit float`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+
+  const readSample = (position: number): number => {
+    if (format === 3) return view.getFloat32(position, true);
+    switch (bitsPerSample) {
+      case 8: return (view.getUint8(position) - 128) / 128;
+      case 16: return view.getInt16(position, true) / 32768;
+      case 24: {
+        const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+        return value / 8388608;
+      }
+      case 32: return view.getInt32(position, true) / 2147483648;
+      default: throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+    }
+  };
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(dataOffset + (frame * channels + channel) * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+}
+
+/**
+ * Resamples mono audio using linear interpolation.
+ * @param samples The input samples.
+ * @param fromRate The input sample rate in Hz.
+ * @param toRate The desired sample rate in Hz.
+ * @returns The resampled samples (the input itself when the rates match).
+ */
+export function resampleLinear(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const outLength = Math.floor(samples.length / ratio);
+  const out = new Float32Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    out[i] = samples[index] + (samples[next] - samples[index]) * fraction;
+  }
+  return out;
+}
+
+/**
+ * Carries the resampler's position across chunks of a stream.
+ */
+export interface ResamplerState {
+  /** Position of the next output sample relative to the start of the next chunk, in input samples */
+  offset: number;
+  /** Last sample of the previous chunk, for interpolating across the boundary */
+  previous: number;
+}
+
+export const INITIAL_RESAMPLER_STATE: ResamplerState = { offset: 0, previous: 0 };
+
+/**
+ * Resamples one chunk of a mono stream using linear interpolation. Unlike `resampleLinear`,
+ * consecutive chunks join seamlessly: feed each call the state returned by the previous one.
+ * @param samples The next chunk of input.
+ * @param fromRate The input sample rate in Hz.
+ * @param toRate The desired sample rate in Hz.
+ * @param state The state returned for the previous chunk.
+ * @returns The resampled chunk and the state for the next one.
+ */
+export function resampleChunk(
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+  state: ResamplerState = INITIAL_RESAMPLER_STATE,
+): { output: Float32Array; state: ResamplerState } {
+  if (samples.length === 0) return { output: samples, state };
+  if (fromRate === toRate) return { output: samples, state: { offset: 0, previous: samples[samples.length - 1] } };
+
+  const ratio = fromRate / toRate;
+  // Index -1 refers to the last sample of the previous chunk
+  const sampleAt = (index: number) => (index < 0 ? state.previous : samples[Math.min(index, samples.length - 1)]);
+
+  const output: number[] = [];
+  let position = state.offset;
+  while (position <= samples.length - 1) {
+    const index = Math.floor(position);
+    const fraction = position - index;
+    output.push(sampleAt(index) + (sampleAt(index + 1) - sampleAt(index)) * fraction);
+    position += ratio;
+  }
+
+  return {
+    output: Float32Array.from(output),
+    state: { offset: position - samples.length, previous: samples[samples.length - 1] },
+  };
+}
+
+/**
+ * Root-mean-square amplitude of a frame.
+ */
+export function frameRms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Converts an RMS amplitude to decibels relative to full scale, floored at -100 dBFS.
+ */
+export function rmsToDbfs(rms: number): number {
+  return rms > 0 ? Math.max(-100, 20 * Math.log10(rms)) : -100;
+}
+
+/**
+ * Maps an RMS amplitude to a 0-1 meter level on a dB scale.
+ * @param rms The frame's RMS amplitude.
+ * @param floorDb Levels at or below this read as 0.
+ */
+export function rmsToLevel(rms: number, floorDb = -60): number {
+  return Math.max(0, Math.min(1, 1 - rmsToDbfs(rms) / floorDb));
+}
+
+export interface VadOptions {
+  /** Frames at least this loud count as speech */
+  thresholdDb: number;
+  /** Keep reporting speech for this long after the last loud frame, so word gaps aren't cut */
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = { thresholdDb: -45, hangoverMs: 400 };
+
+export interface VadState {
+  speaking: boolean;
+  /** Time since the last loud frame */
+  silenceMs: number;
+}
+
+export const INITIAL_VAD_STATE: VadState = { speaking: false, silenceMs: 0 };
+
+/**
+ * Energy-based voice activity detection, one frame at a time.
+ * @param state The state returned for the previous frame.
+ * @param rms The frame's RMS amplitude.
+ * @param frameMs The frame's duration.
+ * @param options Threshold and hangover.
+ * @returns The state after this frame; `speaking` tells whether to send it.
+ */
+export function detectVoiceActivity(
+  state: VadState,
+  rms: number,
+  frameMs: number,
+  options: VadOptions = DEFAULT_VAD_OPTIONS,
+): VadState {
+  if (rmsToDbfs(rms) >= options.thresholdDb) {
+    return { speaking: true, silenceMs: 0 };
+  }
+  const silenceMs = state.silenceMs + frameMs;
+  return { speaking: state.speaking && silenceMs < options.hangoverMs, silenceMs };
+}
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Manages profiles (isolated vaults), their API tokens and the vault's encryption key.
+ *
+ * Usage: node --env-file=.env admin.mjs <command>
+ *   profile list
+ *   profile create <id> [--name "Engineering interviews"]
+ *   profile delete <id> [--purge]          --purge also deletes the profile's memories
+ *   profile adopt <id>                     assigns memories stored before profiles existed
+ *   token issue <profile> [--label laptop]
+ *   token list [profile]
+ *   token revoke <token-id>
+ *   key create                             writes the key for ENCRYPTION=aes-256-gcm
+ *   vault encrypt                          encrypts descriptions stored before encryption was enabled
+ */
+
+import { parseArgs } from 'node:util';
+import { loadConfig } from './config.mjs';
+import { createProfileRegistryFromConfig } from './profiles.mjs';
+import { createEncryptionKey } from './storage/encryptedStore.mjs';
+import { createStoreFromConfig } from './storage/index.mjs';
+
+const USAGE = `Usage: node admin.mjs <command>
+  profile list
+  profile create <id> [--name <name>]
+  profile delete <id> [--purge]
+  profile adopt <id>
+  token issue <profile> [--label <label>]
+  token list [profile]
+  token revoke <token-id>
+  key create
+  vault encrypt`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    name: { type: 'string' },
+    label: { type: 'string', default: '' },
+    purge: { type: 'boolean', default: false },
+  },
+});
+
+const [group, command, arg] = positionals;
+const config = loadConfig();
+const registry = createProfileRegistryFromConfig(config);
+
+// Only the commands that touch memories open the store
+async function withStore(fn) {
+  const store = createStoreFromConfig(config);
+  await store.connect();
+  try {
+    return await fn(store);
+  } finally {
+    await store.close();
+  }
+}
+
+const commands = {
+  'profile list': async () => {
+    const profiles = await registry.listProfiles();
+    if (profiles.length === 0) console.log('No profiles. Create one with: profile create <id>');
+    for (const profile of profiles) {
+      console.log(`${profile.id}\t${profile.name}\t(created ${profile.createdAt})`);
+    }
+  },
+
+  'profile create': async () => {
+    const profile = await registry.createProfile(arg, values.name);
+    console.log(`Created profile "${profile.id}". Issue a token with: token issue ${profile.id}`);
+  },
+
+  'profile delete': async () => {
+    await registry.deleteProfile(arg);
+    console.log(`Deleted profile "${arg}" and revoked its tokens.`);
+    if (values.purge) {
+      const deleted = await withStore(store => store.deleteMany({ profileId: arg }));
+      console.log(`Deleted ${deleted} memories.`);
+    }
+  },
+
+  'profile adopt': async () => {
+    if (!(await registry.getProfile(arg))) throw new Error(`No profile "${arg}"`);
+    const adopted = await withStore(async (store) => {
+      const unowned = (await store.list({})).filter(memory => !memory.profileId);
+      for (const memory of unowned) {
+        await store.update(memory.id, { profileId: arg });
+      }
+      return unowned.length;
+    });
+    console.log(`Assigned ${adopted} memories to "${arg}".`);
+  },
+
+  'token issue': async () => {
+    const { token, record } = await registry.issueToken(arg, values.label);
+    console.log(`Token ${record.id} for "${record.profileId}" (shown once, store it now):\n\n  ${token}\n`);
+  },
+
+  'token list': async () => {
+    for (const token of await registry.listTokens(arg)) {
+      console.log(`${token.id}\t${token.profileId}\t${token.label || '-'}\t(created ${token.createdAt})`);
+    }
+  },
+
+  'token revoke': async () => {
+    const revoked = await registry.revokeToken(arg);
+    console.log(revoked ? `Revoked token ${arg}.` : `No token "${arg}".`);
+    if (!revoked) process.exitCode = 1;
+  },
+
+  'key create': async () => {
+    const keyPath = createEncryptionKey(config.privacy.keyPath);
+    console.log(`Wrote ${keyPath}. Back it up: memories encrypted with it cannot be read without it.`);
+    if (config.privacy.encryption === 'off') console.log('Set ENCRYPTION=aes-256-gcm to start encrypting.');
+  },
+
+  'vault encrypt': async () => {
+    if (config.privacy.encryption === 'off') throw new Error('Set ENCRYPTION=aes-256-gcm first');
+    // Reads decrypt and writes encrypt, so re-saving every description encrypts the plaintext ones
+    const encrypted = await withStore(async (store) => {
+      const memories = await store.list({});
+      for (const memory of memories) {
+        await store.update(memory.id, { description: memory.description });
+      }
+      return memories.length;
+    });
+    console.log(`Encrypted ${encrypted} memory descriptions.`);
+    console.log('Session reports saved before encryption was enabled keep their question text and memory descriptions in plaintext; new reports are encrypted.');
+  },
+};
+
+const run = commands[`${group} ${command}`];
+const needsArg = !['profile list', 'token list', 'key create', 'vault encrypt'].includes(`${group} ${command}`);
+
+if (!run || (needsArg && !arg)) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+try {
+  await run();
+} catch (error) {
+  console.error(`${group} ${command} failed:`, error.message);
+  process.exitCode = 1;
+}
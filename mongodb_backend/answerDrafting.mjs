@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const STAR_SECTIONS = ['situation', 'task', 'action', 'result'];
+
+export const DEFAULT_DRAFT_MODEL = 'gemini-2.0-flash';
+const SECTION_CODES = { S: 'situation', T: 'task', A: 'action', R: 'result' };
+
+/**
+ * @typedef {object} DraftMemory
+ * @property {string} id
+ * @property {string} classification
+ * @property {string} description
+ * @property {string} [sourceFile]
+ */
+
+/**
+ * @typedef {object} DraftBullet
+ * @property {'situation'|'task'|'action'|'result'} section
+ * @property {string} text
+ * @property {string[]} memoryIds The memories this bullet draws on.
+ */
+
+/**
+ * @typedef {object} AnswerDrafter
+ * @property {string} name
+ * @property {(input: { question: string, memories: DraftMemory[], signal?: AbortSignal }) => AsyncIterable<DraftBullet>} draft
+ *   Yields STAR talking points as soon as each one is ready.
+ */
+
+/**
+ * Parses one "S|1,2|text" line of model output into a bullet.
+ * Memory numbers are 1-based positions in the memories passed to the model.
+ */
+export function parseDraftLine(line, memories) {
+  const match = line.trim().match(/^([STAR])\s*\|\s*([\d,\s]*)\|\s*(.+)$/i);
+  if (!match) return null;
+
+  const [, code, refs, text] = match;
+  const memoryIds = [...new Set(refs.split(',')
+    .map(ref => parseInt(ref, 10) - 1)
+    .filter(index => index >= 0 && index < memories.length)
+    .map(index => memories[index].id))];
+
+  return { section: SECTION_CODES[code.toUpperCase()], text: text.trim(), memoryIds };
+}
+
+/**
+ * Streams a STAR outline from Gemini, emitting each bullet once its line is complete.
+ * @param {import('@google/genai').GoogleGenAI} ai
+ * @returns {AnswerDrafter}
+ */
+export function createGeminiDrafter(ai, model = DEFAULT_DRAFT_MODEL) {
+  return {
+    name: 'gemini',
+    async *draft({ question, memories, signal }) {
+      const numbered = memories
+        .map((memory, index) => `[${index + 1}] (${memory.classification}) ${memory.description}`)
+        .join('\n');
+
+      const prompt = `An interviewer just asked the candidate: "${question}"
+
+The candidate's relevant memories:
+${numbered}
+
+Write short talking points (max 12 words each) the candidate can glance at while answering, in Situation/Task/Action/Result order, using only facts from the memories. Give 1-2 points per section.
+
+Output one point per line in exactly this format, with no other text:
+<S|T|A|R>|<comma-separated memory numbers used>|<talking point>
+
+Example:
+S|1|Legacy billing system was failing under peak load
+A|1,2|Led migration to event-driven architecture`;
+
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: { temperature: 0.2, abortSignal: signal },
+      });
+
+      let buffer = '';
+      for await (const chunk of stream) {
+        buffer += chunk.text ?? '';
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+        for (const line of lines) {
+          const bullet = parseDraftLine(line, memories);
+          if (bullet) yield bullet;
+        }
+      }
+      const last = parseDraftLine(buffer, memories);
+      if (last) yield last;
+    },
+  };
+}
+
+// Cue words used by the stub drafter to place sentences into STAR sections
+const STUB_CUES = {
+  result: /\b(result|resulting|reduced|increased|improved|saved|grew|cut|achieved|delivered|launched|shipped|\d+%|\$\d)/i,
+  action: /\b(i|we)\s+(led|built|designed|implemented|wrote|created|organized|introduced|migrated|refactored|negotiated|drove|ran)\b|\b(led|built|designed|implemented|migrated)\b/i,
+  task: /\b(goal|needed to|responsible|tasked|asked to|had to|objective|deadline)\b/i,
+};
+
+function splitSentences(text) {
+  return text.match(/[^.!?]+[.!?]*/g)?.map(s => s.trim()).filter(Boolean) ?? [];
+}
+
+function shorten(sentence, maxWords = 14) {
+  const words = sentence.replace(/[.!?]+$/, '').split(/\s+/);
+  return words.length > maxWords ? `${words.slice(0, maxWords).join(' ')}…` : words.join(' ');
+}
+
+/**
+ * Deterministic offline drafter: assigns memory sentences to STAR sections by cue words.
+ * Same input always yields the same outline, which makes the feature testable without Gemini.
+ * @returns {AnswerDrafter}
+ */
+export function createStubDrafter() {
+  return {
+    name: 'stub',
+    async *draft({ memories }) {
+      const sentences = memories.flatMap(memory =>
+        splitSentences(memory.description).map(text => ({ text, memoryId: memory.id }))
+      );
+
+      const used = new Set();
+      const take = (section) => {
+        const cue = STUB_CUES[section];
+        const index = sentences.findIndex((sentence, i) => !used.has(i) && (!cue || cue.test(sentence.text)));
+        if (index === -1) return null;
+        used.add(index);
+        return { section, text: shorten(sentences[index].text), memoryIds: [sentences[index].memoryId] };
+      };
+
+      // Pick the cued sentences first so "situation" gets whatever context is left over
+      const picked = { result: take('result'), action: take('action'), task: take('task') };
+      picked.situation = take('situation');
+
+      for (const section of STAR_SECTIONS) {
+        if (picked[section]) yield picked[section];
+      }
+    },
+  };
+}
+
+/**
+ * Selects the drafter: "stub" for the deterministic local drafter, anything else for Gemini.
+ * @returns {AnswerDrafter}
+ */
+export function createDrafter(name, ai, model) {
+  return name === 'stub' ? createStubDrafter() : createGeminiDrafter(ai, model);
+}
@@ -0,0 +1,733 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The HTTP API and the MCP tools, defined once. Routes validate requests against it
+// (`validateRequest`), GET /api/openapi.json serves it, and `npm run contract:generate`
+// turns it into the app's typed client and the agent tool configuration (see contract.mjs).
+// Schemas are a JSON Schema subset: type, enum, properties, required, additionalProperties,
+// items, anyOf, $ref to a component, and the min/max, length and `date-time` constraints.
+
+import { STAR_SECTIONS } from './answerDrafting.mjs';
+import { CONFIG_FIELDS } from './config.mjs';
+import { CATEGORIES } from './ingestion.mjs';
+import { JOB_ANALYZER_NAMES, MAX_JOB_DESCRIPTION_LENGTH } from './jobPrep.mjs';
+import { LANGUAGES } from './queryTranslation.mjs';
+import { MAX_DETECTION_TEXT_LENGTH } from './questionDetection.mjs';
+import { DEFAULT_LEXICAL_WEIGHT } from './retrieval.mjs';
+
+export const API_VERSION = '1.0.0';
+export const MAX_SEARCH_LIMIT = 20;
+export const OPENAPI_PATH = '/api/openapi.json';
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const string = (description, extra) => ({ type: 'string', ...extra, ...(description && { description }) });
+const integer = (description, extra) => ({ type: 'integer', ...extra, ...(description && { description }) });
+const number = (description, extra) => ({ type: 'number', ...extra, ...(description && { description }) });
+const boolean = (description, extra) => ({ type: 'boolean', ...extra, ...(description && { description }) });
+const arrayOf = (items, description, extra) => ({ type: 'array', items, ...extra, ...(description && { description }) });
+const object = (properties, required = [], description) => ({
+  type: 'object',
+  properties,
+  ...(required.length && { required }),
+  ...(description && { description }),
+});
+// A success response: the `{ success: true, ... }` envelope around `properties`
+const ok = (properties = {}, required = Object.keys(properties)) =>
+  object({ success: { type: 'boolean', enum: [true] }, ...properties }, ['success', ...required]);
+
+const MEMORY_PROPERTIES = {
+  id: string(),
+  classification: string('One of the categories from GET /api/memories/categories'),
+  description: string(),
+  sourceFile: string('The file it was first saved from'),
+  sourceFiles: arrayOf(string(), 'Every file it was saved from, once it has been saved again as a duplicate or merged'),
+  mergedFrom: arrayOf(string(), 'Ids of memories merged into this one'),
+  createdAt: string(),
+  updatedAt: string(),
+};
+const MEMORY_REQUIRED = ['id', 'classification', 'description', 'sourceFile', 'createdAt'];
+
+const SURFACED_MEMORY_PROPERTIES = {
+  id: string(),
+  classification: string(),
+  description: string(),
+  sourceFile: string(),
+  timesSurfaced: integer(),
+  bestScore: number(),
+};
+
+/**
+ * The public part of CONFIG_FIELDS as a schema, nested by key like `publicConfig` output.
+ */
+function serverConfigSchema() {
+  const root = object({}, [], 'The backend\'s non-secret configuration');
+  for (const field of CONFIG_FIELDS.filter(field => field.public && !field.secret)) {
+    const parts = field.key.split('.');
+    const name = parts.pop();
+    const parent = parts.reduce((node, part) => {
+      node.properties[part] ??= { type: 'object', properties: {} };
+      node.required = [...new Set([...(node.required ?? []), part])];
+      return node.properties[part];
+    }, root);
+
+    const range = { ...(field.min !== undefined && { minimum: field.min }), ...(field.max !== undefined && { maximum: field.max }) };
+    parent.properties[name] = {
+      integer: () => integer(field.description, range),
+      number: () => number(field.description, range),
+      enum: () => string(field.description, { enum: field.values }),
+      list: () => arrayOf(string(), field.description),
+    }[field.type]?.() ?? string(field.description);
+    parent.required = [...(parent.required ?? []), name];
+  }
+  return root;
+}
+
+/**
+ * Shared shapes, served as the OpenAPI document's components and generated as the app's types.
+ */
+export const COMPONENTS = {
+  Profile: object({ id: string(), name: string() }, ['id', 'name']),
+  Memory: object(MEMORY_PROPERTIES, MEMORY_REQUIRED),
+  ScoredMemory: object({ ...MEMORY_PROPERTIES, score: number('Similarity to the memory being saved, 0-1') }, [...MEMORY_REQUIRED, 'score'], 'A memory with its similarity to another'),
+  ScoreBreakdown: object({
+    semantic: number('Vector similarity, 0-1'),
+    lexical: number('Keyword match relative to the best keyword hit, 0-1'),
+    thread: number('Boost for memories already surfaced earlier in the conversation'),
+    focus: number('Boost for memories matching the job description\'s competencies'),
+  }, ['semantic', 'lexical']),
+  MemorySearchResult: object({
+    ...MEMORY_PROPERTIES,
+    score: number('Combined score, 0-1'),
+    scoreBreakdown: ref('ScoreBreakdown'),
+    duplicates: arrayOf(object({ id: string(), sourceFile: string() }, ['id', 'sourceFile']), 'Near-duplicates that ranked lower and were folded into this result'),
+  }, [...MEMORY_REQUIRED, 'score', 'scoreBreakdown']),
+  SearchFilters: object({
+    classification: { anyOf: [string(), arrayOf(string())], description: 'Only these classifications' },
+    sourceFile: string('Only memories from this source file'),
+    createdAfter: string('ISO date, inclusive', { format: 'date-time' }),
+    createdBefore: string('ISO date, inclusive', { format: 'date-time' }),
+  }, [], 'Metadata filters'),
+  ConversationContext: object({
+    turns: arrayOf(object({ speaker: string(undefined, { enum: ['interviewer', 'candidate'] }), text: string() }, ['speaker', 'text']), 'Recent turns, oldest first'),
+    memoryIds: arrayOf(string(), 'Memories surfaced earlier in the conversation, most recent first'),
+  }, [], 'The conversation so far; follow-up questions are rewritten into self-contained queries'),
+  Language: string('ISO 639-1 code of an interview language', { enum: Object.keys(LANGUAGES) }),
+  SourceFileSummary: object({ sourceFile: string(), count: integer() }, ['sourceFile', 'count']),
+  DuplicateCluster: object({
+    memories: arrayOf(ref('Memory')),
+    score: number('The weakest similarity within the cluster, 0-1'),
+  }, ['memories', 'score']),
+  IngestedMemory: object({ classification: string(), description: string(), contentHash: string() }, ['classification', 'description', 'contentHash']),
+  JobCompetency: object({
+    name: string(),
+    keywords: arrayOf(string()),
+    memoryIds: arrayOf(string(), 'Memories that match it; they get a ranking boost in live searches'),
+  }, ['name', 'keywords', 'memoryIds']),
+  PredictedQuestion: object({
+    text: string(),
+    competency: string(),
+    results: arrayOf(ref('MemorySearchResult')),
+  }, ['text', 'competency', 'results']),
+  DraftMemory: object({ id: string(), classification: string(), description: string(), sourceFile: string() }, ['id', 'classification', 'description']),
+  DraftBullet: object({
+    type: string(undefined, { enum: ['bullet'] }),
+    section: string(undefined, { enum: STAR_SECTIONS }),
+    text: string(),
+    memoryIds: arrayOf(string(), 'Memories this talking point came from'),
+  }, ['type', 'section', 'text', 'memoryIds']),
+  DraftAnswerEvent: {
+    anyOf: [
+      ref('DraftBullet'),
+      object({ type: string(undefined, { enum: ['done'] }), drafter: string() }, ['type', 'drafter']),
+      object({ type: string(undefined, { enum: ['error'] }), error: string() }, ['type', 'error']),
+    ],
+    description: 'One line of the answer draft stream',
+  },
+  TalkTime: object({ interviewer: number(), candidate: number() }, ['interviewer', 'candidate'], 'Milliseconds of speech per speaker'),
+  SessionQuestion: object({
+    text: string(),
+    startMs: number(),
+    categories: arrayOf(string(), 'Classifications of the surfaced memories, best match first'),
+    topScore: { type: ['number', 'null'], description: 'Best memory score, or null when nothing was surfaced' },
+    memoryIds: arrayOf(string()),
+    isGap: boolean('Nothing in the vault cleared the session\'s minimum match'),
+  }, ['text', 'startMs', 'categories', 'topScore', 'memoryIds', 'isGap']),
+  SurfacedMemory: object(SURFACED_MEMORY_PROPERTIES, Object.keys(SURFACED_MEMORY_PROPERTIES)),
+  SessionReport: object({
+    startedAt: string('ISO timestamp', { format: 'date-time' }),
+    source: string(),
+    minThreshold: number(),
+    durationMs: number(),
+    questions: arrayOf(ref('SessionQuestion'), undefined, { maxItems: 500 }),
+    surfacedMemories: arrayOf(ref('SurfacedMemory'), 'Most surfaced first'),
+    talkTimeMs: ref('TalkTime'),
+  }, ['startedAt', 'source', 'minThreshold', 'durationMs', 'questions', 'surfacedMemories', 'talkTimeMs'], 'What a session asked and what the vault had for it'),
+  SessionSummary: object({
+    id: string(),
+    startedAt: string(),
+    source: string(),
+    durationMs: number(),
+    questionCount: integer(),
+    gapCount: integer(),
+  }, ['id', 'startedAt', 'source', 'durationMs', 'questionCount', 'gapCount']),
+  SessionAnalytics: object({
+    sessionCount: integer(),
+    questionCount: integer(),
+    gapCount: integer(),
+    topMemories: arrayOf(object({ ...SURFACED_MEMORY_PROPERTIES, sessions: integer() }, [...Object.keys(SURFACED_MEMORY_PROPERTIES), 'sessions'])),
+    recurringGaps: arrayOf(object({ text: string(), count: integer(), lastAskedAt: string() }, ['text', 'count', 'lastAskedAt'])),
+    categoryCounts: { type: 'object', additionalProperties: integer() },
+    talkTimeMs: ref('TalkTime'),
+  }, ['sessionCount', 'questionCount', 'gapCount', 'topMemories', 'recurringGaps', 'categoryCounts', 'talkTimeMs'], 'Aggregates across a profile\'s saved sessions'),
+  ServerConfig: serverConfigSchema(),
+  ErrorResponse: object({
+    success: { type: 'boolean', enum: [false] },
+    error: string(),
+    details: string(),
+  }, ['success', 'error']),
+};
+
+const searchMemoryBody = object({
+  query: string('The question or keywords to search for', { minLength: 1 }),
+  limit: integer(`Number of results to return, 1-${MAX_SEARCH_LIMIT} (default: 5)`, { minimum: 1, maximum: MAX_SEARCH_LIMIT, default: 5 }),
+  filters: ref('SearchFilters'),
+  lexicalWeight: number(`Weight of exact keyword matching vs. semantic similarity, 0-1 (default: ${DEFAULT_LEXICAL_WEIGHT})`, { minimum: 0, maximum: 1 }),
+  numCandidates: integer('Vector search candidates (default: 50)', { minimum: 1 }),
+  context: ref('ConversationContext'),
+  diversify: boolean('Fold near-duplicates into one result (default: true)'),
+  focusIds: arrayOf(string(), 'Memories to favour in the ranking, e.g. those matching the job description'),
+  language: { ...ref('Language'), description: 'The language the question was asked in; it is translated if the vault is in another one' },
+}, ['query']);
+
+const documentFields = {
+  fileName: string('Stored as the memories\' source file', { minLength: 1 }),
+  content: string('UTF-8 text, or base64 when `encoding` is "base64" (e.g. PDFs)'),
+  encoding: string(undefined, { enum: ['utf8', 'base64'] }),
+};
+
+const memoryFields = {
+  classification: string(undefined, { minLength: 1 }),
+  description: string(undefined, { minLength: 1 }),
+  sourceFile: string(undefined, { minLength: 1 }),
+};
+
+const duplicateThreshold = number('Similarity, 0.5-1; lower finds looser matches (default: the configured duplicate threshold)', { minimum: 0.5, maximum: 1 });
+
+/**
+ * @typedef {object} Endpoint
+ * @property {string} id Names the client method and the OpenAPI operation.
+ * @property {'GET'|'POST'|'PATCH'|'DELETE'} method
+ * @property {string} path With path parameters in braces, e.g. `/api/memories/{id}`.
+ * @property {string} summary
+ * @property {boolean} [auth] False for endpoints that need no profile token.
+ * @property {boolean} [notFound] Responds 404 when the memory does not exist.
+ * @property {object} [query] Object schema of the query string.
+ * @property {object} [body] Schema of the JSON body.
+ * @property {object} response Schema of the JSON response, or of each line when `stream` is set.
+ * @property {'ndjson'} [stream]
+ */
+
+/** @type {Endpoint[]} */
+export const ENDPOINTS = [
+  {
+    id: 'getConfig', method: 'GET', path: '/api/config', auth: false,
+    summary: 'Non-secret settings and the app\'s default settings',
+    response: ok({ config: ref('ServerConfig') }),
+  },
+  {
+    id: 'getProfile', method: 'GET', path: '/api/profile',
+    summary: 'The profile the token belongs to',
+    response: ok({ profile: ref('Profile') }),
+  },
+  {
+    id: 'saveMemory', method: 'POST', path: '/api/save-memory',
+    summary: 'Save a memory, unless a near-duplicate is already in the vault',
+    body: object({
+      memory: object({ classification: memoryFields.classification, description: memoryFields.description }, ['classification', 'description']),
+      sourceFile: memoryFields.sourceFile,
+      allowDuplicate: boolean('Save even if a near-duplicate exists'),
+    }, ['memory', 'sourceFile']),
+    response: ok({
+      id: string('The new memory, or the near-duplicate when nothing was saved'),
+      inserted: boolean('False when a near-duplicate was already in the vault'),
+      duplicate: ref('ScoredMemory'),
+    }, ['id', 'inserted']),
+  },
+  {
+    id: 'searchMemory', method: 'POST', path: '/api/search-memory',
+    summary: 'Hybrid vector + keyword search, with follow-up rewriting and translation',
+    body: searchMemoryBody,
+    response: ok({
+      results: arrayOf(ref('MemorySearchResult')),
+      query: string('The query that was actually searched'),
+      rewritten: boolean('A follow-up was rewritten using the conversation context'),
+      translated: boolean('The question was translated into the vault\'s language'),
+      language: { ...ref('Language'), description: 'The language the question was translated from' },
+    }, ['results', 'query', 'rewritten', 'translated']),
+  },
+  {
+    id: 'listMemories', method: 'GET', path: '/api/memories',
+    summary: 'Paginated listing, newest first',
+    query: object({
+      page: integer(undefined, { minimum: 1 }),
+      pageSize: integer('Clamped to the maximum page size', { minimum: 1 }),
+      classification: string('Comma-separated classifications'),
+      sourceFile: string(),
+    }),
+    response: ok({ memories: arrayOf(ref('Memory')), total: integer(), page: integer(), pageSize: integer() }),
+  },
+  {
+    id: 'listSources', method: 'GET', path: '/api/memories/sources',
+    summary: 'Distinct source files with memory counts',
+    response: ok({ sources: arrayOf(ref('SourceFileSummary')) }),
+  },
+  {
+    id: 'getCategories', method: 'GET', path: '/api/memories/categories',
+    summary: 'The classification taxonomy from primitives.json',
+    response: ok({ categories: { type: 'object', additionalProperties: string(), description: 'Category name → description' } }),
+  },
+  {
+    id: 'findDuplicates', method: 'GET', path: '/api/memories/duplicates',
+    summary: 'Clusters of near-duplicate memories, largest first',
+    query: object({ threshold: duplicateThreshold }),
+    response: ok({ clusters: arrayOf(ref('DuplicateCluster')), threshold: number() }),
+  },
+  {
+    id: 'mergeMemories', method: 'POST', path: '/api/memories/merge', notFound: true,
+    summary: 'Merge memories into one, keeping every source file, and re-embed it',
+    body: object({
+      ids: arrayOf(string(), 'At least two memory ids', { minItems: 2 }),
+      keepId: string('The memory to keep (default: the longest)'),
+      description: string('Replaces the combined description', { minLength: 1 }),
+      classification: memoryFields.classification,
+    }, ['ids']),
+    response: ok({ memory: ref('Memory'), deletedIds: arrayOf(string()) }),
+  },
+  {
+    id: 'getMemory', method: 'GET', path: '/api/memories/{id}', notFound: true,
+    summary: 'One memory',
+    response: ok({ memory: ref('Memory') }),
+  },
+  {
+    id: 'updateMemory', method: 'PATCH', path: '/api/memories/{id}', notFound: true,
+    summary: 'Partial update; re-embeds when the embedded text changes',
+    body: object(memoryFields),
+    response: ok({ memory: ref('Memory'), reembedded: boolean() }),
+  },
+  {
+    id: 'deleteMemory', method: 'DELETE', path: '/api/memories/{id}', notFound: true,
+    summary: 'Delete a memory',
+    response: ok({ deletedCount: integer() }),
+  },
+  {
+    id: 'bulkDeleteMemories', method: 'POST', path: '/api/memories/bulk-delete',
+    summary: 'Delete memories by id',
+    body: object({ ids: arrayOf(string(), undefined, { minItems: 1 }) }, ['ids']),
+    response: ok({ deletedCount: integer() }),
+  },
+  {
+    id: 'deleteMemoriesBySource', method: 'DELETE', path: '/api/memories',
+    summary: 'Delete everything that came from one source file',
+    query: object({ sourceFile: string(undefined, { minLength: 1 }) }, ['sourceFile']),
+    response: ok({ deletedCount: integer() }),
+  },
+  {
+    id: 'reembedMemory', method: 'POST', path: '/api/memories/{id}/re-embed', notFound: true,
+    summary: 'Force a re-embed, e.g. after editing documents directly in Atlas',
+    response: ok(),
+  },
+  {
+    id: 'saveSession', method: 'POST', path: '/api/sessions',
+    summary: 'Store the report the app builds when a session ends',
+    body: ref('SessionReport'),
+    response: ok({ id: string() }),
+  },
+  {
+    id: 'listSessions', method: 'GET', path: '/api/sessions',
+    summary: 'The profile\'s saved sessions, newest first',
+    response: ok({ sessions: arrayOf(ref('SessionSummary')) }),
+  },
+  {
+    id: 'getSessionAnalytics', method: 'GET', path: '/api/sessions/analytics',
+    summary: 'Aggregates across the most recent sessions',
+    query: object({ sessions: integer('How many of the most recent sessions to aggregate (default: 50)', { minimum: 1 }) }),
+    response: ok({ analytics: ref('SessionAnalytics') }),
+  },
+  {
+    id: 'ingest', method: 'POST', path: '/api/ingest',
+    summary: 'Split a document into classified memories, replacing those from an earlier version',
+    body: object({
+      ...documentFields,
+      dryRun: boolean('Classify and report without writing or embedding'),
+      classifier: string(undefined, { enum: ['gemini', 'heuristic'] }),
+    }, ['fileName', 'content']),
+    response: ok({
+      sourceFile: string(),
+      dryRun: boolean(),
+      unchanged: boolean('The document matches what is stored; nothing was written'),
+      removed: integer(),
+      inserted: integer(),
+      memories: arrayOf(ref('IngestedMemory')),
+    }),
+  },
+  {
+    id: 'jobPrep', method: 'POST', path: '/api/job-prep',
+    summary: 'Competencies, likely questions and the memories that answer them, from a job description',
+    body: object({
+      text: string('The job description; or send a file as `fileName` and `content`', { maxLength: MAX_JOB_DESCRIPTION_LENGTH }),
+      ...documentFields,
+      limit: integer('Memories per question (default: 3)', { minimum: 1, maximum: 10 }),
+      analyzer: string(undefined, { enum: JOB_ANALYZER_NAMES }),
+    }),
+    response: ok({
+      title: string(),
+      analyzer: string(),
+      competencies: arrayOf(ref('JobCompetency')),
+      questions: arrayOf(ref('PredictedQuestion')),
+      focusIds: arrayOf(string(), 'Every competency\'s memories, to send with searches as `focusIds`'),
+    }),
+  },
+  {
+    id: 'detectQuestion', method: 'POST', path: '/api/detect-question',
+    summary: 'Ask the LLM detector whether a transcript sentence is an interview question',
+    body: object({
+      text: string('One transcript sentence', { minLength: 1, maxLength: MAX_DETECTION_TEXT_LENGTH }),
+      language: { ...ref('Language'), description: 'Selects the keyword pack used if Gemini is unavailable (default: en)' },
+      model: string('Gemini model to ask (default: the server\'s `models.detection`)', { minLength: 1 }),
+    }, ['text']),
+    response: ok({ isQuestion: boolean(), reason: string('Why, e.g. "LLM" or the keyword matched when Gemini was unavailable') }),
+  },
+  {
+    id: 'draftAnswer', method: 'POST', path: '/api/draft-answer', stream: 'ndjson',
+    summary: 'Stream a STAR talking-points outline for a question',
+    body: object({
+      question: string(undefined, { minLength: 1 }),
+      memories: arrayOf(ref('DraftMemory'), 'The memories surfaced for it; bullets cite these by id', { minItems: 1 }),
+      drafter: string(undefined, { enum: ['gemini', 'stub'] }),
+    }, ['question', 'memories']),
+    response: ref('DraftAnswerEvent'),
+  },
+];
+
+const categoryName = string('One of the categories in the oncue://categories resource', { enum: Object.keys(CATEGORIES) });
+
+/**
+ * Input schemas of the MCP server's tools. They reuse the HTTP shapes, with classifications
+ * restricted to the taxonomy so agents pick valid ones.
+ */
+export const MCP_TOOL_SCHEMAS = {
+  vector_search: object({
+    query: searchMemoryBody.properties.query,
+    limit: searchMemoryBody.properties.limit,
+    filters: {
+      ...COMPONENTS.SearchFilters,
+      properties: { ...COMPONENTS.SearchFilters.properties, classification: arrayOf(categoryName, 'Only these classifications') },
+    },
+    lexicalWeight: searchMemoryBody.properties.lexicalWeight,
+  }, ['query']),
+  list_memories: object({
+    classification: arrayOf(categoryName, 'Only these classifications'),
+    sourceFile: string(),
+    page: integer(undefined, { minimum: 1, default: 1 }),
+    pageSize: integer('Clamped to the maximum page size', { minimum: 1 }),
+  }),
+  save_memory: object({
+    classification: categoryName,
+    description: string('The memory itself, written so it stands on its own', { minLength: 1 }),
+    sourceFile: string('Where it came from, e.g. a document name or "conversation"', { minLength: 1 }),
+    allowDuplicate: boolean('Save even if a near-duplicate exists', { default: false }),
+  }, ['classification', 'description', 'sourceFile']),
+  find_duplicates: object({ threshold: duplicateThreshold }),
+  merge_memories: object({
+    ...getEndpoint('mergeMemories').body.properties,
+    classification: categoryName,
+  }, ['ids']),
+  update_memory: object({
+    id: string(),
+    classification: categoryName,
+    description: memoryFields.description,
+    sourceFile: memoryFields.sourceFile,
+  }, ['id']),
+  delete_memory: object({ id: string() }, ['id']),
+};
+
+/**
+ * @returns {Endpoint}
+ */
+export function getEndpoint(id) {
+  const endpoint = ENDPOINTS.find(endpoint => endpoint.id === id);
+  if (!endpoint) throw new Error(`Unknown API endpoint "${id}"`);
+  return endpoint;
+}
+
+/**
+ * The endpoint's path in Express form, e.g. `/api/memories/:id`.
+ */
+export function expressPath(endpoint) {
+  return endpoint.path.replace(/\{(\w+)\}/g, ':$1');
+}
+
+/**
+ * Names of the endpoint's path parameters, in order.
+ */
+export function pathParameters(endpoint) {
+  return [...endpoint.path.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+function resolve(schema) {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.split('/').pop();
+  if (!COMPONENTS[name]) throw new Error(`Unknown schema component "${name}"`);
+  return COMPONENTS[name];
+}
+
+/**
+ * A copy of `schema` with every $ref replaced by its component, for consumers that need
+ * self-contained schemas (MCP clients, agent tool configs).
+ */
+export function inlineSchema(schema) {
+  if (Array.isArray(schema)) return schema.map(inlineSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const { $ref, ...rest } = schema;
+  const base = $ref ? inlineSchema(resolve(schema)) : {};
+  const inlined = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, key === 'enum' ? value : inlineSchema(value)]));
+  return { ...base, ...inlined };
+}
+
+/**
+ * A tool's self-contained input schema.
+ */
+export function mcpToolSchema(name) {
+  if (!MCP_TOOL_SCHEMAS[name]) throw new Error(`Unknown MCP tool "${name}"`);
+  return inlineSchema(MCP_TOOL_SCHEMAS[name]);
+}
+
+const TYPE_CHECKS = {
+  string: (value) => typeof value === 'string',
+  integer: (value) => Number.isInteger(value),
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  boolean: (value) => typeof value === 'boolean',
+  array: (value) => Array.isArray(value),
+  object: (value) => value !== null && typeof value === 'object' && !Array.isArray(value),
+  null: (value) => value === null,
+};
+const TYPE_NAMES = {
+  string: 'a string',
+  integer: 'an integer',
+  number: 'a number',
+  boolean: 'a boolean',
+  array: 'an array',
+  object: 'an object',
+  null: 'null',
+};
+
+function rangeError(label, minimum, maximum) {
+  if (minimum !== undefined && maximum !== undefined) return `${label} must be between ${minimum} and ${maximum}`;
+  return minimum !== undefined ? `${label} must be at least ${minimum}` : `${label} must be at most ${maximum}`;
+}
+
+function checkValue(schema, value, path, errors) {
+  schema = resolve(schema);
+  const label = path ? `"${path}"` : 'The value';
+
+  if (schema.anyOf) {
+    const attempts = schema.anyOf.map(option => validate(option, value, path));
+    // Report the closest match's problems
+    if (attempts.every(attempt => attempt.length > 0)) {
+      errors.push(...attempts.reduce((best, attempt) => (attempt.length < best.length ? attempt : best)));
+    }
+    return;
+  }
+
+  const types = schema.type === undefined ? [] : [].concat(schema.type);
+  if (types.length && !types.some(type => TYPE_CHECKS[type](value))) {
+    errors.push(`${label} must be ${types.map(type => TYPE_NAMES[type]).join(' or ')}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label} must be one of: ${schema.enum.join(', ')}`);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+      errors.push(rangeError(label, schema.minimum, schema.maximum));
+    }
+  } else if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(schema.minLength === 1 ? `${label} must not be empty` : `${label} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${label} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.format === 'date-time' && Number.isNaN(new Date(value).getTime())) {
+      errors.push(`${label} must be an ISO date string`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${label} must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${label} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => checkValue(schema.items, item, `${path}[${index}]`, errors));
+    }
+  } else if (TYPE_CHECKS.object(value)) {
+    const child = (key) => (path ? `${path}.${key}` : key);
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) errors.push(`"${child(key)}" is required`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const itemSchema = schema.properties?.[key] ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : null);
+      if (itemSchema && item !== undefined) checkValue(itemSchema, item, child(key), errors);
+    }
+  }
+}
+
+/**
+ * Checks a value against a contract schema. Properties the schema doesn't name are allowed.
+ * @param {object} schema
+ * @param {*} value
+ * @param {string} [path] Where the value sits, for the messages (e.g. "filters").
+ * @returns {string[]} One message per problem; empty when the value is valid.
+ */
+export function validate(schema, value, path = '') {
+  const errors = [];
+  checkValue(schema, value, path, errors);
+  return errors;
+}
+
+/**
+ * Query string values arrive as strings; converts those the schema declares as numbers
+ * or booleans, leaving anything unparseable for `validate` to report.
+ */
+export function coerceQuery(schema, query) {
+  const coerced = { ...query };
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const value = coerced[key];
+    if (typeof value !== 'string') continue;
+    if ((property.type === 'integer' || property.type === 'number') && value.trim() && !Number.isNaN(Number(value))) {
+      coerced[key] = Number(value);
+    } else if (property.type === 'boolean' && (value === 'true' || value === 'false')) {
+      coerced[key] = value === 'true';
+    }
+  }
+  return coerced;
+}
+
+/**
+ * Express middleware that rejects requests not matching the endpoint's query and body schemas
+ * with a 400. Route handlers still apply their own defaults and clamping.
+ * @param {string} id An endpoint id from ENDPOINTS.
+ */
+export function validateRequest(id) {
+  const endpoint = getEndpoint(id);
+
+  return (req, res, next) => {
+    const errors = [
+      ...(endpoint.query ? validate(endpoint.query, coerceQuery(endpoint.query, req.query)) : []),
+      ...(endpoint.body ? validate(endpoint.body, req.body ?? {}) : []),
+    ];
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, error: errors.join('; ') });
+    }
+    next();
+  };
+}
+
+/**
+ * The API as an OpenAPI 3.1 document.
+ * @param {object} [options]
+ * @param {string} [options.serverUrl] The backend's base URL, listed as its server.
+ */
+export function buildOpenApiDocument({ serverUrl } = {}) {
+  const errorResponse = (description) => ({ description, content: { 'application/json': { schema: ref('ErrorResponse') } } });
+  const paths = {};
+
+  for (const endpoint of ENDPOINTS) {
+    const parameters = [
+      ...pathParameters(endpoint).map(name => ({ name, in: 'path', required: true, schema: string() })),
+      ...Object.entries(endpoint.query?.properties ?? {}).map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: endpoint.query.required?.includes(name) ?? false,
+        schema,
+      })),
+    ];
+
+    paths[endpoint.path] ??= {};
+    paths[endpoint.path][endpoint.method.toLowerCase()] = {
+      operationId: endpoint.id,
+      summary: endpoint.summary,
+      ...(endpoint.auth === false && { security: [] }),
+      ...(parameters.length && { parameters }),
+      ...(endpoint.body && { requestBody: { required: true, content: { 'application/json': { schema: endpoint.body } } } }),
+      responses: {
+        200: {
+          description: endpoint.stream ? 'Newline-delimited JSON, one event per line' : 'Success',
+          content: { [endpoint.stream ? 'application/x-ndjson' : 'application/json']: { schema: endpoint.response } },
+        },
+        ...((endpoint.body || endpoint.query) && { 400: errorResponse('Invalid request') }),
+        ...(endpoint.auth !== false && { 401: errorResponse('Missing or invalid API token') }),
+        ...(endpoint.notFound && { 404: errorResponse('Memory not found') }),
+        500: errorResponse('Internal error'),
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'OnCue API',
+      version: API_VERSION,
+      description: 'Memory vault, search and interview endpoints. Every response is a `{ success, ... }` envelope, except streams.',
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas: COMPONENTS,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'A profile\'s API token, issued with `npm run admin -- token issue <profile>`' },
+      },
+    },
+  };
+}
+
+/**
+ * The function-calling configuration for agents that search the vault over HTTP. The tool
+ * shares the MCP server's name and input schema.
+ * @param {object} [options]
+ * @param {string} [options.serverUrl]
+ */
+export function buildAgentToolConfig({ serverUrl = `http://localhost:${CONFIG_FIELDS.find(field => field.key === 'port').default}` } = {}) {
+  const endpoint = getEndpoint('searchMemory');
+  return {
+    name: 'OnCue Memory Search Agent',
+    description: 'Agent that can search the memories in an OnCue vault',
+    model: 'gpt-4',
+    tool_configurations: {
+      vector_search: {
+        type: 'function',
+        function: {
+          name: 'vector_search',
+          description: 'Search the vault\'s stored memories using hybrid vector + keyword search. Returns the most relevant memories with their classification, description, source file and a semantic/lexical score breakdown.',
+          parameters: mcpToolSchema('vector_search'),
+          api_endpoint: {
+            url: `${serverUrl}${endpoint.path}`,
+            method: endpoint.method,
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: 'Bearer <ONCUE_API_TOKEN>',
+            },
+          },
+        },
+      },
+    },
+  };
+}
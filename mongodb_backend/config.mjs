@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { DEFAULT_DRAFT_MODEL } from './answerDrafting.mjs';
+import { DEFAULT_DUPLICATE_THRESHOLD } from './dedupe.mjs';
+import { DEFAULT_EMBEDDING_MODEL } from './embeddings.mjs';
+import { DEFAULT_CLASSIFIER_MODEL } from './ingestion.mjs';
+import { DEFAULT_JOB_ANALYSIS_MODEL, JOB_ANALYZER_NAMES } from './jobPrep.mjs';
+import { DEFAULT_REWRITE_MODEL } from './queryRewriting.mjs';
+import { DEFAULT_TRANSLATION_MODEL, LANGUAGES } from './queryTranslation.mjs';
+import { DEFAULT_DETECTION_MODEL, DETECTOR_NAMES } from './questionDetection.mjs';
+
+// Read when ONCUE_CONFIG is not set; optional
+const DEFAULT_CONFIG_FILE = new URL('./oncue.config.json', import.meta.url).pathname;
+const dataPath = (name) => new URL(`./data/${name}`, import.meta.url).pathname;
+
+/**
+ * @typedef {object} ConfigField
+ * @property {string} key Dotted path in the loaded config, and in the config file.
+ * @property {string} env Environment variable that overrides the file.
+ * @property {'string'|'integer'|'number'|'enum'|'list'} type
+ * @property {*} default A value, or a function of the config resolved so far.
+ * @property {number} [min]
+ * @property {number} [max]
+ * @property {string[]} [values] Allowed values for enums.
+ * @property {boolean} [public] Served by GET /api/config.
+ * @property {boolean} [secret] Never logged or served.
+ * @property {string} description
+ */
+
+/** @type {ConfigField[]} */
+export const CONFIG_FIELDS = [
+  { key: 'port', env: 'PORT', type: 'integer', default: 5001, min: 1, max: 65535, public: true, description: 'Port the API and live channel listen on' },
+  { key: 'corsOrigins', env: 'CORS_ORIGINS', type: 'list', default: ['http://localhost:3000'], description: 'Browser origins allowed to call the API' },
+  { key: 'geminiApiKey', env: 'GEMINI_API_KEY', type: 'string', default: '', secret: true, description: 'Gemini API key' },
+
+  { key: 'storage.mongoUri', env: 'MONGO_DB_URI', type: 'string', default: '', secret: true, description: 'MongoDB Atlas connection string' },
+  { key: 'storage.driver', env: 'STORAGE_DRIVER', type: 'enum', values: ['atlas', 'local'], default: (config) => (config.storage.mongoUri ? 'atlas' : 'local'), public: true, description: 'Memory and session store' },
+  { key: 'storage.dbName', env: 'MONGO_DB_NAME', type: 'string', default: 'context', description: 'Atlas database' },
+  { key: 'storage.collection', env: 'MONGO_COLLECTION', type: 'string', default: 'test1', description: 'Atlas collection holding memories' },
+  { key: 'storage.sessionsCollection', env: 'MONGO_SESSIONS_COLLECTION', type: 'string', default: 'sessions', description: 'Atlas collection holding session reports' },
+  { key: 'storage.vectorIndex', env: 'MONGO_VECTOR_INDEX', type: 'string', default: 'vector_index', description: 'Atlas Vector Search index on `embedding`' },
+  { key: 'storage.textIndex', env: 'MONGO_TEXT_INDEX', type: 'string', default: 'text_index', description: 'Atlas Search index on `description`' },
+  { key: 'storage.localPath', env: 'LOCAL_STORE_PATH', type: 'string', default: dataPath('memories.json'), description: 'Memory file for the local driver' },
+  { key: 'storage.sessionsPath', env: 'SESSIONS_STORE_PATH', type: 'string', default: dataPath('sessions.json'), description: 'Session report file for the local driver' },
+  { key: 'profilesPath', env: 'PROFILES_PATH', type: 'string', default: dataPath('profiles.json'), description: 'Profiles and hashed API tokens' },
+
+  { key: 'privacy.redaction', env: 'REDACTION', type: 'enum', values: ['on', 'off'], default: 'on', public: true, description: 'Replaces emails, phone numbers, person names and deny-listed terms with placeholders in everything sent to Gemini. Embeddings are computed from the redacted text, so vector search cannot tell one person (or deny-listed term) from another; keyword search still can' },
+  { key: 'privacy.denyList', env: 'REDACTION_DENY_LIST', type: 'list', default: [], secret: true, description: 'Extra terms to redact, e.g. former colleagues or internal project names' },
+  { key: 'privacy.encryption', env: 'ENCRYPTION', type: 'enum', values: ['off', 'aes-256-gcm'], default: 'off', public: true, description: 'Encrypts memory descriptions at rest with the local key' },
+  { key: 'privacy.keyPath', env: 'ENCRYPTION_KEY_PATH', type: 'string', default: dataPath('vault.key'), description: 'Encryption key, created with `npm run admin -- key create`' },
+
+  { key: 'embeddings.model', env: 'EMBEDDING_MODEL', type: 'string', default: DEFAULT_EMBEDDING_MODEL, public: true, description: 'Embedding model' },
+  { key: 'embeddings.duplicateThreshold', env: 'DUPLICATE_THRESHOLD', type: 'number', default: DEFAULT_DUPLICATE_THRESHOLD, min: 0.5, max: 1, public: true, description: 'Similarity above which memories count as near-duplicates, on save and in search results' },
+  { key: 'embeddings.cachePath', env: 'EMBEDDING_CACHE_PATH', type: 'string', default: dataPath('embedding-cache.jsonl'), description: 'Persistent embedding cache; "off" disables it' },
+
+  { key: 'models.classifier', env: 'CLASSIFIER_MODEL', type: 'string', default: DEFAULT_CLASSIFIER_MODEL, public: true, description: 'Model classifying ingested chunks' },
+  { key: 'models.detection', env: 'DETECTION_MODEL', type: 'string', default: DEFAULT_DETECTION_MODEL, public: true, description: 'Model behind the "llm" and "combined" detectors' },
+  { key: 'models.draft', env: 'DRAFT_MODEL', type: 'string', default: DEFAULT_DRAFT_MODEL, public: true, description: 'Model drafting answer outlines' },
+  { key: 'models.rewrite', env: 'REWRITE_MODEL', type: 'string', default: DEFAULT_REWRITE_MODEL, public: true, description: 'Model rewriting follow-up questions' },
+  { key: 'models.jobAnalysis', env: 'JOB_ANALYSIS_MODEL', type: 'string', default: DEFAULT_JOB_ANALYSIS_MODEL, public: true, description: 'Model extracting competencies and questions from job descriptions' },
+  { key: 'models.translation', env: 'TRANSLATION_MODEL', type: 'string', default: DEFAULT_TRANSLATION_MODEL, public: true, description: 'Model translating questions into the vault\'s language' },
+  { key: 'answerDrafter', env: 'ANSWER_DRAFTER', type: 'enum', values: ['gemini', 'stub'], default: 'gemini', public: true, description: '"stub" drafts deterministically without Gemini' },
+  { key: 'queryRewriter', env: 'QUERY_REWRITER', type: 'enum', values: ['gemini', 'heuristic', 'off'], default: 'gemini', public: true, description: '"heuristic" rewrites follow-ups without Gemini, "off" disables rewriting' },
+  { key: 'jobAnalyzer', env: 'JOB_ANALYZER', type: 'enum', values: JOB_ANALYZER_NAMES, default: 'gemini', public: true, description: '"heuristic" analyzes job descriptions without Gemini' },
+  { key: 'queryTranslator', env: 'QUERY_TRANSLATOR', type: 'enum', values: ['gemini', 'off'], default: 'gemini', public: true, description: '"off" searches questions in their own language, e.g. with a multilingual embedding model' },
+  { key: 'vaultLanguage', env: 'VAULT_LANGUAGE', type: 'enum', values: Object.keys(LANGUAGES), default: 'en', public: true, description: 'Language the memories are written in; questions in other languages are translated into it' },
+
+  // Defaults for the app's settings panel; each user can override them
+  { key: 'client.detector', env: 'CLIENT_DETECTOR', type: 'enum', values: DETECTOR_NAMES, default: 'keyword', public: true, description: 'Default detection mode' },
+  { key: 'client.language', env: 'CLIENT_LANGUAGE', type: 'enum', values: Object.keys(LANGUAGES), default: 'en', public: true, description: 'Default interview language' },
+  { key: 'client.minThreshold', env: 'CLIENT_MIN_THRESHOLD', type: 'number', default: 0.5, min: 0, max: 1, public: true, description: 'Default minimum match score' },
+  { key: 'client.maxResults', env: 'CLIENT_MAX_RESULTS', type: 'integer', default: 3, min: 1, max: 20, public: true, description: 'Default results per question' },
+];
+
+function getPath(object, key) {
+  return key.split('.').reduce((value, part) => value?.[part], object);
+}
+
+function setPath(object, key, value) {
+  const parts = key.split('.');
+  const last = parts.pop();
+  const parent = parts.reduce((node, part) => (node[part] ??= {}), object);
+  parent[last] = value;
+}
+
+/**
+ * Coerces a value from the environment (always a string) or the config file.
+ * @returns {{ value?: *, error?: string }}
+ */
+function parseField(field, raw) {
+  switch (field.type) {
+    case 'integer':
+    case 'number': {
+      const value = typeof raw === 'string' && raw.trim() ? Number(raw) : raw;
+      if (typeof value !== 'number' || Number.isNaN(value) || (field.type === 'integer' && !Number.isInteger(value))) {
+        return { error: `must be ${field.type === 'integer' ? 'an integer' : 'a number'}` };
+      }
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        return { error: `must be between ${field.min} and ${field.max}` };
+      }
+      return { value };
+    }
+    case 'enum':
+      return field.values.includes(raw) ? { value: raw } : { error: `must be one of: ${field.values.join(', ')}` };
+    case 'list': {
+      const list = typeof raw === 'string' ? raw.split(',') : raw;
+      if (!Array.isArray(list) || !list.every(item => typeof item === 'string')) {
+        return { error: 'must be a comma-separated string or an array of strings' };
+      }
+      return { value: list.map(item => item.trim()).filter(Boolean) };
+    }
+    default:
+      return typeof raw === 'string' ? { value: raw } : { error: 'must be a string' };
+  }
+}
+
+function readConfigFile(filePath) {
+  try {
+    const content = JSON.parse(readFileSync(filePath, 'utf8'));
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      throw new Error('expected a JSON object');
+    }
+    return content;
+  } catch (error) {
+    throw new Error(`Invalid configuration file ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Loads the configuration: built-in defaults, overridden by the JSON config file
+ * (ONCUE_CONFIG, else oncue.config.json next to this module if present), overridden
+ * by environment variables. Every field is validated; all problems are reported at once.
+ * @param {object} [options]
+ * @param {Record<string, string | undefined>} [options.env]
+ * @param {string} [options.filePath] Overrides ONCUE_CONFIG.
+ * @returns {object} The config, nested by field key (e.g. `config.storage.dbName`).
+ */
+export function loadConfig({ env = process.env, filePath } = {}) {
+  const configFile = filePath ?? env.ONCUE_CONFIG;
+  const file = configFile
+    ? readConfigFile(configFile)
+    : existsSync(DEFAULT_CONFIG_FILE) ? readConfigFile(DEFAULT_CONFIG_FILE) : {};
+
+  const config = {};
+  const errors = [];
+  // Fields are in dependency order, so computed defaults can read earlier ones
+  for (const field of CONFIG_FIELDS) {
+    const fromEnv = env[field.env];
+    const fromFile = getPath(file, field.key);
+    const raw = fromEnv !== undefined && fromEnv !== '' ? fromEnv : fromFile;
+
+    if (raw === undefined) {
+      setPath(config, field.key, typeof field.default === 'function' ? field.default(config) : field.default);
+      continue;
+    }
+
+    const { value, error } = parseField(field, raw);
+    if (error) {
+      const source = raw === fromEnv ? field.env : `"${field.key}" in ${configFile ?? DEFAULT_CONFIG_FILE}`;
+      errors.push(`${source} ${error}`);
+      setPath(config, field.key, typeof field.default === 'function' ? field.default(config) : field.default);
+    } else {
+      setPath(config, field.key, value);
+    }
+  }
+
+  if (config.storage.driver === 'atlas' && !config.storage.mongoUri) {
+    errors.push('STORAGE_DRIVER=atlas requires MONGO_DB_URI');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
+  return config;
+}
+
+/**
+ * The part of the config that is safe to show to clients: no secrets or server paths.
+ */
+export function publicConfig(config) {
+  const result = {};
+  for (const field of CONFIG_FIELDS) {
+    if (field.public && !field.secret) setPath(result, field.key, getPath(config, field.key));
+  }
+  return result;
+}
@@ -0,0 +1,522 @@
+#!/usr/bin/env node
+
+/**
+ * Generates the artifacts derived from the API contract (apiContract.mjs), and checks that
+ * they, the routes and the MCP tools still match it.
+ *
+ * Usage: node contract.mjs <command>
+ *   generate   writes the app's typed client and the agent tool configuration
+ *   check      fails if a generated file is stale, a route or tool is missing from the
+ *              contract (or vice versa), or a response no longer matches its schema
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import express from 'express';
+import {
+  buildAgentToolConfig,
+  buildOpenApiDocument,
+  getEndpoint,
+  expressPath,
+  pathParameters,
+  validate,
+  COMPONENTS,
+  ENDPOINTS,
+  MCP_TOOL_SCHEMAS,
+  OPENAPI_PATH,
+} from './apiContract.mjs';
+import { createStubDrafter } from './answerDrafting.mjs';
+import { loadConfig, publicConfig } from './config.mjs';
+import { insertUnlessDuplicate } from './dedupe.mjs';
+import { ingestDocument } from './ingestion.mjs';
+import { createHeuristicJobAnalyzer, prepareForJob } from './jobPrep.mjs';
+import { createMemoriesRouter } from './memoriesRouter.mjs';
+import { createDetector, DETECTION_KEYWORD_PACKS } from './questionDetection.mjs';
+import { createRedactor, redactClient } from './redaction.mjs';
+import { hybridSearch } from './retrieval.mjs';
+import { createSessionsRouter } from './sessionsRouter.mjs';
+import { createLocalStore, scopeStore } from './storage/index.mjs';
+import { createLocalSessionStore } from './storage/sessionStore.mjs';
+
+const USAGE = `Usage: node contract.mjs <command>
+  generate
+  check`;
+
+const here = (file) => new URL(file, import.meta.url).pathname;
+const GENERATED_FILES = {
+  client: here('../interview_app/services/apiClient.ts'),
+  agentConfig: here('./vectara-agent-config.json'),
+};
+// Files that register routes, and where their routers are mounted
+const ROUTE_FILES = [
+  { file: 'server.mjs', receiver: 'app', prefix: '' },
+  { file: 'memoriesRouter.mjs', receiver: 'router', prefix: '/api/memories' },
+  { file: 'sessionsRouter.mjs', receiver: 'router', prefix: '/api/sessions' },
+];
+
+// --- GENERATION ---
+
+const pascalCase = (id) => id[0].toUpperCase() + id.slice(1);
+const refName = (schema) => schema.$ref.split('/').pop();
+
+function tsType(schema, indent) {
+  if (schema.$ref) return refName(schema);
+  if (schema.anyOf) return schema.anyOf.map(option => tsType(option, indent)).join(' | ');
+  if (schema.enum) return schema.enum.map(value => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | ');
+
+  const types = [].concat(schema.type ?? []);
+  if (types.length > 1) return types.map(type => tsType({ ...schema, type }, indent)).join(' | ');
+  switch (types[0]) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = tsType(schema.items, indent);
+      return item.includes('|') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      if (schema.properties) return tsObject(schema, indent);
+      if (typeof schema.additionalProperties === 'object') return `Record<string, ${tsType(schema.additionalProperties, indent)}>`;
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function tsObject(schema, indent) {
+  const pad = '  '.repeat(indent + 1);
+  const lines = Object.entries(schema.properties).map(([key, property]) => {
+    const doc = property.description ? `${pad}/** ${property.description} */\n` : '';
+    const optional = schema.required?.includes(key) ? '' : '?';
+    return `${doc}${pad}${key}${optional}: ${tsType(property, indent + 1)};`;
+  });
+  return `{\n${lines.join('\n')}\n${'  '.repeat(indent)}}`;
+}
+
+function tsDeclaration(name, schema) {
+  const doc = schema.description && !schema.$ref ? `/** ${schema.description} */\n` : '';
+  return schema.type === 'object' && schema.properties
+    ? `${doc}export interface ${name} ${tsObject(schema, 0)}`
+    : `${doc}export type ${name} = ${tsType(schema, 0)};`;
+}
+
+function tsMethod(endpoint) {
+  const name = pascalCase(endpoint.id);
+  const params = pathParameters(endpoint);
+  const args = [
+    ...(params.length ? [`params: { ${params.map(param => `${param}: string`).join('; ')} }`] : []),
+    ...(endpoint.query ? [`query${endpoint.query.required ? '' : '?'}: ${name}Query`] : []),
+    ...(endpoint.body ? [`body: ${name}Body`] : []),
+    'options?: RequestOptions',
+  ];
+  const url = params.length
+    ? `\`${endpoint.path.replace(/\{(\w+)\}/g, (_, param) => `\${encodeURIComponent(params.${param})}`)}\``
+    : `'${endpoint.path}'`;
+  const call = endpoint.stream
+    ? `send('${endpoint.method}', ${url}, ${endpoint.query ? 'query' : 'undefined'}, ${endpoint.body ? 'body' : 'undefined'}, options)`
+    : `request<${name}Response>('${endpoint.method}', ${url}, ${endpoint.query ? 'query' : 'undefined'}, ${endpoint.body ? 'body' : 'undefined'}, options)`;
+  const doc = endpoint.stream
+    ? `${endpoint.summary}. Resolves with the open response; its body is newline-delimited ${refName(endpoint.response)} JSON.`
+    : endpoint.summary;
+
+  return `    /** ${doc} (${endpoint.method} ${endpoint.path}) */
+    ${endpoint.id}: (${args.join(', ')}): Promise<${endpoint.stream ? 'Response' : `${name}Response`}> =>
+      ${call},`;
+}
+
+/**
+ * The app's typed client: the contract's components as types, each endpoint's query, body
+ * and response types, and `createApiClient`.
+ */
+function generateClient() {
+  const types = ENDPOINTS.flatMap(endpoint => {
+    const name = pascalCase(endpoint.id);
+    return [
+      endpoint.query && tsDeclaration(`${name}Query`, endpoint.query),
+      endpoint.body && tsDeclaration(`${name}Body`, endpoint.body),
+      !endpoint.stream && tsDeclaration(`${name}Response`, endpoint.response),
+    ].filter(Boolean);
+  });
+
+  return `// Generated from mongodb_backend/apiContract.mjs by \`npm run contract:generate\`; do not edit.
+// \`npm run contract:check\` (in mongodb_backend) fails when this file is out of date.
+
+// --- SHARED TYPES ---
+
+${Object.entries(COMPONENTS).map(([name, schema]) => tsDeclaration(name, schema)).join('\n\n')}
+
+// --- REQUESTS AND RESPONSES ---
+
+${types.join('\n\n')}
+
+// --- CLIENT ---
+
+export interface ApiClientOptions {
+  /** Read before every request, so a changed backend URL applies immediately */
+  baseUrl: () => string;
+  /** Sent with every request, e.g. the profile's Authorization header */
+  headers?: () => Record<string, string>;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Added to (and override) the client's headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A client for every backend endpoint. Rejects with the backend's error message when a
+ * request fails; JSON responses resolve with the whole \`{ success, ... }\` envelope.
+ */
+export function createApiClient({ baseUrl, headers = () => ({}) }: ApiClientOptions) {
+  const send = async (method: string, path: string, query: object | undefined, body: unknown, options: RequestOptions = {}): Promise<Response> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const search = params.toString();
+
+    const response = await fetch(\`\${baseUrl().replace(/\\/+$/, '')}\${path}\${search ? \`?\${search}\` : ''}\`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers(),
+        ...options.headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || \`API request failed: \${response.statusText}\`);
+    }
+    return response;
+  };
+
+  const request = async <T>(method: string, path: string, query: object | undefined, body: unknown, options?: RequestOptions): Promise<T> => {
+    const response = await send(method, path, query, body, options);
+    const data = await response.json().catch(() => null);
+    if (!data?.success) {
+      throw new Error(data?.error || \`API request failed: \${response.statusText}\`);
+    }
+    return data as T;
+  };
+
+  return {
+${ENDPOINTS.map(tsMethod).join('\n')}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+}
+
+/**
+ * Everything `generate` writes, by path.
+ */
+function generatedFiles() {
+  return {
+    [GENERATED_FILES.client]: generateClient(),
+    [GENERATED_FILES.agentConfig]: `${JSON.stringify(buildAgentToolConfig(), null, 2)}\n`,
+  };
+}
+
+// --- DRIFT CHECKS ---
+
+function readOrEmpty(file) {
+  try {
+    return readFileSync(file, 'utf8');
+  } catch {
+    return '';
+  }
+}
+
+function checkGeneratedFiles(problems) {
+  for (const [file, content] of Object.entries(generatedFiles())) {
+    if (readOrEmpty(file) !== content) {
+      problems.push(`${path.relative(here('..'), file)} is out of date; run npm run contract:generate`);
+    }
+  }
+}
+
+/**
+ * Every route registered in ROUTE_FILES must validate against the endpoint with its method
+ * and path, and every endpoint must be routed.
+ */
+function checkRoutes(problems) {
+  const routed = new Set();
+
+  for (const { file, receiver, prefix } of ROUTE_FILES) {
+    const source = readFileSync(here(`./${file}`), 'utf8');
+    const pattern = new RegExp(`\\b${receiver}\\.(get|post|put|patch|delete)\\(\\s*('[^']*'|\\w+)\\s*,\\s*(?:validateRequest\\('(\\w+)'\\))?`, 'g');
+
+    for (const [, method, pathToken, id] of source.matchAll(pattern)) {
+      const routePath = pathToken === 'OPENAPI_PATH' ? OPENAPI_PATH : pathToken.replace(/'/g, '');
+      const fullPath = `${prefix}${routePath === '/' && prefix ? '' : routePath}`;
+      const route = `${method.toUpperCase()} ${fullPath} (${file})`;
+      // The document describing the contract is not part of it
+      if (fullPath === OPENAPI_PATH) continue;
+
+      if (!id) {
+        problems.push(`${route} does not validate its request with validateRequest()`);
+        continue;
+      }
+      const endpoint = ENDPOINTS.find(endpoint => endpoint.id === id);
+      if (!endpoint) {
+        problems.push(`${route} validates against unknown endpoint "${id}"`);
+      } else if (endpoint.method !== method.toUpperCase() || expressPath(endpoint) !== fullPath) {
+        problems.push(`${route} validates against "${id}", which is ${endpoint.method} ${endpoint.path}`);
+      } else {
+        routed.add(id);
+      }
+    }
+  }
+
+  for (const endpoint of ENDPOINTS.filter(endpoint => !routed.has(endpoint.id))) {
+    problems.push(`${endpoint.method} ${endpoint.path} ("${endpoint.id}") is in the contract but has no route`);
+  }
+}
+
+/**
+ * The MCP server's tools must be exactly MCP_TOOL_SCHEMAS, each using its own schema, and the
+ * agent configuration may only name those tools.
+ */
+function checkTools(problems) {
+  const source = readFileSync(here('./mcp-server.mjs'), 'utf8');
+  const tools = [...source.matchAll(/^ {2}(\w+): \{\n {4}description:[^\n]*\n {4}inputSchema: (?:mcpToolSchema\('(\w+)'\))?/gm)];
+
+  for (const [, name, schemaName] of tools) {
+    if (schemaName !== name) problems.push(`MCP tool "${name}" does not use mcpToolSchema('${name}')`);
+    if (!MCP_TOOL_SCHEMAS[name]) problems.push(`MCP tool "${name}" has no schema in MCP_TOOL_SCHEMAS`);
+  }
+  const names = new Set(tools.map(([, name]) => name));
+  for (const name of Object.keys(MCP_TOOL_SCHEMAS).filter(name => !names.has(name))) {
+    problems.push(`MCP_TOOL_SCHEMAS has "${name}", which the MCP server does not register`);
+  }
+
+  for (const [name, tool] of Object.entries(buildAgentToolConfig().tool_configurations)) {
+    if (!MCP_TOOL_SCHEMAS[name] || tool.function.name !== name) {
+      problems.push(`Agent tool "${name}" does not match an MCP tool`);
+    }
+  }
+}
+
+/**
+ * Every $ref in the OpenAPI document must name a component.
+ */
+function checkOpenApi(problems) {
+  const visit = (node) => {
+    if (!node || typeof node !== 'object') return;
+    if (typeof node.$ref === 'string' && !COMPONENTS[node.$ref.split('/').pop()]) {
+      problems.push(`OpenAPI document references missing component ${node.$ref}`);
+    }
+    Object.values(node).forEach(visit);
+  };
+  visit(buildOpenApiDocument());
+}
+
+/**
+ * Deterministic offline embeddings: hashed bag of words, so identical texts are duplicates.
+ */
+function createCheckEmbeddings() {
+  const embed = (text) => {
+    const vector = new Array(64).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      let hash = 0;
+      for (const char of word) hash = (hash * 31 + char.codePointAt(0)) % 64;
+      vector[hash] += 1;
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map(value => value / norm);
+  };
+  return {
+    model: 'contract-check',
+    embed: async (text) => embed(text),
+    embedMany: async (texts) => texts.map(embed),
+    stats: () => ({ hits: 0, misses: 0, size: 0 }),
+  };
+}
+
+/**
+ * Runs real requests and domain calls against temporary local stores, and validates each
+ * request against its endpoint's schema and each response against the response schema.
+ */
+async function checkResponses(problems) {
+  const dir = mkdtempSync(path.join(tmpdir(), 'oncue-contract-'));
+  const baseStore = createLocalStore({ filePath: path.join(dir, 'memories.json') });
+  const sessions = createLocalSessionStore({ filePath: path.join(dir, 'sessions.json') });
+  await Promise.all([baseStore.connect(), sessions.connect()]);
+  const store = scopeStore(baseStore, 'contract');
+  const embeddings = createCheckEmbeddings();
+
+  // The routers as mounted by server.mjs, with the profile middleware replaced
+  const app = express();
+  app.use(express.json());
+  app.use('/api', (req, res, next) => {
+    req.profile = { id: 'contract', name: 'Contract check' };
+    req.store = store;
+    next();
+  });
+  app.use('/api/memories', createMemoriesRouter({ embeddings }));
+  app.use('/api/sessions', createSessionsRouter({ sessions }));
+  const server = await new Promise(resolve => { const listening = app.listen(0, '127.0.0.1', () => resolve(listening)); });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  const expectValid = (id, label, schema, value) => {
+    for (const error of validate(schema, value)) problems.push(`${id} ${label}: ${error}`);
+  };
+  const call = async (id, { params = {}, query, body, status = 200 } = {}) => {
+    const endpoint = getEndpoint(id);
+    // Requests meant to be rejected are exempt
+    if (query && status === 200) expectValid(id, 'query', endpoint.query, query);
+    if (body && status === 200) expectValid(id, 'body', endpoint.body, body);
+
+    const url = new URL(endpoint.path.replace(/\{(\w+)\}/g, (_, param) => encodeURIComponent(params[param])), baseUrl);
+    for (const [key, value] of Object.entries(query ?? {})) url.searchParams.set(key, String(value));
+    const response = await fetch(url, {
+      method: endpoint.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (response.status !== status) {
+      problems.push(`${id} returned ${response.status}, expected ${status}: ${data.error ?? ''}`);
+    } else {
+      expectValid(id, 'response', status === 200 ? endpoint.response : COMPONENTS.ErrorResponse, data);
+    }
+    return data;
+  };
+
+  try {
+    // server.mjs's own endpoints, through the functions they call
+    expectValid('getConfig', 'response', getEndpoint('getConfig').response, { success: true, config: publicConfig(loadConfig({ env: {} })) });
+    expectValid('getProfile', 'response', getEndpoint('getProfile').response, { success: true, profile: { id: 'contract', name: 'Contract check' } });
+
+    const saveBody = { memory: { classification: 'experience', description: 'Led the migration of the billing service to Kubernetes, cutting deploy time by half.' }, sourceFile: 'resume.md' };
+    expectValid('saveMemory', 'body', getEndpoint('saveMemory').body, saveBody);
+    for (const sourceFile of ['resume.md', 'notes.md']) {
+      const saved = await insertUnlessDuplicate({ embeddings, store, ...saveBody, sourceFile });
+      expectValid('saveMemory', 'response', getEndpoint('saveMemory').response, { success: true, ...saved });
+    }
+    const other = await insertUnlessDuplicate({
+      embeddings,
+      store,
+      memory: { classification: 'reflection', description: 'I learned to write the rollback plan before the migration plan.' },
+      sourceFile: 'journal.md',
+      allowDuplicate: true,
+    });
+
+    const searchBody = { query: 'Tell me about a migration you led', limit: 3, filters: { classification: ['experience', 'reflection'] } };
+    expectValid('searchMemory', 'body', getEndpoint('searchMemory').body, searchBody);
+    const results = await hybridSearch({ embeddings, store, query: searchBody.query, limit: searchBody.limit, filter: searchBody.filters, focusIds: [other.id] });
+    expectValid('searchMemory', 'response', getEndpoint('searchMemory').response, { success: true, results, query: searchBody.query, rewritten: false, translated: false });
+
+    const ingestBody = { fileName: 'projects.md', content: '# Projects\n\nBuilt a search service in Go.\n\n## Lessons\n\nShip small changes.', dryRun: true, classifier: 'heuristic' };
+    expectValid('ingest', 'body', getEndpoint('ingest').body, ingestBody);
+    const summary = await ingestDocument({ embeddings, store, fileName: ingestBody.fileName, buffer: Buffer.from(ingestBody.content), dryRun: true, classifier: 'heuristic' });
+    expectValid('ingest', 'response', getEndpoint('ingest').response, { success: true, ...summary });
+
+    const jobBody = { text: 'Senior Engineer\n\nYou will lead migrations to Kubernetes and mentor the team.', limit: 2, analyzer: 'heuristic' };
+    expectValid('jobPrep', 'body', getEndpoint('jobPrep').body, jobBody);
+    const prep = await prepareForJob({ analyzer: createHeuristicJobAnalyzer(), embeddings, store, text: jobBody.text, limit: jobBody.limit });
+    expectValid('jobPrep', 'response', getEndpoint('jobPrep').response, { success: true, ...prep });
+
+    const draftBody = { question: 'Tell me about a migration you led', memories: results.map(({ id, classification, description, sourceFile }) => ({ id, classification, description, sourceFile })) };
+    expectValid('draftAnswer', 'body', getEndpoint('draftAnswer').body, draftBody);
+    const drafter = createStubDrafter();
+    for await (const bullet of drafter.draft(draftBody)) {
+      expectValid('draftAnswer', 'event', getEndpoint('draftAnswer').response, { type: 'bullet', ...bullet });
+    }
+    expectValid('draftAnswer', 'event', getEndpoint('draftAnswer').response, { type: 'done', drafter: drafter.name });
+
+    const detectBody = { text: 'Tell me about a migration you led with Sarah Connor', language: 'en' };
+    expectValid('detectQuestion', 'body', getEndpoint('detectQuestion').body, detectBody);
+    // A canned Gemini answer behind the redacting client, wired as in server.mjs
+    const fakeAi = { models: { generateContent: async () => ({ text: 'yes' }) } };
+    const detector = createDetector('llm', { ai: redactClient(fakeAi, createRedactor()), keywords: DETECTION_KEYWORD_PACKS[detectBody.language] });
+    expectValid('detectQuestion', 'response', getEndpoint('detectQuestion').response, { success: true, ...(await detector.detect(detectBody.text)) });
+
+    // The routers, over HTTP
+    const [first] = (await call('listMemories', { query: { page: 1, pageSize: 10, classification: 'experience' } })).memories ?? [];
+    await call('listSources');
+    await call('getCategories');
+    await call('findDuplicates', { query: { threshold: 0.9 } });
+    await call('getMemory', { params: { id: other.id } });
+    await call('getMemory', { params: { id: 'missing' }, status: 404 });
+    await call('updateMemory', { params: { id: other.id }, body: { description: 'I learned to write the rollback plan first.' } });
+    await call('reembedMemory', { params: { id: other.id } });
+    await call('mergeMemories', { body: { ids: [other.id] }, status: 400 });
+    if (first) await call('mergeMemories', { body: { ids: [first.id, other.id], keepId: first.id } });
+
+    const reportBody = {
+      startedAt: new Date().toISOString(),
+      source: 'microphone',
+      minThreshold: 0.5,
+      durationMs: 60000,
+      questions: [{ text: 'Tell me about a migration you led', startMs: 1000, categories: ['experience'], topScore: 0.8, memoryIds: [first?.id ?? other.id], isGap: false }],
+      surfacedMemories: [{ id: first?.id ?? other.id, classification: 'experience', description: saveBody.memory.description, sourceFile: 'resume.md', timesSurfaced: 1, bestScore: 0.8 }],
+      talkTimeMs: { interviewer: 20000, candidate: 40000 },
+    };
+    await call('saveSession', { body: reportBody });
+    await call('saveSession', { body: { ...reportBody, startedAt: 'yesterday' }, status: 400 });
+    await call('listSessions');
+    await call('getSessionAnalytics', { query: { sessions: 10 } });
+
+    const extra = await insertUnlessDuplicate({ embeddings, store, memory: { classification: 'knowledge', description: 'Knows Terraform.' }, sourceFile: 'skills.md' });
+    await call('deleteMemory', { params: { id: extra.id } });
+    await call('bulkDeleteMemories', { body: { ids: [other.id] } });
+    await call('deleteMemoriesBySource', { query: { sourceFile: 'resume.md' } });
+    await call('deleteMemoriesBySource', { status: 400 });
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+    await Promise.all([baseStore.close(), sessions.close()]);
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// --- COMMANDS ---
+
+const commands = {
+  generate: async () => {
+    for (const [file, content] of Object.entries(generatedFiles())) {
+      writeFileSync(file, content);
+      console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+    }
+  },
+
+  check: async () => {
+    const problems = [];
+    checkGeneratedFiles(problems);
+    checkRoutes(problems);
+    checkTools(problems);
+    checkOpenApi(problems);
+    await checkResponses(problems);
+
+    if (problems.length > 0) {
+      console.error(`The API contract has drifted:\n  ${problems.join('\n  ')}`);
+      process.exitCode = 1;
+    } else {
+      console.log(`Contract OK: ${ENDPOINTS.length} endpoints, ${Object.keys(MCP_TOOL_SCHEMAS).length} MCP tools.`);
+    }
+  },
+};
+
+const run = commands[process.argv[2]];
+if (!run) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+try {
+  await run();
+} catch (error) {
+  console.error(`contract ${process.argv[2]} failed:`, error);
+  process.exitCode = 1;
+}
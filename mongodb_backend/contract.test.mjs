@@ -0,0 +1,24 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { describe, it } from 'node:test';
+
+const CONTRACT_SCRIPT = fileURLToPath(new URL('./contract.mjs', import.meta.url));
+
+describe('API contract', () => {
+  // The same check as `npm run contract:check`: generated files, routes, MCP tools and live responses
+  it('has not drifted from the generated client, routes, MCP tools or responses', async () => {
+    try {
+      await promisify(execFile)(process.execPath, [CONTRACT_SCRIPT, 'check'], { timeout: 60000 });
+    } catch (error) {
+      assert.fail(error.stderr || error.message);
+    }
+  });
+});
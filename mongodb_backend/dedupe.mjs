@@ -0,0 +1,184 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { cosineScore, embedMemory, storedEmbeddingModel } from './embeddings.mjs';
+
+// On the cosineScore scale, (1 + cos) / 2; rephrasings of one story land around 0.97-0.99
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.97;
+
+/**
+ * Every source file a memory has been saved from. Memories that were never found
+ * as duplicates or merged only have `sourceFile`.
+ */
+export function memorySourceFiles(memory) {
+  return memory.sourceFiles?.length ? memory.sourceFiles : [memory.sourceFile];
+}
+
+/**
+ * The most similar stored memory, if it scores at least `threshold` against `embedding`.
+ * @param {import('./storage/index.mjs').MemoryStore} store
+ * @returns {Promise<(import('./storage/index.mjs').StoredMemory & { score: number }) | null>}
+ */
+export async function findDuplicate(store, embedding, threshold = DEFAULT_DUPLICATE_THRESHOLD) {
+  const [closest] = await store.searchByVector(embedding, { limit: 1, numCandidates: 10 });
+  return closest && closest.score >= threshold ? closest : null;
+}
+
+/**
+ * Saves a memory unless the vault already holds a near-duplicate of it. The duplicate is
+ * returned instead, and records `sourceFile` in its provenance (`sourceFiles`).
+ * @param {object} options
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {{ classification: string, description: string }} options.memory
+ * @param {string} options.sourceFile
+ * @param {number} [options.threshold]
+ * @param {boolean} [options.allowDuplicate] Insert even when a duplicate exists.
+ * @returns {Promise<{ id: string, inserted: boolean, duplicate?: object }>}
+ */
+export async function insertUnlessDuplicate({ embeddings, store, memory, sourceFile, threshold = DEFAULT_DUPLICATE_THRESHOLD, allowDuplicate = false }) {
+  const embedded = await embedMemory(embeddings, memory);
+
+  const duplicate = allowDuplicate ? null : await findDuplicate(store, embedded.embedding, threshold);
+  if (duplicate) {
+    const { score, ...existing } = duplicate;
+    const sourceFiles = memorySourceFiles(existing);
+    const updated = sourceFiles.includes(sourceFile)
+      ? existing
+      : await store.update(existing.id, { sourceFiles: [...sourceFiles, sourceFile], updatedAt: new Date().toISOString() });
+    return { id: existing.id, inserted: false, duplicate: { ...(updated ?? existing), score } };
+  }
+
+  const id = await store.insert({
+    ...memory,
+    ...embedded,
+    sourceFile,
+    createdAt: new Date().toISOString(),
+  });
+  return { id, inserted: true };
+}
+
+/**
+ * Groups memories whose embeddings score at least `threshold` against each other,
+ * transitively (A~B and B~C puts all three together). Pairwise, so meant for a vault,
+ * not a whole collection.
+ * @param {Array<import('./storage/index.mjs').StoredMemory & { embedding: number[] }>} memories
+ * @returns {Array<{ memories: object[], score: number }>} Clusters of two or more, largest first;
+ *   `score` is the weakest similarity that joined the cluster.
+ */
+export function clusterDuplicates(memories, threshold = DEFAULT_DUPLICATE_THRESHOLD) {
+  // Union-find over indexes
+  const parent = memories.map((_, i) => i);
+  const root = (i) => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const weakestLink = new Map();
+
+  for (let i = 0; i < memories.length; i++) {
+    for (let j = i + 1; j < memories.length; j++) {
+      const score = cosineScore(memories[i].embedding, memories[j].embedding);
+      if (score < threshold) continue;
+      const [a, b] = [root(i), root(j)];
+      if (a === b) continue;
+      const weakest = Math.min(score, weakestLink.get(a) ?? 1, weakestLink.get(b) ?? 1);
+      parent[b] = a;
+      weakestLink.set(a, weakest);
+    }
+  }
+
+  const groups = new Map();
+  memories.forEach(({ embedding, ...memory }, i) => {
+    const r = root(i);
+    if (!groups.has(r)) groups.set(r, []);
+    groups.get(r).push(memory);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([r, members]) => ({ memories: members, score: weakestLink.get(r) }))
+    .sort((a, b) => b.memories.length - a.memories.length || b.score - a.score);
+}
+
+/**
+ * The vault's near-duplicate clusters. Memories embedded by a different model than
+ * `embeddings` can't be compared and are left out until they are re-indexed.
+ * @param {object} options
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {number} [options.threshold]
+ */
+export async function findDuplicateClusters({ embeddings, store, threshold = DEFAULT_DUPLICATE_THRESHOLD }) {
+  const memories = await store.list({}, { includeEmbedding: true });
+  const comparable = memories.filter(memory => memory.embedding && storedEmbeddingModel(memory) === embeddings.model);
+  return clusterDuplicates(comparable, threshold);
+}
+
+const normalizeSentence = (sentence) => sentence.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Combines descriptions of the same story: the longest one, followed by any sentences
+ * only the others have.
+ */
+export function combineDescriptions(descriptions) {
+  const [base, ...others] = [...descriptions].sort((a, b) => b.length - a.length);
+  const seen = new Set(base.split(/(?<=[.!?])\s+/).map(normalizeSentence));
+  const paragraphs = [base];
+
+  for (const description of others) {
+    const extra = description.split(/(?<=[.!?])\s+/).filter(sentence => {
+      const key = normalizeSentence(sentence);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (extra.length) paragraphs.push(extra.join(' '));
+  }
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Merges memories into one: the kept memory gets the combined description (unless one is
+ * given), every source file the group came from, and a fresh embedding; the rest are deleted.
+ * @param {object} options
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {string[]} options.ids At least two.
+ * @param {string} [options.keepId] Defaults to the memory with the longest description.
+ * @param {string} [options.description] Replaces the combined description.
+ * @param {string} [options.classification] Defaults to the kept memory's.
+ * @returns {Promise<{ memory: object, deletedIds: string[] } | null>} Null if any id does not exist.
+ */
+export async function mergeMemories({ embeddings, store, ids, keepId, description, classification }) {
+  const memories = await Promise.all(ids.map(id => store.get(id)));
+  if (memories.some(memory => !memory)) return null;
+
+  const kept = memories.find(memory => memory.id === keepId)
+    ?? [...memories].sort((a, b) => b.description.length - a.description.length)[0];
+  const others = memories.filter(memory => memory.id !== kept.id);
+
+  const merged = {
+    classification: classification ?? kept.classification,
+    description: description ?? combineDescriptions(memories.map(memory => memory.description)),
+  };
+  const fields = {
+    ...merged,
+    ...await embedMemory(embeddings, merged),
+    sourceFiles: [...new Set([kept, ...others].flatMap(memorySourceFiles))],
+    // The kept chunk's hash no longer describes it, so re-ingesting its file must not reuse it
+    contentHash: null,
+    mergedFrom: [...new Set([...(kept.mergedFrom ?? []), ...others.flatMap(memory => [memory.id, ...(memory.mergedFrom ?? [])])])],
+    updatedAt: new Date().toISOString(),
+  };
+
+  const memory = await store.update(kept.id, fields);
+  const deletedIds = others.map(memory => memory.id);
+  if (deletedIds.length) await store.deleteMany({ ids: deletedIds });
+  return { memory, deletedIds };
+}
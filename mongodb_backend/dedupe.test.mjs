@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { insertUnlessDuplicate, mergeMemories } from './dedupe.mjs';
+import { createLocalStore } from './storage/index.mjs';
+
+/** Offline embeddings where memories about the same topic are identical vectors. */
+const embeddings = {
+  model: 'test-embeddings',
+  embed: async (text) => [/billing/i.test(text) ? 1 : 0, /mentor/i.test(text) ? 1 : 0, 0.01],
+  embedMany: async (texts) => Promise.all(texts.map(embeddings.embed)),
+  stats: () => ({ hits: 0, misses: 0, size: 0 }),
+};
+
+const BILLING = { classification: 'experience', description: 'Led the billing migration to Kafka.' };
+const BILLING_AGAIN = { classification: 'experience', description: 'Moved billing onto Kafka, cutting checkout latency by 40%.' };
+const MENTORING = { classification: 'experience', description: 'Mentored four junior engineers.' };
+
+describe('dedupe', () => {
+  let dir;
+  let store;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oncue-dedupe-'));
+    store = createLocalStore({ filePath: path.join(dir, 'memories.json') });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const save = (memory, sourceFile, options = {}) => insertUnlessDuplicate({ embeddings, store, memory, sourceFile, ...options });
+
+  /** Saves both billing memories and merges them, keeping the longer one from notes.md. */
+  async function mergeBilling() {
+    const { id: resumeId } = await save(BILLING, 'resume.md');
+    const { id: notesId } = await save(BILLING_AGAIN, 'notes.md', { allowDuplicate: true });
+    return { resumeId, notesId, ...await mergeMemories({ embeddings, store, ids: [resumeId, notesId] }) };
+  }
+
+  it('records the new source on a near-duplicate instead of saving it again', async () => {
+    const { id } = await save(BILLING, 'resume.md');
+
+    const again = await save(BILLING_AGAIN, 'notes.md');
+    const repeated = await save(BILLING_AGAIN, 'notes.md');
+
+    assert.deepEqual([again.inserted, again.id, again.duplicate.sourceFiles], [false, id, ['resume.md', 'notes.md']]);
+    assert.deepEqual(repeated.duplicate.sourceFiles, ['resume.md', 'notes.md']);
+    assert.equal(await store.count({}), 1);
+  });
+
+  it('merges into the longest memory, keeping every source and merged id', async () => {
+    const { resumeId, notesId, memory, deletedIds } = await mergeBilling();
+
+    assert.equal(memory.id, notesId);
+    assert.deepEqual(deletedIds, [resumeId]);
+    assert.deepEqual(memory.sourceFiles, ['notes.md', 'resume.md']);
+    assert.deepEqual(memory.mergedFrom, [resumeId]);
+    assert.match(memory.description, /Led the billing migration/);
+    assert.equal(memory.contentHash, null);
+    assert.equal(await store.count({}), 1);
+  });
+
+  it('finds and deletes merged memories by any of their sources', async () => {
+    const { memory } = await mergeBilling();
+    const { id } = await save(MENTORING, 'resume.md');
+
+    assert.deepEqual((await store.list({ sourceFile: 'resume.md' })).map(doc => doc.id).sort(), [memory.id, id].sort());
+
+    assert.equal(await store.deleteMany({ sourceFile: 'resume.md' }), 2);
+    assert.equal(await store.count({}), 0);
+  });
+
+  it('leaves memories from other sources when deleting by source', async () => {
+    await mergeBilling();
+    const { id } = await save(MENTORING, 'talks.md');
+
+    assert.equal(await store.deleteMany({ sourceFile: 'notes.md' }), 1);
+    assert.deepEqual((await store.list({})).map(doc => doc.id), [id]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { redactionFingerprint } from './redaction.mjs';
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+// Documents stored before embeddings were versioned were all embedded with this model
+export const LEGACY_EMBEDDING_MODEL = 'text-embedding-004';
+
+const DEFAULT_MEMORY_CACHE_SIZE = 1000;
+const DEFAULT_PERSISTENT_CACHE_SIZE = 5000;
+// The Gemini API accepts up to 100 texts per batch embedding request
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * @typedef {object} EmbeddingService
+ * @property {string} model The model every vector from this service comes from.
+ * @property {(text: string) => Promise<number[]>} embed
+ * @property {(texts: string[]) => Promise<number[][]>} embedMany Batched; cached texts are not re-sent.
+ * @property {() => { hits: number, misses: number, size: number }} stats
+ */
+
+/**
+ * Texts that differ only in case or whitespace share a cache entry.
+ */
+export function normalizeEmbeddingText(text) {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Without a variant, keys are those of caches written before variants existed
+function cacheKey(model, variant, text) {
+  const prefix = variant ? `${model}\n${variant}` : model;
+  return createHash('sha256').update(`${prefix}\n${normalizeEmbeddingText(text)}`).digest('hex');
+}
+
+// Vectors are persisted as base64 float32, about a third the size of JSON numbers
+function encodeVector(values) {
+  return Buffer.from(Float32Array.from(values).buffer).toString('base64');
+}
+
+function decodeVector(encoded) {
+  const bytes = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4));
+}
+
+/**
+ * Append-only JSONL file of `{ key, vector }` lines, compacted to the newest entries when it
+ * grows past twice its limit.
+ */
+function createPersistentCache(filePath, maxEntries) {
+  let lines = 0;
+
+  return {
+    load: async () => {
+      let content;
+      try {
+        content = await readFile(filePath, 'utf8');
+      } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      }
+      const entries = [];
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const { key, vector } = JSON.parse(line);
+          entries.push([key, decodeVector(vector)]);
+        } catch {
+          // A torn final line from an interrupted write; skip it
+        }
+      }
+      lines = entries.length;
+      return entries.slice(-maxEntries);
+    },
+    append: async (entries, snapshot) => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await appendFile(filePath, entries.map(([key, values]) => `${JSON.stringify({ key, vector: encodeVector(values) })}\n`).join(''));
+      lines += entries.length;
+
+      if (lines > maxEntries * 2) {
+        const newest = snapshot().slice(-maxEntries);
+        const tmpPath = `${filePath}.tmp`;
+        await writeFile(tmpPath, newest.map(([key, values]) => `${JSON.stringify({ key, vector: encodeVector(values) })}\n`).join(''));
+        await rename(tmpPath, filePath);
+        lines = newest.length;
+      }
+    },
+  };
+}
+
+/**
+ * Embeds text with one model, caching vectors in an in-memory LRU and, optionally, on disk.
+ * Keys combine the model, the variant and the normalized text, so switching models never returns stale vectors.
+ * @param {object} options
+ * @param {import('@google/genai').GoogleGenAI} options.ai
+ * @param {string} [options.model]
+ * @param {string} [options.variant] Anything else that changes the vectors, such as how `ai`
+ *   redacts text (see `redactionFingerprint`).
+ * @param {string} [options.cachePath] JSONL file for the persistent cache; omit to cache in memory only.
+ * @param {number} [options.maxEntries] In-memory LRU size.
+ * @param {number} [options.maxPersistedEntries]
+ * @returns {EmbeddingService}
+ */
+export function createEmbeddingService({
+  ai,
+  model = DEFAULT_EMBEDDING_MODEL,
+  variant = '',
+  cachePath,
+  maxEntries = DEFAULT_MEMORY_CACHE_SIZE,
+  maxPersistedEntries = DEFAULT_PERSISTENT_CACHE_SIZE,
+}) {
+  // Map iteration order is insertion order; re-inserting on hit makes it an LRU
+  const lru = new Map();
+  const persistent = cachePath ? createPersistentCache(cachePath, maxPersistedEntries) : null;
+  let loaded = null;
+  let writeQueue = Promise.resolve();
+  let hits = 0;
+  let misses = 0;
+
+  const remember = (key, values) => {
+    lru.delete(key);
+    lru.set(key, values);
+    if (lru.size > maxEntries) lru.delete(lru.keys().next().value);
+  };
+
+  const ensureLoaded = () => {
+    loaded ??= persistent
+      ? persistent.load()
+        .then(entries => entries.forEach(([key, values]) => remember(key, values)))
+        .catch(error => {
+          // Let the next call try again, so one failed read doesn't fail every call until a restart
+          loaded = null;
+          throw error;
+        })
+      : Promise.resolve();
+    return loaded;
+  };
+
+  const persist = (entries) => {
+    if (!persistent || entries.length === 0) return;
+    writeQueue = writeQueue
+      .then(() => persistent.append(entries, () => [...lru.entries()]))
+      .catch(error => console.error('Failed to persist embedding cache:', error));
+  };
+
+  const embedMany = async (texts) => {
+    await ensureLoaded();
+
+    const keys = texts.map(text => cacheKey(model, variant, text));
+    const results = keys.map(key => {
+      const cached = lru.get(key);
+      if (cached) remember(key, cached);
+      return cached ?? null;
+    });
+
+    // Embed each distinct uncached text once
+    const missing = new Map();
+    keys.forEach((key, i) => {
+      if (!results[i]) missing.set(key, texts[i]);
+    });
+    hits += texts.length - missing.size;
+    misses += missing.size;
+
+    const pending = [...missing.entries()];
+    const fresh = new Map();
+    for (let start = 0; start < pending.length; start += MAX_BATCH_SIZE) {
+      const batch = pending.slice(start, start + MAX_BATCH_SIZE);
+      const response = await ai.models.embedContent({ model, contents: batch.map(([, text]) => text) });
+      batch.forEach(([key], i) => {
+        const values = response.embeddings[i].values;
+        remember(key, values);
+        fresh.set(key, values);
+      });
+    }
+    persist([...fresh.entries()]);
+
+    return keys.map((key, i) => results[i] ?? fresh.get(key));
+  };
+
+  return {
+    model,
+    embed: async (text) => (await embedMany([text]))[0],
+    embedMany,
+    stats: () => ({ hits, misses, size: lru.size }),
+  };
+}
+
+/**
+ * Creates the configured embedding service (`embeddings.model`, and `embeddings.cachePath`,
+ * where "off" disables the persistent cache; see config.mjs). `ai` is expected to redact as
+ * `privacy.*` says, so cached vectors are keyed by that too.
+ * @returns {EmbeddingService}
+ */
+export function createEmbeddingServiceFromConfig(ai, config) {
+  const { model, cachePath } = config.embeddings;
+  return createEmbeddingService({
+    ai,
+    model,
+    variant: redactionFingerprint(config),
+    cachePath: cachePath === 'off' ? undefined : cachePath,
+  });
+}
+
+/**
+ * The text we embed for a stored memory. Keep this in one place so saves,
+ * updates and ingestion all produce comparable vectors.
+ */
+export function memoryEmbeddingText(memory) {
+  return `${memory.classification}: ${memory.description}`;
+}
+
+/**
+ * Embeds a memory and returns the fields to store alongside it, recording which model
+ * produced the vector so a model switch can find documents that need re-embedding.
+ * @param {EmbeddingService} embeddings
+ * @returns {Promise<{ embedding: number[], embeddingModel: string, embeddingDim: number }>}
+ */
+export async function embedMemory(embeddings, memory) {
+  const embedding = await embeddings.embed(memoryEmbeddingText(memory));
+  return embeddingFields(embeddings, embedding);
+}
+
+/**
+ * The versioning fields stored with a vector from `embeddings`.
+ * @param {EmbeddingService} embeddings
+ */
+export function embeddingFields(embeddings, embedding) {
+  return { embedding, embeddingModel: embeddings.model, embeddingDim: embedding.length };
+}
+
+/**
+ * The model a stored memory's embedding came from.
+ */
+export function storedEmbeddingModel(memory) {
+  return memory.embeddingModel ?? LEGACY_EMBEDDING_MODEL;
+}
+
+/**
+ * Cosine similarity mapped to [0, 1], matching Atlas' `vectorSearchScore` for cosine indexes.
+ * Vectors of different dimensions (from different models) are not comparable and score 0.
+ */
+export function cosineScore(a, b) {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return (1 + dot / Math.sqrt(normA * normB)) / 2;
+}
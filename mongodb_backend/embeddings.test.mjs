@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { createEmbeddingService, createEmbeddingServiceFromConfig } from './embeddings.mjs';
+
+/** A Gemini client whose vectors count the embedding requests made so far. */
+function createFakeAi() {
+  const ai = {
+    requests: 0,
+    models: {
+      embedContent: async ({ contents }) => {
+        ai.requests++;
+        return { embeddings: contents.map(() => ({ values: [ai.requests, 0] })) };
+      },
+    },
+  };
+  return ai;
+}
+
+const configWith = (privacy, cachePath) => ({
+  embeddings: { model: 'text-embedding-004', cachePath },
+  privacy,
+});
+
+describe('embedding service', () => {
+  let dir;
+  let cachePath;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oncue-embeddings-'));
+    cachePath = path.join(dir, 'cache.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /** Lets the cache's background append finish. */
+  const flush = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  it('reuses cached vectors across restarts', async () => {
+    const ai = createFakeAi();
+    await createEmbeddingService({ ai, cachePath }).embed('Led the billing migration');
+    await flush();
+
+    const restarted = createEmbeddingService({ ai, cachePath });
+    assert.deepEqual(await restarted.embed('led the  billing migration'), [1, 0]);
+    assert.equal(ai.requests, 1);
+  });
+
+  it('loads the cache again after a failed read', async () => {
+    const ai = createFakeAi();
+    const embeddings = createEmbeddingService({ ai, cachePath });
+
+    // A directory where the cache file should be makes reading it fail
+    await mkdir(cachePath);
+    await assert.rejects(() => embeddings.embed('Led the billing migration'), { code: 'EISDIR' });
+
+    await rm(cachePath, { recursive: true });
+    assert.deepEqual(await embeddings.embed('Led the billing migration'), [1, 0]);
+  });
+
+  it('does not reuse vectors embedded under other redaction settings', async () => {
+    const ai = createFakeAi();
+    const text = 'Worked with Priscilla Vance';
+    const embedWith = async (privacy) => {
+      const vector = await createEmbeddingServiceFromConfig(ai, configWith(privacy, cachePath)).embed(text);
+      await flush();
+      return vector;
+    };
+
+    const off = await embedWith({ redaction: 'off', denyList: [] });
+    const on = await embedWith({ redaction: 'on', denyList: [] });
+    const denied = await embedWith({ redaction: 'on', denyList: ['Priscilla Vance'] });
+    const respelled = await embedWith({ redaction: 'on', denyList: [' priscilla vance '] });
+
+    assert.deepEqual([off, on, denied], [[1, 0], [2, 0], [3, 0]]);
+    assert.deepEqual(respelled, denied);
+    assert.equal(ai.requests, 3);
+  });
+});
@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+
+/**
+ * Bulk-ingests documents into the memory vault.
+ *
+ * Usage: node --env-file=.env ingest.mjs --profile <id> [--dry-run] [--classifier=heuristic] <file...>
+ *
+ * Chunks go into the given profile's vault; re-ingesting a file only replaces that profile's chunks.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { GoogleGenAI } from '@google/genai';
+import { loadConfig } from './config.mjs';
+import { createEmbeddingServiceFromConfig } from './embeddings.mjs';
+import { ingestDocument } from './ingestion.mjs';
+import { createProfileRegistryFromConfig } from './profiles.mjs';
+import { createRedactorFromConfig, redactClient } from './redaction.mjs';
+import { createStoreFromConfig, scopeStore } from './storage/index.mjs';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    profile: { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+    classifier: { type: 'string', default: 'gemini' },
+  },
+});
+
+if (positionals.length === 0 || !values.profile) {
+  console.error('Usage: node ingest.mjs --profile <id> [--dry-run] [--classifier=gemini|heuristic] <file...>');
+  process.exit(1);
+}
+
+const config = loadConfig();
+
+if (!config.geminiApiKey) {
+  throw new Error("Missing required environment variable GEMINI_API_KEY. Please check your .env file.");
+}
+
+const profile = await createProfileRegistryFromConfig(config).getProfile(values.profile);
+if (!profile) {
+  throw new Error(`Unknown profile "${values.profile}". List profiles with: npm run admin -- profile list`);
+}
+
+const ai = redactClient(new GoogleGenAI({ apiKey: config.geminiApiKey }), createRedactorFromConfig(config));
+const embeddings = createEmbeddingServiceFromConfig(ai, config);
+const baseStore = createStoreFromConfig(config);
+// Lists, deletes and inserts only touch this profile's vault
+const store = scopeStore(baseStore, profile.id);
+
+try {
+  await baseStore.connect();
+
+  for (const fileName of positionals) {
+    const summary = await ingestDocument({
+      ai,
+      embeddings,
+      store,
+      fileName,
+      buffer: await readFile(fileName),
+      dryRun: values['dry-run'],
+      classifier: values.classifier,
+      classifierModel: config.models.classifier,
+    });
+
+    const status = summary.unchanged
+      ? 'unchanged'
+      : `${summary.dryRun ? 'would insert' : 'inserted'} ${summary.inserted}, ${summary.dryRun ? 'would replace' : 'replaced'} ${summary.removed}`;
+    console.log(`\n${summary.sourceFile}: ${status}`);
+    for (const memory of summary.memories) {
+      const preview = memory.description.length > 100 ? `${memory.description.slice(0, 97)}...` : memory.description;
+      console.log(`  [${memory.classification}] ${preview}`);
+    }
+  }
+} catch (error) {
+  console.error('Ingestion failed:', error.message);
+  process.exitCode = 1;
+} finally {
+  await baseStore.close();
+}
@@ -0,0 +1,335 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import { embeddingFields, memoryEmbeddingText, storedEmbeddingModel } from './embeddings.mjs';
+
+// The memory taxonomy shared with the rest of the project
+export const CATEGORIES = JSON.parse(
+  readFileSync(new URL('../primitives.json', import.meta.url), 'utf8')
+);
+const CATEGORY_NAMES = Object.keys(CATEGORIES);
+
+export const DEFAULT_CLASSIFIER_MODEL = 'gemini-2.0-flash';
+const MAX_CHUNK_CHARS = 800;
+const MIN_CHUNK_CHARS = 200;
+
+export const SUPPORTED_EXTENSIONS = ['.md', '.markdown', '.txt', '.json', '.pdf'];
+
+// --- TEXT EXTRACTION ---
+
+/**
+ * Turns a JSON Resume (https://jsonresume.org/schema) into pre-classified sections.
+ */
+function sectionsFromResume(resume) {
+  const sections = [];
+  const join = (...parts) => parts.filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+  const dates = (item) => (item.startDate ? `(${item.startDate} – ${item.endDate || 'present'})` : '');
+  const list = (items) => (Array.isArray(items) && items.length ? items.join('; ') : '');
+
+  const { basics = {} } = resume;
+  if (basics.summary || basics.label) {
+    sections.push({ text: join(basics.label && `${basics.label}.`, basics.summary), classification: 'identity' });
+  }
+  for (const item of resume.work ?? []) {
+    sections.push({
+      text: join(`${item.position ?? 'Role'} at ${item.name ?? item.company ?? 'unknown company'}`, dates(item) + '.', item.summary, list(item.highlights)),
+      classification: 'experience',
+    });
+  }
+  for (const item of [...(resume.projects ?? []), ...(resume.volunteer ?? [])]) {
+    sections.push({
+      text: join(`${item.name ?? item.position ?? item.organization}:`, item.description ?? item.summary, list(item.highlights)),
+      classification: 'experience',
+    });
+  }
+  for (const item of resume.awards ?? []) {
+    sections.push({ text: join(`Award: ${item.title}`, item.awarder && `from ${item.awarder}.`, item.summary), classification: 'experience' });
+  }
+  for (const item of resume.education ?? []) {
+    sections.push({
+      text: join(`${item.studyType ?? ''} ${item.area ?? ''} at ${item.institution}`, dates(item) + '.', list(item.courses)),
+      classification: 'knowledge',
+    });
+  }
+  for (const item of [...(resume.skills ?? []), ...(resume.certificates ?? [])]) {
+    sections.push({ text: join(`${item.name}:`, item.level, list(item.keywords), item.issuer), classification: 'knowledge' });
+  }
+  if (resume.languages?.length) {
+    sections.push({ text: `Languages: ${resume.languages.map(l => join(l.language, l.fluency && `(${l.fluency})`)).join(', ')}`, classification: 'knowledge' });
+  }
+  if (resume.interests?.length) {
+    sections.push({ text: `Interests: ${resume.interests.map(i => join(i.name, list(i.keywords) && `(${list(i.keywords)})`)).join(', ')}`, classification: 'identity' });
+  }
+
+  return sections.filter(section => section.text);
+}
+
+/**
+ * Flattens arbitrary JSON into "path: value" lines.
+ */
+function flattenJson(value, prefix = '') {
+  if (value === null || typeof value !== 'object') {
+    return [`${prefix}: ${value}`];
+  }
+  return Object.entries(value).flatMap(([key, child]) =>
+    flattenJson(child, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+/**
+ * Splits Markdown or plain text into paragraphs, carrying the nearest heading along as context.
+ */
+function sectionsFromText(text) {
+  const sections = [];
+  let heading = '';
+
+  for (const block of text.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const body = [];
+    for (const line of lines) {
+      const headingMatch = line.match(/^#{1,6}\s+(.*)$/);
+      if (headingMatch) {
+        heading = headingMatch[1].trim();
+      } else {
+        body.push(line.replace(/^[-*+]\s+/, ''));
+      }
+    }
+    if (body.length) {
+      const paragraph = body.join(' ');
+      sections.push({ text: paragraph, heading });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Extracts logical sections from a document. Sections from structured sources
+ * (JSON resumes) may already carry a classification.
+ * @param {string} fileName Used to pick a parser by extension.
+ * @param {Buffer} buffer The raw document.
+ * @returns {Promise<Array<{ text: string, classification?: string }>>}
+ */
+export async function extractSections(fileName, buffer) {
+  const extension = path.extname(fileName).toLowerCase();
+
+  switch (extension) {
+    case '.pdf': {
+      const { text } = await pdfParse(buffer);
+      return sectionsFromText(text);
+    }
+    case '.json': {
+      const data = JSON.parse(buffer.toString('utf8'));
+      if (data.basics || data.work || data.education || data.skills) {
+        return sectionsFromResume(data);
+      }
+      return sectionsFromText(flattenJson(data).join('\n\n'));
+    }
+    case '.md':
+    case '.markdown':
+    case '.txt':
+      return sectionsFromText(buffer.toString('utf8'));
+    default:
+      throw new Error(`Unsupported file type "${extension}". Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+}
+
+// --- CHUNKING ---
+
+function splitSentences(text) {
+  return text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g)?.map(s => s.trim()).filter(Boolean) ?? [text];
+}
+
+/**
+ * Packs sections into memory-sized chunks: long sections are split on sentence
+ * boundaries, short unclassified neighbours under the same heading are merged,
+ * and each chunk is prefixed with its heading for context.
+ */
+export function chunkSections(sections, maxChars = MAX_CHUNK_CHARS) {
+  const chunks = [];
+
+  for (const section of sections) {
+    const pieces = [];
+    let current = '';
+    for (const sentence of splitSentences(section.text)) {
+      if (current && current.length + sentence.length + 1 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) pieces.push(current);
+
+    for (const text of pieces) {
+      const previous = chunks[chunks.length - 1];
+      const canMerge = previous && !previous.classification && !section.classification
+        && previous.heading === section.heading && previous.text.length < MIN_CHUNK_CHARS && previous.text.length + text.length + 1 <= maxChars;
+      if (canMerge) {
+        previous.text = `${previous.text} ${text}`;
+      } else {
+        chunks.push({
+          text: section.heading ? `${section.heading} — ${text}` : text,
+          classification: section.classification,
+          heading: section.heading,
+        });
+      }
+    }
+  }
+
+  return chunks;
+}
+
+// --- CLASSIFICATION ---
+
+const HEURISTIC_CUES = {
+  identity: ['i am', "i'm", 'passionate', 'i value', 'i believe', 'personality', 'i prefer', 'i enjoy', 'hobby', 'hobbies', 'based in', 'grew up'],
+  knowledge: ['proficient', 'familiar with', 'framework', 'theory', 'skills', 'languages', 'certified', 'certification', 'degree', 'course', 'studied', 'algorithm', 'principle'],
+  experience: ['led', 'built', 'developed', 'managed', 'shipped', 'launched', 'worked', 'implemented', 'designed', 'founded', 'improved', 'reduced', 'increased', 'delivered', 'intern', 'years'],
+  intent: ['i want', 'goal', 'i plan', 'looking for', 'aspire', 'i hope', 'seeking', 'intend', 'interested in', 'next step', 'would like to'],
+  reflection: ['learned', 'realized', 'lesson', 'in hindsight', 'looking back', 'differently', 'taught me', 'i grew', 'insight', 'mistake'],
+};
+
+/**
+ * Offline classifier: picks the category whose cue words appear most often.
+ * Ties and chunks without cues fall back to "experience".
+ */
+export function classifyHeuristically(text) {
+  const lower = ` ${text.toLowerCase()} `;
+  let best = 'experience';
+  let bestScore = 0;
+  for (const [category, cues] of Object.entries(HEURISTIC_CUES)) {
+    const score = cues.reduce((sum, cue) => sum + (new RegExp(`\\b${cue}\\b`).test(lower) ? 1 : 0), 0);
+    if (score > bestScore) {
+      best = category;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Classifies chunks into the primitives.json categories with one Gemini call,
+ * falling back to the heuristic classifier if the call fails.
+ * @returns {Promise<string[]>} One category per chunk.
+ */
+export async function classifyWithGemini(ai, texts, model = DEFAULT_CLASSIFIER_MODEL) {
+  if (texts.length === 0) return [];
+
+  const taxonomy = Object.entries(CATEGORIES).map(([name, description]) => `- ${name}: ${description}`).join('\n');
+  const numbered = texts.map((text, index) => `[${index}] ${text}`).join('\n\n');
+  const prompt = `Classify each numbered passage from a person's resume or notes into exactly one of these memory categories:
+
+${taxonomy}
+
+Passages:
+
+${numbered}
+
+Respond with a JSON array containing one category name per passage, in order.`;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: { type: 'ARRAY', items: { type: 'STRING', enum: CATEGORY_NAMES } },
+      },
+    });
+    const categories = JSON.parse(response.text);
+    if (!Array.isArray(categories) || categories.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} classifications, got ${categories?.length}`);
+    }
+    return categories.map((category, index) =>
+      CATEGORY_NAMES.includes(category) ? category : classifyHeuristically(texts[index])
+    );
+  } catch (error) {
+    console.warn('Gemini classification failed, using heuristic classifier:', error.message);
+    return texts.map(classifyHeuristically);
+  }
+}
+
+// --- INGESTION ---
+
+function contentHash(classification, description) {
+  return createHash('sha256').update(`${classification}\n${description}`).digest('hex');
+}
+
+/**
+ * Splits, classifies and stores a document as memories. Re-ingesting the same
+ * sourceFile replaces its previous chunks, so updated documents never duplicate.
+ * @param {object} options
+ * @param {import('@google/genai').GoogleGenAI} options.ai Used by the Gemini classifier.
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {string} options.fileName Stored as `sourceFile` on every chunk.
+ * @param {Buffer} options.buffer The raw document.
+ * @param {boolean} [options.dryRun] Classify and report without writing or embedding.
+ * @param {'gemini'|'heuristic'} [options.classifier]
+ * @param {string} [options.classifierModel]
+ */
+export async function ingestDocument({ ai, embeddings, store, fileName, buffer, dryRun = false, classifier = 'gemini', classifierModel }) {
+  const sourceFile = path.basename(fileName);
+  const chunks = chunkSections(await extractSections(fileName, buffer));
+
+  // Only chunks without a structural classification need the classifier
+  const pending = chunks.filter(chunk => !chunk.classification);
+  const categories = classifier === 'heuristic'
+    ? pending.map(chunk => classifyHeuristically(chunk.text))
+    : await classifyWithGemini(ai, pending.map(chunk => chunk.text), classifierModel);
+  pending.forEach((chunk, index) => { chunk.classification = categories[index]; });
+
+  const memories = chunks.map(chunk => ({
+    classification: chunk.classification,
+    description: chunk.text,
+    contentHash: contentHash(chunk.classification, chunk.text),
+  }));
+
+  const existing = await store.list({ sourceFile }, { includeEmbedding: true });
+  const existingByHash = new Map(existing.filter(doc => doc.contentHash).map(doc => [doc.contentHash, doc]));
+  const unchanged = existing.length === memories.length
+    && memories.every(memory => existingByHash.has(memory.contentHash));
+
+  const summary = {
+    sourceFile,
+    dryRun,
+    unchanged,
+    removed: unchanged ? 0 : existing.length,
+    inserted: unchanged ? 0 : memories.length,
+    memories,
+  };
+
+  if (dryRun || unchanged) {
+    return summary;
+  }
+
+  // Reuse embeddings for chunks whose content did not change, if they came from the current model
+  const reusable = (memory) => {
+    const doc = existingByHash.get(memory.contentHash);
+    return doc?.embedding && storedEmbeddingModel(doc) === embeddings.model ? doc.embedding : null;
+  };
+  const toEmbed = memories.filter(memory => !reusable(memory));
+  const fresh = await embeddings.embedMany(toEmbed.map(memoryEmbeddingText));
+  const freshByHash = new Map(toEmbed.map((memory, i) => [memory.contentHash, fresh[i]]));
+
+  const createdAt = new Date().toISOString();
+  const documents = memories.map(memory => ({
+    ...memory,
+    ...embeddingFields(embeddings, reusable(memory) ?? freshByHash.get(memory.contentHash)),
+    sourceFile,
+    createdAt,
+  }));
+
+  await store.deleteMany({ sourceFile });
+  await store.insertMany(documents);
+
+  console.log(`Ingested "${sourceFile}": ${summary.inserted} memories (replaced ${summary.removed})`);
+  return summary;
+}
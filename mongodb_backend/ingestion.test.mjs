@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { mergeMemories } from './dedupe.mjs';
+import { ingestDocument } from './ingestion.mjs';
+import { createLocalStore, scopeStore } from './storage/index.mjs';
+
+/** Offline embeddings that count what they were asked to embed. */
+function createCountingEmbeddings() {
+  const embeddings = {
+    model: 'test-embeddings',
+    embedded: [],
+    embed: async (text) => (await embeddings.embedMany([text]))[0],
+    embedMany: async (texts) => {
+      embeddings.embedded.push(...texts);
+      return texts.map(text => [text.length, 1]);
+    },
+    stats: () => ({ hits: 0, misses: 0, size: 0 }),
+  };
+  return embeddings;
+}
+
+const RESUME = `Led the migration of the billing service to Kafka, cutting checkout latency by 40%.
+
+Mentored four junior engineers through their first on-call rotations.`;
+
+describe('ingestDocument', () => {
+  let dir;
+  let baseStore;
+  let embeddings;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oncue-ingestion-'));
+    baseStore = createLocalStore({ filePath: path.join(dir, 'memories.json') });
+    embeddings = createCountingEmbeddings();
+    // Each ingest logs a summary line; keep the test output readable
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await baseStore.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const ingest = (store, content, fileName = 'resume.md') => ingestDocument({
+    embeddings,
+    store,
+    fileName,
+    buffer: Buffer.from(content),
+    classifier: 'heuristic',
+  });
+
+  it('leaves an unchanged file untouched', async () => {
+    const first = await ingest(baseStore, RESUME);
+    const stored = await baseStore.list({});
+    embeddings.embedded.length = 0;
+
+    const again = await ingest(baseStore, RESUME);
+
+    assert.equal(again.unchanged, true);
+    assert.deepEqual([again.inserted, again.removed], [0, 0]);
+    assert.deepEqual(embeddings.embedded, []);
+    assert.deepEqual(await baseStore.list({}), stored);
+    assert.equal(first.unchanged, false);
+  });
+
+  it('replaces a changed file\'s chunks, embedding only the new ones', async () => {
+    await ingest(baseStore, RESUME, 'notes.md');
+    const [unchangedChunk] = await baseStore.list({});
+    embeddings.embedded.length = 0;
+
+    const talk = 'Spoke at a regional Kafka meetup about schema evolution.';
+    const updated = await ingest(baseStore, `${RESUME}\n\n# Talks\n\n${talk}`, 'notes.md');
+
+    assert.equal(updated.removed, 1);
+    assert.equal(updated.inserted, updated.memories.length);
+    assert.deepEqual(embeddings.embedded.map(text => text.includes(talk)), [true]);
+    const stored = await baseStore.list({ sourceFile: 'notes.md' });
+    assert.deepEqual(stored.map(doc => doc.description).sort(), updated.memories.map(memory => memory.description).sort());
+    assert.ok(stored.some(doc => doc.description === unchangedChunk.description && doc.id !== unchangedChunk.id));
+  });
+
+  it('keeps each profile\'s chunks of a file with the same name apart', async () => {
+    const alice = scopeStore(baseStore, 'alice');
+    const bob = scopeStore(baseStore, 'bob');
+
+    await ingest(alice, RESUME);
+    await ingest(bob, 'Shipped the mobile app redesign in three months.');
+    const updated = await ingest(alice, `${RESUME}\n\nSpoke at a regional Kafka meetup.`);
+
+    assert.deepEqual((await bob.list({ sourceFile: 'resume.md' })).map(doc => doc.description),
+      ['Shipped the mobile app redesign in three months.']);
+    assert.deepEqual((await alice.list({ sourceFile: 'resume.md' })).map(doc => doc.description).sort(),
+      updated.memories.map(memory => memory.description).sort());
+    assert.ok((await baseStore.list({})).every(doc => ['alice', 'bob'].includes(doc.profileId)));
+  });
+
+  it('replaces memories merged from a re-ingested file', async () => {
+    await ingest(baseStore, 'Shipped the mobile app redesign in three months.', 'notes.md');
+    await ingest(baseStore, RESUME);
+    const [notes, resume] = await Promise.all([baseStore.list({ sourceFile: 'notes.md' }), baseStore.list({ sourceFile: 'resume.md' })]);
+    await mergeMemories({ embeddings, store: baseStore, ids: [notes[0].id, resume[0].id] });
+
+    const reingested = await ingest(baseStore, 'Shipped the mobile app redesign in three months.', 'notes.md');
+
+    assert.equal(reingested.unchanged, false);
+    assert.deepEqual((await baseStore.list({})).map(doc => [doc.sourceFile, doc.description]),
+      [['notes.md', 'Shipped the mobile app redesign in three months.']]);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { hybridSearch } from './retrieval.mjs';
+
+export const DEFAULT_JOB_ANALYSIS_MODEL = 'gemini-2.0-flash';
+export const JOB_ANALYZER_NAMES = ['gemini', 'heuristic'];
+export const MAX_JOB_DESCRIPTION_LENGTH = 50000;
+const MAX_COMPETENCIES = 8;
+const MAX_QUESTIONS = 12;
+// Memories per competency that get the live ranking boost, if they are at least this similar
+const COMPETENCY_MEMORY_LIMIT = 3;
+const MIN_COMPETENCY_SCORE = 0.75;
+
+// Soft skills most job descriptions ask for, with the words that signal them
+const COMPETENCY_CUES = {
+  Leadership: {
+    cues: ['lead', 'leadership', 'mentor', 'coach', 'manage', 'manager', 'influence', 'vision', 'hire', 'hiring'],
+    questions: ['Tell me about a time you led a team through a difficult project.', 'How have you mentored or grown the people around you?'],
+  },
+  Collaboration: {
+    cues: ['collaborate', 'collaboration', 'cross-functional', 'stakeholder', 'stakeholders', 'partner', 'teamwork', 'team player'],
+    questions: ['Tell me about a time you worked with a difficult stakeholder.', 'Describe a project where you worked closely with other teams.'],
+  },
+  Communication: {
+    cues: ['communication', 'communicate', 'written', 'verbal', 'present', 'presentation', 'documentation', 'storytelling'],
+    questions: ['Tell me about a time you explained something complex to a non-technical audience.'],
+  },
+  Ownership: {
+    cues: ['ownership', 'own', 'end-to-end', 'accountable', 'accountability', 'self-starter', 'autonomous', 'initiative', 'bias for action'],
+    questions: ['Tell me about something you owned end to end.', 'Describe a time you took initiative without being asked.'],
+  },
+  'Problem solving': {
+    cues: ['problem solving', 'problem-solving', 'analytical', 'debug', 'debugging', 'troubleshoot', 'root cause', 'ambiguity', 'ambiguous'],
+    questions: ['Tell me about the hardest problem you have solved.', 'How do you approach a problem when the requirements are ambiguous?'],
+  },
+  Impact: {
+    cues: ['impact', 'metrics', 'data-driven', 'results', 'outcomes', 'customer', 'customers', 'growth'],
+    questions: ['Tell me about the project you are proudest of and the impact it had.'],
+  },
+  Adaptability: {
+    cues: ['fast-paced', 'startup', 'adapt', 'adaptable', 'change', 'learn quickly', 'curious', 'growth mindset'],
+    questions: ['Tell me about a time you had to learn something new quickly.', 'Describe a time priorities changed suddenly. What did you do?'],
+  },
+};
+
+// Technologies and domains the heuristic analyzer recognizes
+const TECHNICAL_TERMS = [
+  'javascript', 'typescript', 'react', 'node.js', 'python', 'java', 'golang', 'rust', 'c++', 'kotlin', 'swift',
+  'sql', 'postgresql', 'mysql', 'mongodb', 'redis', 'kafka', 'spark', 'graphql', 'grpc',
+  'aws', 'gcp', 'azure', 'kubernetes', 'docker', 'terraform', 'ci/cd',
+  'machine learning', 'deep learning', 'llm', 'data pipelines', 'distributed systems', 'microservices',
+  'system design', 'security', 'performance', 'scalability', 'frontend', 'backend', 'mobile', 'infrastructure',
+];
+
+/**
+ * @typedef {object} JobAnalysis
+ * @property {string} title The role, if the description names it.
+ * @property {Array<{ name: string, keywords: string[] }>} competencies Most important first.
+ * @property {Array<{ text: string, competency: string }>} questions Likely interview questions.
+ */
+
+/**
+ * @typedef {object} JobAnalyzer
+ * @property {string} name
+ * @property {(input: { text: string, signal?: AbortSignal }) => Promise<JobAnalysis>} analyze
+ */
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countMatches(lower, term) {
+  return (lower.match(new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}(?=$|[^a-z0-9])`, 'g')) ?? []).length;
+}
+
+/**
+ * The first short line, when it reads like a job title rather than a sentence.
+ */
+function guessTitle(text) {
+  const first = text.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).find(Boolean) ?? '';
+  return first.length <= 80 && !/[.!?]$/.test(first) ? first : '';
+}
+
+/**
+ * Drops malformed entries and caps the lists, so analyzers can be trusted downstream.
+ * @returns {JobAnalysis}
+ */
+function normalizeAnalysis({ title, competencies, questions }) {
+  const validCompetencies = (Array.isArray(competencies) ? competencies : [])
+    .filter(c => c && typeof c.name === 'string' && c.name.trim())
+    .slice(0, MAX_COMPETENCIES)
+    .map(c => ({
+      name: c.name.trim(),
+      keywords: Array.isArray(c.keywords) ? c.keywords.filter(k => typeof k === 'string' && k.trim()).map(k => k.trim()) : [],
+    }));
+  const validQuestions = (Array.isArray(questions) ? questions : [])
+    .filter(q => q && typeof q.text === 'string' && q.text.trim())
+    .slice(0, MAX_QUESTIONS)
+    .map(q => ({ text: q.text.trim(), competency: typeof q.competency === 'string' ? q.competency.trim() : '' }));
+  return { title: typeof title === 'string' ? title.trim() : '', competencies: validCompetencies, questions: validQuestions };
+}
+
+/**
+ * Deterministic offline analyzer: ranks built-in competencies and technologies by how often
+ * their cue words appear, and asks template questions about the strongest ones.
+ * @returns {JobAnalyzer}
+ */
+export function createHeuristicJobAnalyzer() {
+  return {
+    name: 'heuristic',
+    analyze: async ({ text }) => {
+      const lower = text.toLowerCase();
+
+      const soft = Object.entries(COMPETENCY_CUES)
+        .map(([name, { cues, questions }]) => {
+          const matched = cues.filter(cue => countMatches(lower, cue) > 0);
+          const score = cues.reduce((sum, cue) => sum + countMatches(lower, cue), 0);
+          return { name, keywords: matched, questions, score };
+        })
+        .filter(c => c.score > 0);
+
+      const technical = TECHNICAL_TERMS
+        .map(term => ({ term, score: countMatches(lower, term) }))
+        .filter(t => t.score > 0)
+        .sort((a, b) => b.score - a.score);
+      const technicalCompetency = technical.length
+        ? [{
+            name: 'Technical depth',
+            keywords: technical.map(t => t.term),
+            questions: technical.slice(0, 3).map(t => `What experience do you have with ${t.term}?`),
+            score: technical.reduce((sum, t) => sum + t.score, 0),
+          }]
+        : [];
+
+      const ranked = [...soft, ...technicalCompetency].sort((a, b) => b.score - a.score).slice(0, MAX_COMPETENCIES);
+      // One question per competency first, then the follow-ups
+      const questions = [];
+      for (let round = 0; questions.length < MAX_QUESTIONS && ranked.some(c => c.questions[round]); round++) {
+        for (const c of ranked) {
+          if (c.questions[round]) questions.push({ text: c.questions[round], competency: c.name });
+        }
+      }
+
+      return normalizeAnalysis({
+        title: guessTitle(text),
+        competencies: ranked.map(({ name, keywords }) => ({ name, keywords })),
+        questions,
+      });
+    },
+  };
+}
+
+/**
+ * Extracts competencies and likely questions with Gemini, falling back to the heuristic
+ * analyzer on API errors or an unusable response.
+ * @param {import('@google/genai').GoogleGenAI} ai
+ * @returns {JobAnalyzer}
+ */
+export function createGeminiJobAnalyzer(ai, model = DEFAULT_JOB_ANALYSIS_MODEL) {
+  const fallback = createHeuristicJobAnalyzer();
+
+  return {
+    name: 'gemini',
+    analyze: async ({ text, signal }) => {
+      const prompt = `Here is a job description:
+
+${text}
+
+Identify the role's title and its ${MAX_COMPETENCIES} most important competencies (skills, technologies or behaviors the interviewers will probe), each with a few keywords from the description. Then list up to ${MAX_QUESTIONS} questions the candidate is likely to be asked, behavioral and technical, each tagged with the competency it tests.`;
+
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            temperature: 0,
+            abortSignal: signal,
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: 'OBJECT',
+              properties: {
+                title: { type: 'STRING' },
+                competencies: {
+                  type: 'ARRAY',
+                  items: { type: 'OBJECT', properties: { name: { type: 'STRING' }, keywords: { type: 'ARRAY', items: { type: 'STRING' } } }, required: ['name', 'keywords'] },
+                },
+                questions: {
+                  type: 'ARRAY',
+                  items: { type: 'OBJECT', properties: { text: { type: 'STRING' }, competency: { type: 'STRING' } }, required: ['text', 'competency'] },
+                },
+              },
+              required: ['title', 'competencies', 'questions'],
+            },
+          },
+        });
+        const analysis = normalizeAnalysis(JSON.parse(response.text));
+        if (analysis.questions.length === 0) throw new Error('No questions in the response');
+        return analysis;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('Gemini job analysis failed, using the heuristic analyzer:', error.message);
+        return fallback.analyze({ text });
+      }
+    },
+  };
+}
+
+/**
+ * Selects the analyzer: "heuristic" for the deterministic offline one, anything else for Gemini.
+ * @returns {JobAnalyzer}
+ */
+export function createJobAnalyzer(name, ai, model) {
+  return name === 'heuristic' ? createHeuristicJobAnalyzer() : createGeminiJobAnalyzer(ai, model);
+}
+
+/**
+ * Analyzes a job description and searches the vault for every predicted question, so answers
+ * are ready before the interview. Each competency is also searched on its own; the memories
+ * that match are returned as `focusIds`, for boosting during the live session.
+ * @param {object} options
+ * @param {JobAnalyzer} options.analyzer
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {string} options.text The job description.
+ * @param {number} [options.limit] Memories per question.
+ * @param {number | null} [options.diversityThreshold] See `hybridSearch`.
+ */
+export async function prepareForJob({ analyzer, embeddings, store, text, limit = 3, diversityThreshold }) {
+  const analysis = await analyzer.analyze({ text });
+  const competencyQueries = analysis.competencies.map(c => [c.name, ...c.keywords].join(', '));
+
+  // One batched embedding call; the searches below then hit the cache
+  await embeddings.embedMany([...analysis.questions.map(q => q.text), ...competencyQueries]);
+
+  const [questions, competencies] = await Promise.all([
+    Promise.all(analysis.questions.map(async question => ({
+      ...question,
+      results: await hybridSearch({ embeddings, store, query: question.text, limit, diversityThreshold }),
+    }))),
+    Promise.all(analysis.competencies.map(async (competency, index) => {
+      const results = await hybridSearch({ embeddings, store, query: competencyQueries[index], limit: COMPETENCY_MEMORY_LIMIT, diversityThreshold });
+      const relevant = results.filter(result => result.scoreBreakdown.semantic >= MIN_COMPETENCY_SCORE);
+      return { ...competency, memoryIds: relevant.map(result => result.id) };
+    })),
+  ]);
+
+  return {
+    title: analysis.title,
+    analyzer: analyzer.name,
+    competencies,
+    questions,
+    focusIds: [...new Set(competencies.flatMap(c => c.memoryIds))],
+  };
+}
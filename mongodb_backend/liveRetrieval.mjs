@@ -0,0 +1,253 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { WebSocketServer } from 'ws';
+import { scopeStore } from './storage/index.mjs';
+import { hybridSearch, parseFocusIds, parseSearchFilters, DEFAULT_LEXICAL_WEIGHT } from './retrieval.mjs';
+import { createDetector, parseDetectionKeywords, DEFAULT_DETECTION_KEYWORDS, DETECTION_KEYWORD_PACKS, DETECTOR_NAMES } from './questionDetection.mjs';
+import { parseConversationContext, rewriteQuery } from './queryRewriting.mjs';
+import { parseLanguage, translateQuery } from './queryTranslation.mjs';
+
+export const LIVE_RETRIEVAL_PATH = '/api/live';
+
+const MAX_LIMIT = 20;
+
+/*
+ * Protocol (JSON messages)
+ *
+ * Client → server:
+ *   { type: "configure", detector?, language?, keywords?, limit?, filters?, lexicalWeight?, focusIds? }
+ *                                                    a new language without keywords selects its keyword pack
+ *   { type: "segment", groupId, text, context? }    one finished interviewer sentence, with the
+ *                                                    conversation so far ({ turns, memoryIds })
+ *
+ * Server → client, all tagged with the segment's groupId:
+ *   { type: "verdict", groupId, isQuestion, reason }
+ *   { type: "rewrite", groupId, query, reason }            a follow-up was searched as this query
+ *   { type: "translation", groupId, query, language }      the question was translated from `language` and searched as this query
+ *   { type: "results", groupId, results, final: false }   vector-only results, sent as soon as they exist
+ *   { type: "results", groupId, results, final: true }    the fused hybrid results
+ *   { type: "cancelled", groupId }                         a newer question superseded this one
+ *   { type: "error", groupId?, error }
+ */
+
+/**
+ * Handles one client connection. Each question supersedes the previous one: its search is
+ * aborted and nothing more is sent for it, so results never arrive for a question the
+ * conversation has moved past.
+ * @param {object} options
+ * @param {import('@google/genai').GoogleGenAI} options.ai Used by the LLM detectors.
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {import('./queryRewriting.mjs').QueryRewriter | null} [options.rewriter]
+ * @param {import('./queryTranslation.mjs').QueryTranslator | null} [options.translator]
+ * @param {string} [options.vaultLanguage] Questions in other languages are translated into it.
+ * @param {string} [options.detectionModel] Used by the LLM detectors.
+ * @param {number} [options.duplicateThreshold] Near-duplicate results share one slot; see `hybridSearch`.
+ * @param {(message: object) => void} options.send
+ */
+export function createLiveRetrievalSession({ ai, embeddings, store, rewriter = null, translator = null, vaultLanguage = 'en', detectionModel, duplicateThreshold, send }) {
+  const settings = {
+    detector: 'keyword',
+    // The interview's language; undefined searches questions as asked
+    language: undefined,
+    keywords: DEFAULT_DETECTION_KEYWORDS,
+    limit: 3,
+    filter: {},
+    lexicalWeight: DEFAULT_LEXICAL_WEIGHT,
+    // Favoured in the ranking, e.g. memories matching the job description
+    focusIds: [],
+  };
+  let detector = createDetector(settings.detector, { ai, keywords: settings.keywords, model: detectionModel });
+
+  // Segments are numbered on arrival; a slow verdict for an older segment must not cancel a newer search
+  let segmentSeq = 0;
+  let active = null; // { seq, groupId, controller }
+
+  const cancelActive = () => {
+    if (!active) return;
+    active.controller.abort();
+    send({ type: 'cancelled', groupId: active.groupId });
+    active = null;
+  };
+
+  const configure = (message) => {
+    const { detector: detectorName, language: rawLanguage, keywords, limit, filters, lexicalWeight, focusIds: rawFocusIds } = message;
+
+    if (detectorName !== undefined && !DETECTOR_NAMES.includes(detectorName)) {
+      return send({ type: 'error', error: `"detector" must be one of: ${DETECTOR_NAMES.join(', ')}` });
+    }
+    const { language, error: languageError } = parseLanguage(rawLanguage);
+    if (languageError) {
+      return send({ type: 'error', error: languageError });
+    }
+    const languageChanged = language !== undefined && language !== settings.language;
+    const defaultKeywords = languageChanged ? DETECTION_KEYWORD_PACKS[language] : settings.keywords;
+    const parsedKeywords = keywords === undefined ? defaultKeywords : parseDetectionKeywords(keywords);
+    if (!parsedKeywords) {
+      return send({ type: 'error', error: '"keywords" must be { phrases: string[], topics: string[], openers?: string[] }' });
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)) {
+      return send({ type: 'error', error: `"limit" must be an integer between 1 and ${MAX_LIMIT}` });
+    }
+    if (lexicalWeight !== undefined && (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1)) {
+      return send({ type: 'error', error: '"lexicalWeight" must be a number between 0 and 1' });
+    }
+    const { filter, error } = parseSearchFilters(filters);
+    if (error) {
+      return send({ type: 'error', error });
+    }
+    const { focusIds, error: focusError } = parseFocusIds(rawFocusIds);
+    if (focusError) {
+      return send({ type: 'error', error: focusError });
+    }
+
+    Object.assign(settings, {
+      detector: detectorName ?? settings.detector,
+      language: language ?? settings.language,
+      keywords: parsedKeywords,
+      limit: limit ?? settings.limit,
+      filter: filters === undefined ? settings.filter : filter,
+      lexicalWeight: lexicalWeight ?? settings.lexicalWeight,
+      focusIds: rawFocusIds === undefined ? settings.focusIds : focusIds,
+    });
+    detector = createDetector(settings.detector, { ai, keywords: settings.keywords, model: detectionModel });
+  };
+
+  const handleSegment = async ({ groupId, text, context: rawContext }) => {
+    if (!Number.isInteger(groupId) || typeof text !== 'string' || !text.trim()) {
+      return send({ type: 'error', groupId, error: 'A segment needs an integer "groupId" and non-empty "text"' });
+    }
+    const { context, error } = parseConversationContext(rawContext);
+    if (error) {
+      return send({ type: 'error', groupId, error });
+    }
+
+    const seq = ++segmentSeq;
+    const verdict = await detector.detect(text.trim());
+    send({ type: 'verdict', groupId, ...verdict });
+    if (!verdict.isQuestion) return;
+
+    if (active && active.seq > seq) {
+      // A newer question is already being searched
+      return send({ type: 'cancelled', groupId });
+    }
+    cancelActive();
+
+    const controller = new AbortController();
+    active = { seq, groupId, controller };
+    const { language, limit, filter, lexicalWeight, focusIds } = settings;
+
+    try {
+      const rewrite = await rewriteQuery({ rewriter, question: text.trim(), context, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (rewrite.rewritten) {
+        send({ type: 'rewrite', groupId, query: rewrite.query, reason: rewrite.reason });
+      }
+
+      const translation = await translateQuery({ translator, query: rewrite.query, language, vaultLanguage, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (translation.translated) {
+        send({ type: 'translation', groupId, query: translation.query, language: translation.language });
+      }
+
+      const results = await hybridSearch({
+        embeddings,
+        store,
+        query: translation.query,
+        limit,
+        filter,
+        lexicalWeight,
+        boostIds: rewrite.boostIds,
+        focusIds,
+        diversityThreshold: duplicateThreshold,
+        signal: controller.signal,
+        onPreliminaryResults: (preliminary) => send({ type: 'results', groupId, results: preliminary, final: false }),
+      });
+      send({ type: 'results', groupId, results, final: true });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error in live retrieval search:', error);
+      send({ type: 'error', groupId, error: error.message });
+    } finally {
+      if (active?.controller === controller) active = null;
+    }
+  };
+
+  return {
+    handleMessage: (message) => {
+      switch (message?.type) {
+        case 'configure': return configure(message);
+        case 'segment': return handleSegment(message);
+        default: return send({ type: 'error', error: `Unknown message type "${message?.type}"` });
+      }
+    },
+    close: () => {
+      active?.controller.abort();
+      active = null;
+    },
+  };
+}
+
+/**
+ * Serves the live retrieval channel over WebSocket on the HTTP server. Browsers can't set
+ * headers on WebSocket requests, so the profile token is passed as a `token` query parameter;
+ * each connection only searches that profile's vault.
+ * @param {object} options
+ * @param {import('node:http').Server} options.server
+ * @param {import('@google/genai').GoogleGenAI} options.ai
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {ReturnType<import('./profiles.mjs').createProfileRegistry>} options.profiles
+ * @param {import('./queryRewriting.mjs').QueryRewriter | null} [options.rewriter]
+ * @param {import('./queryTranslation.mjs').QueryTranslator | null} [options.translator]
+ * @param {string} [options.vaultLanguage]
+ * @param {string} [options.detectionModel]
+ * @param {number} [options.duplicateThreshold]
+ */
+export function attachLiveRetrieval({ server, ai, embeddings, store, profiles, rewriter = null, translator = null, vaultLanguage, detectionModel, duplicateThreshold }) {
+  const wss = new WebSocketServer({
+    server,
+    path: LIVE_RETRIEVAL_PATH,
+    verifyClient: ({ req }, done) => {
+      const token = new URL(req.url, 'http://localhost').searchParams.get('token');
+      profiles.authenticate(token)
+        .then(profile => {
+          req.profile = profile;
+          done(Boolean(profile), 401, 'Missing or invalid API token');
+        })
+        .catch(error => {
+          console.error('Error authenticating live retrieval client:', error);
+          done(false, 500);
+        });
+    },
+  });
+
+  wss.on('connection', (socket, req) => {
+    const send = (message) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+    };
+    const session = createLiveRetrievalSession({ ai, embeddings, store: scopeStore(store, req.profile.id), rewriter, translator, vaultLanguage, detectionModel, duplicateThreshold, send });
+
+    socket.on('message', async (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return send({ type: 'error', error: 'Messages must be JSON' });
+      }
+      try {
+        await session.handleMessage(message);
+      } catch (error) {
+        console.error('Error in live retrieval channel:', error);
+        send({ type: 'error', groupId: message.groupId, error: error.message });
+      }
+    });
+    socket.on('close', () => session.close());
+  });
+
+  return wss;
+}
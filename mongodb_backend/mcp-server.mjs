@@ -4,117 +4,341 @@ import fetch, { Headers } from 'node-fetch';
 globalThis.fetch = fetch;
 globalThis.Headers = Headers;
 
+// stdout carries the MCP protocol; send all logging (including the stores') to stderr
+console.log = console.error;
+
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { MongoClient } from 'mongodb';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { GoogleGenAI } from '@google/genai';
+import { mcpToolSchema, validate } from './apiContract.mjs';
+import { loadConfig } from './config.mjs';
+import { createStoreFromConfig, scopeStore } from './storage/index.mjs';
+import { createProfileRegistryFromConfig } from './profiles.mjs';
+import { createRedactorFromConfig, redactClient } from './redaction.mjs';
+import { hybridSearch, parseSearchFilters, DEFAULT_LEXICAL_WEIGHT } from './retrieval.mjs';
+import { createEmbeddingServiceFromConfig } from './embeddings.mjs';
+import { findDuplicateClusters, insertUnlessDuplicate, mergeMemories } from './dedupe.mjs';
+import { CATEGORIES } from './ingestion.mjs';
+import { applyMemoryUpdate, parseMemoryUpdate, parseMergeRequest, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './memoriesRouter.mjs';
+
+const config = loadConfig();
+// The MCP server runs locally with direct store access, so it is scoped by profile id rather than a token
+const ONCUE_PROFILE = process.env.ONCUE_PROFILE;
 
-const MONGO_DB_URI = process.env.MONGO_DB_URI;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+if (!config.geminiApiKey || !ONCUE_PROFILE) {
+  throw new Error("Missing required environment variables GEMINI_API_KEY and ONCUE_PROFILE");
+}
 
-if (!MONGO_DB_URI || !GEMINI_API_KEY) {
-  throw new Error("Missing required environment variables");
+const profile = await createProfileRegistryFromConfig(config).getProfile(ONCUE_PROFILE);
+if (!profile) {
+  throw new Error(`Unknown profile "${ONCUE_PROFILE}". List profiles with: npm run admin -- profile list`);
 }
 
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
-const mongoClient = new MongoClient(MONGO_DB_URI);
+const ai = redactClient(new GoogleGenAI({ apiKey: config.geminiApiKey }), createRedactorFromConfig(config));
+const embeddings = createEmbeddingServiceFromConfig(ai, config);
+// One connection for the life of the server, shared by every call
+const baseStore = createStoreFromConfig(config);
+const store = scopeStore(baseStore, profile.id);
+
+const CATEGORY_NAMES = Object.keys(CATEGORIES);
+const CATEGORIES_URI = 'oncue://categories';
+const SOURCE_URI_PREFIX = 'oncue://sources/';
 
 const server = new Server(
   {
     name: "OnCue",
-    version: "1.0.0",
+    version: "1.1.0",
   },
   {
     capabilities: {
       tools: {},
+      resources: {},
+      prompts: {},
     },
   }
 );
 
+// --- TOOLS ---
+
+/**
+ * Each tool's input schema comes from the API contract (apiContract.mjs), and arguments are
+ * validated against it before the handler runs. The handler returns a JSON-serializable
+ * result, or throws to report an error to the agent.
+ */
+const TOOLS = {
+  vector_search: {
+    description: `Search the "${profile.name}" vault's stored memories using hybrid vector + keyword search. Returns the most relevant memories with a semantic/lexical score breakdown.`,
+    inputSchema: mcpToolSchema('vector_search'),
+    handler: async ({ query, limit = 5, filters, lexicalWeight = DEFAULT_LEXICAL_WEIGHT }) => {
+      const { filter, error } = parseSearchFilters(filters);
+      if (error) throw new Error(error);
+
+      return hybridSearch({ embeddings, store, query, limit, filter, lexicalWeight, diversityThreshold: config.embeddings.duplicateThreshold });
+    },
+  },
+
+  list_memories: {
+    description: "List stored memories, newest first, optionally only one classification or source file. Paginated.",
+    inputSchema: mcpToolSchema('list_memories'),
+    handler: async ({ classification, sourceFile, page = 1, pageSize = DEFAULT_PAGE_SIZE }) => {
+      const { filter, error } = parseSearchFilters({ classification, sourceFile });
+      if (error) throw new Error(error);
+      const safePage = Math.max(1, page);
+      const safePageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, pageSize));
+
+      const [memories, total] = await Promise.all([
+        store.list(filter, { skip: (safePage - 1) * safePageSize, limit: safePageSize }),
+        store.count(filter),
+      ]);
+      return { memories, total, page: safePage, pageSize: safePageSize };
+    },
+  },
+
+  save_memory: {
+    description: "Save a new memory to the vault. It is embedded so later searches can find it. If the vault already has a near-duplicate, nothing is saved and that memory is returned as `duplicate`; consider update_memory or merge_memories instead.",
+    inputSchema: mcpToolSchema('save_memory'),
+    handler: async ({ classification, description, sourceFile, allowDuplicate = false }) => {
+      if (![classification, description, sourceFile].every(value => typeof value === 'string' && value.trim())) {
+        throw new Error('"classification", "description" and "sourceFile" are required');
+      }
+
+      return insertUnlessDuplicate({
+        embeddings,
+        store,
+        memory: { classification, description: description.trim() },
+        sourceFile: sourceFile.trim(),
+        threshold: config.embeddings.duplicateThreshold,
+        allowDuplicate: Boolean(allowDuplicate),
+      });
+    },
+  },
+
+  find_duplicates: {
+    description: `List clusters of near-duplicate memories in the vault, most copies first. The default threshold is ${config.embeddings.duplicateThreshold}.`,
+    inputSchema: mcpToolSchema('find_duplicates'),
+    handler: async ({ threshold = config.embeddings.duplicateThreshold }) => {
+      return { clusters: await findDuplicateClusters({ embeddings, store, threshold }) };
+    },
+  },
+
+  merge_memories: {
+    description: "Merge memories about the same thing into one. Their descriptions are combined (or replaced by `description`), every source file is kept, and the others are deleted. Ask the user first.",
+    inputSchema: mcpToolSchema('merge_memories'),
+    handler: async (args) => {
+      const { merge, error } = parseMergeRequest(args);
+      if (error) throw new Error(error);
+
+      const result = await mergeMemories({ embeddings, store, ...merge });
+      if (!result) throw new Error('One or more memories do not exist');
+      return result;
+    },
+  },
+
+  update_memory: {
+    description: "Change a memory's classification, description or source file by id. Re-embeds it when the text changes.",
+    inputSchema: mcpToolSchema('update_memory'),
+    handler: async ({ id, ...fields }) => {
+      const { updates, error } = parseMemoryUpdate(fields);
+      if (error) throw new Error(error);
+
+      const existing = await store.get(String(id));
+      if (!existing) throw new Error(`No memory with id "${id}"`);
+      return applyMemoryUpdate(embeddings, store, existing, updates);
+    },
+  },
+
+  delete_memory: {
+    description: "Delete a memory by id. This cannot be undone.",
+    inputSchema: mcpToolSchema('delete_memory'),
+    handler: async ({ id }) => {
+      if (!(await store.delete(String(id)))) throw new Error(`No memory with id "${id}"`);
+      return { deleted: true };
+    },
+  },
+};
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
-    tools: [
-      {
-        name: "vector_search",
-        description: "Search stored memories using vector similarity. Returns the top 5 most relevant memories based on semantic similarity.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: {
-              type: "string",
-              description: "The search query to find relevant memories",
-            },
-          },
-          required: ["query"],
-        },
-      },
-    ],
+    tools: Object.entries(TOOLS).map(([name, { description, inputSchema }]) => ({ name, description, inputSchema })),
   };
 });
 
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (request.params.name === "vector_search") {
-    const query = request.params.arguments.query;
-
-    try {
-      await mongoClient.connect();
-      const db = mongoClient.db("context");
-      const collection = db.collection("test1");
+  const tool = TOOLS[request.params.name];
+  if (!tool) {
+    throw new Error(`Unknown tool: ${request.params.name}`);
+  }
 
-      const embeddingResult = await ai.models.embedContent({
-        model: 'text-embedding-004',
-        contents: query,
-      });
-      const queryEmbedding = embeddingResult.embeddings[0].values;
+  try {
+    const args = request.params.arguments ?? {};
+    const errors = validate(tool.inputSchema, args);
+    if (errors.length > 0) throw new Error(errors.join('; '));
 
-      const results = await collection.aggregate([
+    const result = await tool.handler(args);
+    return {
+      content: [
         {
-          $vectorSearch: {
-            index: "vector_index",
-            path: "embedding",
-            queryVector: queryEmbedding,
-            numCandidates: 50,
-            limit: 5,
-          }
+          type: "text",
+          text: JSON.stringify(result, null, 2),
         },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
         {
-          $project: {
-            _id: 0,
-            classification: 1,
-            description: 1,
-            sourceFile: 1,
-            createdAt: 1,
-            score: { $meta: "vectorSearchScore" }
-          }
-        }
-      ]).toArray();
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(results, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error: ${error.message}`,
-          },
-        ],
-        isError: true,
-      };
-    }
+          type: "text",
+          text: `Error: ${error.message}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+});
+
+// --- RESOURCES ---
+
+/**
+ * Renders every memory from one source file as a Markdown document, grouped by classification.
+ */
+async function renderSource(sourceFile) {
+  const memories = await store.list({ sourceFile });
+  if (memories.length === 0) {
+    throw new Error(`No memories from source "${sourceFile}"`);
   }
 
-  throw new Error(`Unknown tool: ${request.params.name}`);
+  const sections = CATEGORY_NAMES
+    .map(category => [category, memories.filter(memory => memory.classification === category)])
+    .filter(([, items]) => items.length > 0)
+    .map(([category, items]) => `## ${category}\n\n${items.map(memory => `- ${memory.description} (id: ${memory.id})`).join('\n')}`);
+  return `# ${sourceFile}\n\n${sections.join('\n\n')}\n`;
+}
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const sources = await store.listSources();
+  return {
+    resources: [
+      {
+        uri: CATEGORIES_URI,
+        name: "Memory categories",
+        description: "The classification taxonomy every memory belongs to (primitives.json)",
+        mimeType: "application/json",
+      },
+      ...sources.map(({ sourceFile, count }) => ({
+        uri: `${SOURCE_URI_PREFIX}${encodeURIComponent(sourceFile)}`,
+        name: sourceFile,
+        description: `${count} memories from ${sourceFile}`,
+        mimeType: "text/markdown",
+      })),
+    ],
+  };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: `${SOURCE_URI_PREFIX}{sourceFile}`,
+        name: "Source document",
+        description: "All memories from one source file, grouped by classification",
+        mimeType: "text/markdown",
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+
+  if (uri === CATEGORIES_URI) {
+    return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(CATEGORIES, null, 2) }] };
+  }
+  if (uri.startsWith(SOURCE_URI_PREFIX)) {
+    const sourceFile = decodeURIComponent(uri.slice(SOURCE_URI_PREFIX.length));
+    return { contents: [{ uri, mimeType: "text/markdown", text: await renderSource(sourceFile) }] };
+  }
+  throw new Error(`Unknown resource: ${uri}`);
+});
+
+// --- PROMPTS ---
+
+const taxonomy = Object.entries(CATEGORIES).map(([name, description]) => `- ${name}: ${description}`).join('\n');
+
+const PROMPTS = {
+  behavioral_interview_prep: {
+    description: "Prepare me for a behavioral interview using the stories in my vault",
+    arguments: [
+      { name: "role", description: "The role I'm interviewing for", required: false },
+      { name: "company", description: "The company I'm interviewing with", required: false },
+    ],
+    render: ({ role, company }) => `I have a behavioral interview${role ? ` for the ${role} role` : ''}${company ? ` at ${company}` : ''}. Help me prepare.
+
+1. List 6-8 behavioral questions I'm likely to be asked (leadership, conflict, failure, ambiguity, impact, teamwork).
+2. For each, use the vector_search tool (filter to the "experience" and "reflection" classifications) to find my most relevant stories.
+3. Outline an answer in STAR form (Situation, Task, Action, Result), citing the memory ids you used. Don't invent details that aren't in my memories.
+4. Point out questions where I have no good story, and ask me about one; when I answer, offer to save it with save_memory.`,
+  },
+
+  technical_interview_prep: {
+    description: "Prepare me for a technical interview on a topic, grounded in what I've done",
+    arguments: [
+      { name: "topic", description: "e.g. \"distributed systems\" or \"React performance\"", required: true },
+    ],
+    render: ({ topic }) => `I have a technical interview covering ${topic}. Help me prepare.
+
+1. Use vector_search to find what I know ("knowledge") and have built ("experience") related to ${topic}.
+2. Summarize my strongest talking points, citing memory ids, and the projects that best demonstrate them.
+3. List likely technical questions on ${topic} and, for each, which of my memories I could draw on.
+4. Call out gaps in my vault for ${topic} and quiz me on one of them.`,
+  },
+
+  vault_review: {
+    description: "Review my vault for gaps, duplicates and vague memories, and help me fix them",
+    arguments: [],
+    render: () => `Review my memory vault. The categories are:
+${taxonomy}
+
+1. Use find_duplicates to find near-duplicates, and list_memories to go through each category.
+2. Find memories that are vague or missing outcomes, and memories that look misclassified.
+3. Propose concrete fixes: merging duplicates (merge_memories), rewritten text (update_memory), reclassification, or deletion (delete_memory). Ask me before changing or deleting anything.
+4. Tell me which categories are thin and ask me questions to fill them, saving my answers with save_memory.`,
+  },
+};
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return {
+    prompts: Object.entries(PROMPTS).map(([name, { description, arguments: args }]) => ({ name, description, arguments: args })),
+  };
+});
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const prompt = PROMPTS[request.params.name];
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${request.params.name}`);
+  }
+  const args = request.params.arguments ?? {};
+  const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]);
+  if (missing.length) {
+    throw new Error(`Missing required arguments: ${missing.map(arg => arg.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: prompt.render(args) } }],
+  };
 });
 
 async function main() {
+  await baseStore.connect();
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express from 'express';
+import { validateRequest } from './apiContract.mjs';
+import { DEFAULT_DUPLICATE_THRESHOLD, findDuplicateClusters, mergeMemories } from './dedupe.mjs';
+import { embedMemory } from './embeddings.mjs';
+import { CATEGORIES } from './ingestion.mjs';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+export const EDITABLE_FIELDS = ['classification', 'description', 'sourceFile'];
+
+/**
+ * Validates a partial memory update; only EDITABLE_FIELDS are taken, trimmed.
+ * @returns {{ updates?: object, error?: string }}
+ */
+export function parseMemoryUpdate(body) {
+  const updates = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      if (typeof body[field] !== 'string' || !body[field].trim()) {
+        return { error: `Invalid value for "${field}"` };
+      }
+      updates[field] = body[field].trim();
+    }
+  }
+  if (Object.keys(updates).length === 0) {
+    return { error: `Nothing to update. Editable fields: ${EDITABLE_FIELDS.join(', ')}` };
+  }
+  return { updates };
+}
+
+/**
+ * Applies an update from `parseMemoryUpdate`, re-embedding when the embedded text changes.
+ * @param {import('./embeddings.mjs').EmbeddingService} embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} store
+ * @param {object} existing The memory as currently stored.
+ * @param {object} updates
+ * @returns {Promise<{ memory: object, reembedded: boolean }>}
+ */
+export async function applyMemoryUpdate(embeddings, store, existing, updates) {
+  const fields = { ...updates };
+  const merged = { ...existing, ...updates };
+  const reembedded = merged.classification !== existing.classification || merged.description !== existing.description;
+  if (reembedded) {
+    Object.assign(fields, await embedMemory(embeddings, merged));
+  }
+  fields.updatedAt = new Date().toISOString();
+
+  const memory = await store.update(existing.id, fields);
+  return { memory, reembedded };
+}
+
+/**
+ * Validates a merge request: at least two distinct `ids`, plus an optional `keepId` among them
+ * and an optional replacement `description` or `classification`.
+ * @returns {{ merge?: { ids: string[], keepId?: string, description?: string, classification?: string }, error?: string }}
+ */
+export function parseMergeRequest(body) {
+  const { ids, keepId, description, classification } = body;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string') || new Set(ids).size < 2) {
+    return { error: 'Expected an "ids" array of at least two distinct memory ids' };
+  }
+  if (keepId !== undefined && !ids.includes(keepId)) {
+    return { error: '"keepId" must be one of "ids"' };
+  }
+  for (const [field, value] of Object.entries({ description, classification })) {
+    if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+      return { error: `Invalid value for "${field}"` };
+    }
+  }
+  return { merge: { ids: [...new Set(ids)], keepId, description: description?.trim(), classification: classification?.trim() } };
+}
+
+/**
+ * Builds a store filter from `classification` (comma-separated) and `sourceFile` query params.
+ */
+function listFilter(query) {
+  const filter = {};
+  if (query.classification) {
+    filter.classification = String(query.classification).split(',').map(c => c.trim()).filter(Boolean);
+  }
+  if (query.sourceFile) {
+    filter.sourceFile = String(query.sourceFile);
+  }
+  return filter;
+}
+
+/**
+ * Vault management endpoints, mounted at /api/memories behind `requireProfileToken`,
+ * which provides the caller's vault as `req.store`.
+ * @param {object} deps
+ * @param {import('./embeddings.mjs').EmbeddingService} deps.embeddings
+ * @param {number} [deps.duplicateThreshold] Default similarity for the duplicates report.
+ */
+export function createMemoriesRouter({ embeddings, duplicateThreshold = DEFAULT_DUPLICATE_THRESHOLD }) {
+  const router = express.Router();
+
+  // Paginated listing, newest first
+  router.get('/', validateRequest('listMemories'), async (req, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page, 10) || 1);
+      const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE));
+      const filter = listFilter(req.query);
+
+      const [memories, total] = await Promise.all([
+        req.store.list(filter, { skip: (page - 1) * pageSize, limit: pageSize }),
+        req.store.count(filter),
+      ]);
+
+      res.status(200).json({ success: true, memories, total, page, pageSize });
+    } catch (error) {
+      console.error('Error in GET /api/memories:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Distinct source files with memory counts, for filter dropdowns
+  router.get('/sources', validateRequest('listSources'), async (req, res) => {
+    try {
+      const sources = await req.store.listSources();
+
+      res.status(200).json({ success: true, sources });
+    } catch (error) {
+      console.error('Error in GET /api/memories/sources:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // The classification taxonomy from primitives.json
+  router.get('/categories', validateRequest('getCategories'), (req, res) => {
+    res.status(200).json({ success: true, categories: CATEGORIES });
+  });
+
+  // Clusters of near-duplicate memories; `threshold` overrides the configured similarity
+  router.get('/duplicates', validateRequest('findDuplicates'), async (req, res) => {
+    try {
+      const threshold = req.query.threshold === undefined ? duplicateThreshold : Number(req.query.threshold);
+      if (!(threshold >= 0.5 && threshold <= 1)) {
+        return res.status(400).json({ success: false, error: '"threshold" must be a number between 0.5 and 1' });
+      }
+
+      const clusters = await findDuplicateClusters({ embeddings, store: req.store, threshold });
+
+      res.status(200).json({ success: true, clusters, threshold });
+    } catch (error) {
+      console.error('Error in GET /api/memories/duplicates:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Merges memories into one, keeping every source file, and re-embeds it
+  router.post('/merge', validateRequest('mergeMemories'), async (req, res) => {
+    try {
+      const { merge, error } = parseMergeRequest(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error });
+      }
+
+      const result = await mergeMemories({ embeddings, store: req.store, ...merge });
+      if (!result) {
+        return res.status(404).json({ success: false, error: 'Memory not found' });
+      }
+
+      res.status(200).json({ success: true, ...result });
+    } catch (error) {
+      console.error('Error in POST /api/memories/merge:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  router.get('/:id', validateRequest('getMemory'), async (req, res) => {
+    try {
+      const memory = await req.store.get(req.params.id);
+      if (!memory) {
+        return res.status(404).json({ success: false, error: 'Memory not found' });
+      }
+
+      res.status(200).json({ success: true, memory });
+    } catch (error) {
+      console.error('Error in GET /api/memories/:id:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Partial update; re-embeds when the embedded text changes
+  router.patch('/:id', validateRequest('updateMemory'), async (req, res) => {
+    try {
+      const existing = await req.store.get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Memory not found' });
+      }
+
+      const { updates, error } = parseMemoryUpdate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error });
+      }
+
+      const { memory, reembedded } = await applyMemoryUpdate(embeddings, req.store, existing, updates);
+
+      res.status(200).json({ success: true, memory, reembedded });
+    } catch (error) {
+      console.error('Error in PATCH /api/memories/:id:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  router.delete('/:id', validateRequest('deleteMemory'), async (req, res) => {
+    try {
+      const deleted = await req.store.delete(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Memory not found' });
+      }
+
+      res.status(200).json({ success: true, deletedCount: 1 });
+    } catch (error) {
+      console.error('Error in DELETE /api/memories/:id:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Bulk delete by ids
+  router.post('/bulk-delete', validateRequest('bulkDeleteMemories'), async (req, res) => {
+    try {
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return res.status(400).json({ success: false, error: 'Expected a non-empty "ids" array' });
+      }
+
+      const deletedCount = await req.store.deleteMany({ ids: ids.map(String) });
+
+      res.status(200).json({ success: true, deletedCount });
+    } catch (error) {
+      console.error('Error in POST /api/memories/bulk-delete:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Delete everything that came from one source file
+  router.delete('/', validateRequest('deleteMemoriesBySource'), async (req, res) => {
+    try {
+      const { sourceFile } = req.query;
+      if (!sourceFile) {
+        return res.status(400).json({ success: false, error: 'Missing sourceFile parameter' });
+      }
+
+      const deletedCount = await req.store.deleteMany({ sourceFile: String(sourceFile) });
+
+      res.status(200).json({ success: true, deletedCount });
+    } catch (error) {
+      console.error('Error in DELETE /api/memories:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Force a re-embed, e.g. after editing documents directly in Atlas
+  router.post('/:id/re-embed', validateRequest('reembedMemory'), async (req, res) => {
+    try {
+      const existing = await req.store.get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Memory not found' });
+      }
+
+      const embedded = await embedMemory(embeddings, existing);
+      await req.store.update(req.params.id, { ...embedded, updatedAt: new Date().toISOString() });
+
+      res.status(200).json({ success: true });
+    } catch (error) {
+      console.error('Error in POST /api/memories/:id/re-embed:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const TOKEN_PREFIX = 'oncue_';
+
+/**
+ * @typedef {object} Profile
+ * @property {string} id Also the vault namespace stored on each memory as `profileId`.
+ * @property {string} name
+ * @property {string} createdAt
+ */
+
+/**
+ * @typedef {object} TokenRecord
+ * @property {string} id Public identifier, used to revoke the token.
+ * @property {string} profileId
+ * @property {string} label
+ * @property {string} hash SHA-256 of the token; the token itself is never stored.
+ * @property {string} createdAt
+ */
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Profiles and their API tokens, kept in a JSON file that the admin command writes and
+ * the servers read. The file is re-read whenever it changes on disk, so tokens issued or
+ * revoked while the server runs take effect on the next request.
+ * @param {object} options
+ * @param {string} options.filePath
+ */
+export function createProfileRegistry({ filePath }) {
+  let data = { profiles: [], tokens: [] };
+  let loadedMtime = null;
+
+  const load = async () => {
+    let mtime;
+    try {
+      mtime = (await stat(filePath)).mtimeMs;
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      data = { profiles: [], tokens: [] };
+      loadedMtime = null;
+      return data;
+    }
+    if (mtime !== loadedMtime) {
+      const parsed = JSON.parse(await readFile(filePath, 'utf8'));
+      data = { profiles: parsed.profiles ?? [], tokens: parsed.tokens ?? [] };
+      loadedMtime = mtime;
+    }
+    return data;
+  };
+
+  const save = async () => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    await rename(tmpPath, filePath);
+    loadedMtime = (await stat(filePath)).mtimeMs;
+  };
+
+  const requireProfile = async (profileId) => {
+    const profile = (await load()).profiles.find(p => p.id === profileId);
+    if (!profile) throw new Error(`No profile "${profileId}"`);
+    return profile;
+  };
+
+  return {
+    /** @returns {Promise<Profile[]>} */
+    listProfiles: async () => (await load()).profiles,
+
+    /** @returns {Promise<Profile | null>} */
+    getProfile: async (profileId) => (await load()).profiles.find(p => p.id === profileId) ?? null,
+
+    /** @returns {Promise<Profile>} */
+    createProfile: async (profileId, name = profileId) => {
+      if (!PROFILE_ID_PATTERN.test(profileId)) {
+        throw new Error('Profile ids are 1-40 lowercase letters, digits or dashes, starting with a letter or digit');
+      }
+      const { profiles } = await load();
+      if (profiles.some(p => p.id === profileId)) {
+        throw new Error(`Profile "${profileId}" already exists`);
+      }
+      const profile = { id: profileId, name, createdAt: new Date().toISOString() };
+      profiles.push(profile);
+      await save();
+      return profile;
+    },
+
+    /** Removes a profile and revokes its tokens. Its memories are left in the store. */
+    deleteProfile: async (profileId) => {
+      await requireProfile(profileId);
+      data.profiles = data.profiles.filter(p => p.id !== profileId);
+      data.tokens = data.tokens.filter(t => t.profileId !== profileId);
+      await save();
+    },
+
+    /**
+     * Issues a new token for a profile.
+     * @returns {Promise<{ token: string, record: TokenRecord }>} The token is only available here.
+     */
+    issueToken: async (profileId, label = '') => {
+      await requireProfile(profileId);
+      const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+      const record = {
+        id: randomBytes(4).toString('hex'),
+        profileId,
+        label,
+        hash: hashToken(token),
+        createdAt: new Date().toISOString(),
+      };
+      data.tokens.push(record);
+      await save();
+      return { token, record };
+    },
+
+    /** @returns {Promise<TokenRecord[]>} */
+    listTokens: async (profileId) => (await load()).tokens.filter(t => !profileId || t.profileId === profileId),
+
+    /** @returns {Promise<boolean>} Whether a token with that id existed. */
+    revokeToken: async (tokenId) => {
+      const { tokens } = await load();
+      if (!tokens.some(t => t.id === tokenId)) return false;
+      data.tokens = tokens.filter(t => t.id !== tokenId);
+      await save();
+      return true;
+    },
+
+    /**
+     * Resolves a presented token to its profile.
+     * @returns {Promise<Profile | null>} Null for unknown or revoked tokens.
+     */
+    authenticate: async (token) => {
+      if (typeof token !== 'string' || !token.startsWith(TOKEN_PREFIX)) return null;
+      const { profiles, tokens } = await load();
+      const hash = hashToken(token);
+      const record = tokens.find(t => t.hash === hash);
+      return record ? profiles.find(p => p.id === record.profileId) ?? null : null;
+    },
+  };
+}
+
+/**
+ * The registry at the configured `profilesPath` (PROFILES_PATH, default data/profiles.json).
+ */
+export function createProfileRegistryFromConfig(config) {
+  return createProfileRegistry({ filePath: config.profilesPath });
+}
+
+/**
+ * Express middleware requiring `Authorization: Bearer <token>`. Sets `req.profile` and
+ * `req.store`, the memory store scoped to that profile's vault.
+ * @param {ReturnType<typeof createProfileRegistry>} registry
+ * @param {(profileId: string) => import('./storage/index.mjs').MemoryStore} storeFor
+ */
+export function requireProfileToken(registry, storeFor) {
+  return async (req, res, next) => {
+    try {
+      const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+      const profile = scheme === 'Bearer' ? await registry.authenticate(token) : null;
+      if (!profile) {
+        return res.status(401).json({ success: false, error: 'Missing or invalid API token' });
+      }
+      req.profile = profile;
+      req.store = storeFor(profile.id);
+      next();
+    } catch (error) {
+      console.error('Error authenticating request:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+}
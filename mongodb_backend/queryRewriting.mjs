@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const DEFAULT_REWRITE_MODEL = 'gemini-2.0-flash';
+const SPEAKERS = ['interviewer', 'candidate'];
+const MAX_TURNS = 12;
+const MAX_TURN_LENGTH = 2000;
+const MAX_MEMORY_IDS = 50;
+// Words of conversation the heuristic rewriter appends to a follow-up
+const HEURISTIC_CONTEXT_WORDS = 40;
+
+// A question that leans on earlier turns: opens with a connective, or points back with a pronoun
+const FOLLOW_UP_CUES = [
+  { pattern: /^(and|so|but|also|then|okay so|ok so)\b/i, reason: 'opens with a connective' },
+  { pattern: /^(what|how) about\b/i, reason: '"what/how about"' },
+  { pattern: /\b(of|about|with|on|from|in|after|during|for|behind|like) (that|this|it|those|them)\b/i, reason: 'refers back with a pronoun' },
+  { pattern: /\b(did|does|was|is|were|are|would) (it|that|this|they)\b/i, reason: 'refers back with a pronoun' },
+  { pattern: /\b(that|this|the same) (project|situation|time|experience|decision|team|role|company|migration|one|approach|issue|problem|system)\b/i, reason: 'refers to something mentioned earlier' },
+  { pattern: /\b(the team|they|them|it|that|this)[?.!]*$/i, reason: 'ends with a reference back' },
+  { pattern: /\b(the hardest part|what happened next|what did you learn|what would you do differently|why\?$)/i, reason: 'follow-up phrasing' },
+];
+
+/**
+ * @typedef {object} ConversationContext
+ * @property {Array<{ speaker: 'interviewer'|'candidate', text: string }>} turns Recent sentences, oldest first.
+ * @property {string[]} memoryIds Memories already surfaced in the conversation, most recent first.
+ */
+
+/**
+ * @typedef {object} QueryRewriter
+ * @property {string} name
+ * @property {(input: { question: string, context: ConversationContext, signal?: AbortSignal }) => Promise<string>} rewrite
+ *   Returns a self-contained search query for the question.
+ */
+
+/**
+ * Validates the conversation `context` accepted by search endpoints and the live channel.
+ * @returns {{ context?: ConversationContext, error?: string }}
+ */
+export function parseConversationContext(context) {
+  if (context === undefined || context === null) return { context: { turns: [], memoryIds: [] } };
+  if (typeof context !== 'object' || Array.isArray(context)) {
+    return { error: '"context" must be an object' };
+  }
+
+  const { turns = [], memoryIds = [] } = context;
+  const validTurns = Array.isArray(turns) && turns.every(turn =>
+    turn && SPEAKERS.includes(turn.speaker) && typeof turn.text === 'string');
+  if (!validTurns) {
+    return { error: '"context.turns" must be an array of { speaker: "interviewer"|"candidate", text }' };
+  }
+  if (!Array.isArray(memoryIds) || !memoryIds.every(id => typeof id === 'string')) {
+    return { error: '"context.memoryIds" must be an array of strings' };
+  }
+
+  return {
+    context: {
+      turns: turns.slice(-MAX_TURNS).map(({ speaker, text }) => ({ speaker, text: text.slice(0, MAX_TURN_LENGTH) })),
+      memoryIds: memoryIds.slice(0, MAX_MEMORY_IDS),
+    },
+  };
+}
+
+/**
+ * Why a question looks like a follow-up to the conversation so far, or null if it stands alone.
+ */
+export function followUpCue(question) {
+  const text = question.trim();
+  return FOLLOW_UP_CUES.find(({ pattern }) => pattern.test(text))?.reason ?? null;
+}
+
+/**
+ * Rewrites a follow-up with Gemini, using the recent turns to resolve what it refers to.
+ * Falls back to the heuristic rewriter on API errors.
+ * @param {import('@google/genai').GoogleGenAI} ai
+ * @returns {QueryRewriter}
+ */
+export function createGeminiRewriter(ai, model = DEFAULT_REWRITE_MODEL) {
+  const fallback = createHeuristicRewriter();
+
+  return {
+    name: 'gemini',
+    rewrite: async ({ question, context, signal }) => {
+      const transcript = context.turns
+        .map(turn => `${turn.speaker === 'candidate' ? 'Candidate' : 'Interviewer'}: ${turn.text}`)
+        .join('\n');
+
+      const prompt = `Here is the latest part of a job interview:
+
+${transcript}
+
+The interviewer now asks: "${question}"
+
+Rewrite this question as a self-contained search query that could be understood without the conversation, replacing words like "that", "it" or "the team" with what they refer to. Keep it short and keep the interviewer's intent. Respond with ONLY the rewritten question.`;
+
+      try {
+        const result = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: { temperature: 0, abortSignal: signal },
+        });
+        const rewritten = (result.text ?? '').trim().replace(/^"|"$/g, '');
+        return rewritten || question;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Query rewriting failed, falling back to the heuristic rewriter:', error);
+        return fallback.rewrite({ question, context });
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic offline rewriter: appends the most recent turns to the question, so the
+ * search sees what "that" was about. Works without Gemini and always gives the same query.
+ * @returns {QueryRewriter}
+ */
+export function createHeuristicRewriter() {
+  return {
+    name: 'heuristic',
+    rewrite: async ({ question, context }) => {
+      const words = [];
+      for (const turn of [...context.turns].reverse()) {
+        const turnWords = turn.text.trim().split(/\s+/).filter(Boolean);
+        words.unshift(...turnWords.slice(-(HEURISTIC_CONTEXT_WORDS - words.length)));
+        if (words.length >= HEURISTIC_CONTEXT_WORDS) break;
+      }
+      return words.length ? `${question.trim()} (context: ${words.join(' ')})` : question;
+    },
+  };
+}
+
+/**
+ * Selects the rewriter: "heuristic" for the deterministic local rewriter, "off" to search
+ * every question as asked, anything else for Gemini.
+ * @returns {QueryRewriter | null}
+ */
+export function createQueryRewriter(name, ai, model) {
+  if (name === 'off') return null;
+  return name === 'heuristic' ? createHeuristicRewriter() : createGeminiRewriter(ai, model);
+}
+
+/**
+ * Turns a question into the query to search with. Follow-ups are rewritten into self-contained
+ * queries and boost the memories already surfaced in the thread; anything else is searched as asked.
+ * @param {object} options
+ * @param {QueryRewriter | null} options.rewriter
+ * @param {string} options.question
+ * @param {ConversationContext} options.context
+ * @param {AbortSignal} [options.signal]
+ * @returns {Promise<{ query: string, rewritten: boolean, reason?: string, boostIds: string[] }>}
+ */
+export async function rewriteQuery({ rewriter, question, context, signal }) {
+  const reason = followUpCue(question);
+  if (!rewriter || !reason || context.turns.length === 0) {
+    return { query: question, rewritten: false, boostIds: [] };
+  }
+
+  const query = await rewriter.rewrite({ question, context, signal });
+  return { query, rewritten: query !== question, reason, boostIds: context.memoryIds };
+}
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const DEFAULT_TRANSLATION_MODEL = 'gemini-2.0-flash';
+const TRANSLATION_CACHE_SIZE = 200;
+
+// Interview languages the app supports, by ISO 639-1 code
+export const LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  fr: 'French',
+};
+
+/**
+ * @typedef {object} QueryTranslator
+ * @property {string} name
+ * @property {(input: { text: string, from: string, to: string, signal?: AbortSignal }) => Promise<string>} translate
+ */
+
+/**
+ * Validates a `language` sent by a client.
+ * @returns {{ language?: string, error?: string }} No language when none was given.
+ */
+export function parseLanguage(language) {
+  if (language === undefined || language === null) return {};
+  if (typeof language !== 'string' || !Object.hasOwn(LANGUAGES, language)) {
+    return { error: `"language" must be one of: ${Object.keys(LANGUAGES).join(', ')}` };
+  }
+  return { language };
+}
+
+/**
+ * Translates questions with Gemini. Translations are cached per question; on API errors the
+ * question is returned as asked, so the search still runs.
+ * @param {import('@google/genai').GoogleGenAI} ai
+ * @returns {QueryTranslator}
+ */
+export function createGeminiTranslator(ai, model = DEFAULT_TRANSLATION_MODEL) {
+  const cache = new Map();
+
+  return {
+    name: 'gemini',
+    translate: async ({ text, from, to, signal }) => {
+      const key = `${from}:${to}:${text}`;
+      if (cache.has(key)) return cache.get(key);
+
+      const prompt = `Translate this interview question from ${LANGUAGES[from]} to ${LANGUAGES[to]}. Keep names, technologies and acronyms as they are. If it is already in ${LANGUAGES[to]}, return it unchanged.
+
+Question: "${text}"
+
+Respond with ONLY the translation.`;
+
+      try {
+        const result = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: { temperature: 0, abortSignal: signal },
+        });
+        const translation = (result.text ?? '').trim().replace(/^"|"$/g, '') || text;
+
+        cache.set(key, translation);
+        if (cache.size > TRANSLATION_CACHE_SIZE) {
+          cache.delete(cache.keys().next().value);
+        }
+        return translation;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Query translation failed, searching the question as asked:', error);
+        return text;
+      }
+    },
+  };
+}
+
+/**
+ * Selects the translator: "off" searches questions as asked (e.g. with a multilingual
+ * embedding model), anything else translates with Gemini.
+ * @returns {QueryTranslator | null}
+ */
+export function createQueryTranslator(name, ai, model) {
+  return name === 'off' ? null : createGeminiTranslator(ai, model);
+}
+
+/**
+ * Translates a question asked in `language` into the language the vault is written in, so
+ * it matches memories stored in that language. Questions already in the vault's language,
+ * or with no language given, are searched as asked.
+ * @param {object} options
+ * @param {QueryTranslator | null} options.translator
+ * @param {string} options.query
+ * @param {string} [options.language] The interview's language.
+ * @param {string} options.vaultLanguage
+ * @param {AbortSignal} [options.signal]
+ * @returns {Promise<{ query: string, translated: boolean, language?: string }>}
+ */
+export async function translateQuery({ translator, query, language, vaultLanguage, signal }) {
+  if (!translator || !language || language === vaultLanguage) {
+    return { query, translated: false };
+  }
+
+  const translation = await translator.translate({ text: query, from: language, to: vaultLanguage, signal });
+  const translated = translation.trim().toLowerCase() !== query.trim().toLowerCase();
+  return { query: translated ? translation : query, translated, ...(translated && { language }) };
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseLanguage } from './queryTranslation.mjs';
+
+describe('parseLanguage', () => {
+  it('accepts the supported languages and no language at all', () => {
+    assert.deepEqual(parseLanguage('es'), { language: 'es' });
+    assert.deepEqual(parseLanguage(undefined), {});
+    assert.deepEqual(parseLanguage(null), {});
+  });
+
+  it('rejects unknown codes and non-strings', () => {
+    assert.match(parseLanguage('it').error, /must be one of: en, es, de, fr/);
+    assert.ok(parseLanguage(['en']).error);
+  });
+
+  it('rejects keys inherited from Object.prototype', () => {
+    for (const key of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+      assert.ok(parseLanguage(key).error, `"${key}" was accepted`);
+    }
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Server-side question detectors for the live retrieval channel. Mirrors
+// interview_app/services/questionDetection.ts so verdicts match the app's own fallback path;
+// interview_app/services/questionDetection.test.ts fails when the two drift apart.
+
+export const DEFAULT_DETECTION_MODEL = 'gemini-2.0-flash-exp';
+const LLM_CACHE_SIZE = 100;
+
+export const DETECTOR_NAMES = ['keyword', 'llm', 'combined'];
+// Longest sentence POST /api/detect-question accepts
+export const MAX_DETECTION_TEXT_LENGTH = 1000;
+
+/**
+ * @typedef {object} DetectionKeywords
+ * @property {string[]} phrases Prompts that make a sentence a question on their own.
+ * @property {string[]} topics Interview topics; only count in sentences phrased as a question.
+ * @property {string[]} [openers] Words that open a question, e.g. "what" or "have";
+ *   the English ones when missing.
+ */
+
+/**
+ * @typedef {object} QuestionDetector
+ * @property {string} name
+ * @property {(text: string) => Promise<{ isQuestion: boolean, reason: string }>} detect
+ */
+
+/**
+ * Keyword lists per interview language, by ISO 639-1 code.
+ * @type {Record<string, Required<DetectionKeywords>>}
+ */
+export const DETECTION_KEYWORD_PACKS = {
+  en: {
+    phrases: [
+      'tell me about', 'tell us about', 'walk me through', 'walk us through', 'describe a time', 'describe how',
+      'describe your', 'explain how', 'explain why', 'give me an example', 'how would you', 'what would you',
+      'why did you', 'have you ever', 'can you', 'could you', 'would you', 'do you have', 'what is your',
+      "what's your", 'why should we', 'talk me through',
+    ],
+    topics: [
+      'experience', 'skill', 'skills', 'background', 'qualification', 'qualifications', 'strengths', 'weaknesses',
+      'challenge', 'project', 'team', 'leadership', 'conflict', 'situation', 'example', 'achievement',
+    ],
+    openers: [
+      'what', 'why', 'how', 'when', 'where', 'which', 'who', 'whom', 'whose', 'do', 'does', 'did', 'have', 'has',
+      'had', 'are', 'is', 'was', 'were', 'can', 'could', 'would', 'will', 'should', 'may',
+    ],
+  },
+  es: {
+    phrases: [
+      'háblame de', 'hábleme de', 'cuéntame', 'cuénteme', 'descríbeme', 'describa', 'explícame', 'explíqueme',
+      'dame un ejemplo', 'deme un ejemplo', 'qué harías', 'qué haría', 'cómo harías', 'cómo haría', 'por qué decidiste',
+      'alguna vez', 'puedes', 'podrías', 'puede usted', 'podría usted', 'tienes experiencia', 'tiene experiencia',
+      'cuál es tu', 'cuál es su', 'por qué deberíamos',
+    ],
+    topics: [
+      'experiencia', 'habilidad', 'habilidades', 'formación', 'trayectoria', 'fortalezas', 'debilidades', 'reto',
+      'desafío', 'proyecto', 'equipo', 'liderazgo', 'conflicto', 'situación', 'ejemplo', 'logro',
+    ],
+    openers: [
+      'qué', 'por qué', 'cómo', 'cuándo', 'dónde', 'cuál', 'cuáles', 'quién', 'quiénes', 'has', 'ha', 'habéis',
+      'tienes', 'tiene', 'puedes', 'puede', 'podrías', 'podría', 'sabes', 'sabe',
+    ],
+  },
+  de: {
+    phrases: [
+      'erzählen sie mir', 'erzählen sie uns', 'erzähl mir', 'erzähl uns', 'beschreiben sie', 'beschreib mal',
+      'erklären sie', 'erklär mir', 'geben sie mir ein beispiel', 'nennen sie ein beispiel', 'wie würden sie',
+      'was würden sie', 'warum haben sie', 'haben sie schon einmal', 'hast du schon einmal', 'können sie',
+      'könnten sie', 'kannst du', 'haben sie erfahrung', 'was ist ihre', 'was sind ihre', 'warum sollten wir',
+      'führen sie mich durch',
+    ],
+    topics: [
+      'erfahrung', 'fähigkeit', 'fähigkeiten', 'hintergrund', 'qualifikation', 'qualifikationen', 'stärken',
+      'schwächen', 'herausforderung', 'projekt', 'team', 'führung', 'konflikt', 'situation', 'beispiel', 'erfolg',
+    ],
+    openers: [
+      'was', 'warum', 'wieso', 'weshalb', 'wie', 'wann', 'wo', 'welche', 'welcher', 'welches', 'wer', 'haben',
+      'hatten', 'hast', 'sind', 'waren', 'bist', 'können', 'könnten', 'kannst', 'würden', 'würdest', 'sollten',
+    ],
+  },
+  fr: {
+    phrases: [
+      'parlez-moi de', 'parle-moi de', 'racontez-moi', 'raconte-moi', 'décrivez', 'expliquez', 'explique-moi',
+      'donnez-moi un exemple', 'comment feriez-vous', 'que feriez-vous', 'pourquoi avez-vous', 'avez-vous déjà',
+      'pouvez-vous', 'pourriez-vous', 'peux-tu', 'avez-vous de l\'expérience', 'quel est votre', 'quelle est votre',
+      'quels sont vos', 'pourquoi devrions-nous',
+    ],
+    topics: [
+      'expérience', 'compétence', 'compétences', 'parcours', 'qualification', 'qualifications', 'forces',
+      'faiblesses', 'défi', 'projet', 'équipe', 'leadership', 'conflit', 'situation', 'exemple', 'réussite',
+    ],
+    openers: [
+      'que', 'qu\'est-ce', 'pourquoi', 'comment', 'quand', 'où', 'quel', 'quelle', 'quels', 'quelles', 'qui',
+      'est-ce', 'avez-vous', 'êtes-vous', 'pouvez-vous', 'as-tu', 'es-tu',
+    ],
+  },
+};
+
+export const DEFAULT_DETECTION_KEYWORDS = DETECTION_KEYWORD_PACKS.en;
+
+/**
+ * Validates keyword lists sent by a client.
+ * @returns {DetectionKeywords | null} The lists, or null if malformed.
+ */
+export function parseDetectionKeywords(keywords) {
+  const isList = (list) => Array.isArray(list) && list.every(item => typeof item === 'string');
+  if (!keywords || !isList(keywords.phrases) || !isList(keywords.topics)) return null;
+  if (keywords.openers !== undefined && !isList(keywords.openers)) return null;
+  return { phrases: keywords.phrases, topics: keywords.topics, openers: keywords.openers ?? DEFAULT_DETECTION_KEYWORDS.openers };
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Lowercased without accents, so "cuentame" still matches "cuéntame"
+function normalize(text) {
+  return text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').trim();
+}
+
+// Whole-word matching, so "team" doesn't match "steam"; \b only knows ASCII letters, so
+// word boundaries are checked against any letter or digit
+function findTerm(text, terms, { atStart = false } = {}) {
+  return terms.find(term => normalize(term)
+    && new RegExp(`${atStart ? '^' : '(?<![\\p{L}\\p{N}])'}${escapeRegExp(normalize(term))}(?![\\p{L}\\p{N}])`, 'u').test(text));
+}
+
+// Spanish questions open with "¿"
+const hasQuestionMark = (text) => /[?¿]/.test(text);
+
+// Sentences opening with one of the openers are phrased as questions
+const opensLikeQuestion = (text, keywords) =>
+  findTerm(text, keywords.openers ?? DEFAULT_DETECTION_KEYWORDS.openers, { atStart: true }) !== undefined;
+
+function keywordMatch(text, keywords) {
+  const lowerText = normalize(text);
+
+  if (hasQuestionMark(lowerText)) {
+    return { isQuestion: true, reason: 'question mark' };
+  }
+
+  const phrase = findTerm(lowerText, keywords.phrases);
+  if (phrase) {
+    return { isQuestion: true, reason: `phrase "${phrase}"` };
+  }
+
+  const topic = findTerm(lowerText, keywords.topics);
+  if (topic && opensLikeQuestion(lowerText, keywords)) {
+    return { isQuestion: true, reason: `topic "${topic}" in a question` };
+  }
+
+  return { isQuestion: false, reason: topic ? `topic "${topic}" in a statement` : 'no question cue' };
+}
+
+function hasQuestionCue(text, keywords) {
+  const lowerText = normalize(text);
+  return hasQuestionMark(lowerText)
+    || opensLikeQuestion(lowerText, keywords)
+    || findTerm(lowerText, keywords.phrases) !== undefined
+    || findTerm(lowerText, keywords.topics) !== undefined;
+}
+
+function createLLMCheck(ai, keywords, model) {
+  const cache = new Map();
+
+  return async (text) => {
+    if (cache.has(text)) {
+      return { isQuestion: cache.get(text), reason: 'LLM (cached)' };
+    }
+
+    try {
+      const prompt = `Analyze this text and determine if it's an interview question or important conversation point that an interviewee would want help with.
+
+Text: "${text}"
+
+Consider it a "yes" if it:
+- Is a direct question
+- Asks about experience, skills, or qualifications
+- Requests examples or explanations
+- Discusses challenges, projects, or achievements
+- Is a behavioral interview question
+- Is a technical question
+- Asks "tell me about" or similar prompts
+
+Consider it a "no" if it is the interviewer talking about themselves, the company or the schedule without asking anything.
+
+Respond with ONLY "yes" or "no".`;
+
+      const result = await ai.models.generateContent({ model, contents: prompt });
+      const isQuestion = (result.text ?? '').toLowerCase().trim().includes('yes');
+
+      cache.set(text, isQuestion);
+      if (cache.size > LLM_CACHE_SIZE) {
+        cache.delete(cache.keys().next().value);
+      }
+
+      return { isQuestion, reason: 'LLM' };
+    } catch (error) {
+      console.error('LLM question detection failed, falling back to keywords:', error);
+      const fallback = keywordMatch(text, keywords);
+      return { ...fallback, reason: `${fallback.reason} (LLM unavailable)` };
+    }
+  };
+}
+
+/**
+ * Creates a detector by name: "keyword", "llm", or "combined" (keywords gate the LLM call).
+ * @param {string} name
+ * @param {object} options
+ * @param {import('@google/genai').GoogleGenAI} options.ai
+ * @param {DetectionKeywords} [options.keywords]
+ * @param {string} [options.model] Used by the LLM detectors.
+ * @returns {QuestionDetector}
+ */
+export function createDetector(name, { ai, keywords = DEFAULT_DETECTION_KEYWORDS, model = DEFAULT_DETECTION_MODEL }) {
+  if (name === 'keyword') {
+    return { name, detect: async (text) => keywordMatch(text, keywords) };
+  }
+
+  const llmCheck = createLLMCheck(ai, keywords, model);
+  if (name === 'llm') {
+    return { name, detect: llmCheck };
+  }
+  if (name === 'combined') {
+    return {
+      name,
+      detect: async (text) => hasQuestionCue(text, keywords)
+        ? llmCheck(text)
+        : { isQuestion: false, reason: 'no question cue (LLM skipped)' },
+    };
+  }
+  throw new Error(`Unknown detector "${name}". Expected one of: ${DETECTOR_NAMES.join(', ')}`);
+}
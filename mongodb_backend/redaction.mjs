@@ -0,0 +1,229 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+
+// Placeholders look like [PERSON_1]; restoring only touches these exact shapes
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|PERSON|TERM)_(\d+)\]/g;
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+// +1 555 123 4567, (555) 123-4567, 030 1234 5678; year ranges like 2019-2021 are too short to match
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?!\w)/g;
+const MIN_PHONE_DIGITS = 9;
+
+// Common given names in the interview languages. Words that are usually not names (Will, May,
+// Mark, Grace...) are left out; add such names to the deny list instead.
+const GIVEN_NAMES = [
+  'Aaron', 'Adam', 'Alex', 'Alexander', 'Alice', 'Amanda', 'Amy', 'Ana', 'Andrea', 'Andrew', 'Anna', 'Anne',
+  'Anthony', 'Antoine', 'Ashley', 'Ben', 'Benjamin', 'Brian', 'Camille', 'Carlos', 'Carmen', 'Charlotte',
+  'Chris', 'Christian', 'Christine', 'Claire', 'Daniel', 'David', 'Diana', 'Diego', 'Emily', 'Emma', 'Eric',
+  'Fatima', 'Felix', 'Fernando', 'Florian', 'Francesca', 'Gabriel', 'Hannah', 'Hans', 'Isabel', 'Jack',
+  'Jacob', 'James', 'Jana', 'Jane', 'Jason', 'Javier', 'Jennifer', 'Jessica', 'John', 'Jonas', 'Jorge',
+  'José', 'Juan', 'Julia', 'Julien', 'Karen', 'Katharina', 'Kevin', 'Laura', 'Leon', 'Linda', 'Lisa',
+  'Lucas', 'Lucía', 'Lukas', 'Manuel', 'Marco', 'María', 'Maria', 'Marie', 'Martin', 'Matthew', 'Max',
+  'Michael', 'Michelle', 'Mohammed', 'Nathalie', 'Nicolas', 'Nicole', 'Olivia', 'Pablo', 'Paul', 'Pedro',
+  'Peter', 'Pierre', 'Priya', 'Rachel', 'Rahul', 'Rebecca', 'Richard', 'Robert', 'Ryan', 'Sabine', 'Sarah',
+  'Sebastian', 'Sophie', 'Stefan', 'Stephanie', 'Steven', 'Thomas', 'Tim', 'Tobias', 'Wei', 'William', 'Yuki',
+];
+// Capitalized words that start a sentence rather than continue a name
+const NOT_SURNAMES = '(?:The|And|But|Or|In|On|At|For|To|Of|From|With|I|We|He|She|They|It)';
+const SURNAME = `(?:\\s+(?!${NOT_SURNAMES}\\b)\\p{Lu}[\\p{L}'-]+)`;
+const NAME_PATTERNS = [
+  new RegExp(`(?<![\\p{L}])(?:${GIVEN_NAMES.join('|')})${SURNAME}{0,2}(?![\\p{L}])`, 'gu'),
+  new RegExp(`\\b(?:Mr|Mrs|Ms|Mx|Dr|Prof)\\.?\\s+\\p{Lu}[\\p{L}'-]+${SURNAME}?`, 'gu'),
+  new RegExp(`(?<=\\b(?:named|called)\\s+)\\p{Lu}[\\p{L}'-]+${SURNAME}?`, 'gu'),
+];
+
+/**
+ * @typedef {object} RedactionSession
+ * @property {(text: string) => string} redact Replaces sensitive values with placeholders.
+ *   The same value gets the same placeholder in every text of the session.
+ * @property {(text: string, options?: { json?: boolean }) => string} restore Puts the original
+ *   values back; `json` escapes them for use inside JSON strings.
+ */
+
+/**
+ * @typedef {object} Redactor
+ * @property {() => RedactionSession} session One per model call, so a response can only
+ *   restore what its own request redacted.
+ */
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findAll(pattern, text, type) {
+  return [...text.matchAll(pattern)].map(match => ({ type, start: match.index, end: match.index + match[0].length }));
+}
+
+/**
+ * Finds emails, phone numbers, person names and deny-listed terms. Where matches overlap the
+ * longest wins, so "Dr. Jane Doe" is one name rather than a title and a name.
+ * @param {string} text
+ * @param {RegExp | null} denyPattern
+ * @returns {Array<{ type: string, start: number, end: number }>} Sorted, non-overlapping.
+ */
+function findSensitiveSpans(text, denyPattern) {
+  const spans = [
+    ...findAll(EMAIL_PATTERN, text, 'EMAIL'),
+    ...findAll(PHONE_PATTERN, text, 'PHONE')
+      .filter(span => text.slice(span.start, span.end).replace(/\D/g, '').length >= MIN_PHONE_DIGITS),
+    ...(denyPattern ? findAll(denyPattern, text, 'TERM') : []),
+    ...NAME_PATTERNS.flatMap(pattern => findAll(pattern, text, 'PERSON')),
+  ].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const kept = [];
+  for (const span of spans) {
+    if (kept.length && span.start < kept[kept.length - 1].end) continue;
+    kept.push(span);
+  }
+  return kept;
+}
+
+/**
+ * Pattern-based redactor for text sent to Gemini. Names are found by a list of common given
+ * names, titles ("Dr. Chen") and cues ("a manager named Priscilla"); anything it misses, such
+ * as former colleagues with rarer names or internal project names, belongs in the deny list.
+ * @param {object} [options]
+ * @param {string[]} [options.denyList] Matched case-insensitively as whole words.
+ * @returns {Redactor}
+ */
+export function createRedactor({ denyList = [] } = {}) {
+  const terms = denyList.map(term => term.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  const denyPattern = terms.length
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+    : null;
+
+  return {
+    session: () => {
+      const byValue = new Map();
+      const byPlaceholder = new Map();
+      const counts = {};
+
+      const placeholderFor = (type, value) => {
+        const key = `${type}:${value.toLowerCase()}`;
+        if (!byValue.has(key)) {
+          counts[type] = (counts[type] ?? 0) + 1;
+          const placeholder = `[${type}_${counts[type]}]`;
+          byValue.set(key, placeholder);
+          byPlaceholder.set(placeholder, value);
+        }
+        return byValue.get(key);
+      };
+
+      return {
+        redact: (text) => {
+          let result = '';
+          let last = 0;
+          for (const { type, start, end } of findSensitiveSpans(text, denyPattern)) {
+            result += text.slice(last, start) + placeholderFor(type, text.slice(start, end));
+            last = end;
+          }
+          return result + text.slice(last);
+        },
+        restore: (text, { json = false } = {}) => text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+          const value = byPlaceholder.get(placeholder);
+          if (value === undefined) return placeholder;
+          return json ? JSON.stringify(value).slice(1, -1) : value;
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Creates the configured redactor (`privacy.redaction` and `privacy.denyList`; see config.mjs).
+ * @returns {Redactor | null} Null when redaction is off.
+ */
+export function createRedactorFromConfig(config) {
+  const { redaction, denyList } = config.privacy;
+  return redaction === 'off' ? null : createRedactor({ denyList });
+}
+
+// Bump when the patterns or name list change, so vectors cached from the old redaction are not reused
+const REDACTION_VERSION = 1;
+
+/**
+ * Identifies what the configured redaction does to text, for caches of results computed from
+ * redacted text (see embeddings.mjs). Changes when redaction is turned on or off, or the deny
+ * list changes; the deny list itself is only hashed.
+ * @returns {string} Empty when redaction is off.
+ */
+export function redactionFingerprint(config) {
+  const { redaction, denyList } = config.privacy;
+  if (redaction === 'off') return '';
+  const terms = denyList.map(term => term.trim().toLowerCase()).filter(Boolean).sort();
+  return `redaction-v${REDACTION_VERSION}:${createHash('sha256').update(terms.join('\n')).digest('hex').slice(0, 16)}`;
+}
+
+// An object that behaves like `target` except for the given properties
+function override(target, properties) {
+  return Object.create(target, Object.fromEntries(
+    Object.entries(properties).map(([name, value]) => [name, { value, enumerable: true }])
+  ));
+}
+
+// Prompts here are strings, lists of strings or Content objects with text parts
+function redactContents(session, contents) {
+  if (typeof contents === 'string') return session.redact(contents);
+  if (Array.isArray(contents)) return contents.map(item => redactContents(session, item));
+  if (contents?.parts) {
+    return { ...contents, parts: contents.parts.map(part => (typeof part.text === 'string' ? { ...part, text: session.redact(part.text) } : part)) };
+  }
+  return contents;
+}
+
+async function* restoreStream(stream, session) {
+  let pending = '';
+  for await (const chunk of stream) {
+    pending += chunk.text ?? '';
+    // Hold back what may be the start of a placeholder that continues in the next chunk
+    const open = pending.lastIndexOf('[');
+    const cut = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH
+      ? open
+      : pending.length;
+    if (cut > 0) {
+      yield override(chunk, { text: session.restore(pending.slice(0, cut)) });
+      pending = pending.slice(cut);
+    }
+  }
+  if (pending) yield { text: session.restore(pending) };
+}
+
+/**
+ * Wraps a Gemini client so personal details never leave the backend: every prompt and
+ * embedding request is redacted first, and generated text has the original values restored
+ * before the caller (and the app) sees it. Embeddings are computed on the redacted text.
+ * @param {import('@google/genai').GoogleGenAI} ai
+ * @param {Redactor | null} redactor
+ * @returns {import('@google/genai').GoogleGenAI} `ai` itself when there is no redactor.
+ */
+export function redactClient(ai, redactor) {
+  if (!redactor) return ai;
+
+  return override(ai, {
+    models: override(ai.models, {
+      embedContent: (params) => ai.models.embedContent({
+        ...params,
+        contents: redactContents(redactor.session(), params.contents),
+      }),
+
+      generateContent: async (params) => {
+        const session = redactor.session();
+        const response = await ai.models.generateContent({ ...params, contents: redactContents(session, params.contents) });
+        const json = params.config?.responseMimeType === 'application/json';
+        return response.text === undefined ? response : override(response, { text: session.restore(response.text, { json }) });
+      },
+
+      generateContentStream: async (params) => {
+        const session = redactor.session();
+        const stream = await ai.models.generateContentStream({ ...params, contents: redactContents(session, params.contents) });
+        return restoreStream(stream, session);
+      },
+    }),
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createRedactor, redactClient } from './redaction.mjs';
+
+const redact = (text, options) => createRedactor(options).session().redact(text);
+
+describe('createRedactor', () => {
+  it('replaces email addresses', () => {
+    assert.equal(redact('Reach me at jane.doe+jobs@mail.example.co.uk today'), 'Reach me at [EMAIL_1] today');
+  });
+
+  it('replaces phone numbers but not year ranges or short numbers', () => {
+    assert.equal(redact('Call +1 555 123 4567 or (030) 1234-5678'), 'Call [PHONE_1] or [PHONE_2]');
+    assert.equal(redact('At Initech from 2019-2021, 120 engineers'), 'At Initech from 2019-2021, 120 engineers');
+  });
+
+  it('replaces names found by given name, title or "named" cue', () => {
+    assert.equal(redact('I reported to Sarah Connor.'), 'I reported to [PERSON_1].');
+    assert.equal(redact('Dr. Chen approved it'), '[PERSON_1] approved it');
+    assert.equal(redact('a manager named Priscilla Vance'), 'a manager named [PERSON_1]');
+  });
+
+  it('does not take the next sentence\'s first word for a surname', () => {
+    assert.equal(redact('I mentored Alex. The team grew.'), 'I mentored [PERSON_1]. The team grew.');
+  });
+
+  it('replaces deny-listed terms as whole words, ignoring case', () => {
+    const text = 'Shipped PROJECT FALCON at initech, not at Initechnologies';
+    assert.equal(redact(text, { denyList: ['Initech', 'Project Falcon'] }), 'Shipped [TERM_1] at [TERM_2], not at Initechnologies');
+  });
+
+  it('keeps the longest of overlapping matches', () => {
+    // A title and a given name inside one name, and a deny-listed term inside an email
+    assert.equal(redact('Ask Dr. Jane Doe'), 'Ask [PERSON_1]');
+    assert.equal(redact('Write to hr@initech.com', { denyList: ['initech'] }), 'Write to [EMAIL_1]');
+  });
+
+  it('gives the same value the same placeholder within a session', () => {
+    const session = createRedactor().session();
+    assert.equal(session.redact('Sarah Connor led it'), '[PERSON_1] led it');
+    assert.equal(session.redact('Ask Sarah Connor or John Smith'), 'Ask [PERSON_1] or [PERSON_2]');
+  });
+
+  it('restores placeholders, escaping values for JSON when asked', () => {
+    const session = createRedactor({ denyList: ['Project "Falcon"'] }).session();
+    session.redact('Dr. Chen ran Project "Falcon"');
+
+    assert.equal(session.restore('[PERSON_1] ran [TERM_1]; [PERSON_9] is unknown'), 'Dr. Chen ran Project "Falcon"; [PERSON_9] is unknown');
+    const json = session.restore('{"text":"[PERSON_1] ran [TERM_1]"}', { json: true });
+    assert.deepEqual(JSON.parse(json), { text: 'Dr. Chen ran Project "Falcon"' });
+  });
+});
+
+describe('redactClient', () => {
+  /** A Gemini client that records prompts and answers with the given chunks. */
+  function createFakeAi(chunks) {
+    const prompts = [];
+    return {
+      prompts,
+      models: {
+        generateContent: async ({ contents }) => {
+          prompts.push(contents);
+          return { text: chunks.join('') };
+        },
+        generateContentStream: async ({ contents }) => {
+          prompts.push(contents);
+          return (async function* () {
+            for (const text of chunks) yield { text };
+          })();
+        },
+        embedContent: async ({ contents }) => {
+          prompts.push(contents);
+          return { embeddings: [{ values: [1] }] };
+        },
+      },
+    };
+  }
+
+  it('sends redacted prompts and restores the response', async () => {
+    const fake = createFakeAi(['[PERSON_1] will call you']);
+    const ai = redactClient(fake, createRedactor());
+
+    const response = await ai.models.generateContent({ model: 'm', contents: 'What did Sarah Connor say?' });
+    assert.deepEqual(fake.prompts, ['What did [PERSON_1] say?']);
+    assert.equal(response.text, 'Sarah Connor will call you');
+  });
+
+  it('restores a placeholder split across stream chunks', async () => {
+    const fake = createFakeAi(['Thank [PER', 'SON_1] and [', 'EMAIL_1', '] for the [TERM']);
+    const ai = redactClient(fake, createRedactor());
+
+    const stream = await ai.models.generateContentStream({ model: 'm', contents: 'Sarah Connor, sarah@example.com' });
+    const texts = [];
+    for await (const chunk of stream) texts.push(chunk.text);
+
+    // "[TERM" never completes, so it is passed on as-is once the stream ends
+    assert.equal(texts.join(''), 'Thank Sarah Connor and sarah@example.com for the [TERM');
+  });
+
+  it('redacts embedding requests', async () => {
+    const fake = createFakeAi([]);
+    await redactClient(fake, createRedactor()).models.embedContent({ model: 'm', contents: ['Mentored Priya Patel'] });
+    assert.deepEqual(fake.prompts, [['Mentored [PERSON_1]']]);
+  });
+
+  it('returns the client unchanged without a redactor', () => {
+    const fake = createFakeAi([]);
+    assert.equal(redactClient(fake, null), fake);
+  });
+});
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Re-embeds memories whose stored embedding came from a different model than the
+ * configured one (`embeddings.model`, EMBEDDING_MODEL). Safe to interrupt and re-run: memories already on
+ * the current model are skipped.
+ *
+ * Usage: node --env-file=.env reindex.mjs [--dry-run] [--batch-size=50] [--model=<name>]
+ */
+
+import { parseArgs } from 'node:util';
+import { GoogleGenAI } from '@google/genai';
+import { loadConfig } from './config.mjs';
+import {
+  createEmbeddingService,
+  createEmbeddingServiceFromConfig,
+  embeddingFields,
+  memoryEmbeddingText,
+  storedEmbeddingModel,
+} from './embeddings.mjs';
+import { createRedactorFromConfig, redactClient } from './redaction.mjs';
+import { createStoreFromConfig } from './storage/index.mjs';
+
+const { values } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+    'batch-size': { type: 'string', default: '50' },
+    model: { type: 'string' },
+  },
+});
+
+const batchSize = parseInt(values['batch-size'], 10);
+if (!Number.isInteger(batchSize) || batchSize < 1) {
+  console.error('Usage: node reindex.mjs [--dry-run] [--batch-size=50] [--model=<name>]');
+  process.exit(1);
+}
+
+const config = loadConfig();
+
+if (!config.geminiApiKey) {
+  throw new Error("Missing required environment variable GEMINI_API_KEY. Please check your .env file.");
+}
+
+const ai = redactClient(new GoogleGenAI({ apiKey: config.geminiApiKey }), createRedactorFromConfig(config));
+const embeddings = values.model
+  ? createEmbeddingService({ ai, model: values.model })
+  : createEmbeddingServiceFromConfig(ai, config);
+const store = createStoreFromConfig(config);
+
+const isStale = (memory) => storedEmbeddingModel(memory) !== embeddings.model || !memory.embeddingDim;
+
+try {
+  await store.connect();
+
+  const total = await store.count({});
+  let scanned = 0;
+  let reembedded = 0;
+  const dims = new Set();
+
+  // Updates don't change createdAt, so paging by offset stays stable while we write
+  for (let skip = 0; skip < total; skip += batchSize) {
+    const page = await store.list({}, { skip, limit: batchSize });
+    if (page.length === 0) break;
+    scanned += page.length;
+
+    const stale = page.filter(isStale);
+    if (stale.length && !values['dry-run']) {
+      const vectors = await embeddings.embedMany(stale.map(memoryEmbeddingText));
+      const updatedAt = new Date().toISOString();
+      for (const [i, memory] of stale.entries()) {
+        dims.add(vectors[i].length);
+        await store.update(memory.id, { ...embeddingFields(embeddings, vectors[i]), updatedAt });
+      }
+    }
+    reembedded += stale.length;
+
+    console.log(`${scanned}/${total} scanned, ${reembedded} ${values['dry-run'] ? 'to re-embed' : 're-embedded'}`);
+  }
+
+  console.log(`\nDone: ${reembedded} of ${scanned} memories ${values['dry-run'] ? 'would be' : 'were'} re-embedded with ${embeddings.model}.`);
+  if (dims.size) {
+    console.log(`Embedding dimensions: ${[...dims].join(', ')}. On Atlas, make sure the vector index's numDimensions matches.`);
+  }
+} catch (error) {
+  console.error('Re-index failed:', error.message);
+  process.exitCode = 1;
+} finally {
+  await store.close();
+}
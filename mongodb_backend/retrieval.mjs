@@ -0,0 +1,223 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_DUPLICATE_THRESHOLD } from './dedupe.mjs';
+import { cosineScore } from './embeddings.mjs';
+
+export const DEFAULT_LEXICAL_WEIGHT = 0.3;
+export const DEFAULT_BOOST_WEIGHT = 0.15;
+// Smaller than the thread boost: it nudges the ranking toward the role, it shouldn't override relevance
+export const DEFAULT_FOCUS_WEIGHT = 0.05;
+const MAX_FOCUS_IDS = 200;
+const DEFAULT_NUM_CANDIDATES = 50;
+// Each retriever contributes this many candidates per requested result
+const CANDIDATE_MULTIPLIER = 4;
+
+/**
+ * Validates the `filters` object accepted by search endpoints and tools.
+ * @returns {{ filter?: import('./storage/index.mjs').MemoryFilter, error?: string }}
+ */
+export function parseSearchFilters(filters) {
+  if (filters === undefined || filters === null) return { filter: {} };
+  if (typeof filters !== 'object' || Array.isArray(filters)) {
+    return { error: '"filters" must be an object' };
+  }
+
+  const filter = {};
+  const { classification, sourceFile, createdAfter, createdBefore } = filters;
+
+  if (classification !== undefined) {
+    const list = Array.isArray(classification) ? classification : [classification];
+    if (!list.every(item => typeof item === 'string')) {
+      return { error: '"filters.classification" must be a string or an array of strings' };
+    }
+    filter.classification = list;
+  }
+  if (sourceFile !== undefined) {
+    if (typeof sourceFile !== 'string') return { error: '"filters.sourceFile" must be a string' };
+    filter.sourceFile = sourceFile;
+  }
+  for (const [key, value] of Object.entries({ createdAfter, createdBefore })) {
+    if (value === undefined) continue;
+    const date = new Date(value);
+    if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+      return { error: `"filters.${key}" must be an ISO date string` };
+    }
+    filter[key] = date.toISOString();
+  }
+
+  return { filter };
+}
+
+/**
+ * Validates `focusIds`, the memories to favour in a search (e.g. those matching a job
+ * description's competencies).
+ * @returns {{ focusIds?: string[], error?: string }}
+ */
+export function parseFocusIds(focusIds) {
+  if (focusIds === undefined || focusIds === null) return { focusIds: [] };
+  if (!Array.isArray(focusIds) || !focusIds.every(id => typeof id === 'string')) {
+    return { error: '"focusIds" must be an array of strings' };
+  }
+  return { focusIds: focusIds.slice(0, MAX_FOCUS_IDS) };
+}
+
+/**
+ * Keeps the best-ranked memory of each group of near-duplicates, so one story saved several
+ * times doesn't fill several slots. Dropped memories are listed on the kept one as `duplicates`.
+ * @param {object[]} ranked Results, best first.
+ * @param {Map<string, number[]>} vectors Embeddings by id; results without one are always kept.
+ * @param {number} threshold
+ * @param {number} limit
+ */
+export function diversifyResults(ranked, vectors, threshold, limit) {
+  const kept = [];
+  for (const result of ranked) {
+    const vector = vectors.get(result.id);
+    const original = vector && kept.find(k => vectors.has(k.id) && cosineScore(vector, vectors.get(k.id)) >= threshold);
+    if (original) {
+      original.duplicates = [...(original.duplicates ?? []), { id: result.id, sourceFile: result.sourceFile }];
+    } else if (kept.length < limit) {
+      kept.push({ ...result });
+    }
+  }
+  return kept;
+}
+
+/**
+ * Hybrid search: combines vector similarity with lexical matching on `description`,
+ * so exact terms (employers, project names, technologies) are not lost in embedding space.
+ *
+ * Fusion: lexical scores are normalized to [0, 1] against the best lexical hit, and each
+ * candidate's final score is `(1 - lexicalWeight) * semantic + lexicalWeight * lexical`.
+ * Candidates found only lexically get their semantic score computed from their stored embedding.
+ * Memories in `boostIds` (e.g. those surfaced earlier in the conversation) are always candidates
+ * and get `boostWeight` added to their score. Memories in `focusIds` get `focusWeight` added
+ * when they are candidates anyway; unlike `boostIds`, they are never added.
+ * Finally, results scoring at least `diversityThreshold` against a better-ranked one are folded
+ * into it (see `diversifyResults`).
+ *
+ * @param {object} options
+ * @param {import('./embeddings.mjs').EmbeddingService} options.embeddings
+ * @param {import('./storage/index.mjs').MemoryStore} options.store
+ * @param {string} options.query
+ * @param {number} [options.limit]
+ * @param {import('./storage/index.mjs').MemoryFilter} [options.filter]
+ * @param {number} [options.lexicalWeight] 0 for pure vector search, 1 for pure lexical.
+ * @param {number} [options.numCandidates] Passed to the vector index.
+ * @param {string[]} [options.boostIds]
+ * @param {number} [options.boostWeight]
+ * @param {string[]} [options.focusIds]
+ * @param {number} [options.focusWeight]
+ * @param {number | null} [options.diversityThreshold] Null keeps near-duplicates as separate results.
+ * @param {AbortSignal} [options.signal] Stops the search between stages; it then rejects with an AbortError.
+ * @param {(results: object[]) => void} [options.onPreliminaryResults] Called with the vector-only top
+ *   results as soon as they arrive, before lexical fusion; their scores are purely semantic.
+ */
+export async function hybridSearch({
+  embeddings,
+  store,
+  query,
+  limit = 5,
+  filter = {},
+  lexicalWeight = DEFAULT_LEXICAL_WEIGHT,
+  numCandidates = DEFAULT_NUM_CANDIDATES,
+  boostIds = [],
+  boostWeight = DEFAULT_BOOST_WEIGHT,
+  focusIds = [],
+  focusWeight = DEFAULT_FOCUS_WEIGHT,
+  diversityThreshold = DEFAULT_DUPLICATE_THRESHOLD,
+  signal,
+  onPreliminaryResults,
+}) {
+  const candidateLimit = limit * CANDIDATE_MULTIPLIER;
+  const queryEmbedding = await embeddings.embed(query);
+  signal?.throwIfAborted();
+
+  const [semanticHits, lexicalHits] = await Promise.all([
+    store.searchByVector(queryEmbedding, { limit: candidateLimit, numCandidates: Math.max(numCandidates, candidateLimit), filter })
+      .then(hits => {
+        if (onPreliminaryResults && !signal?.aborted) {
+          onPreliminaryResults(hits.slice(0, limit).map(hit => ({ ...hit, scoreBreakdown: { semantic: hit.score, lexical: 0 } })));
+        }
+        return hits;
+      }),
+    lexicalWeight > 0 ? store.searchByText(query, { limit: candidateLimit, filter }) : [],
+  ]);
+  signal?.throwIfAborted();
+
+  const candidates = new Map();
+  for (const hit of semanticHits) {
+    const { score, ...memory } = hit;
+    candidates.set(hit.id, { memory, semantic: score, lexicalRaw: 0 });
+  }
+  for (const hit of lexicalHits) {
+    const { score, ...memory } = hit;
+    const existing = candidates.get(hit.id);
+    if (existing) {
+      existing.lexicalRaw = score;
+    } else {
+      candidates.set(hit.id, { memory, semantic: null, lexicalRaw: score });
+    }
+  }
+
+  const boosted = new Set(boostIds);
+  for (const id of boosted) {
+    if (!candidates.has(id)) candidates.set(id, { memory: null, semantic: null, lexicalRaw: 0 });
+  }
+
+  // Lexical-only hits and boosted memories were outside the vector candidate set; score them exactly
+  const vectors = new Map();
+  const missing = [...candidates.entries()].filter(([, c]) => c.semantic === null).map(([id]) => id);
+  if (missing.length) {
+    const withEmbeddings = await store.list({ ...filter, ids: missing }, { includeEmbedding: true });
+    for (const { embedding, ...doc } of withEmbeddings) {
+      const candidate = candidates.get(doc.id);
+      candidate.memory ??= doc;
+      candidate.semantic = embedding ? cosineScore(queryEmbedding, embedding) : 0;
+      if (embedding) vectors.set(doc.id, embedding);
+    }
+  }
+
+  const maxLexical = Math.max(0, ...lexicalHits.map(hit => hit.score));
+  const focused = new Set(focusIds);
+
+  const ranked = [...candidates.values()]
+    // Boosted ids that no longer exist or don't match the filter
+    .filter(({ memory }) => memory !== null)
+    .map(({ memory, semantic, lexicalRaw }) => {
+      const lexical = maxLexical > 0 ? lexicalRaw / maxLexical : 0;
+      const semanticScore = semantic ?? 0;
+      const boost = boosted.has(memory.id) ? boostWeight : 0;
+      const focus = focused.has(memory.id) ? focusWeight : 0;
+      return {
+        ...memory,
+        score: Math.min(1, (1 - lexicalWeight) * semanticScore + lexicalWeight * lexical + boost + focus),
+        scoreBreakdown: {
+          semantic: semanticScore,
+          lexical,
+          ...(boost && { thread: boost }),
+          ...(focus && { focus }),
+        },
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  if (diversityThreshold === null || ranked.length <= 1) {
+    return ranked.slice(0, limit);
+  }
+  signal?.throwIfAborted();
+
+  // Only the top of the ranking can displace anything; compare within it
+  const pool = ranked.slice(0, candidateLimit);
+  const unfetched = pool.filter(result => !vectors.has(result.id)).map(result => result.id);
+  if (unfetched.length) {
+    for (const { id, embedding } of await store.list({ ids: unfetched }, { includeEmbedding: true })) {
+      if (embedding) vectors.set(id, embedding);
+    }
+  }
+  return diversifyResults(pool, vectors, diversityThreshold, limit);
+}
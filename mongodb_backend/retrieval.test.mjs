@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { hybridSearch } from './retrieval.mjs';
+import { createLocalStore } from './storage/index.mjs';
+
+/** Offline embeddings that place every query on the first axis. */
+const embeddings = {
+  model: 'test-embeddings',
+  embed: async () => [1, 0],
+  embedMany: async (texts) => texts.map(() => [1, 0]),
+  stats: () => ({ hits: 0, misses: 0, size: 0 }),
+};
+
+const memory = (description, embedding) => ({
+  classification: 'experience',
+  description,
+  sourceFile: 'resume.md',
+  createdAt: new Date().toISOString(),
+  embedding,
+});
+
+describe('hybridSearch', () => {
+  let dir;
+  let store;
+  let semanticId;
+  let lexicalId;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oncue-retrieval-'));
+    store = createLocalStore({ filePath: path.join(dir, 'memories.json') });
+    // One on the query's axis with none of its words (cosineScore 1), one orthogonal to it
+    // that shares its words (cosineScore 0.5)
+    [semanticId, lexicalId] = await store.insertMany([
+      memory('Rebuilt the payments pipeline for reliability.', [1, 0]),
+      memory('Wrote the Kafka migration runbook.', [0, 1]),
+    ]);
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const search = (options) => hybridSearch({ embeddings, store, query: 'kafka migration', diversityThreshold: null, ...options });
+
+  it('fuses semantic and lexical scores by lexicalWeight', async () => {
+    const results = await search({ lexicalWeight: 0.5 });
+
+    assert.deepEqual(results.map(({ id, score, scoreBreakdown }) => ({ id, score, scoreBreakdown })), [
+      { id: lexicalId, score: 0.75, scoreBreakdown: { semantic: 0.5, lexical: 1 } },
+      { id: semanticId, score: 0.5, scoreBreakdown: { semantic: 1, lexical: 0 } },
+    ]);
+  });
+
+  it('ranks purely by vector similarity with a lexical weight of 0', async () => {
+    const searchByText = mock.method(store, 'searchByText');
+
+    const results = await search({ lexicalWeight: 0 });
+
+    assert.deepEqual(results.map(result => [result.id, result.score]), [[semanticId, 1], [lexicalId, 0.5]]);
+    assert.equal(searchByText.mock.callCount(), 0);
+  });
+
+  it('normalizes lexical scores against the best lexical match', async () => {
+    const [partialId] = await store.insertMany([memory('Planned a database migration.', [0, 1])]);
+
+    const results = await search({ lexicalWeight: 1 });
+    const lexical = new Map(results.map(result => [result.id, result.scoreBreakdown.lexical]));
+
+    assert.equal(lexical.get(lexicalId), 1);
+    assert.ok(lexical.get(partialId) > 0 && lexical.get(partialId) < 1);
+    assert.equal(lexical.get(semanticId), 0);
+    assert.deepEqual(results.map(result => result.id), [lexicalId, partialId, semanticId]);
+  });
+
+  it('scores lexical-only candidates from their stored embedding', async () => {
+    // Fill the vector candidate set (limit × 4) so the Kafka memory is only found lexically
+    await store.insertMany(Array.from({ length: 4 }, (_, i) => memory(`Unrelated project ${i}.`, [1, 0.1 * i])));
+
+    const [top] = await search({ lexicalWeight: 0.9, limit: 1 });
+
+    assert.equal(top.id, lexicalId);
+    assert.deepEqual(top.scoreBreakdown, { semantic: 0.5, lexical: 1 });
+  });
+});
@@ -6,74 +6,122 @@
 
 import express from 'express';
 import cors from 'cors';
-import { MongoClient } from 'mongodb';
 import { GoogleGenAI } from '@google/genai';
+import { buildOpenApiDocument, validateRequest, OPENAPI_PATH } from './apiContract.mjs';
+import { loadConfig, publicConfig } from './config.mjs';
+import { createEmbeddingServiceFromConfig } from './embeddings.mjs';
+import { insertUnlessDuplicate } from './dedupe.mjs';
+import { extractSections, ingestDocument } from './ingestion.mjs';
+import { createJobAnalyzer, prepareForJob, JOB_ANALYZER_NAMES, MAX_JOB_DESCRIPTION_LENGTH } from './jobPrep.mjs';
+import { createMemoriesRouter } from './memoriesRouter.mjs';
+import { createSessionsRouter } from './sessionsRouter.mjs';
+import { createSessionStoreFromConfig, createStoreFromConfig, scopeStore } from './storage/index.mjs';
+import { MAX_LEXICAL_SCAN } from './storage/encryptedStore.mjs';
+import { createProfileRegistryFromConfig, requireProfileToken } from './profiles.mjs';
+import { hybridSearch, parseFocusIds, parseSearchFilters, DEFAULT_LEXICAL_WEIGHT } from './retrieval.mjs';
+import { createDrafter } from './answerDrafting.mjs';
+import { createQueryRewriter, parseConversationContext, rewriteQuery } from './queryRewriting.mjs';
+import { createQueryTranslator, parseLanguage, translateQuery } from './queryTranslation.mjs';
+import { createRedactorFromConfig, redactClient } from './redaction.mjs';
+import { attachLiveRetrieval, LIVE_RETRIEVAL_PATH } from './liveRetrieval.mjs';
+import { createDetector, DETECTION_KEYWORD_PACKS } from './questionDetection.mjs';
 
 // --- CONFIGURATION ---
-const PORT = 5001;
-const MONGO_DB_URI = process.env.MONGO_DB_URI;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+// Defaults < oncue.config.json (or ONCUE_CONFIG) < environment; see config.mjs
+const config = loadConfig();
 
-if (!MONGO_DB_URI || !GEMINI_API_KEY) {
-  throw new Error("Missing required environment variables: MONGO_DB_URI and GEMINI_API_KEY. Please check your .env file.");
+if (!config.geminiApiKey) {
+  throw new Error("Missing required environment variable GEMINI_API_KEY. Please check your .env file.");
 }
 
 // --- INITIALIZATION ---
 const app = express();
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
+// Personal details are redacted from every prompt and embedding request (see redaction.mjs)
+const ai = redactClient(new GoogleGenAI({ apiKey: config.geminiApiKey }), createRedactorFromConfig(config));
 // FIX: The `getGenerativeModel` method is deprecated. We will call `ai.models.embedContent` directly.
-const mongoClient = new MongoClient(MONGO_DB_URI);
+// Cached, model-versioned embeddings (see embeddings.mjs)
+const embeddings = createEmbeddingServiceFromConfig(ai, config);
+// Atlas when MONGO_DB_URI is set, otherwise a local file store (see storage/index.mjs)
+const store = createStoreFromConfig(config);
+// Post-interview reports, aggregated by GET /api/sessions/analytics
+const sessions = createSessionStoreFromConfig(config);
+// Profiles and API tokens, managed with `npm run admin` (see admin.mjs)
+const profiles = createProfileRegistryFromConfig(config);
+// Rewrites follow-up questions into self-contained queries (see queryRewriting.mjs)
+const rewriter = createQueryRewriter(config.queryRewriter, ai, config.models.rewrite);
+// Translates questions asked in another language into the vault's (see queryTranslation.mjs)
+const translator = createQueryTranslator(config.queryTranslator, ai, config.models.translation);
+// Predicts questions from job descriptions (see jobPrep.mjs)
+const jobAnalyzer = createJobAnalyzer(config.jobAnalyzer, ai, config.models.jobAnalysis);
 
 // --- MIDDLEWARE ---
-app.use(cors()); // Allow requests from our frontend
-app.use(express.json()); // Parse JSON request bodies
+app.use(cors({ origin: config.corsOrigins })); // Allow requests from our frontend only
+app.use(express.json({ limit: '20mb' })); // Parse JSON request bodies (ingested documents can be large)
+
+// Non-secret settings and the app's default settings; needs no token, so the app can show it before sign-in
+app.get('/api/config', validateRequest('getConfig'), (req, res) => {
+  res.status(200).json({ success: true, config: publicConfig(config) });
+});
+
+// The API contract as OpenAPI (see apiContract.mjs); needs no token either
+app.get(OPENAPI_PATH, (req, res) => {
+  res.status(200).json(buildOpenApiDocument({ serverUrl: `${req.protocol}://${req.get('host')}` }));
+});
 
 // --- DATABASE CONNECTION & SERVER START ---
-let db;
 // FIX: Ensure the database is connected before starting the server and accepting requests.
-// This prevents race conditions where an API call is made before `db` is initialized.
+// This prevents race conditions where an API call is made before the store is ready.
 // This structural fix might also resolve the unexpected type error on `app.use`.
-mongoClient.connect().then(client => {
-  console.log('Successfully connected to MongoDB.');
-  db = client.db("context");
+Promise.all([store.connect(), sessions.connect()]).then(() => {
+  console.log('Successfully connected to the memory store.');
+  if (config.privacy.encryption !== 'off' && config.storage.driver === 'atlas') {
+    console.warn(`Encryption is on: keyword matching scans up to ${MAX_LEXICAL_SCAN} decrypted memories per search instead of using the Atlas text index.`);
+  }
+  profiles.listProfiles().then(list => {
+    if (list.length === 0) {
+      console.warn('No profiles yet; every request will be rejected. Create one with: npm run admin -- profile create <id>');
+    }
+  }).catch(error => {
+    // Every request would fail to authenticate; stop rather than serve nothing but errors
+    console.error(`Could not read the profiles file ${config.profilesPath}: ${error.message}`);
+    process.exit(1);
+  });
+
+  // Every endpoint needs a profile token and only sees that profile's vault
+  app.use('/api', requireProfileToken(profiles, profileId => scopeStore(store, profileId)));
+
+  app.get('/api/profile', validateRequest('getProfile'), (req, res) => {
+    res.status(200).json({ success: true, profile: { id: req.profile.id, name: req.profile.name } });
+  });
 
   // --- API ENDPOINT ---
-  app.post('/api/save-memory', async (req, res) => {
+  // Saves a memory, unless a near-duplicate is already in the vault: then that memory is returned
+  // (with `inserted: false`) and the source file is added to its provenance.
+  // `allowDuplicate: true` inserts regardless.
+  app.post('/api/save-memory', validateRequest('saveMemory'), async (req, res) => {
 
     try {
-      const { memory, sourceFile } = req.body;
+      const { memory, sourceFile, allowDuplicate = false } = req.body;
 
       if (!memory || !memory.classification || !memory.description || !sourceFile) {
         return res.status(400).json({ success: false, error: 'Invalid request body.' });
       }
 
-      const textToEmbed = `${memory.classification}: ${memory.description}`;
-      
-      // 1. Prepare the payload with the correct 'content' property
-      const payload = {
-        model: 'text-embedding-004',
-        contents: textToEmbed, 
-      };
-
-      // 2. Call the API
-      const embeddingResult = await ai.models.embedContent(payload);
-      
-      // 3. Extract the embedding
-      const embedding = embeddingResult.embeddings[0].values;
-
-      const documentToStore = {
-        ...memory,
-        embedding: embedding,
-        sourceFile: sourceFile,
-        createdAt: new Date().toISOString()
-      };
-
-      // 3. Insert the document into MongoDB
-      const collection = db.collection("test1");
-      await collection.insertOne(documentToStore);
-      
-      console.log(`Successfully embedded and stored memory for "${sourceFile}"`);
-      res.status(200).json({ success: true });
+      const { id, inserted, duplicate } = await insertUnlessDuplicate({
+        embeddings,
+        store: req.store,
+        memory,
+        sourceFile,
+        threshold: config.embeddings.duplicateThreshold,
+        allowDuplicate: Boolean(allowDuplicate),
+      });
+
+      if (inserted) {
+        console.log(`Successfully embedded and stored memory for "${sourceFile}"`);
+      } else {
+        console.log(`Memory for "${sourceFile}" is a near-duplicate of ${id}; not stored`);
+      }
+      res.status(200).json({ success: true, id, inserted, ...(duplicate && { duplicate }) });
       
     } catch (error) {
       console.error('Error in /api/save-memory:', error);
@@ -81,44 +129,63 @@ mongoClient.connect().then(client => {
     }
 });
 
-  app.post('/api/search-memory', async (req, res) => {
+  app.post('/api/search-memory', validateRequest('searchMemory'), async (req, res) => {
     try {
-      const { query, limit = 5 } = req.body;
+      const { query, limit = 5, filters, lexicalWeight = DEFAULT_LEXICAL_WEIGHT, numCandidates = 50, context: rawContext, diversify = true, focusIds: rawFocusIds, language: rawLanguage } = req.body;
 
       if (!query) {
         return res.status(400).json({ success: false, error: 'Missing query parameter' });
       }
+      if (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1) {
+        return res.status(400).json({ success: false, error: '"lexicalWeight" must be a number between 0 and 1' });
+      }
+
+      const { filter, error } = parseSearchFilters(filters);
+      if (error) {
+        return res.status(400).json({ success: false, error });
+      }
 
-      const embeddingResult = await ai.models.embedContent({
-        model: 'text-embedding-004',
-        contents: query,
+      const { context, error: contextError } = parseConversationContext(rawContext);
+      if (contextError) {
+        return res.status(400).json({ success: false, error: contextError });
+      }
+
+      const { focusIds, error: focusError } = parseFocusIds(rawFocusIds);
+      if (focusError) {
+        return res.status(400).json({ success: false, error: focusError });
+      }
+
+      const { language, error: languageError } = parseLanguage(rawLanguage);
+      if (languageError) {
+        return res.status(400).json({ success: false, error: languageError });
+      }
+
+      // With conversation context, follow-ups like "what was hard about that?" are searched as self-contained queries
+      const rewrite = await rewriteQuery({ rewriter, question: query, context });
+      // Questions asked in another language are translated so they match the vault's memories
+      const translation = await translateQuery({ translator, query: rewrite.query, language, vaultLanguage: config.vaultLanguage });
+      const results = await hybridSearch({
+        embeddings,
+        store: req.store,
+        query: translation.query,
+        limit,
+        filter,
+        lexicalWeight,
+        numCandidates,
+        boostIds: rewrite.boostIds,
+        focusIds,
+        // Near-duplicates share one slot unless the caller wants every copy
+        diversityThreshold: diversify === false ? null : config.embeddings.duplicateThreshold,
+      });
+
+      res.status(200).json({
+        success: true,
+        results,
+        query: translation.query,
+        rewritten: rewrite.rewritten,
+        translated: translation.translated,
+        ...(translation.translated && { language: translation.language }),
       });
-      const queryEmbedding = embeddingResult.embeddings[0].values;
-
-      const collection = db.collection("test1");
-      const results = await collection.aggregate([
-        {
-          $vectorSearch: {
-            index: "vector_index",
-            path: "embedding",
-            queryVector: queryEmbedding,
-            numCandidates: 50,
-            limit: limit,
-          }
-        },
-        {
-          $project: {
-            _id: 0,
-            classification: 1,
-            description: 1,
-            sourceFile: 1,
-            createdAt: 1,
-            score: { $meta: "vectorSearchScore" }
-          }
-        }
-      ]).toArray();
-
-      res.status(200).json({ success: true, results });
 
     } catch (error) {
       console.error('Error in /api/search-memory:', error);
@@ -126,19 +193,140 @@ mongoClient.connect().then(client => {
     }
   });
 
+  app.use('/api/memories', createMemoriesRouter({ embeddings, duplicateThreshold: config.embeddings.duplicateThreshold }));
+  app.use('/api/sessions', createSessionsRouter({ sessions }));
+
+  // Bulk ingestion: split a document into classified memories.
+  // `content` is UTF-8 text, or base64 when `encoding` is "base64" (e.g. PDFs).
+  app.post('/api/ingest', validateRequest('ingest'), async (req, res) => {
+    try {
+      const { fileName, content, encoding = 'utf8', dryRun = false, classifier = 'gemini' } = req.body;
+
+      if (!fileName || typeof content !== 'string' || !['utf8', 'base64'].includes(encoding)) {
+        return res.status(400).json({ success: false, error: 'Invalid request body.' });
+      }
+
+      const summary = await ingestDocument({
+        ai,
+        embeddings,
+        store: req.store,
+        fileName,
+        buffer: Buffer.from(content, encoding),
+        dryRun: Boolean(dryRun),
+        classifier,
+        classifierModel: config.models.classifier,
+      });
+
+      res.status(200).json({ success: true, ...summary });
+
+    } catch (error) {
+      console.error('Error in /api/ingest:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Interview prep from a job description: its competencies, likely questions and the memories
+  // that answer them. Send `text`, or a file as `fileName` + `content` (base64 when `encoding` is "base64").
+  app.post('/api/job-prep', validateRequest('jobPrep'), async (req, res) => {
+    try {
+      const { text, fileName, content, encoding = 'utf8', limit = 3, analyzer: analyzerName } = req.body;
+
+      let description = text;
+      if (description === undefined && fileName && typeof content === 'string' && ['utf8', 'base64'].includes(encoding)) {
+        const sections = await extractSections(fileName, Buffer.from(content, encoding));
+        description = sections.map(section => section.text).join('\n');
+      }
+      if (typeof description !== 'string' || !description.trim()) {
+        return res.status(400).json({ success: false, error: 'Expected a job description as "text", or "fileName" and "content"' });
+      }
+      if (description.length > MAX_JOB_DESCRIPTION_LENGTH) {
+        return res.status(400).json({ success: false, error: `The job description is longer than ${MAX_JOB_DESCRIPTION_LENGTH} characters` });
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > 10) {
+        return res.status(400).json({ success: false, error: '"limit" must be an integer between 1 and 10' });
+      }
+      if (analyzerName !== undefined && !JOB_ANALYZER_NAMES.includes(analyzerName)) {
+        return res.status(400).json({ success: false, error: `"analyzer" must be one of: ${JOB_ANALYZER_NAMES.join(', ')}` });
+      }
+
+      const prep = await prepareForJob({
+        analyzer: analyzerName ? createJobAnalyzer(analyzerName, ai, config.models.jobAnalysis) : jobAnalyzer,
+        embeddings,
+        store: req.store,
+        text: description.trim(),
+        limit,
+        diversityThreshold: config.embeddings.duplicateThreshold,
+      });
+
+      res.status(200).json({ success: true, ...prep });
+
+    } catch (error) {
+      console.error('Error in /api/job-prep:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // The app's LLM question check when it detects locally (e.g. the live channel is down), so the
+  // transcript reaches Gemini through the redacting client rather than straight from the browser
+  app.post('/api/detect-question', validateRequest('detectQuestion'), async (req, res) => {
+    try {
+      const { text, language = 'en', model = config.models.detection } = req.body;
+      const detector = createDetector('llm', { ai, keywords: DETECTION_KEYWORD_PACKS[language], model });
+      res.status(200).json({ success: true, ...(await detector.detect(text.trim())) });
+    } catch (error) {
+      console.error('Error in /api/detect-question:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Streams a STAR talking-points outline for a detected question as NDJSON:
+  // one {"type":"bullet",...} line per point, then {"type":"done"} (or {"type":"error"}).
+  app.post('/api/draft-answer', validateRequest('draftAnswer'), async (req, res) => {
+    const { question, memories, drafter: drafterName = config.answerDrafter } = req.body;
+
+    const validMemories = Array.isArray(memories) && memories.every(m => m && typeof m.id === 'string' && typeof m.description === 'string');
+    if (!question || !validMemories || memories.length === 0) {
+      return res.status(400).json({ success: false, error: 'Expected "question" and a non-empty "memories" array of { id, classification, description }' });
+    }
+
+    // Stop generating if the client goes away (e.g. the question scrolled off)
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+
+    const drafter = createDrafter(drafterName, ai, config.models.draft);
+    try {
+      for await (const bullet of drafter.draft({ question, memories, signal: abortController.signal })) {
+        if (abortController.signal.aborted) break;
+        res.write(`${JSON.stringify({ type: 'bullet', ...bullet })}\n`);
+      }
+      res.end(`${JSON.stringify({ type: 'done', drafter: drafter.name })}\n`);
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error('Error in /api/draft-answer:', error);
+      res.end(`${JSON.stringify({ type: 'error', error: error.message })}\n`);
+    }
+  });
 
   // --- START SERVER ---
-  app.listen(PORT, () => {
-    console.log(`Backend server is running at http://localhost:${PORT}`);
+  const server = app.listen(config.port, () => {
+    console.log(`Backend server is running at http://localhost:${config.port}`);
+    console.log(`Live retrieval channel at ws://localhost:${config.port}${LIVE_RETRIEVAL_PATH}`);
   });
+  // Push-based detection and search for live sessions (see liveRetrieval.mjs)
+  attachLiveRetrieval({ server, ai, embeddings, store, profiles, rewriter, translator, vaultLanguage: config.vaultLanguage, detectionModel: config.models.detection, duplicateThreshold: config.embeddings.duplicateThreshold });
 }).catch(err => {
-  console.error('Failed to connect to MongoDB', err);
+  console.error('Failed to connect to the memory store', err);
   process.exit(1);
 });
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-    await mongoClient.close();
-    console.log('MongoDB connection closed.');
+    await Promise.all([store.close(), sessions.close()]);
+    console.log('Memory and session stores closed.');
     process.exit(0);
 });
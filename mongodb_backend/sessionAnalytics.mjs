@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Session reports are built by the app (interview_app/services/sessionReport.ts) when a
+// session ends; the backend keeps them per profile and aggregates them across sessions.
+
+const SPEAKERS = ['interviewer', 'candidate'];
+const MAX_QUESTIONS = 500;
+const TOP_MEMORIES = 10;
+const RECURRING_GAPS = 20;
+
+const isString = (value) => typeof value === 'string';
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+function validQuestion(question) {
+  return question
+    && isString(question.text)
+    && isNumber(question.startMs)
+    && Array.isArray(question.categories) && question.categories.every(isString)
+    && (question.topScore === null || isNumber(question.topScore))
+    && Array.isArray(question.memoryIds) && question.memoryIds.every(isString)
+    && typeof question.isGap === 'boolean';
+}
+
+function validMemory(memory) {
+  return memory
+    && [memory.id, memory.classification, memory.description, memory.sourceFile].every(isString)
+    && Number.isInteger(memory.timesSurfaced)
+    && isNumber(memory.bestScore);
+}
+
+/**
+ * Validates a session report posted by the app. Only the known fields are kept.
+ * @returns {{ report?: object, error?: string }}
+ */
+export function parseSessionReport(body) {
+  const { startedAt, source, minThreshold, durationMs, questions, surfacedMemories, talkTimeMs } = body ?? {};
+
+  if (!isString(startedAt) || Number.isNaN(new Date(startedAt).getTime())) {
+    return { error: '"startedAt" must be an ISO date string' };
+  }
+  if (!isString(source) || !isNumber(minThreshold) || !isNumber(durationMs)) {
+    return { error: '"source", "minThreshold" and "durationMs" are required' };
+  }
+  if (!Array.isArray(questions) || questions.length > MAX_QUESTIONS || !questions.every(validQuestion)) {
+    return { error: `"questions" must be an array of at most ${MAX_QUESTIONS} { text, startMs, categories, topScore, memoryIds, isGap }` };
+  }
+  if (!Array.isArray(surfacedMemories) || !surfacedMemories.every(validMemory)) {
+    return { error: '"surfacedMemories" must be an array of { id, classification, description, sourceFile, timesSurfaced, bestScore }' };
+  }
+  if (!talkTimeMs || !SPEAKERS.every(speaker => isNumber(talkTimeMs[speaker]))) {
+    return { error: '"talkTimeMs" must be { interviewer, candidate } in milliseconds' };
+  }
+
+  return {
+    report: {
+      startedAt: new Date(startedAt).toISOString(),
+      source,
+      minThreshold,
+      durationMs,
+      questions: questions.map(({ text, startMs, categories, topScore, memoryIds, isGap }) => ({ text, startMs, categories, topScore, memoryIds, isGap })),
+      surfacedMemories: surfacedMemories.map(({ id, classification, description, sourceFile, timesSurfaced, bestScore }) => ({ id, classification, description, sourceFile, timesSurfaced, bestScore })),
+      talkTimeMs: { interviewer: talkTimeMs.interviewer, candidate: talkTimeMs.candidate },
+    },
+  };
+}
+
+/**
+ * The list entry for one stored session.
+ */
+export function sessionSummary(session) {
+  return {
+    id: session.id,
+    startedAt: session.startedAt,
+    source: session.source,
+    durationMs: session.durationMs,
+    questionCount: session.questions.length,
+    gapCount: session.questions.filter(question => question.isGap).length,
+  };
+}
+
+// Questions are compared loosely, so the same gap asked twice counts as recurring
+function questionKey(text) {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Aggregates stored session reports: which memories keep coming up, which questions
+ * keep finding nothing, what the questions were about and who did the talking.
+ * @param {object[]} sessions Newest first.
+ */
+export function summarizeSessions(sessions) {
+  const memories = new Map();
+  const gaps = new Map();
+  const categoryCounts = {};
+  const talkTimeMs = { interviewer: 0, candidate: 0 };
+  let questionCount = 0;
+  let gapCount = 0;
+
+  for (const session of sessions) {
+    talkTimeMs.interviewer += session.talkTimeMs.interviewer;
+    talkTimeMs.candidate += session.talkTimeMs.candidate;
+
+    for (const memory of session.surfacedMemories) {
+      const entry = memories.get(memory.id);
+      if (entry) {
+        entry.timesSurfaced += memory.timesSurfaced;
+        entry.sessions += 1;
+        entry.bestScore = Math.max(entry.bestScore, memory.bestScore);
+      } else {
+        // Sessions are newest first, so the first description seen is the most recent
+        memories.set(memory.id, { ...memory, sessions: 1 });
+      }
+    }
+
+    for (const question of session.questions) {
+      questionCount++;
+      for (const category of question.categories) {
+        categoryCounts[category] = (categoryCounts[category] ?? 0) + 1;
+      }
+      if (!question.isGap) continue;
+
+      gapCount++;
+      const key = questionKey(question.text);
+      const entry = gaps.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        gaps.set(key, { text: question.text, count: 1, lastAskedAt: session.startedAt });
+      }
+    }
+  }
+
+  return {
+    sessionCount: sessions.length,
+    questionCount,
+    gapCount,
+    topMemories: [...memories.values()]
+      .sort((a, b) => b.timesSurfaced - a.timesSurfaced || b.bestScore - a.bestScore)
+      .slice(0, TOP_MEMORIES),
+    recurringGaps: [...gaps.values()]
+      .sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt))
+      .slice(0, RECURRING_GAPS),
+    categoryCounts,
+    talkTimeMs,
+  };
+}
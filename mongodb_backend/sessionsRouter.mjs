@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import express from 'express';
+import { validateRequest } from './apiContract.mjs';
+import { parseSessionReport, sessionSummary, summarizeSessions } from './sessionAnalytics.mjs';
+
+const DEFAULT_ANALYTICS_SESSIONS = 50;
+const MAX_ANALYTICS_SESSIONS = 500;
+
+/**
+ * Session report endpoints, mounted at /api/sessions behind `requireProfileToken`;
+ * reports are kept per profile.
+ * @param {object} deps
+ * @param {import('./storage/sessionStore.mjs').SessionStore} deps.sessions
+ */
+export function createSessionsRouter({ sessions }) {
+  const router = express.Router();
+
+  // Stores the report the app builds when a session ends
+  router.post('/', validateRequest('saveSession'), async (req, res) => {
+    try {
+      const { report, error } = parseSessionReport(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error });
+      }
+
+      const id = await sessions.insert({ ...report, profileId: req.profile.id, savedAt: new Date().toISOString() });
+
+      res.status(200).json({ success: true, id });
+    } catch (error) {
+      console.error('Error in POST /api/sessions:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  router.get('/', validateRequest('listSessions'), async (req, res) => {
+    try {
+      const stored = await sessions.list({ profileId: req.profile.id });
+
+      res.status(200).json({ success: true, sessions: stored.map(sessionSummary) });
+    } catch (error) {
+      console.error('Error in GET /api/sessions:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Aggregates the most recent `sessions` reports (default 50)
+  router.get('/analytics', validateRequest('getSessionAnalytics'), async (req, res) => {
+    try {
+      const limit = Math.min(MAX_ANALYTICS_SESSIONS, Math.max(1, parseInt(req.query.sessions, 10) || DEFAULT_ANALYTICS_SESSIONS));
+      const stored = await sessions.list({ profileId: req.profile.id }, { limit });
+
+      res.status(200).json({ success: true, analytics: summarizeSessions(stored) });
+    } catch (error) {
+      console.error('Error in GET /api/sessions/analytics:', error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  return router;
+}
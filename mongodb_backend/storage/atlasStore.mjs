@@ -0,0 +1,211 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MongoClient, ObjectId } from 'mongodb';
+
+function toObjectId(id) {
+  return ObjectId.isValid(id) ? new ObjectId(id) : null;
+}
+
+function toMongoFilter(filter = {}) {
+  const query = {};
+  if (filter.classification?.length) {
+    query.classification = { $in: filter.classification };
+  }
+  if (filter.sourceFile) {
+    // Merged and deduplicated memories list every origin in sourceFiles. The vector
+    // index cannot pre-filter on it, so vector searches apply this after the search.
+    query.$or = [{ sourceFile: filter.sourceFile }, { sourceFiles: filter.sourceFile }];
+  }
+  if (filter.profileId) {
+    query.profileId = filter.profileId;
+  }
+  if (filter.ids) {
+    query._id = { $in: filter.ids.map(toObjectId).filter(Boolean) };
+  }
+  if (filter.createdAfter || filter.createdBefore) {
+    query.createdAt = {
+      ...(filter.createdAfter ? { $gte: filter.createdAfter } : {}),
+      ...(filter.createdBefore ? { $lte: filter.createdBefore } : {}),
+    };
+  }
+  return query;
+}
+
+// Fields the vector index can pre-filter on (declared as "filter" fields in vector_index).
+// Anything else, like the createdAt range, is applied after the search.
+const PREFILTER_FIELDS = ['classification', 'sourceFile', 'profileId'];
+
+function splitVectorFilter(query) {
+  const prefilter = {};
+  const postfilter = {};
+  for (const [field, condition] of Object.entries(query)) {
+    (PREFILTER_FIELDS.includes(field) ? prefilter : postfilter)[field] = condition;
+  }
+  return { prefilter, postfilter };
+}
+
+const SEARCH_PROJECTION = {
+  _id: 0,
+  id: { $toString: "$_id" },
+  classification: 1,
+  description: 1,
+  sourceFile: 1,
+  sourceFiles: 1,
+  createdAt: 1,
+};
+
+function fromDocument(doc) {
+  const { _id, ...rest } = doc;
+  return { id: _id.toString(), ...rest };
+}
+
+/**
+ * MongoDB Atlas store using `$vectorSearch` against a vector index on `embedding`.
+ * @returns {import('./index.mjs').MemoryStore}
+ */
+export function createAtlasStore({
+  uri,
+  dbName = "context",
+  collectionName = "test1",
+  indexName = "vector_index",
+  textIndexName = "text_index",
+}) {
+  const mongoClient = new MongoClient(uri);
+  let collection = null;
+
+  // Connect once and reuse the connection for every call
+  const getCollection = async () => {
+    if (!collection) {
+      await mongoClient.connect();
+      collection = mongoClient.db(dbName).collection(collectionName);
+    }
+    return collection;
+  };
+
+  return {
+    connect: async () => {
+      await getCollection();
+    },
+
+    close: async () => {
+      await mongoClient.close();
+      collection = null;
+    },
+
+    insert: async (doc) => {
+      const { insertedId } = await (await getCollection()).insertOne({ ...doc });
+      return insertedId.toString();
+    },
+
+    insertMany: async (docs) => {
+      if (docs.length === 0) return [];
+      const { insertedIds } = await (await getCollection()).insertMany(docs.map(doc => ({ ...doc })));
+      return Object.values(insertedIds).map(id => id.toString());
+    },
+
+    searchByVector: async (vector, { limit, numCandidates = 50, filter }) => {
+      const { prefilter, postfilter } = splitVectorFilter(toMongoFilter(filter));
+      const hasPostfilter = Object.keys(postfilter).length > 0;
+      // Over-fetch when results are filtered after the search so `limit` can still be met
+      const searchLimit = hasPostfilter ? Math.max(numCandidates, limit) : limit;
+
+      const results = await (await getCollection()).aggregate([
+        {
+          $vectorSearch: {
+            index: indexName,
+            path: "embedding",
+            queryVector: vector,
+            numCandidates: Math.max(numCandidates, searchLimit),
+            limit: searchLimit,
+            ...(Object.keys(prefilter).length ? { filter: prefilter } : {}),
+          }
+        },
+        ...(hasPostfilter ? [{ $match: postfilter }, { $limit: limit }] : []),
+        {
+          $project: {
+            ...SEARCH_PROJECTION,
+            score: { $meta: "vectorSearchScore" }
+          }
+        }
+      ]).toArray();
+      return results;
+    },
+
+    // Full-text search on `description` through an Atlas Search index
+    searchByText: async (query, { limit, filter }) => {
+      const match = toMongoFilter(filter);
+      const results = await (await getCollection()).aggregate([
+        {
+          $search: {
+            index: textIndexName,
+            text: { query, path: "description" },
+          }
+        },
+        ...(Object.keys(match).length ? [{ $match: match }] : []),
+        { $limit: limit },
+        {
+          $project: {
+            ...SEARCH_PROJECTION,
+            score: { $meta: "searchScore" }
+          }
+        }
+      ]).toArray();
+      return results;
+    },
+
+    list: async (filter, { skip = 0, limit = 0, includeEmbedding = false } = {}) => {
+      const docs = await (await getCollection())
+        .find(toMongoFilter(filter), includeEmbedding ? {} : { projection: { embedding: 0 } })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray();
+      return docs.map(fromDocument);
+    },
+
+    count: async (filter) => (await getCollection()).countDocuments(toMongoFilter(filter)),
+
+    listSources: async (filter) => (await getCollection()).aggregate([
+      { $match: toMongoFilter(filter) },
+      { $group: { _id: '$sourceFile', count: { $sum: 1 } } },
+      { $sort: { _id: 1 } },
+      { $project: { _id: 0, sourceFile: '$_id', count: 1 } },
+    ]).toArray(),
+
+    get: async (id, { includeEmbedding = false } = {}) => {
+      const _id = toObjectId(id);
+      const doc = _id && await (await getCollection()).findOne({ _id }, includeEmbedding ? {} : { projection: { embedding: 0 } });
+      return doc ? fromDocument(doc) : null;
+    },
+
+    update: async (id, fields) => {
+      const _id = toObjectId(id);
+      const doc = _id && await (await getCollection()).findOneAndUpdate(
+        { _id },
+        { $set: fields },
+        { returnDocument: 'after', projection: { embedding: 0 } },
+      );
+      return doc ? fromDocument(doc) : null;
+    },
+
+    delete: async (id) => {
+      const _id = toObjectId(id);
+      if (!_id) return false;
+      const { deletedCount } = await (await getCollection()).deleteOne({ _id });
+      return deletedCount > 0;
+    },
+
+    deleteMany: async (filter) => {
+      const query = toMongoFilter(filter);
+      if (Object.keys(query).length === 0) {
+        throw new Error('deleteMany requires a filter');
+      }
+      const { deletedCount } = await (await getCollection()).deleteMany(query);
+      return deletedCount;
+    },
+  };
+}
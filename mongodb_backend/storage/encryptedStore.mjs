@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { bm25Scores } from './lexical.mjs';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+// Stored values start with this, so plaintext written before encryption was enabled still reads
+const PREFIX = 'enc:v1:';
+// Most memories one lexical search decrypts and scores; beyond it only the newest are searched
+export const MAX_LEXICAL_SCAN = 5000;
+
+/**
+ * Generates a key file for `privacy.keyPath`, readable only by its owner. Never overwrites an
+ * existing key: memories encrypted with it would become unreadable.
+ * @returns {string} The path written.
+ */
+export function createEncryptionKey(filePath) {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  try {
+    writeFileSync(filePath, `${randomBytes(KEY_BYTES).toString('base64')}\n`, { flag: 'wx', mode: 0o600 });
+  } catch (error) {
+    if (error.code === 'EEXIST') throw new Error(`${filePath} already exists; refusing to replace an encryption key`);
+    throw error;
+  }
+  return filePath;
+}
+
+/**
+ * Reads the key written by `createEncryptionKey`.
+ * @returns {Buffer}
+ */
+export function loadEncryptionKey(filePath) {
+  let encoded;
+  try {
+    encoded = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`No encryption key at ${filePath}. Create one with: npm run admin -- key create`);
+    }
+    throw error;
+  }
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_BYTES) throw new Error(`${filePath} is not a ${KEY_BYTES * 8}-bit key`);
+  return key;
+}
+
+export function encryptValue(key, plaintext) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+export function decryptValue(key, value) {
+  if (typeof value !== 'string' || !value.startsWith(PREFIX)) return value;
+
+  const bytes = Buffer.from(value.slice(PREFIX.length), 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, bytes.subarray(0, IV_BYTES));
+  decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  try {
+    return Buffer.concat([decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Could not decrypt a stored value; is ENCRYPTION_KEY_PATH the key it was encrypted with?');
+  }
+}
+
+export function isEncrypted(value) {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypts each memory's `description` at rest with AES-256-GCM; reads decrypt it again, so
+ * callers never see ciphertext. Everything else (classification, source, embedding) stays
+ * queryable. The underlying store cannot match text it cannot read, so lexical search lists
+ * the vault, decrypts it and scores the descriptions in-process with BM25, as the local store
+ * does; on Atlas this replaces the text index with a scan of up to `maxLexicalScan` memories
+ * per query.
+ * @param {import('./index.mjs').MemoryStore} store
+ * @param {Buffer} key
+ * @param {object} [options]
+ * @param {number} [options.maxLexicalScan] Newest memories a lexical search considers.
+ * @returns {import('./index.mjs').MemoryStore}
+ */
+export function encryptStore(store, key, { maxLexicalScan = MAX_LEXICAL_SCAN } = {}) {
+  let warnedAboutScan = false;
+  const encrypt = (doc) => (typeof doc.description === 'string'
+    ? { ...doc, description: encryptValue(key, doc.description) }
+    : doc);
+  const decrypt = (doc) => doc && { ...doc, description: decryptValue(key, doc.description) };
+
+  return {
+    connect: () => store.connect(),
+    close: () => store.close(),
+
+    insert: (doc) => store.insert(encrypt(doc)),
+    insertMany: (docs) => store.insertMany(docs.map(encrypt)),
+
+    searchByVector: async (vector, options) => (await store.searchByVector(vector, options)).map(decrypt),
+
+    searchByText: async (query, { limit, filter }) => {
+      const candidates = (await store.list(filter, { limit: maxLexicalScan })).map(decrypt);
+      if (candidates.length === maxLexicalScan && !warnedAboutScan) {
+        warnedAboutScan = true;
+        console.warn(`Encrypted vault: lexical search only scans the newest ${maxLexicalScan} memories; older ones are found by vector search alone.`);
+      }
+      const scores = bm25Scores(query, candidates.map(doc => ({ text: doc.description })));
+      return candidates
+        .map(({ id, classification, description, sourceFile, sourceFiles, createdAt }, index) => ({
+          id, classification, description, sourceFile, ...(sourceFiles && { sourceFiles }), createdAt, score: scores[index],
+        }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    list: async (filter, options) => (await store.list(filter, options)).map(decrypt),
+    count: (filter) => store.count(filter),
+    listSources: (filter) => store.listSources(filter),
+
+    get: async (id, options) => decrypt(await store.get(id, options)),
+    update: async (id, fields) => decrypt(await store.update(id, encrypt(fields))),
+    delete: (id) => store.delete(id),
+    deleteMany: (filter) => store.deleteMany(filter),
+  };
+}
+
+/**
+ * Encrypts the text of session reports: the question sentences taken from the transcript
+ * (`questions[].text`) and the memory descriptions copied into `surfacedMemories`, which would
+ * otherwise keep a plaintext record of the interview. Reports hold no other transcript text;
+ * timings, scores, categories and memory ids stay readable for the analytics.
+ * @param {import('./sessionStore.mjs').SessionStore} sessions
+ * @param {Buffer} key
+ * @returns {import('./sessionStore.mjs').SessionStore}
+ */
+export function encryptSessionStore(sessions, key) {
+  const mapField = (items, field, fn) => (Array.isArray(items)
+    ? items.map(item => ({ ...item, [field]: fn(key, item[field]) }))
+    : items);
+  const mapReport = (doc, fn) => ({
+    ...doc,
+    questions: mapField(doc.questions, 'text', fn),
+    surfacedMemories: mapField(doc.surfacedMemories, 'description', fn),
+  });
+
+  return {
+    connect: () => sessions.connect(),
+    close: () => sessions.close(),
+    insert: (doc) => sessions.insert(mapReport(doc, encryptValue)),
+    list: async (filter, options) => (await sessions.list(filter, options)).map(doc => mapReport(doc, decryptValue)),
+  };
+}
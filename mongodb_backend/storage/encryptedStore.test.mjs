@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { encryptSessionStore, encryptStore, isEncrypted } from './encryptedStore.mjs';
+import { createLocalStore } from './localStore.mjs';
+import { createLocalSessionStore } from './sessionStore.mjs';
+
+const memory = (description, createdAt = new Date().toISOString()) => ({
+  classification: 'achievement',
+  description,
+  sourceFile: 'resume.md',
+  createdAt,
+  embedding: [1, 0],
+});
+
+describe('encrypted memory store', () => {
+  const key = randomBytes(32);
+  let dir;
+  let filePath;
+  let plain;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oncue-encrypted-store-'));
+    filePath = path.join(dir, 'memories.json');
+    plain = createLocalStore({ filePath });
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await plain.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores descriptions encrypted and reads them back in the clear', async () => {
+    const store = encryptStore(plain, key);
+    const id = await store.insert(memory('Negotiated a 20% raise at Initech'));
+
+    const saved = JSON.parse(await readFile(filePath, 'utf8'));
+    assert.ok(isEncrypted(saved[0].description));
+    assert.ok(!JSON.stringify(saved).includes('Initech'));
+    assert.equal((await store.get(id)).description, 'Negotiated a 20% raise at Initech');
+  });
+
+  it('matches text in the decrypted descriptions', async () => {
+    const store = encryptStore(plain, key);
+    await store.insertMany([memory('Migrated billing to Kafka'), memory('Mentored two junior engineers')]);
+
+    const results = await store.searchByText('kafka', { limit: 5 });
+    assert.deepEqual(results.map(result => result.description), ['Migrated billing to Kafka']);
+  });
+
+  it('caps the lexical scan at the newest memories and warns once', async () => {
+    const warn = mock.method(console, 'warn', () => {});
+    const store = encryptStore(plain, key, { maxLexicalScan: 2 });
+    await store.insertMany([
+      memory('Kafka consumer rewrite', '2023-01-01T00:00:00.000Z'),
+      memory('Kafka partitioner', '2024-01-01T00:00:00.000Z'),
+      memory('Kafka upgrade', '2025-01-01T00:00:00.000Z'),
+    ]);
+
+    const results = await store.searchByText('kafka', { limit: 5 });
+    await store.searchByText('kafka', { limit: 5 });
+
+    assert.deepEqual(results.map(result => result.description).sort(), ['Kafka partitioner', 'Kafka upgrade']);
+    assert.equal(warn.mock.callCount(), 1);
+  });
+});
+
+describe('encrypted session store', () => {
+  const key = randomBytes(32);
+  let dir;
+  let filePath;
+  let sessions;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oncue-encrypted-sessions-'));
+    filePath = path.join(dir, 'sessions.json');
+    sessions = createLocalSessionStore({ filePath });
+  });
+
+  afterEach(async () => {
+    await sessions.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('encrypts question text and surfaced descriptions, and keeps the numbers readable', async () => {
+    const store = encryptSessionStore(sessions, key);
+    const report = {
+      profileId: 'default',
+      startedAt: '2025-01-01T10:00:00.000Z',
+      durationMs: 60000,
+      questions: [{ text: 'How did Priscilla Vance rate your work?', startMs: 1000, memoryIds: ['m1'], isGap: false }],
+      surfacedMemories: [{ id: 'm1', description: 'Promoted by Priscilla Vance', bestScore: 0.9 }],
+    };
+    await store.insert(report);
+
+    const saved = await readFile(filePath, 'utf8');
+    assert.ok(!saved.includes('Priscilla'));
+    const [stored] = JSON.parse(saved);
+    assert.ok(isEncrypted(stored.questions[0].text));
+    assert.equal(stored.questions[0].startMs, 1000);
+    assert.equal(stored.surfacedMemories[0].bestScore, 0.9);
+
+    const [listed] = await store.list({ profileId: 'default' });
+    assert.deepEqual(listed.questions, report.questions);
+    assert.deepEqual(listed.surfacedMemories, report.surfacedMemories);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createAtlasStore } from './atlasStore.mjs';
+import { encryptSessionStore, encryptStore, loadEncryptionKey } from './encryptedStore.mjs';
+import { createLocalStore } from './localStore.mjs';
+import { scopeStore } from './scopedStore.mjs';
+import { createAtlasSessionStore, createLocalSessionStore } from './sessionStore.mjs';
+
+/**
+ * @typedef {object} MemoryFilter
+ * @property {string[]} [classification] Match any of these classifications.
+ * @property {string} [sourceFile] Matches `sourceFile` or any entry of `sourceFiles`.
+ * @property {string} [profileId] The vault namespace; see scopedStore.mjs.
+ * @property {string[]} [ids]
+ * @property {string} [createdAfter] ISO timestamp, inclusive.
+ * @property {string} [createdBefore] ISO timestamp, inclusive.
+ */
+
+/**
+ * @typedef {object} StoredMemory
+ * @property {string} id
+ * @property {string} classification
+ * @property {string} description
+ * @property {string} sourceFile
+ * @property {string[]} [sourceFiles] Every file the memory was saved from, once it has been found
+ *   as a duplicate or merged; see dedupe.mjs.
+ * @property {string[]} [mergedFrom] Ids of memories merged into this one.
+ * @property {string} createdAt
+ * @property {string} [profileId] Owning profile; absent on memories stored before profiles existed.
+ * @property {number[]} [embedding] Only present when requested with `includeEmbedding`.
+ * @property {string} [embeddingModel] Model that produced `embedding`; absent on documents stored before versioning.
+ * @property {number} [embeddingDim]
+ */
+
+/**
+ * @typedef {object} MemoryStore
+ * @property {() => Promise<void>} connect
+ * @property {() => Promise<void>} close
+ * @property {(doc: object) => Promise<string>} insert Returns the new id.
+ * @property {(docs: object[]) => Promise<string[]>} insertMany
+ * @property {(vector: number[], options: { limit: number, numCandidates?: number, filter?: MemoryFilter }) => Promise<Array<StoredMemory & { score: number }>>} searchByVector
+ *   Scores are in [0, 1], where 1 is identical (Atlas' cosine `vectorSearchScore` scale).
+ * @property {(query: string, options: { limit: number, filter?: MemoryFilter }) => Promise<Array<StoredMemory & { score: number }>>} searchByText
+ *   Lexical relevance on `description`; scores are unbounded and only comparable within one call.
+ * @property {(filter?: MemoryFilter, options?: { skip?: number, limit?: number, includeEmbedding?: boolean }) => Promise<StoredMemory[]>} list
+ *   Newest first.
+ * @property {(filter?: MemoryFilter) => Promise<number>} count
+ * @property {(filter?: MemoryFilter) => Promise<Array<{ sourceFile: string, count: number }>>} listSources
+ * @property {(id: string, options?: { includeEmbedding?: boolean }) => Promise<StoredMemory | null>} get
+ * @property {(id: string, fields: object) => Promise<StoredMemory | null>} update
+ *   Sets the given fields; returns the updated memory, or null if it does not exist.
+ * @property {(id: string) => Promise<boolean>} delete
+ * @property {(filter: MemoryFilter) => Promise<number>} deleteMany
+ */
+
+/**
+ * Creates the memory store selected by `storage.driver` (see config.mjs):
+ * - atlas (default when MONGO_DB_URI is set): MongoDB Atlas Vector Search
+ * - local: a JSON file with exact in-process cosine search (LOCAL_STORE_PATH)
+ *
+ * With `privacy.encryption` on, descriptions are encrypted at rest (see encryptedStore.mjs).
+ * @returns {MemoryStore}
+ */
+export function createStoreFromConfig(config) {
+  const store = createDriverStore(config.storage);
+  return config.privacy.encryption === 'off' ? store : encryptStore(store, loadEncryptionKey(config.privacy.keyPath));
+}
+
+function createDriverStore({ driver, mongoUri, dbName, collection, vectorIndex, textIndex, localPath }) {
+
+  switch (driver) {
+    case 'atlas':
+      return createAtlasStore({
+        uri: mongoUri,
+        dbName,
+        collectionName: collection,
+        indexName: vectorIndex,
+        textIndexName: textIndex,
+      });
+    case 'local':
+      return createLocalStore({ filePath: localPath });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "atlas" or "local".`);
+  }
+}
+
+/**
+ * Creates the session report store for the same driver as `createStoreFromConfig`
+ * (SESSIONS_STORE_PATH for the local driver), encrypted the same way.
+ * @returns {import('./sessionStore.mjs').SessionStore}
+ */
+export function createSessionStoreFromConfig(config) {
+  const sessions = createDriverSessionStore(config.storage);
+  return config.privacy.encryption === 'off' ? sessions : encryptSessionStore(sessions, loadEncryptionKey(config.privacy.keyPath));
+}
+
+function createDriverSessionStore({ driver, mongoUri, dbName, sessionsCollection, sessionsPath }) {
+
+  switch (driver) {
+    case 'atlas':
+      return createAtlasSessionStore({ uri: mongoUri, dbName, collectionName: sessionsCollection });
+    case 'local':
+      return createLocalSessionStore({ filePath: sessionsPath });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "atlas" or "local".`);
+  }
+}
+
+export { createAtlasStore, createLocalStore, scopeStore };
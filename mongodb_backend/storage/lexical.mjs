@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why',
+  'with', 'you', 'your',
+]);
+
+/**
+ * Lowercases and splits text into terms, dropping stop words. Keeps tokens like
+ * "c++", "node.js" and "ci/cd" intact so technology names match exactly.
+ */
+export function tokenize(text) {
+  return (String(text).toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}+#./-]*/gu) ?? [])
+    .map(token => token.replace(/[./-]+$/, ''))
+    .filter(token => token && !STOP_WORDS.has(token));
+}
+
+/**
+ * Scores documents against a query with BM25.
+ * @param {string} query
+ * @param {Array<{ text: string }>} docs
+ * @returns {number[]} One score per document (0 when no query term matches).
+ */
+export function bm25Scores(query, docs) {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || docs.length === 0) return docs.map(() => 0);
+
+  const docTerms = docs.map(doc => tokenize(doc.text));
+  const avgLength = docTerms.reduce((sum, terms) => sum + terms.length, 0) / docs.length || 1;
+
+  const documentFrequency = new Map(queryTerms.map(term => [
+    term,
+    docTerms.filter(terms => terms.includes(term)).length,
+  ]));
+
+  return docTerms.map(terms => {
+    const termCounts = new Map();
+    for (const term of terms) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+
+    return queryTerms.reduce((score, term) => {
+      const frequency = termCounts.get(term) ?? 0;
+      if (frequency === 0) return score;
+      const df = documentFrequency.get(term);
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      return score + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * terms.length / avgLength));
+    }, 0);
+  });
+}
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { cosineScore } from '../embeddings.mjs';
+import { bm25Scores } from './lexical.mjs';
+
+// Mirrors the $project stage of the Atlas search pipeline
+function toSearchResult(doc, score) {
+  const { id, classification, description, sourceFile, sourceFiles, createdAt } = doc;
+  return { id, classification, description, sourceFile, ...(sourceFiles && { sourceFiles }), createdAt, score };
+}
+
+function matches(doc, filter = {}) {
+  if (filter.classification?.length && !filter.classification.includes(doc.classification)) return false;
+  if (filter.sourceFile && doc.sourceFile !== filter.sourceFile && !doc.sourceFiles?.includes(filter.sourceFile)) return false;
+  if (filter.profileId && doc.profileId !== filter.profileId) return false;
+  if (filter.ids && !filter.ids.includes(doc.id)) return false;
+  if (filter.createdAfter && !(doc.createdAt >= filter.createdAfter)) return false;
+  if (filter.createdBefore && !(doc.createdAt <= filter.createdBefore)) return false;
+  return true;
+}
+
+function withoutEmbedding(doc) {
+  const { embedding, ...rest } = doc;
+  return rest;
+}
+
+function newestFirst(a, b) {
+  return (b.createdAt ?? '').localeCompare(a.createdAt ?? '');
+}
+
+/**
+ * Embedded store for development without an Atlas cluster. Memories live in a
+ * single JSON file and searches are exact cosine scans in-process.
+ * @returns {import('./index.mjs').MemoryStore}
+ */
+export function createLocalStore({ filePath }) {
+  /** @type {Map<string, object> | null} */
+  let docs = null;
+  // Serialize writes so concurrent requests never interleave file updates
+  let writeQueue = Promise.resolve();
+
+  const load = async () => {
+    if (docs) return docs;
+    try {
+      const parsed = JSON.parse(await readFile(filePath, 'utf8'));
+      docs = new Map(parsed.map(doc => [doc.id, doc]));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      docs = new Map();
+    }
+    return docs;
+  };
+
+  const persist = () => {
+    const write = writeQueue.then(async () => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify([...docs.values()]));
+      await rename(tmpPath, filePath);
+    });
+    // A failed write rejects only for its own caller; the writes queued after it still run
+    writeQueue = write.catch(() => {});
+    return write;
+  };
+
+  const newId = () => randomBytes(12).toString('hex');
+
+  return {
+    connect: async () => {
+      await load();
+      console.log(`Using local memory store at ${filePath}`);
+    },
+
+    close: async () => {
+      await writeQueue;
+    },
+
+    insert: async (doc) => {
+      const store = await load();
+      const id = newId();
+      store.set(id, { ...doc, id });
+      await persist();
+      return id;
+    },
+
+    insertMany: async (newDocs) => {
+      const store = await load();
+      const ids = newDocs.map(doc => {
+        const id = newId();
+        store.set(id, { ...doc, id });
+        return id;
+      });
+      await persist();
+      return ids;
+    },
+
+    searchByVector: async (vector, { limit, filter }) => {
+      const store = await load();
+      return [...store.values()]
+        // Vectors from a different embedding model can't be compared with the query
+        .filter(doc => doc.embedding?.length === vector.length && matches(doc, filter))
+        .map(doc => toSearchResult(doc, cosineScore(vector, doc.embedding)))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    searchByText: async (query, { limit, filter }) => {
+      const candidates = [...(await load()).values()].filter(doc => matches(doc, filter));
+      const scores = bm25Scores(query, candidates.map(doc => ({ text: doc.description })));
+      return candidates
+        .map((doc, index) => toSearchResult(doc, scores[index]))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    list: async (filter, { skip = 0, limit = 0, includeEmbedding = false } = {}) => {
+      const store = await load();
+      const sorted = [...store.values()].filter(doc => matches(doc, filter)).sort(newestFirst);
+      const page = sorted.slice(skip, limit ? skip + limit : undefined);
+      return includeEmbedding ? page.map(doc => ({ ...doc })) : page.map(withoutEmbedding);
+    },
+
+    count: async (filter) => {
+      const store = await load();
+      return [...store.values()].filter(doc => matches(doc, filter)).length;
+    },
+
+    listSources: async (filter) => {
+      const store = await load();
+      const counts = new Map();
+      for (const doc of [...store.values()].filter(doc => matches(doc, filter))) {
+        counts.set(doc.sourceFile, (counts.get(doc.sourceFile) ?? 0) + 1);
+      }
+      return [...counts.entries()]
+        .sort(([a], [b]) => String(a).localeCompare(String(b)))
+        .map(([sourceFile, count]) => ({ sourceFile, count }));
+    },
+
+    get: async (id, { includeEmbedding = false } = {}) => {
+      const doc = (await load()).get(id);
+      if (!doc) return null;
+      return includeEmbedding ? { ...doc } : withoutEmbedding(doc);
+    },
+
+    update: async (id, fields) => {
+      const store = await load();
+      const doc = store.get(id);
+      if (!doc) return null;
+      const updated = { ...doc, ...fields, id };
+      store.set(id, updated);
+      await persist();
+      return withoutEmbedding(updated);
+    },
+
+    delete: async (id) => {
+      const store = await load();
+      const deleted = store.delete(id);
+      if (deleted) await persist();
+      return deleted;
+    },
+
+    deleteMany: async (filter = {}) => {
+      if (!filter.classification?.length && !filter.sourceFile && !filter.profileId && !filter.ids && !filter.createdAfter && !filter.createdBefore) {
+        throw new Error('deleteMany requires a filter');
+      }
+      const store = await load();
+      let deletedCount = 0;
+      for (const doc of [...store.values()]) {
+        if (matches(doc, filter)) {
+          store.delete(doc.id);
+          deletedCount++;
+        }
+      }
+      if (deletedCount) await persist();
+      return deletedCount;
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { createLocalStore } from './localStore.mjs';
+
+const memory = (description, fields = {}) => ({
+  classification: 'achievement',
+  description,
+  sourceFile: 'resume.md',
+  createdAt: new Date().toISOString(),
+  embedding: [1, 0],
+  ...fields,
+});
+
+describe('local store', () => {
+  let dir;
+  let filePath;
+  let store;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'oncue-local-store-'));
+    filePath = path.join(dir, 'memories.json');
+    store = createLocalStore({ filePath });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists inserted memories to the file', async () => {
+    const id = await store.insert(memory('Led the billing migration'));
+
+    const saved = JSON.parse(await readFile(filePath, 'utf8'));
+    assert.deepEqual(saved.map(doc => doc.id), [id]);
+    assert.equal((await createLocalStore({ filePath }).get(id)).description, 'Led the billing migration');
+  });
+
+  it('lists newest first, filtered and without embeddings', async () => {
+    await store.insertMany([
+      memory('Older', { createdAt: '2024-01-01T00:00:00.000Z' }),
+      memory('Newer', { createdAt: '2025-01-01T00:00:00.000Z' }),
+      memory('Skill', { classification: 'skill' }),
+    ]);
+
+    const achievements = await store.list({ classification: ['achievement'] });
+    assert.deepEqual(achievements.map(doc => doc.description), ['Newer', 'Older']);
+    assert.ok(achievements.every(doc => !('embedding' in doc)));
+    assert.equal(await store.count({}), 3);
+  });
+
+  it('ranks lexical matches and drops memories without any', async () => {
+    await store.insertMany([
+      memory('Migrated billing to Kafka'),
+      memory('Mentored two junior engineers'),
+      memory('Cut Kafka consumer lag by rewriting the Kafka partitioner'),
+    ]);
+
+    const results = await store.searchByText('kafka', { limit: 5 });
+    assert.deepEqual(results.map(result => result.description), [
+      'Cut Kafka consumer lag by rewriting the Kafka partitioner',
+      'Migrated billing to Kafka',
+    ]);
+    assert.ok(results.every(result => result.score > 0));
+  });
+
+  it('deletes single memories and by filter', async () => {
+    const [first] = await store.insertMany([
+      memory('From the resume'),
+      memory('From the notes', { sourceFile: 'notes.md' }),
+      memory('Also from the notes', { sourceFile: 'notes.md' }),
+    ]);
+
+    assert.equal(await store.delete(first), true);
+    assert.equal(await store.delete(first), false);
+    assert.equal(await store.deleteMany({ sourceFile: 'notes.md' }), 2);
+    assert.equal(await store.count({}), 0);
+    await assert.rejects(() => store.deleteMany({}), /requires a filter/);
+  });
+
+  it('keeps writing after a failed write', async () => {
+    const blockedPath = path.join(dir, 'blocked');
+    store = createLocalStore({ filePath: path.join(blockedPath, 'memories.json') });
+    await store.connect();
+
+    // A file where the store's directory should be makes the next write fail
+    await writeFile(blockedPath, '');
+    await assert.rejects(() => store.insert(memory('Lost')));
+
+    await rm(blockedPath);
+    const id = await store.insert(memory('Saved'));
+    assert.equal((await store.get(id)).description, 'Saved');
+  });
+});
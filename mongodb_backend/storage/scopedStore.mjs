@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Restricts a store to one profile's vault: inserts are stamped with `profileId`, every
+ * query is filtered by it, and ids belonging to another profile behave as if they did not
+ * exist. The underlying store's connection is shared, so `connect` and `close` are no-ops.
+ * @param {import('./index.mjs').MemoryStore} store
+ * @param {string} profileId
+ * @returns {import('./index.mjs').MemoryStore}
+ */
+export function scopeStore(store, profileId) {
+  const scoped = (filter = {}) => ({ ...filter, profileId });
+  const owned = async (id) => {
+    const doc = await store.get(id);
+    return doc?.profileId === profileId;
+  };
+
+  return {
+    connect: async () => {},
+    close: async () => {},
+
+    insert: (doc) => store.insert({ ...doc, profileId }),
+    insertMany: (docs) => store.insertMany(docs.map(doc => ({ ...doc, profileId }))),
+
+    searchByVector: (vector, options) => store.searchByVector(vector, { ...options, filter: scoped(options.filter) }),
+    searchByText: (query, options) => store.searchByText(query, { ...options, filter: scoped(options.filter) }),
+    list: (filter, options) => store.list(scoped(filter), options),
+    count: (filter) => store.count(scoped(filter)),
+    listSources: (filter) => store.listSources(scoped(filter)),
+
+    get: async (id, options) => {
+      const doc = await store.get(id, options);
+      return doc?.profileId === profileId ? doc : null;
+    },
+
+    update: async (id, fields) => {
+      if (!(await owned(id))) return null;
+      const { profileId: _ignored, ...rest } = fields;
+      return store.update(id, rest);
+    },
+
+    delete: async (id) => (await owned(id)) && store.delete(id),
+
+    deleteMany: (filter = {}) => {
+      // The profile alone is not a filter: never wipe a whole vault by accident
+      if (Object.keys(filter).length === 0) {
+        throw new Error('deleteMany requires a filter');
+      }
+      return store.deleteMany(scoped(filter));
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { MongoClient } from 'mongodb';
+
+/**
+ * @typedef {object} SessionStore
+ * @property {() => Promise<void>} connect
+ * @property {() => Promise<void>} close
+ * @property {(doc: object) => Promise<string>} insert Returns the new id.
+ * @property {(filter: { profileId: string }, options?: { limit?: number }) => Promise<object[]>} list
+ *   Newest first (by `startedAt`).
+ */
+
+/**
+ * Session reports in a MongoDB collection next to the memories.
+ * @returns {SessionStore}
+ */
+export function createAtlasSessionStore({ uri, dbName = "context", collectionName = "sessions" }) {
+  const mongoClient = new MongoClient(uri);
+  let collection = null;
+
+  const getCollection = async () => {
+    if (!collection) {
+      await mongoClient.connect();
+      collection = mongoClient.db(dbName).collection(collectionName);
+    }
+    return collection;
+  };
+
+  return {
+    connect: async () => {
+      await getCollection();
+    },
+
+    close: async () => {
+      await mongoClient.close();
+      collection = null;
+    },
+
+    insert: async (doc) => {
+      const { insertedId } = await (await getCollection()).insertOne({ ...doc });
+      return insertedId.toString();
+    },
+
+    list: async ({ profileId }, { limit = 0 } = {}) => {
+      const docs = await (await getCollection())
+        .find({ profileId })
+        .sort({ startedAt: -1 })
+        .limit(limit)
+        .toArray();
+      return docs.map(({ _id, ...rest }) => ({ id: _id.toString(), ...rest }));
+    },
+  };
+}
+
+/**
+ * Session reports in a JSON file, for the local storage driver.
+ * @returns {SessionStore}
+ */
+export function createLocalSessionStore({ filePath }) {
+  let docs = null;
+  let writeQueue = Promise.resolve();
+
+  const load = async () => {
+    if (docs) return docs;
+    try {
+      docs = JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      docs = [];
+    }
+    return docs;
+  };
+
+  const persist = () => {
+    const write = writeQueue.then(async () => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(docs));
+      await rename(tmpPath, filePath);
+    });
+    // A failed write rejects only for its own caller; the writes queued after it still run
+    writeQueue = write.catch(() => {});
+    return write;
+  };
+
+  return {
+    connect: async () => {
+      await load();
+    },
+
+    close: async () => {
+      await writeQueue;
+    },
+
+    insert: async (doc) => {
+      const id = randomBytes(12).toString('hex');
+      (await load()).push({ ...doc, id });
+      await persist();
+      return id;
+    },
+
+    list: async ({ profileId }, { limit = 0 } = {}) => {
+      const sorted = (await load())
+        .filter(doc => doc.profileId === profileId)
+        .sort((a, b) => (b.startedAt ?? '').localeCompare(a.startedAt ?? ''));
+      return limit ? sorted.slice(0, limit) : sorted;
+    },
+  };
+}